@@ -31,6 +31,9 @@ export const XP_SOURCES = {
   // HIGH_ODDS_BONUS is calculated dynamically based on odds
   // Formula: (odds - 5) * 5 XP, capped at 200 XP
   HIGH_ODDS_BONUS: 0, // Placeholder, actual value calculated dynamically
+
+  // Revoked XP is the amount awarded before (see XPLevelService.revokeXP)
+  XP_REVOKED: 0,
 };
 
 /**
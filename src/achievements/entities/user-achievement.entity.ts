@@ -34,6 +34,10 @@ export class UserAchievement {
   @Column({ type: 'boolean', default: false })
   notificationSent: boolean;
 
+  @Column({ type: 'uuid', nullable: true })
+  @Index()
+  bettingWeekId: string | null; // Week whose finalization unlocked it (rollback)
+
   @Column({ type: 'timestamptz', nullable: true })
   revokedAt: Date | null;
 
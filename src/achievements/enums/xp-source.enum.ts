@@ -18,4 +18,5 @@ export enum XPSource {
   HIGH_ODDS_BONUS = 'HIGH_ODDS_BONUS',
   PERFECT_WEEK_BONUS = 'PERFECT_WEEK_BONUS',
   COMEBACK_BONUS = 'COMEBACK_BONUS',
+  XP_REVOKED = 'XP_REVOKED', // Negative entry, e.g. week finalization rolled back
 }
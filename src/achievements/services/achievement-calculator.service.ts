@@ -86,8 +86,10 @@ export class AchievementCalculatorService {
 
   /**
    * Listen to race.created events and check racing achievements for competitors
+   * Throws after checking every user if one failed, so the outbox retries
+   * the event (already unlocked achievements are skipped on retry)
    */
-  @OnEvent('race.created')
+  @OnEvent('race.created', { suppressErrors: false })
   async handleRaceCreated(event: RaceCreatedEvent): Promise<void> {
     const race = event.race;
     if (!race.results || race.results.length === 0) return;
@@ -101,6 +103,7 @@ export class AchievementCalculatorService {
       where: competitorIds.map((cid) => ({ competitorId: cid })),
     });
 
+    const failedUserIds: string[] = [];
     for (const user of users) {
       try {
         this.logger.log(
@@ -120,22 +123,29 @@ export class AchievementCalculatorService {
         this.logger.error(
           `Failed to check racing achievements for user ${user.id}: ${error instanceof Error ? error.message : 'Unknown error'}`,
         );
+        failedUserIds.push(user.id);
       }
     }
+
+    if (failedUserIds.length > 0) {
+      throw new Error(
+        `Racing achievements check failed for users ${failedUserIds.join(', ')}`,
+      );
+    }
   }
 
   /**
    * Check and unlock achievements for a user
    *
    * @param userId - User ID
-   * @param context - Bet finalized context (optional, for optimization)
+   * @param context - Bet finalized context (optional), its week is
+   * recorded on the unlocks so a rollback of the week can revoke them
    * @returns List of newly unlocked achievements
    */
 
   async checkAchievements(
     userId: string,
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    _context?: BetFinalizedContext,
+    context?: BetFinalizedContext,
   ): Promise<AchievementUnlockResult[]> {
     // Get user stats
     const userStats = await this.getUserStats(userId);
@@ -200,6 +210,7 @@ export class AchievementCalculatorService {
           achievementId: achievement.id,
           unlockedAt: new Date(),
           notificationSent: false,
+          bettingWeekId: context?.weekId ?? null,
         });
 
         await this.userAchievementRepository.save(userAchievement);
@@ -1,6 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
 import { User } from '../../users/user.entity';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { XP_SOURCES, LEVEL_FORMULA } from '../config/xp-sources.config';
@@ -109,6 +109,96 @@ export class XPLevelService {
     return await this.userRepository.save(user);
   }
 
+  /**
+   * Take back XP from a user. The level can go down; level up bonuses
+   * already received are kept.
+   *
+   * @param userId - User ID
+   * @param amount - XP amount to take back
+   * @param relatedEntityId - Optional related entity ID
+   * @param description - Optional description
+   * @param em - Entity manager of an outer transaction (optional)
+   * @returns Updated user
+   */
+  async revokeXP(
+    userId: string,
+    amount: number,
+    relatedEntityId: string | null = null,
+    description: string | null = null,
+    em?: EntityManager,
+  ): Promise<User> {
+    const manager = em ?? this.userRepository.manager;
+    const user = await manager.findOne(User, {
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new Error(`User ${userId} not found`);
+    }
+
+    const previousXP = user.xp;
+    user.xp = Math.max(0, user.xp - amount);
+    user.level = this.calculateLevel(user.xp);
+
+    await manager.save(XPHistory, {
+      userId,
+      xpAmount: user.xp - previousXP,
+      source: XPSource.XP_REVOKED,
+      relatedEntityId,
+      description,
+    });
+
+    this.logger.log(
+      `User ${userId} lost ${previousXP - user.xp} XP (${previousXP} → ${user.xp})`,
+    );
+
+    return await manager.save(user);
+  }
+
+  /**
+   * Take back the XP still held for some entities (net of earlier
+   * revocations), per user and entity
+   *
+   * @param relatedEntityIds - Entity IDs the XP was awarded for (bet IDs...)
+   * @param description - Description of the revocation
+   * @param em - Entity manager of an outer transaction (optional)
+   * @returns Total XP revoked
+   */
+  async revokeXPForEntities(
+    relatedEntityIds: string[],
+    description: string,
+    em?: EntityManager,
+  ): Promise<number> {
+    if (relatedEntityIds.length === 0) return 0;
+
+    const manager = em ?? this.xpHistoryRepository.manager;
+    const history = await manager.find(XPHistory, {
+      where: { relatedEntityId: In(relatedEntityIds) },
+    });
+
+    const netXP = new Map<string, number>();
+    for (const entry of history) {
+      const key = `${entry.userId}:${entry.relatedEntityId}`;
+      netXP.set(key, (netXP.get(key) ?? 0) + entry.xpAmount);
+    }
+
+    let total = 0;
+    for (const [key, amount] of netXP) {
+      if (amount <= 0) continue;
+      const [userId, relatedEntityId] = key.split(':');
+      await this.revokeXP(
+        userId,
+        amount,
+        relatedEntityId,
+        description,
+        manager,
+      );
+      total += amount;
+    }
+
+    return total;
+  }
+
   /**
    * Calculate level based on total XP
    *
@@ -2,12 +2,20 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
+  Put,
+  Delete,
   Body,
   Param,
   Query,
   UseGuards,
   NotFoundException,
+  BadRequestException,
+  HttpCode,
+  HttpStatus,
+  ForbiddenException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import {
   ApiTags,
   ApiOperation,
@@ -18,16 +26,38 @@ import {
 } from '@nestjs/swagger';
 import { BettingService } from './betting.service';
 import { PlaceBetDto } from './dto/place-bet.dto';
+import { UpdateBetDto } from './dto/update-bet.dto';
+import { PlaceMarketBetDto } from './dto/place-market-bet.dto';
 import { CreateBettingWeekDto } from './dto/create-betting-week.dto';
 import { QueryBettingDto } from './dto/query-betting.dto';
+import { FinalizationPodiumDto } from './dto/finalization-podium.dto';
+import { DraftRulesetDto } from './dto/draft-ruleset.dto';
+import { CreateLeagueDto } from './dto/create-league.dto';
+import { JoinLeagueDto } from './dto/join-league.dto';
+import { PlaceDailyBetDto } from './dto/place-daily-bet.dto';
+import { PlaceAccumulatorDto } from './dto/place-accumulator.dto';
+import {
+  ObjectPodiumOverrideDto,
+  ProposePodiumOverrideDto,
+} from './dto/podium-override.dto';
 import { ClerkGuard } from '../auth/clerk.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { Public } from '../auth/decorators/public.decorator';
 import { UsersService } from '../users/users.service';
 import { OddsCalculatorService } from './services/odds-calculator.service';
 import { RankingsService } from './services/rankings.service';
+import { RulesetService } from './services/ruleset.service';
+import { LeaguesService } from './services/leagues.service';
+import { DailyBettingService } from './services/daily-betting.service';
+import { AccumulatorService } from './services/accumulator.service';
+import { PodiumOverrideService } from './services/podium-override.service';
+import {
+  BettingFinalizerService,
+  PodiumResult,
+} from './services/betting-finalizer.service';
 import { PaginationQueryDto } from '../common';
 import { QueryCommunityBetsDto } from './dto/query-community-bets.dto';
+import { GLOBAL_POOL } from '../rating/config/rating-pools.config';
 
 @ApiTags('betting')
 @ApiBearerAuth()
@@ -39,8 +69,25 @@ export class BettingController {
     private readonly usersService: UsersService,
     private readonly oddsCalculatorService: OddsCalculatorService,
     private readonly rankingsService: RankingsService,
+    private readonly bettingFinalizerService: BettingFinalizerService,
+    private readonly rulesetService: RulesetService,
+    private readonly leaguesService: LeaguesService,
+    private readonly dailyBettingService: DailyBettingService,
+    private readonly accumulatorService: AccumulatorService,
+    private readonly podiumOverrideService: PodiumOverrideService,
+    private readonly configService: ConfigService,
   ) {}
 
+  /**
+   * Helper method to check the ADMIN_SECRET query parameter of admin routes
+   */
+  private assertAdminSecret(secret: string): void {
+    const adminSecret = this.configService.get<string>('ADMIN_SECRET');
+    if (!adminSecret || secret !== adminSecret) {
+      throw new ForbiddenException('Invalid admin secret');
+    }
+  }
+
   /**
    * Helper method to get userId from clerkId
    */
@@ -52,6 +99,26 @@ export class BettingController {
     return user.id;
   }
 
+  /**
+   * Helper method to read a manual podium (undefined when not supplied)
+   */
+  private toPodium(dto: FinalizationPodiumDto): PodiumResult | undefined {
+    const { podiumFirstId, podiumSecondId, podiumThirdId } = dto;
+    if (!podiumFirstId && !podiumSecondId && !podiumThirdId) {
+      return undefined;
+    }
+    if (!podiumFirstId || !podiumSecondId || !podiumThirdId) {
+      throw new BadRequestException(
+        'podiumFirstId, podiumSecondId and podiumThirdId must all be supplied',
+      );
+    }
+    return {
+      firstId: podiumFirstId,
+      secondId: podiumSecondId,
+      thirdId: podiumThirdId,
+    };
+  }
+
   /**
    * Get current open week
    */
@@ -107,12 +174,66 @@ export class BettingController {
   @Get('weeks/:weekId/odds')
   @ApiOperation({ summary: 'Get current betting odds for a week' })
   @ApiParam({ name: 'weekId', description: 'Betting week UUID' })
-  @ApiResponse({ status: 200, description: 'Current odds for all competitors' })
+  @ApiQuery({
+    name: 'pool',
+    required: false,
+    description:
+      'Rating pool ("overall", "engineClass:200cc", "mode:vs_race"...). Pool odds are computed on the fly and not used for bets',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Current odds for all competitors (with the implied pool odds in pari-mutuel weeks)',
+  })
   @ApiResponse({ status: 404, description: 'Week not found' })
-  async getOdds(@Param('weekId') weekId: string) {
+  async getOdds(@Param('weekId') weekId: string, @Query('pool') pool?: string) {
+    if (pool && pool !== GLOBAL_POOL) {
+      return await this.oddsCalculatorService.calculatePoolOddsForWeek(
+        weekId,
+        pool,
+      );
+    }
     return await this.bettingService.getCurrentOdds(weekId);
   }
 
+  /**
+   * Get the odds line movement of a week
+   */
+  @Public()
+  @Get('weeks/:weekId/odds/history')
+  @ApiOperation({
+    summary: 'Get the odds history of each competitor for a week',
+  })
+  @ApiParam({ name: 'weekId', description: 'Betting week UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Odds time series with the race that triggered each change',
+  })
+  @ApiResponse({ status: 404, description: 'Week not found' })
+  async getOddsHistory(@Param('weekId') weekId: string) {
+    await this.bettingService.getWeekById(weekId);
+    return await this.oddsCalculatorService.getOddsHistoryForWeek(weekId);
+  }
+
+  /**
+   * Get the weekly markets of a week
+   */
+  @Public()
+  @Get('weeks/:weekId/markets')
+  @ApiOperation({
+    summary: 'Get the winner, top 3, matchup and over/under markets of a week',
+  })
+  @ApiParam({ name: 'weekId', description: 'Betting week UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Market selections with their latest odds',
+  })
+  @ApiResponse({ status: 404, description: 'Week not found' })
+  async getMarkets(@Param('weekId') weekId: string) {
+    await this.bettingService.getWeekById(weekId);
+    return await this.oddsCalculatorService.getLatestMarketOddsForWeek(weekId);
+  }
+
   /**
    * Get eligible competitors for a week (lifetime calibration + 30-day activity)
    */
@@ -142,6 +263,227 @@ export class BettingController {
     return await this.oddsCalculatorService.calculateOddsForWeek(weekId);
   }
 
+  /**
+   * Preview the finalization of a week
+   * Protected by ADMIN_SECRET query parameter
+   */
+  @Public()
+  @Post('weeks/:weekId/finalization/dry-run')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary:
+      'Preview the points of every bet of a week, with its podium or a supplied one, without writing anything',
+  })
+  @ApiParam({ name: 'weekId', description: 'Betting week UUID' })
+  @ApiQuery({ name: 'secret', required: true, type: String })
+  @ApiResponse({
+    status: 200,
+    description: 'Finalization result with per-bet calculations',
+  })
+  @ApiResponse({ status: 400, description: 'No podium or invalid podium' })
+  @ApiResponse({ status: 403, description: 'Invalid admin secret' })
+  @ApiResponse({ status: 404, description: 'Week not found' })
+  async previewFinalization(
+    @Query('secret') secret: string,
+    @Param('weekId') weekId: string,
+    @Body() podiumDto: FinalizationPodiumDto,
+  ) {
+    this.assertAdminSecret(secret);
+    return await this.bettingFinalizerService.previewFinalization(
+      weekId,
+      this.toPodium(podiumDto ?? {}),
+    );
+  }
+
+  /**
+   * Roll back the finalization of a week
+   * Protected by ADMIN_SECRET query parameter
+   */
+  @Public()
+  @Post('weeks/:weekId/finalization/rollback')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary:
+      'Revert the points, rankings, XP and achievements of a finalized week',
+  })
+  @ApiParam({ name: 'weekId', description: 'Betting week UUID' })
+  @ApiQuery({ name: 'secret', required: true, type: String })
+  @ApiResponse({ status: 200, description: 'Week rolled back to closed' })
+  @ApiResponse({ status: 400, description: 'Week is not finalized' })
+  @ApiResponse({ status: 403, description: 'Invalid admin secret' })
+  @ApiResponse({ status: 404, description: 'Week not found' })
+  async rollbackFinalization(
+    @Query('secret') secret: string,
+    @Param('weekId') weekId: string,
+  ) {
+    this.assertAdminSecret(secret);
+    return await this.bettingFinalizerService.rollbackWeek(weekId);
+  }
+
+  /**
+   * Finalize a week again with a manual podium
+   * Protected by ADMIN_SECRET query parameter
+   */
+  @Public()
+  @Post('weeks/:weekId/finalization/refinalize')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary:
+      'Roll back a finalized (or closed) week and finalize it with a manual podium',
+  })
+  @ApiParam({ name: 'weekId', description: 'Betting week UUID' })
+  @ApiQuery({ name: 'secret', required: true, type: String })
+  @ApiResponse({ status: 200, description: 'Week finalized again' })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing or invalid podium, or week still open',
+  })
+  @ApiResponse({ status: 403, description: 'Invalid admin secret' })
+  @ApiResponse({ status: 404, description: 'Week not found' })
+  async refinalizeWeek(
+    @Query('secret') secret: string,
+    @Param('weekId') weekId: string,
+    @Body() podiumDto: FinalizationPodiumDto,
+  ) {
+    this.assertAdminSecret(secret);
+    const podium = this.toPodium(podiumDto ?? {});
+    if (!podium) {
+      throw new BadRequestException('A podium must be supplied');
+    }
+    return await this.bettingFinalizerService.refinalizeWeek(weekId, podium);
+  }
+
+  /**
+   * Propose a podium override for a week
+   * Protected by ADMIN_SECRET query parameter
+   */
+  @Post('weeks/:weekId/podium-overrides')
+  @ApiOperation({
+    summary:
+      'Propose a podium replacing the automatic one, applied after an objection window',
+  })
+  @ApiParam({ name: 'weekId', description: 'Betting week UUID' })
+  @ApiQuery({ name: 'secret', required: true, type: String })
+  @ApiResponse({
+    status: 201,
+    description: 'Override proposed, bettors notified',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid podium or reason, or week not finalized',
+  })
+  @ApiResponse({ status: 403, description: 'Invalid admin secret' })
+  @ApiResponse({ status: 404, description: 'User or week not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'An override of this week is already in progress',
+  })
+  async proposePodiumOverride(
+    @CurrentUser('clerkId') clerkId: string,
+    @Query('secret') secret: string,
+    @Param('weekId') weekId: string,
+    @Body() dto: ProposePodiumOverrideDto,
+  ) {
+    this.assertAdminSecret(secret);
+    const userId = await this.getUserIdFromClerkId(clerkId);
+    return await this.podiumOverrideService.proposeOverride(
+      userId,
+      weekId,
+      dto,
+    );
+  }
+
+  /**
+   * Get the podium overrides of a week
+   */
+  @Public()
+  @Get('weeks/:weekId/podium-overrides')
+  @ApiOperation({
+    summary: 'Get the podium overrides of a week with their objections',
+  })
+  @ApiParam({ name: 'weekId', description: 'Betting week UUID' })
+  @ApiResponse({ status: 200, description: 'Podium overrides, latest first' })
+  @ApiResponse({ status: 404, description: 'Week not found' })
+  async getPodiumOverrides(@Param('weekId') weekId: string) {
+    return await this.podiumOverrideService.getWeekOverrides(weekId);
+  }
+
+  /**
+   * Object to a podium override
+   */
+  @Post('podium-overrides/:overrideId/objections')
+  @ApiOperation({
+    summary: 'Object to a podium override (bettors of the week, once)',
+  })
+  @ApiParam({ name: 'overrideId', description: 'Podium override UUID' })
+  @ApiResponse({ status: 201, description: 'Objection recorded' })
+  @ApiResponse({ status: 400, description: 'Objection window closed' })
+  @ApiResponse({ status: 403, description: 'Not a bettor of the week' })
+  @ApiResponse({ status: 404, description: 'User or override not found' })
+  @ApiResponse({ status: 409, description: 'Already objected' })
+  async objectToPodiumOverride(
+    @CurrentUser('clerkId') clerkId: string,
+    @Param('overrideId') overrideId: string,
+    @Body() dto: ObjectPodiumOverrideDto,
+  ) {
+    const userId = await this.getUserIdFromClerkId(clerkId);
+    return await this.podiumOverrideService.objectToOverride(
+      userId,
+      overrideId,
+      dto,
+    );
+  }
+
+  /**
+   * Apply a podium override
+   * Protected by ADMIN_SECRET query parameter
+   */
+  @Public()
+  @Post('podium-overrides/:overrideId/apply')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary:
+      'Re-finalize the week with the podium of an override, once its objection window is over',
+  })
+  @ApiParam({ name: 'overrideId', description: 'Podium override UUID' })
+  @ApiQuery({ name: 'secret', required: true, type: String })
+  @ApiResponse({ status: 200, description: 'Override applied' })
+  @ApiResponse({
+    status: 400,
+    description: 'Objection window still open or override already resolved',
+  })
+  @ApiResponse({ status: 403, description: 'Invalid admin secret' })
+  @ApiResponse({ status: 404, description: 'Override not found' })
+  async applyPodiumOverride(
+    @Query('secret') secret: string,
+    @Param('overrideId') overrideId: string,
+  ) {
+    this.assertAdminSecret(secret);
+    return await this.podiumOverrideService.applyOverride(overrideId);
+  }
+
+  /**
+   * Reject a podium override
+   * Protected by ADMIN_SECRET query parameter
+   */
+  @Public()
+  @Post('podium-overrides/:overrideId/reject')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Drop a podium override, the podium stays as is' })
+  @ApiParam({ name: 'overrideId', description: 'Podium override UUID' })
+  @ApiQuery({ name: 'secret', required: true, type: String })
+  @ApiResponse({ status: 200, description: 'Override rejected' })
+  @ApiResponse({ status: 400, description: 'Override already resolved' })
+  @ApiResponse({ status: 403, description: 'Invalid admin secret' })
+  @ApiResponse({ status: 404, description: 'Override not found' })
+  async rejectPodiumOverride(
+    @Query('secret') secret: string,
+    @Param('overrideId') overrideId: string,
+  ) {
+    this.assertAdminSecret(secret);
+    return await this.podiumOverrideService.rejectOverride(overrideId);
+  }
+
   /**
    * Create a new betting week (admin only for now)
    */
@@ -157,6 +499,65 @@ export class BettingController {
     return await this.bettingService.createWeek(createWeekDto);
   }
 
+  /**
+   * List betting rulesets
+   * Protected by ADMIN_SECRET query parameter
+   */
+  @Public()
+  @Get('rulesets')
+  @ApiOperation({ summary: 'List the season-versioned betting rulesets' })
+  @ApiQuery({ name: 'secret', required: true, type: String })
+  @ApiResponse({ status: 200, description: 'Rulesets, latest first' })
+  @ApiResponse({ status: 403, description: 'Invalid admin secret' })
+  async getRulesets(@Query('secret') secret: string) {
+    this.assertAdminSecret(secret);
+    return await this.rulesetService.findAll();
+  }
+
+  /**
+   * Get the ruleset of the current season
+   * Protected by ADMIN_SECRET query parameter
+   */
+  @Public()
+  @Get('rulesets/current')
+  @ApiOperation({ summary: 'Get the betting ruleset of the current season' })
+  @ApiQuery({ name: 'secret', required: true, type: String })
+  @ApiResponse({
+    status: 200,
+    description: 'Current season, its ruleset (null if none) and params',
+  })
+  @ApiResponse({ status: 403, description: 'Invalid admin secret' })
+  async getCurrentRuleset(@Query('secret') secret: string) {
+    this.assertAdminSecret(secret);
+    return await this.rulesetService.getCurrentRuleset();
+  }
+
+  /**
+   * Draft the ruleset of the next season
+   * Protected by ADMIN_SECRET query parameter
+   */
+  @Public()
+  @Put('rulesets/next-season')
+  @ApiOperation({
+    summary:
+      "Create or update the next season's ruleset (omitted fields keep their value)",
+  })
+  @ApiQuery({ name: 'secret', required: true, type: String })
+  @ApiResponse({ status: 200, description: 'Draft ruleset saved' })
+  @ApiResponse({ status: 400, description: 'Invalid params' })
+  @ApiResponse({ status: 403, description: 'Invalid admin secret' })
+  @ApiResponse({
+    status: 409,
+    description: "Next season's ruleset is already in use",
+  })
+  async draftNextSeasonRuleset(
+    @Query('secret') secret: string,
+    @Body() draftDto: DraftRulesetDto,
+  ) {
+    this.assertAdminSecret(secret);
+    return await this.rulesetService.draftNextSeason(draftDto ?? {});
+  }
+
   /**
    * Place a bet
    */
@@ -177,6 +578,185 @@ export class BettingController {
     return await this.bettingService.placeBet(userId, placeBetDto);
   }
 
+  /**
+   * Edit a bet
+   */
+  @Patch('bets/:betId')
+  @ApiOperation({
+    summary: 'Replace the picks of my bet while the week is open',
+  })
+  @ApiParam({ name: 'betId', description: 'Bet UUID' })
+  @ApiResponse({ status: 200, description: 'Bet updated successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid bet data or week is closed',
+  })
+  @ApiResponse({ status: 403, description: 'Bet of another user' })
+  @ApiResponse({ status: 404, description: 'User or bet not found' })
+  async updateBet(
+    @CurrentUser('clerkId') clerkId: string,
+    @Param('betId') betId: string,
+    @Body() updateBetDto: UpdateBetDto,
+  ) {
+    const userId = await this.getUserIdFromClerkId(clerkId);
+    return await this.bettingService.updateBet(userId, betId, updateBetDto);
+  }
+
+  /**
+   * Withdraw a bet
+   */
+  @Delete('bets/:betId')
+  @ApiOperation({ summary: 'Withdraw my bet while the week is open' })
+  @ApiParam({ name: 'betId', description: 'Bet UUID' })
+  @ApiResponse({ status: 200, description: 'Bet withdrawn successfully' })
+  @ApiResponse({ status: 400, description: 'Week is closed' })
+  @ApiResponse({ status: 403, description: 'Bet of another user' })
+  @ApiResponse({ status: 404, description: 'User or bet not found' })
+  async withdrawBet(
+    @CurrentUser('clerkId') clerkId: string,
+    @Param('betId') betId: string,
+  ) {
+    const userId = await this.getUserIdFromClerkId(clerkId);
+    await this.bettingService.withdrawBet(userId, betId);
+    return { success: true };
+  }
+
+  /**
+   * Get the audit history of a bet
+   */
+  @Get('bets/:betId/revisions')
+  @ApiOperation({ summary: 'Get the revisions of my bet, oldest first' })
+  @ApiParam({ name: 'betId', description: 'Bet UUID' })
+  @ApiResponse({ status: 200, description: 'Bet revisions' })
+  @ApiResponse({ status: 404, description: 'User or bet not found' })
+  async getBetRevisions(
+    @CurrentUser('clerkId') clerkId: string,
+    @Param('betId') betId: string,
+  ) {
+    const userId = await this.getUserIdFromClerkId(clerkId);
+    return await this.bettingService.getBetRevisions(userId, betId);
+  }
+
+  /**
+   * Place a market bet
+   */
+  @Post('bets/markets')
+  @ApiOperation({ summary: 'Place a bet on a weekly market' })
+  @ApiResponse({ status: 201, description: 'Market bet placed successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid selection, market not offered or week is closed',
+  })
+  @ApiResponse({ status: 404, description: 'User or week not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'User already bet on this market',
+  })
+  async placeMarketBet(
+    @CurrentUser('clerkId') clerkId: string,
+    @Body() placeMarketBetDto: PlaceMarketBetDto,
+  ) {
+    const userId = await this.getUserIdFromClerkId(clerkId);
+    return await this.bettingService.placeMarketBet(userId, placeMarketBetDto);
+  }
+
+  /**
+   * Get my market bets
+   */
+  @Get('bets/markets/my-bets')
+  @ApiOperation({ summary: 'Get my market bets, optionally for one week' })
+  @ApiQuery({
+    name: 'weekId',
+    required: false,
+    description: 'Filter by betting week UUID',
+  })
+  @ApiResponse({ status: 200, description: 'User market bets' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async getMyMarketBets(
+    @CurrentUser('clerkId') clerkId: string,
+    @Query('weekId') weekId?: string,
+  ) {
+    const userId = await this.getUserIdFromClerkId(clerkId);
+    return await this.bettingService.getUserMarketBets(userId, weekId);
+  }
+
+  /**
+   * Place an accumulator
+   */
+  @Post('bets/accumulators')
+  @ApiOperation({
+    summary: 'Place an accumulator over the current and upcoming weeks',
+  })
+  @ApiResponse({ status: 201, description: 'Accumulator placed successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid legs, no odds or a week is closed to bets',
+  })
+  @ApiResponse({ status: 404, description: 'User or week not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'User already has an accumulator on one of the weeks',
+  })
+  async placeAccumulator(
+    @CurrentUser('clerkId') clerkId: string,
+    @Body() placeAccumulatorDto: PlaceAccumulatorDto,
+  ) {
+    const userId = await this.getUserIdFromClerkId(clerkId);
+    return await this.accumulatorService.placeAccumulator(
+      userId,
+      placeAccumulatorDto,
+    );
+  }
+
+  /**
+   * Get today's daily round
+   */
+  @Public()
+  @Get('daily/current')
+  @ApiOperation({ summary: "Get today's daily podium round with its odds" })
+  @ApiResponse({
+    status: 200,
+    description: 'Daily round, or null if none today',
+  })
+  async getCurrentDailyRound() {
+    return await this.dailyBettingService.getCurrentRound();
+  }
+
+  /**
+   * Place a daily podium bet
+   */
+  @Post('daily/bets')
+  @ApiOperation({ summary: "Bet on the podium of today's daily round" })
+  @ApiResponse({ status: 201, description: 'Daily bet placed successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid podium or daily round is closed',
+  })
+  @ApiResponse({ status: 404, description: 'User or daily round not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'User already bet on this daily round',
+  })
+  async placeDailyBet(
+    @CurrentUser('clerkId') clerkId: string,
+    @Body() placeDailyBetDto: PlaceDailyBetDto,
+  ) {
+    const userId = await this.getUserIdFromClerkId(clerkId);
+    return await this.dailyBettingService.placeBet(userId, placeDailyBetDto);
+  }
+
+  /**
+   * Get my daily bets
+   */
+  @Get('daily/my-bets')
+  @ApiOperation({ summary: 'Get my daily podium bets, latest first' })
+  @ApiResponse({ status: 200, description: 'User daily bets' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async getMyDailyBets(@CurrentUser('clerkId') clerkId: string) {
+    const userId = await this.getUserIdFromClerkId(clerkId);
+    return await this.dailyBettingService.getUserBets(userId);
+  }
+
   /**
    * Get community bets (all users, public)
    */
@@ -187,13 +767,23 @@ export class BettingController {
   @ApiQuery({ name: 'offset', required: false, description: 'Items to skip', example: 0 })
   @ApiQuery({ name: 'userId', required: false, description: 'Filter by user ID' })
   @ApiQuery({ name: 'status', required: false, description: 'Filter by bet status', enum: ['pending', 'won', 'lost', 'cancelled'] })
+  @ApiQuery({
+    name: 'leagueId',
+    required: false,
+    description: 'Only the bets of the members of a private league',
+  })
   @ApiResponse({ status: 200, description: 'Paginated community bets' })
+  @ApiResponse({ status: 404, description: 'League not found' })
   async getCommunityBets(@Query() query: QueryCommunityBetsDto) {
+    const memberIds = query.leagueId
+      ? await this.leaguesService.getMemberIds(query.leagueId)
+      : undefined;
     const result = await this.bettingService.getCommunityBets(
       query.limit ?? 10,
       query.offset ?? 0,
       query.userId,
       query.status,
+      memberIds,
     );
 
     // Whitelist user fields to avoid leaking sensitive data
@@ -239,7 +829,10 @@ export class BettingController {
     description: 'Number of items to skip',
     example: 0,
   })
-  @ApiResponse({ status: 200, description: 'Paginated user bets' })
+  @ApiResponse({
+    status: 200,
+    description: 'Paginated user bets, plus the latest accumulators',
+  })
   @ApiResponse({ status: 404, description: 'User not found' })
   async getMyBets(
     @CurrentUser('clerkId') clerkId: string,
@@ -250,11 +843,15 @@ export class BettingController {
     if (weekId) {
       return await this.bettingService.getUserBet(userId, weekId);
     }
-    return await this.bettingService.getUserBets(
+    const bets = await this.bettingService.getUserBets(
       userId,
       pagination?.limit ?? 10,
       pagination?.offset ?? 0,
     );
+    return {
+      ...bets,
+      accumulators: await this.accumulatorService.getUserAccumulators(userId),
+    };
   }
 
   /**
@@ -286,9 +883,12 @@ export class BettingController {
   async getResults(@Param('weekId') weekId: string) {
     const bets = await this.bettingService.getWeekBets(weekId);
     const week = await this.bettingService.getWeekById(weekId);
+    const oddsMovement =
+      await this.oddsCalculatorService.getOpeningClosingOdds(weekId);
 
     return {
       week,
+      oddsMovement,
       bets: bets.map((bet) => ({
         user: bet.user,
         picks: bet.picks,
@@ -322,11 +922,18 @@ export class BettingController {
     description: 'Filter by year',
     example: '2024',
   })
+  @ApiQuery({
+    name: 'leagueId',
+    required: false,
+    description: 'Rank the members of a private league among themselves',
+  })
   @ApiResponse({ status: 200, description: 'Season rankings with stats' })
+  @ApiResponse({ status: 404, description: 'League not found' })
   async getMonthlyRankings(
     @Query('season') season?: string,
     @Query('month') month?: string,
     @Query('year') year?: string,
+    @Query('leagueId') leagueId?: string,
   ) {
     const seasonNumber = season
       ? parseInt(season, 10)
@@ -334,12 +941,125 @@ export class BettingController {
         ? parseInt(month, 10)
         : undefined;
     const yearNumber = year ? parseInt(year, 10) : undefined;
+    const memberIds = leagueId
+      ? await this.leaguesService.getMemberIds(leagueId)
+      : undefined;
     return await this.rankingsService.getMonthlyRankings(
       seasonNumber,
       yearNumber,
+      memberIds,
+    );
+  }
+
+  /**
+   * Create a private league
+   */
+  @Post('leagues')
+  @ApiOperation({ summary: 'Create a private league (you become its owner)' })
+  @ApiResponse({ status: 201, description: 'League with its invite code' })
+  @ApiResponse({ status: 400, description: 'Invalid name or too many leagues' })
+  async createLeague(
+    @CurrentUser('clerkId') clerkId: string,
+    @Body() createLeagueDto: CreateLeagueDto,
+  ) {
+    const userId = await this.getUserIdFromClerkId(clerkId);
+    return await this.leaguesService.createLeague(userId, createLeagueDto);
+  }
+
+  /**
+   * Join a private league with its invite code
+   */
+  @Post('leagues/join')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Join a private league with its invite code' })
+  @ApiResponse({ status: 200, description: 'League joined' })
+  @ApiResponse({ status: 404, description: 'Invalid invite code' })
+  @ApiResponse({
+    status: 409,
+    description: 'Already a member, or league full',
+  })
+  async joinLeague(
+    @CurrentUser('clerkId') clerkId: string,
+    @Body() joinLeagueDto: JoinLeagueDto,
+  ) {
+    const userId = await this.getUserIdFromClerkId(clerkId);
+    return await this.leaguesService.joinLeague(
+      userId,
+      joinLeagueDto?.inviteCode,
     );
   }
 
+  /**
+   * Get my private leagues
+   */
+  @Get('leagues/mine')
+  @ApiOperation({ summary: 'Get the private leagues I am a member of' })
+  @ApiResponse({ status: 200, description: 'Leagues with their member count' })
+  async getMyLeagues(@CurrentUser('clerkId') clerkId: string) {
+    const userId = await this.getUserIdFromClerkId(clerkId);
+    return await this.leaguesService.getUserLeagues(userId);
+  }
+
+  /**
+   * Get a private league (members only)
+   */
+  @Get('leagues/:leagueId')
+  @ApiOperation({
+    summary: 'Get a private league, its invite code and members',
+  })
+  @ApiParam({ name: 'leagueId', description: 'League UUID' })
+  @ApiResponse({ status: 200, description: 'League details' })
+  @ApiResponse({ status: 403, description: 'Not a member of the league' })
+  @ApiResponse({ status: 404, description: 'League not found' })
+  async getLeague(
+    @CurrentUser('clerkId') clerkId: string,
+    @Param('leagueId') leagueId: string,
+  ) {
+    const userId = await this.getUserIdFromClerkId(clerkId);
+    return await this.leaguesService.getLeague(userId, leagueId);
+  }
+
+  /**
+   * Leave a private league
+   */
+  @Delete('leagues/:leagueId/membership')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary:
+      'Leave a private league (ownership goes to the oldest member, the last one out deletes it)',
+  })
+  @ApiParam({ name: 'leagueId', description: 'League UUID' })
+  @ApiResponse({ status: 204, description: 'League left' })
+  @ApiResponse({
+    status: 404,
+    description: 'League not found, or not a member',
+  })
+  async leaveLeague(
+    @CurrentUser('clerkId') clerkId: string,
+    @Param('leagueId') leagueId: string,
+  ) {
+    const userId = await this.getUserIdFromClerkId(clerkId);
+    await this.leaguesService.leaveLeague(userId, leagueId);
+  }
+
+  /**
+   * Replace the invite code of a private league (owner only)
+   */
+  @Post('leagues/:leagueId/invite-code')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Replace the invite code of a league (owner only)' })
+  @ApiParam({ name: 'leagueId', description: 'League UUID' })
+  @ApiResponse({ status: 200, description: 'New invite code' })
+  @ApiResponse({ status: 403, description: 'Not the league owner' })
+  @ApiResponse({ status: 404, description: 'League not found' })
+  async regenerateLeagueInviteCode(
+    @CurrentUser('clerkId') clerkId: string,
+    @Param('leagueId') leagueId: string,
+  ) {
+    const userId = await this.getUserIdFromClerkId(clerkId);
+    return await this.leaguesService.regenerateInviteCode(userId, leagueId);
+  }
+
   /**
    * Get unseen bet result for current user
    */
@@ -6,18 +6,36 @@ import { BettingController } from './betting.controller';
 import { BettingWeek } from './entities/betting-week.entity';
 import { Bet } from './entities/bet.entity';
 import { BetPick } from './entities/bet-pick.entity';
+import { BetRevision } from './entities/bet-revision.entity';
 import { CompetitorOdds } from './entities/competitor-odds.entity';
+import { MarketOdds } from './entities/market-odds.entity';
+import { MarketBet } from './entities/market-bet.entity';
 import { BettorRanking } from './entities/bettor-ranking.entity';
 import { CompetitorMonthlyStats } from './entities/competitor-monthly-stats.entity';
 import { DailyUserStats } from './entities/daily-user-stats.entity';
+import { BettingRuleset } from './entities/betting-ruleset.entity';
+import { BettingLeague } from './entities/betting-league.entity';
+import { BettingLeagueMember } from './entities/betting-league-member.entity';
+import { DailyRound } from './entities/daily-round.entity';
+import { DailyBet } from './entities/daily-bet.entity';
+import { AccumulatorBet } from './entities/accumulator-bet.entity';
+import { AccumulatorLeg } from './entities/accumulator-leg.entity';
+import { PodiumOverride } from './entities/podium-override.entity';
+import { PodiumOverrideObjection } from './entities/podium-override-objection.entity';
 import { OddsCalculatorService } from './services/odds-calculator.service';
 import { WeekManagerService } from './services/week-manager.service';
 import { BettingFinalizerService } from './services/betting-finalizer.service';
+import { RulesetService } from './services/ruleset.service';
+import { LeaguesService } from './services/leagues.service';
+import { DailyBettingService } from './services/daily-betting.service';
+import { AccumulatorService } from './services/accumulator.service';
+import { PodiumOverrideService } from './services/podium-override.service';
 import { RankingsService } from './services/rankings.service';
 import { AdvancedStatsService } from './services/advanced-stats.service';
 import { DailyStatsTrackerService } from './services/daily-stats-tracker.service';
 import { DailyStatsCronService } from './services/daily-stats-cron.service';
 import { RaceCreatedListener } from './listeners/race-created.listener';
+import { RaceCorrectedListener } from './listeners/race-corrected.listener';
 import { BettingWeekRepository } from './repositories/betting-week.repository';
 import { BetRepository } from './repositories/bet.repository';
 import { BetPickRepository } from './repositories/bet-pick.repository';
@@ -34,6 +52,7 @@ import { UserStreak } from '../achievements/entities/user-streak.entity';
 import { UsersModule } from '../users/users.module';
 import { AchievementsModule } from '../achievements/achievements.module';
 import { ImageGenerationModule } from '../image-generation/image-generation.module';
+import { RatingModule } from '../rating/rating.module';
 
 @Module({
   imports: [
@@ -41,10 +60,22 @@ import { ImageGenerationModule } from '../image-generation/image-generation.modu
       BettingWeek,
       Bet,
       BetPick,
+      BetRevision,
       CompetitorOdds,
+      MarketOdds,
+      MarketBet,
       BettorRanking,
       CompetitorMonthlyStats,
       DailyUserStats,
+      BettingRuleset,
+      BettingLeague,
+      BettingLeagueMember,
+      DailyRound,
+      DailyBet,
+      AccumulatorBet,
+      AccumulatorLeg,
+      PodiumOverride,
+      PodiumOverrideObjection,
       Competitor,
       RaceEvent,
       RaceResult,
@@ -57,6 +88,7 @@ import { ImageGenerationModule } from '../image-generation/image-generation.modu
     UsersModule,
     forwardRef(() => AchievementsModule),
     ImageGenerationModule,
+    RatingModule,
   ],
   controllers: [BettingController],
   providers: [
@@ -64,11 +96,17 @@ import { ImageGenerationModule } from '../image-generation/image-generation.modu
     OddsCalculatorService,
     WeekManagerService,
     BettingFinalizerService,
+    RulesetService,
+    LeaguesService,
+    DailyBettingService,
+    AccumulatorService,
+    PodiumOverrideService,
     RankingsService,
     AdvancedStatsService,
     DailyStatsTrackerService,
     DailyStatsCronService,
     RaceCreatedListener,
+    RaceCorrectedListener,
     BettingWeekRepository,
     BetRepository,
     BetPickRepository,
@@ -81,6 +119,11 @@ import { ImageGenerationModule } from '../image-generation/image-generation.modu
     OddsCalculatorService,
     WeekManagerService,
     BettingFinalizerService,
+    RulesetService,
+    LeaguesService,
+    DailyBettingService,
+    AccumulatorService,
+    PodiumOverrideService,
     RankingsService,
     AdvancedStatsService,
     DailyStatsTrackerService,
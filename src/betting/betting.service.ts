@@ -4,6 +4,7 @@ import {
   NotFoundException,
   BadRequestException,
   ConflictException,
+  ForbiddenException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import {
@@ -13,13 +14,24 @@ import {
   LessThanOrEqual,
   IsNull,
   FindOptionsWhere,
+  EntityManager,
+  In,
 } from 'typeorm';
-import { BettingWeek, BettingWeekStatus } from './entities/betting-week.entity';
+import {
+  BettingWeek,
+  BettingWeekScoringMode,
+  BettingWeekStatus,
+} from './entities/betting-week.entity';
 import { Bet, BetStatus } from './entities/bet.entity';
 import { BetPick, BetPosition } from './entities/bet-pick.entity';
 import { CreateBettingWeekDto } from './dto/create-betting-week.dto';
-import { PlaceBetDto } from './dto/place-bet.dto';
+import { PlaceBetDto, BetPickDto } from './dto/place-bet.dto';
+import { UpdateBetDto } from './dto/update-bet.dto';
+import { BetRevision, BetRevisionAction } from './entities/bet-revision.entity';
 import { CompetitorOdds } from './entities/competitor-odds.entity';
+import { MarketOdds } from './entities/market-odds.entity';
+import { MarketBet } from './entities/market-bet.entity';
+import { PlaceMarketBetDto } from './dto/place-market-bet.dto';
 import { User } from '../users/user.entity';
 import { UserAchievement } from '../achievements/entities/user-achievement.entity';
 import { Achievement } from '../achievements/entities/achievement.entity';
@@ -28,6 +40,19 @@ import { Competitor } from '../competitors/competitor.entity';
 import { PaginatedResponse } from '../common';
 import { SeasonUtils } from './utils/season-utils';
 import { WeekUtils } from './services/week-manager.service';
+import { computePoolOdds, PoolOdds } from './utils/pool-utils';
+import {
+  getMarketBetConflict,
+  getMarketBetRequestError,
+  getMarketWeekError,
+} from './utils/market-utils';
+import { RulesetService } from './services/ruleset.service';
+
+const BET_POSITIONS: BetPosition[] = [
+  BetPosition.FIRST,
+  BetPosition.SECOND,
+  BetPosition.THIRD,
+];
 
 @Injectable()
 export class BettingService {
@@ -40,6 +65,12 @@ export class BettingService {
     private readonly betPickRepository: Repository<BetPick>,
     @InjectRepository(CompetitorOdds)
     private readonly competitorOddsRepository: Repository<CompetitorOdds>,
+    @InjectRepository(BetRevision)
+    private readonly betRevisionRepository: Repository<BetRevision>,
+    @InjectRepository(MarketOdds)
+    private readonly marketOddsRepository: Repository<MarketOdds>,
+    @InjectRepository(MarketBet)
+    private readonly marketBetRepository: Repository<MarketBet>,
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
     @InjectRepository(UserAchievement)
@@ -50,6 +81,7 @@ export class BettingService {
     private readonly userStreakRepository: Repository<UserStreak>,
     @InjectRepository(Competitor)
     private readonly competitorRepository: Repository<Competitor>,
+    private readonly rulesetService: RulesetService,
   ) {}
 
   /**
@@ -69,7 +101,7 @@ export class BettingService {
   }
 
   /**
-   * Create a new betting week
+   * Create a new betting week, under the ruleset of its season
    */
   async createWeek(createWeekDto: CreateBettingWeekDto): Promise<BettingWeek> {
     // Check if week already exists
@@ -86,7 +118,17 @@ export class BettingService {
       );
     }
 
-    const week = this.bettingWeekRepository.create(createWeekDto);
+    const seasonNumber = SeasonUtils.getSeasonNumber(
+      createWeekDto.weekNumber,
+      createWeekDto.year,
+    );
+    const ruleset = await this.rulesetService.assignRuleset(seasonNumber);
+
+    const week = this.bettingWeekRepository.create({
+      ...createWeekDto,
+      seasonNumber,
+      rulesetId: ruleset?.id ?? null,
+    });
     return await this.bettingWeekRepository.save(week);
   }
 
@@ -126,9 +168,14 @@ export class BettingService {
 
   /**
    * Get current odds for a week
+   *
+   * In pari-mutuel weeks, each competitor also gets the implied odds of
+   * the pools so far (null for a position nobody picked them on).
    */
-  async getCurrentOdds(weekId: string): Promise<CompetitorOdds[]> {
-    await this.getWeekById(weekId);
+  async getCurrentOdds(
+    weekId: string,
+  ): Promise<Array<CompetitorOdds & { poolOdds?: PoolOdds }>> {
+    const week = await this.getWeekById(weekId);
 
     // Get latest odds for each competitor in this week
     const odds = await this.competitorOddsRepository
@@ -140,7 +187,25 @@ export class BettingService {
       .leftJoinAndSelect('odds.competitor', 'competitor')
       .getMany();
 
-    return odds;
+    if (week.scoringMode !== BettingWeekScoringMode.PARI_MUTUEL) {
+      return odds;
+    }
+
+    const picks = await this.betPickRepository.find({
+      where: { bet: { bettingWeekId: weekId } },
+    });
+    const { scoring } = await this.rulesetService.getParamsForWeek(week);
+    const pool = computePoolOdds(picks, scoring);
+
+    return odds.map((odd) =>
+      Object.assign(odd, {
+        poolOdds: pool.odds.get(odd.competitorId) ?? {
+          first: null,
+          second: null,
+          third: null,
+        },
+      }),
+    );
   }
 
   /**
@@ -166,70 +231,19 @@ export class BettingService {
       throw new ConflictException('You already placed a bet for this week');
     }
 
-    // Validate picks
-    if (placeBetDto.picks.length !== 3) {
-      throw new BadRequestException('You must select exactly 3 competitors');
-    }
-
-    // Check for duplicate competitors
-    const competitorIds = placeBetDto.picks.map((p) => p.competitorId);
-    const uniqueIds = new Set(competitorIds);
-    if (uniqueIds.size !== 3) {
-      throw new BadRequestException(
-        'You cannot select the same competitor twice',
-      );
-    }
-
-    // Check boost - only one competitor can have boost
-    const boostCount = placeBetDto.picks.filter((p) => p.hasBoost).length;
-    if (boostCount > 1) {
-      throw new BadRequestException('You can only boost one competitor');
-    }
+    const boostCount = this.assertValidPicks(placeBetDto.picks);
 
     // Check season boost limit
     if (boostCount === 1) {
-      const user = await this.userRepository.findOne({ where: { id: userId } });
-
-      if (!user) {
-        throw new NotFoundException('User not found');
-      }
-
-      const now = new Date();
-      const currentYear = now.getFullYear();
-      const currentWeek = WeekUtils.getISOWeek(now);
-      const currentSeason = SeasonUtils.getSeasonNumber(currentWeek, currentYear);
-
-      if (
-        user.lastBoostUsedSeason === currentSeason &&
-        user.lastBoostUsedYear === currentYear
-      ) {
-        throw new BadRequestException(
-          'You have already used your season boost. Boost resets at the start of each season.',
-        );
-      }
+      await this.assertBoostAvailable(userId);
     }
 
     // Get current odds for each competitor
-    const oddsPromises = competitorIds.map((competitorId) =>
-      this.competitorOddsRepository
-        .createQueryBuilder('odds')
-        .where('odds.competitorId = :competitorId', { competitorId })
-        .andWhere('odds.bettingWeekId = :weekId', {
-          weekId: placeBetDto.bettingWeekId,
-        })
-        .orderBy('odds.calculatedAt', 'DESC')
-        .getOne(),
+    const oddsArray = await this.fetchLatestOdds(
+      placeBetDto.bettingWeekId,
+      placeBetDto.picks.map((p) => p.competitorId),
     );
 
-    const oddsArray = await Promise.all(oddsPromises);
-
-    // Check if all competitors have odds
-    if (oddsArray.some((odd) => !odd)) {
-      throw new BadRequestException(
-        'Some competitors do not have odds for this week',
-      );
-    }
-
     // Create bet
     const bet = this.betRepository.create({
       userId,
@@ -248,30 +262,14 @@ export class BettingService {
     }
 
     // Create bet picks
-    const positions: BetPosition[] = [
-      BetPosition.FIRST,
-      BetPosition.SECOND,
-      BetPosition.THIRD,
-    ];
-
     const picks = placeBetDto.picks.map((pickDto, index) => {
-      const odd = oddsArray[index]!; // Already checked that odd exists above
-      const position = positions[index];
-
-      let oddAtBet: number;
-      if (position === BetPosition.FIRST) {
-        oddAtBet = odd.oddFirst;
-      } else if (position === BetPosition.SECOND) {
-        oddAtBet = odd.oddSecond;
-      } else {
-        oddAtBet = odd.oddThird;
-      }
+      const position = BET_POSITIONS[index];
 
       return this.betPickRepository.create({
         betId: bet.id,
         competitorId: pickDto.competitorId,
         position,
-        oddAtBet,
+        oddAtBet: this.getOddForPosition(oddsArray[index], position),
         hasBoost: pickDto.hasBoost || false,
       });
     });
@@ -280,32 +278,16 @@ export class BettingService {
 
     // Atomically consume the boost to prevent race conditions (M2)
     if (boostCount === 1) {
-      const now = new Date();
-      const currentYear = now.getFullYear();
-      const currentWeek = WeekUtils.getISOWeek(now);
-      const currentSeason = SeasonUtils.getSeasonNumber(currentWeek, currentYear);
-      const result = await this.userRepository
-        .createQueryBuilder()
-        .update()
-        .set({
-          lastBoostUsedSeason: currentSeason,
-          lastBoostUsedMonth: currentSeason, // backward compat
-          lastBoostUsedYear: currentYear,
-        })
-        .where('id = :userId', { userId })
-        .andWhere(
-          '("lastBoostUsedSeason" IS NULL OR "lastBoostUsedSeason" != :season OR "lastBoostUsedYear" != :year)',
-          { season: currentSeason, year: currentYear },
-        )
-        .execute();
-
-      if (result.affected === 0) {
-        throw new BadRequestException(
-          'You have already used your season boost. Boost resets at the start of each season.',
-        );
-      }
+      await this.consumeSeasonBoost(this.userRepository.manager, userId);
     }
 
+    await this.recordRevision(
+      this.betRevisionRepository.manager,
+      bet,
+      BetRevisionAction.PLACED,
+      picks,
+    );
+
     // Reload bet with picks
     const reloadedBet = await this.betRepository.findOne({
       where: { id: bet.id },
@@ -315,6 +297,391 @@ export class BettingService {
     return reloadedBet!; // Bet was just created, must exist
   }
 
+  /**
+   * Replace the picks of a bet while its week is open
+   *
+   * Picks kept on the same position keep their odd; new picks are priced
+   * with the latest odds. Adding the boost consumes the season boost,
+   * removing it gives it back.
+   */
+  async updateBet(
+    userId: string,
+    betId: string,
+    updateBetDto: UpdateBetDto,
+  ): Promise<Bet> {
+    const bet = await this.getOwnOpenBet(userId, betId);
+
+    const boostCount = this.assertValidPicks(updateBetDto.picks);
+    const hadBoost = bet.picks.some((p) => p.hasBoost);
+    if (boostCount === 1 && !hadBoost) {
+      await this.assertBoostAvailable(userId);
+    }
+
+    const oddsArray = await this.fetchLatestOdds(
+      bet.bettingWeekId,
+      updateBetDto.picks.map((p) => p.competitorId),
+    );
+    const previousPicks = new Map(bet.picks.map((p) => [p.position, p]));
+
+    await this.betRepository.manager.transaction(async (em) => {
+      await em.delete(BetPick, { betId });
+
+      const picks = updateBetDto.picks.map((pickDto, index) => {
+        const position = BET_POSITIONS[index];
+        const previous = previousPicks.get(position);
+
+        return em.create(BetPick, {
+          betId,
+          competitorId: pickDto.competitorId,
+          position,
+          oddAtBet:
+            previous?.competitorId === pickDto.competitorId
+              ? previous.oddAtBet
+              : this.getOddForPosition(oddsArray[index], position),
+          hasBoost: pickDto.hasBoost || false,
+        });
+      });
+      await em.save(picks);
+
+      if (boostCount === 1 && !hadBoost) {
+        await this.consumeSeasonBoost(em, userId);
+      } else if (boostCount === 0 && hadBoost) {
+        await this.refundSeasonBoost(em, userId);
+      }
+
+      await this.recordRevision(em, bet, BetRevisionAction.UPDATED, picks);
+    });
+
+    const reloadedBet = await this.betRepository.findOne({
+      where: { id: betId },
+      relations: ['picks', 'picks.competitor', 'bettingWeek'],
+    });
+
+    return reloadedBet!; // Checked above, deleted only by withdrawBet
+  }
+
+  /**
+   * Withdraw a bet while its week is open (the season boost is given back)
+   */
+  async withdrawBet(userId: string, betId: string): Promise<void> {
+    const bet = await this.getOwnOpenBet(userId, betId);
+
+    await this.betRepository.manager.transaction(async (em) => {
+      await this.recordRevision(
+        em,
+        bet,
+        BetRevisionAction.WITHDRAWN,
+        bet.picks,
+      );
+
+      if (bet.picks.some((p) => p.hasBoost)) {
+        await this.refundSeasonBoost(em, userId);
+      }
+
+      // Picks are deleted in cascade
+      await em.delete(Bet, { id: betId });
+    });
+  }
+
+  /**
+   * Audit history of a bet of the user, oldest first
+   */
+  async getBetRevisions(userId: string, betId: string): Promise<BetRevision[]> {
+    const revisions = await this.betRevisionRepository.find({
+      where: { betId, userId },
+      order: { createdAt: 'ASC' },
+    });
+
+    if (revisions.length === 0) {
+      throw new NotFoundException(`Bet with ID ${betId} not found`);
+    }
+
+    return revisions;
+  }
+
+  /**
+   * Bet of the user (with its picks), in a week still open
+   */
+  private async getOwnOpenBet(userId: string, betId: string): Promise<Bet> {
+    const bet = await this.betRepository.findOne({
+      where: { id: betId },
+      relations: ['picks', 'bettingWeek'],
+    });
+
+    if (!bet) {
+      throw new NotFoundException(`Bet with ID ${betId} not found`);
+    }
+    if (bet.userId !== userId) {
+      throw new ForbiddenException('You can only change your own bet');
+    }
+    if (bet.bettingWeek.status !== BettingWeekStatus.OPEN) {
+      throw new BadRequestException('This betting week is closed');
+    }
+
+    return bet;
+  }
+
+  /**
+   * Check the picks of a bet
+   *
+   * @returns Number of boosted picks (0 or 1)
+   */
+  private assertValidPicks(picks: BetPickDto[]): number {
+    // Validate picks
+    if (picks.length !== 3) {
+      throw new BadRequestException('You must select exactly 3 competitors');
+    }
+
+    // Check for duplicate competitors
+    const uniqueIds = new Set(picks.map((p) => p.competitorId));
+    if (uniqueIds.size !== 3) {
+      throw new BadRequestException(
+        'You cannot select the same competitor twice',
+      );
+    }
+
+    // Check boost - only one competitor can have boost
+    const boostCount = picks.filter((p) => p.hasBoost).length;
+    if (boostCount > 1) {
+      throw new BadRequestException('You can only boost one competitor');
+    }
+
+    return boostCount;
+  }
+
+  /**
+   * Current season (of the boost limit)
+   */
+  private getCurrentSeason(): { season: number; year: number } {
+    const now = new Date();
+    const year = now.getFullYear();
+    const season = SeasonUtils.getSeasonNumber(WeekUtils.getISOWeek(now), year);
+    return { season, year };
+  }
+
+  private async assertBoostAvailable(userId: string): Promise<void> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const { season, year } = this.getCurrentSeason();
+    if (
+      user.lastBoostUsedSeason === season &&
+      user.lastBoostUsedYear === year
+    ) {
+      throw new BadRequestException(
+        'You have already used your season boost. Boost resets at the start of each season.',
+      );
+    }
+  }
+
+  /**
+   * Latest odds of each competitor for a week, in the same order
+   */
+  private async fetchLatestOdds(
+    weekId: string,
+    competitorIds: string[],
+  ): Promise<CompetitorOdds[]> {
+    const oddsArray = await Promise.all(
+      competitorIds.map((competitorId) =>
+        this.competitorOddsRepository
+          .createQueryBuilder('odds')
+          .where('odds.competitorId = :competitorId', { competitorId })
+          .andWhere('odds.bettingWeekId = :weekId', { weekId })
+          .orderBy('odds.calculatedAt', 'DESC')
+          .getOne(),
+      ),
+    );
+
+    // Check if all competitors have odds
+    if (oddsArray.some((odd) => !odd)) {
+      throw new BadRequestException(
+        'Some competitors do not have odds for this week',
+      );
+    }
+
+    return oddsArray as CompetitorOdds[];
+  }
+
+  private getOddForPosition(
+    odd: CompetitorOdds,
+    position: BetPosition,
+  ): number {
+    if (position === BetPosition.FIRST) return odd.oddFirst;
+    if (position === BetPosition.SECOND) return odd.oddSecond;
+    return odd.oddThird;
+  }
+
+  /**
+   * Mark the season boost as used, unless it already is
+   */
+  private async consumeSeasonBoost(
+    em: EntityManager,
+    userId: string,
+  ): Promise<void> {
+    const { season, year } = this.getCurrentSeason();
+    const result = await em
+      .createQueryBuilder()
+      .update(User)
+      .set({
+        lastBoostUsedSeason: season,
+        lastBoostUsedMonth: season, // backward compat
+        lastBoostUsedYear: year,
+      })
+      .where('id = :userId', { userId })
+      .andWhere(
+        '("lastBoostUsedSeason" IS NULL OR "lastBoostUsedSeason" != :season OR "lastBoostUsedYear" != :year)',
+        { season, year },
+      )
+      .execute();
+
+    if (result.affected === 0) {
+      throw new BadRequestException(
+        'You have already used your season boost. Boost resets at the start of each season.',
+      );
+    }
+  }
+
+  /**
+   * Give back the season boost of a bet that no longer uses it. Bets can
+   * only change while their week is open, i.e. in the current season.
+   */
+  private async refundSeasonBoost(
+    em: EntityManager,
+    userId: string,
+  ): Promise<void> {
+    const { season, year } = this.getCurrentSeason();
+    await em
+      .createQueryBuilder()
+      .update(User)
+      .set({
+        lastBoostUsedSeason: null,
+        lastBoostUsedMonth: null,
+        lastBoostUsedYear: null,
+      })
+      .where('id = :userId', { userId })
+      .andWhere('"lastBoostUsedSeason" = :season', { season })
+      .andWhere('"lastBoostUsedYear" = :year', { year })
+      .execute();
+  }
+
+  private async recordRevision(
+    em: EntityManager,
+    bet: Bet,
+    action: BetRevisionAction,
+    picks: BetPick[],
+  ): Promise<void> {
+    await em.save(
+      em.create(BetRevision, {
+        betId: bet.id,
+        userId: bet.userId,
+        bettingWeekId: bet.bettingWeekId,
+        action,
+        picks: picks.map((p) => ({
+          competitorId: p.competitorId,
+          position: p.position,
+          oddAtBet: p.oddAtBet,
+          hasBoost: p.hasBoost,
+        })),
+      }),
+    );
+  }
+
+  /**
+   * Place a bet on a weekly market (see MarketType), priced with the
+   * latest market odds of the week
+   *
+   * See getMarketBetConflict for the bets a user can hold together.
+   */
+  async placeMarketBet(
+    userId: string,
+    placeMarketBetDto: PlaceMarketBetDto,
+  ): Promise<MarketBet> {
+    const { bettingWeekId, marketType, competitorId } = placeMarketBetDto;
+    const opponentId = placeMarketBetDto.opponentId ?? null;
+    const side = placeMarketBetDto.side ?? null;
+
+    const requestError = getMarketBetRequestError({
+      marketType,
+      competitorId,
+      opponentId,
+      side,
+    });
+    if (requestError) {
+      throw new BadRequestException(requestError);
+    }
+
+    const week = await this.getWeekById(bettingWeekId);
+    const weekError = getMarketWeekError(week.status, week.scoringMode);
+    if (weekError) {
+      throw new BadRequestException(weekError);
+    }
+
+    const weekBets = await this.marketBetRepository.find({
+      where: { userId, bettingWeekId },
+    });
+    const conflict = getMarketBetConflict(
+      { marketType, competitorId, opponentId },
+      weekBets,
+    );
+    if (conflict) {
+      throw new ConflictException(conflict);
+    }
+
+    const latest = await this.marketOddsRepository.findOne({
+      where: { bettingWeekId },
+      order: { calculatedAt: 'DESC' },
+    });
+    const marketOdd =
+      latest &&
+      (await this.marketOddsRepository.findOne({
+        where: {
+          bettingWeekId,
+          calculatedAt: latest.calculatedAt,
+          marketType,
+          competitorId,
+          opponentId: opponentId ?? IsNull(),
+          side: side ?? IsNull(),
+        },
+      }));
+    if (!marketOdd) {
+      throw new BadRequestException('This market is not offered this week');
+    }
+
+    const marketBet = this.marketBetRepository.create({
+      userId,
+      bettingWeekId,
+      marketType,
+      competitorId,
+      opponentId,
+      line: marketOdd.line,
+      side,
+      oddAtBet: marketOdd.odd,
+      placedAt: new Date(),
+    });
+    await this.marketBetRepository.save(marketBet);
+
+    return (await this.marketBetRepository.findOne({
+      where: { id: marketBet.id },
+    }))!; // Bet was just created, must exist
+  }
+
+  /**
+   * Get user's market bets, optionally for a single week
+   */
+  async getUserMarketBets(
+    userId: string,
+    weekId?: string,
+  ): Promise<MarketBet[]> {
+    return await this.marketBetRepository.find({
+      where: { userId, ...(weekId && { bettingWeekId: weekId }) },
+      relations: ['bettingWeek'],
+      order: { placedAt: 'DESC' },
+    });
+  }
+
   /**
    * Get user's bet for a specific week
    */
@@ -480,11 +847,23 @@ export class BettingService {
     offset = 0,
     userId?: string,
     status?: BetStatus,
+    memberIds?: string[],
   ): Promise<PaginatedResponse<Bet>> {
     const where: FindOptionsWhere<Bet> = {};
     if (userId) where.userId = userId;
     if (status) where.status = status;
 
+    // League: bets of its members only
+    if (memberIds) {
+      const userIds = userId
+        ? memberIds.filter((id) => id === userId)
+        : memberIds;
+      if (userIds.length === 0) {
+        return PaginatedResponse.create([], 0, limit, offset);
+      }
+      where.userId = In(userIds);
+    }
+
     const [bets, total] = await this.betRepository.findAndCount({
       where,
       relations: ['user', 'user.competitor', 'picks', 'picks.competitor', 'bettingWeek'],
@@ -0,0 +1,21 @@
+/**
+ * Accumulator bets configuration
+ *
+ * An accumulator chains one podium pick per week over the current and
+ * upcoming weeks. It wins only if every leg wins and pays the product of
+ * the leg odds (see AccumulatorService).
+ */
+export const ACCUMULATORS_CONFIG = {
+  /** Legs of a slip (one per week) */
+  MIN_LEGS: 2,
+  MAX_LEGS: 4,
+
+  /** Weeks created ahead of the current one, within its season */
+  UPCOMING_WEEKS: 3,
+
+  /** Cap of the combined odd, i.e. of the points a slip can earn */
+  MAX_COMBINED_ODD: 100,
+
+  /** Slips listed in the accumulator section of my bets */
+  MY_BETS_LIMIT: 20,
+};
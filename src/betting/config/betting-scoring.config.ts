@@ -32,7 +32,8 @@ export interface BettingScoringParams {
 }
 
 /**
- * Default scoring configuration
+ * Default scoring configuration (first betting ruleset, weeks are scored
+ * with the ruleset they were created under, see RulesetService)
  */
 export const DEFAULT_SCORING_PARAMS: BettingScoringParams = {
   perfectPodiumBonus: 2.0, // 2x bonus for perfect podium
@@ -65,6 +66,24 @@ export const DEFAULT_SCORING_PARAMS: BettingScoringParams = {
  * - Perfect podium bonus: 12.5 * 2 = 25 points
  */
 
+/**
+ * Pari-mutuel scoring (weeks in BettingWeekScoringMode.PARI_MUTUEL)
+ *
+ * Each pick stakes pointsPerStake points (times boostMultiplier when
+ * boosted) in the pool of its position. The pool of a position is split
+ * among the correct picks in proportion to their stake, so a week never
+ * pays more points than it collected. No perfect podium bonus, no BOG,
+ * no minimum points. A pool nobody won is not paid out.
+ *
+ * Example: the "first" pool holds 12 stakes, 3 of them on A (one
+ * unboosted pick, one boosted pick). A wins:
+ * - Pool odd of A = 12 / 3 = 4
+ * - Unboosted pick: 1 * 4 = 4 points, boosted pick: 2 * 4 = 8 points
+ */
+export const PARI_MUTUEL_CONFIG = {
+  pointsPerStake: 1,
+};
+
 /**
  * Logging configuration for scoring operations
  */
@@ -0,0 +1,38 @@
+/**
+ * Daily Betting Configuration
+ *
+ * Optional daily podium round next to the weekly cycle: opened each
+ * weekday morning, closed before lunch, settled at the end of the day
+ * into the season ranking (see DailyBettingService).
+ */
+
+import { DailyRankingMethod } from '../entities/daily-round.entity';
+
+export const DAILY_BETTING_CONFIG = {
+  /** Set to false to stop opening new rounds */
+  enabled: true,
+
+  /** How the day's podium is ranked */
+  rankingMethod: DailyRankingMethod.RACES_WON,
+
+  /** Minimum races of the day to be ranked by average rank */
+  minRacesForAvgRank: 2,
+
+  /** Bets close at this time of the round's day (UTC) */
+  closeHourUtc: 11,
+  closeMinuteUtc: 30,
+
+  /**
+   * Likely participants (the only competitors priced): raced on at least
+   * likelyMinActiveDays different days of the last likelyWindowDays days
+   */
+  likelyWindowDays: 14,
+  likelyMinActiveDays: 2,
+
+  /**
+   * Daily points are the weekly formula (odds, minimum points, perfect
+   * podium bonus of the week's ruleset) times this factor, so a day
+   * weighs less than a week in the season ranking
+   */
+  pointsFactor: 0.5,
+};
@@ -0,0 +1,16 @@
+/**
+ * Private betting leagues configuration
+ */
+export const LEAGUES_CONFIG = {
+  /** Length of invite codes */
+  INVITE_CODE_LENGTH: 8,
+
+  /** Invite code characters (no 0/O, 1/I look-alikes) */
+  INVITE_CODE_ALPHABET: 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789',
+
+  /** Maximum members of a league */
+  MAX_MEMBERS: 50,
+
+  /** Maximum leagues a user can be a member of */
+  MAX_LEAGUES_PER_USER: 10,
+};
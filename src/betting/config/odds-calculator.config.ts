@@ -5,11 +5,18 @@
  * Values can be adjusted without modifying core business logic.
  */
 
-import { OddsCalculationParams } from '../types/odds-calculator.types';
+import {
+  EligibilityRules,
+  MonteCarloConfig,
+  OddsCalculationParams,
+} from '../types/odds-calculator.types';
 
 /**
  * Default calculation parameters
  *
+ * Defaults of the first betting ruleset: weeks are calculated with the
+ * ruleset they were created under (see RulesetService).
+ *
  * These values have been chosen to provide:
  * - Reasonable odds range (1.1x to 50x)
  */
@@ -33,9 +40,9 @@ export const DEFAULT_ODDS_PARAMS: OddsCalculationParams = {
 };
 
 /**
- * Eligibility rules
+ * Eligibility rules (defaults, see DEFAULT_ODDS_PARAMS)
  */
-export const ELIGIBILITY_RULES = {
+export const ELIGIBILITY_RULES: EligibilityRules = {
   /**
    * Minimum lifetime races required to be pariable (calibration period)
    * New players must complete this many races before being eligible for betting
@@ -60,8 +67,9 @@ export const ELIGIBILITY_RULES = {
  *
  * Used to estimate P(1st), P(2nd), P(3rd) for each competitor
  * via repeated random draws weighted by Plackett-Luce strengths.
+ * Defaults, see DEFAULT_ODDS_PARAMS.
  */
-export const MONTE_CARLO_CONFIG = {
+export const MONTE_CARLO_CONFIG: MonteCarloConfig = {
   /** Number of simulation runs */
   NUM_SIMULATIONS: 50_000,
 
@@ -75,6 +83,23 @@ export const MONTE_CARLO_CONFIG = {
   PODIUM_SIZE: 3,
 };
 
+/**
+ * Weekly markets configuration (see MarketType)
+ */
+export const MARKETS_CONFIG = {
+  /** Simulated weeks for the race count / average rank markets */
+  ACTIVITY_SIMULATIONS: 10_000,
+
+  /**
+   * Matchups are only offered when the underdog finishes ahead in at
+   * least this share of the simulations
+   */
+  MATCHUP_MIN_PROBABILITY: 0.2,
+
+  /** Market bets a user can place in a week, all markets together */
+  MAX_BETS_PER_WEEK: 5,
+};
+
 /**
  * Logging configuration
  */
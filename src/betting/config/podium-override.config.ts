@@ -0,0 +1,15 @@
+/**
+ * Podium override configuration
+ *
+ * An admin proposes a podium replacing the automatic one of a week.
+ * Bettors of the week are notified and can object during the window:
+ * without objection the override applies at the end of the window,
+ * with one it waits for an admin decision (see PodiumOverrideService).
+ */
+export const PODIUM_OVERRIDE_CONFIG = {
+  /** Objection window after the proposal */
+  OBJECTION_WINDOW_HOURS: 24,
+
+  /** Maximum length of a reason (proposal or objection) */
+  MAX_REASON_LENGTH: 500,
+};
@@ -0,0 +1,21 @@
+/**
+ * Betting ruleset defaults
+ *
+ * Parameters of weeks created before rulesets existed, and base of the
+ * first draft when no ruleset is stored yet.
+ */
+
+import { RulesetParams } from '../entities/betting-ruleset.entity';
+import { DEFAULT_SCORING_PARAMS } from './betting-scoring.config';
+import {
+  DEFAULT_ODDS_PARAMS,
+  ELIGIBILITY_RULES,
+  MONTE_CARLO_CONFIG,
+} from './odds-calculator.config';
+
+export const DEFAULT_RULESET_PARAMS: RulesetParams = {
+  scoring: DEFAULT_SCORING_PARAMS,
+  odds: DEFAULT_ODDS_PARAMS,
+  eligibility: ELIGIBILITY_RULES,
+  monteCarlo: MONTE_CARLO_CONFIG,
+};
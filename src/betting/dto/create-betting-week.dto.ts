@@ -1,6 +1,9 @@
 import { IsInt, IsDate, IsEnum, IsOptional } from 'class-validator';
 import { Type } from 'class-transformer';
-import { BettingWeekStatus } from '../entities/betting-week.entity';
+import {
+  BettingWeekScoringMode,
+  BettingWeekStatus,
+} from '../entities/betting-week.entity';
 
 export class CreateBettingWeekDto {
   @IsInt()
@@ -23,4 +26,8 @@ export class CreateBettingWeekDto {
   @IsEnum(BettingWeekStatus)
   @IsOptional()
   status?: BettingWeekStatus;
+
+  @IsEnum(BettingWeekScoringMode)
+  @IsOptional()
+  scoringMode?: BettingWeekScoringMode; // Defaults to fixed odds
 }
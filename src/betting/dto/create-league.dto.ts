@@ -0,0 +1,7 @@
+import { IsString, Length } from 'class-validator';
+
+export class CreateLeagueDto {
+  @IsString()
+  @Length(1, 50)
+  name: string;
+}
@@ -0,0 +1,107 @@
+import {
+  IsBoolean,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class RulesetScoringDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  perfectPodiumBonus?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  boostMultiplier?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minPointsPerCorrectPick?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  incorrectPickPoints?: number;
+}
+
+export class RulesetOddsDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  minOdd?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  maxOdd?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  recentRacesCount?: number;
+}
+
+export class RulesetEligibilityDto {
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  MIN_LIFETIME_RACES?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  MIN_RECENT_RACES?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  RECENT_WINDOW_DAYS?: number;
+}
+
+export class RulesetMonteCarloDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1000)
+  NUM_SIMULATIONS?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  GLICKO_SCALE?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  INCORPORATE_RD?: boolean;
+}
+
+/**
+ * Rules of the next season: every field left out keeps the value of the
+ * current ruleset
+ */
+export class DraftRulesetDto {
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RulesetScoringDto)
+  scoring?: RulesetScoringDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RulesetOddsDto)
+  odds?: RulesetOddsDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RulesetEligibilityDto)
+  eligibility?: RulesetEligibilityDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RulesetMonteCarloDto)
+  monteCarlo?: RulesetMonteCarloDto;
+}
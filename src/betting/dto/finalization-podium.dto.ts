@@ -0,0 +1,18 @@
+import { IsUUID, IsOptional } from 'class-validator';
+
+/**
+ * Manual podium for a finalization dry-run or re-finalization
+ */
+export class FinalizationPodiumDto {
+  @IsOptional()
+  @IsUUID()
+  podiumFirstId?: string;
+
+  @IsOptional()
+  @IsUUID()
+  podiumSecondId?: string;
+
+  @IsOptional()
+  @IsUUID()
+  podiumThirdId?: string;
+}
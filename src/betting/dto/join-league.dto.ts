@@ -0,0 +1,7 @@
+import { IsString, Length } from 'class-validator';
+
+export class JoinLeagueDto {
+  @IsString()
+  @Length(4, 12)
+  inviteCode: string;
+}
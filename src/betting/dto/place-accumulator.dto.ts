@@ -0,0 +1,31 @@
+import {
+  IsUUID,
+  IsArray,
+  IsEnum,
+  ValidateNested,
+  ArrayMinSize,
+  ArrayMaxSize,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { BetPosition } from '../entities/bet-pick.entity';
+import { ACCUMULATORS_CONFIG } from '../config/accumulators.config';
+
+export class AccumulatorLegDto {
+  @IsUUID()
+  bettingWeekId: string;
+
+  @IsUUID()
+  competitorId: string;
+
+  @IsEnum(BetPosition)
+  position: BetPosition;
+}
+
+export class PlaceAccumulatorDto {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AccumulatorLegDto)
+  @ArrayMinSize(ACCUMULATORS_CONFIG.MIN_LEGS)
+  @ArrayMaxSize(ACCUMULATORS_CONFIG.MAX_LEGS)
+  legs: AccumulatorLegDto[]; // One leg per week
+}
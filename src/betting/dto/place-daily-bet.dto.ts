@@ -0,0 +1,12 @@
+import { IsUUID, IsArray, ArrayMinSize, ArrayMaxSize } from 'class-validator';
+
+export class PlaceDailyBetDto {
+  @IsUUID()
+  dailyRoundId: string;
+
+  @IsArray()
+  @IsUUID('all', { each: true })
+  @ArrayMinSize(3)
+  @ArrayMaxSize(3)
+  competitorIds: string[]; // Podium in order (first, second, third)
+}
@@ -0,0 +1,21 @@
+import { IsUUID, IsEnum, IsOptional } from 'class-validator';
+import { MarketSide, MarketType } from '../entities/market-odds.entity';
+
+export class PlaceMarketBetDto {
+  @IsUUID()
+  bettingWeekId: string;
+
+  @IsEnum(MarketType)
+  marketType: MarketType;
+
+  @IsUUID()
+  competitorId: string;
+
+  @IsUUID()
+  @IsOptional()
+  opponentId?: string; // Required for matchups
+
+  @IsEnum(MarketSide)
+  @IsOptional()
+  side?: MarketSide; // Required for race count / average rank
+}
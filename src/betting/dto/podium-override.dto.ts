@@ -0,0 +1,29 @@
+import { IsUUID, IsString, MaxLength } from 'class-validator';
+import { PODIUM_OVERRIDE_CONFIG } from '../config/podium-override.config';
+
+/**
+ * Podium proposed to replace the podium of a week
+ */
+export class ProposePodiumOverrideDto {
+  @IsUUID()
+  podiumFirstId: string;
+
+  @IsUUID()
+  podiumSecondId: string;
+
+  @IsUUID()
+  podiumThirdId: string;
+
+  @IsString()
+  @MaxLength(PODIUM_OVERRIDE_CONFIG.MAX_REASON_LENGTH)
+  reason: string;
+}
+
+/**
+ * Objection of a bettor to a proposed podium override
+ */
+export class ObjectPodiumOverrideDto {
+  @IsString()
+  @MaxLength(PODIUM_OVERRIDE_CONFIG.MAX_REASON_LENGTH)
+  reason: string;
+}
@@ -20,4 +20,12 @@ export class QueryCommunityBetsDto extends PaginationQueryDto {
   @IsEnum(BetStatus)
   @IsOptional()
   status?: BetStatus;
+
+  @ApiPropertyOptional({
+    description: 'Only the bets of the members of a private league',
+    example: 'uuid-here',
+  })
+  @IsUUID()
+  @IsOptional()
+  leagueId?: string;
 }
@@ -0,0 +1,17 @@
+import {
+  IsArray,
+  ValidateNested,
+  ArrayMinSize,
+  ArrayMaxSize,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { BetPickDto } from './place-bet.dto';
+
+export class UpdateBetDto {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => BetPickDto)
+  @ArrayMinSize(3)
+  @ArrayMaxSize(3)
+  picks: BetPickDto[]; // New picks (first, second, third), replacing the old ones
+}
@@ -0,0 +1,68 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/user.entity';
+import { BetStatus } from './bet.entity';
+import { AccumulatorLeg } from './accumulator-leg.entity';
+
+/**
+ * Accumulator bet slip: one leg per week, settled once every leg is
+ * (see ACCUMULATORS_CONFIG). Won: combinedOdd points (void legs left
+ * out), lost: 0, every leg void: CANCELLED with 0 points.
+ */
+@Entity('accumulator_bets')
+@Index(['userId'])
+export class AccumulatorBet {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @OneToMany(() => AccumulatorLeg, (leg) => leg.accumulatorBet, {
+    cascade: true,
+    eager: true,
+  })
+  legs: AccumulatorLeg[];
+
+  /** Product of the leg odds at placement (capped) */
+  @Column({ type: 'float' })
+  combinedOdd: number;
+
+  /** Season of the last leg, ranked when the slip settles */
+  @Column({ type: 'int' })
+  seasonNumber: number;
+
+  @Column({ type: 'int' })
+  year: number;
+
+  @Column({
+    type: 'enum',
+    enum: BetStatus,
+    default: BetStatus.PENDING,
+  })
+  status: BetStatus;
+
+  @Column({ type: 'float', nullable: true })
+  pointsEarned: number | null;
+
+  @Column({ type: 'boolean', default: false })
+  isFinalized: boolean;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  settledAt: Date | null;
+
+  @CreateDateColumn()
+  placedAt: Date;
+}
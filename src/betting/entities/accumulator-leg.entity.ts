@@ -0,0 +1,60 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Competitor } from '../../competitors/competitor.entity';
+import { BettingWeek } from './betting-week.entity';
+import { BetPosition } from './bet-pick.entity';
+import { AccumulatorBet } from './accumulator-bet.entity';
+
+export enum AccumulatorLegStatus {
+  PENDING = 'pending', // Week not finalized yet
+  WON = 'won',
+  LOST = 'lost',
+  VOID = 'void', // Week cancelled, the leg counts as an odd of 1
+}
+
+@Entity('accumulator_legs')
+@Index(['bettingWeekId'])
+export class AccumulatorLeg {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  accumulatorBetId: string;
+
+  @ManyToOne(() => AccumulatorBet, (bet) => bet.legs, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'accumulatorBetId' })
+  accumulatorBet: AccumulatorBet;
+
+  @Column()
+  bettingWeekId: string;
+
+  @ManyToOne(() => BettingWeek)
+  @JoinColumn({ name: 'bettingWeekId' })
+  bettingWeek: BettingWeek;
+
+  @Column()
+  competitorId: string;
+
+  @ManyToOne(() => Competitor)
+  @JoinColumn({ name: 'competitorId' })
+  competitor: Competitor;
+
+  @Column({ type: 'enum', enum: BetPosition })
+  position: BetPosition;
+
+  @Column({ type: 'float' })
+  oddAtBet: number;
+
+  @Column({
+    type: 'enum',
+    enum: AccumulatorLegStatus,
+    default: AccumulatorLegStatus.PENDING,
+  })
+  status: AccumulatorLegStatus;
+}
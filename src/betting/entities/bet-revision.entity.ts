@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { BetPosition } from './bet-pick.entity';
+
+export enum BetRevisionAction {
+  PLACED = 'placed',
+  UPDATED = 'updated',
+  WITHDRAWN = 'withdrawn',
+}
+
+export interface BetRevisionPick {
+  competitorId: string;
+  position: BetPosition;
+  oddAtBet: number;
+  hasBoost: boolean;
+}
+
+/**
+ * Audit history of a bet: one row each time it is placed, edited or
+ * withdrawn. Rows are kept when the bet is withdrawn (no foreign key).
+ */
+@Entity('bet_revisions')
+@Index(['betId', 'createdAt'])
+export class BetRevision {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  betId: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'uuid' })
+  bettingWeekId: string;
+
+  @Column({
+    type: 'enum',
+    enum: BetRevisionAction,
+  })
+  action: BetRevisionAction;
+
+  /** Picks after the revision (before it for a withdrawal) */
+  @Column({ type: 'jsonb' })
+  picks: BetRevisionPick[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
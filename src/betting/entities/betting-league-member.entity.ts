@@ -0,0 +1,38 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/user.entity';
+import { BettingLeague } from './betting-league.entity';
+
+@Entity('betting_league_members')
+@Index(['leagueId', 'userId'], { unique: true })
+@Index(['userId'])
+export class BettingLeagueMember {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  leagueId: string;
+
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => BettingLeague, (league) => league.members, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'leagueId' })
+  league: BettingLeague;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @CreateDateColumn()
+  joinedAt: Date;
+}
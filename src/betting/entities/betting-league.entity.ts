@@ -0,0 +1,40 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+} from 'typeorm';
+import { User } from '../../users/user.entity';
+import { BettingLeagueMember } from './betting-league-member.entity';
+
+/**
+ * Private league: a group of bettors with their own rankings, computed
+ * from the same bets as the global ones. Joined with an invite code.
+ */
+@Entity('betting_leagues')
+export class BettingLeague {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 12, unique: true })
+  inviteCode: string;
+
+  @Column()
+  ownerId: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'ownerId' })
+  owner: User;
+
+  @OneToMany(() => BettingLeagueMember, (member) => member.league)
+  members: BettingLeagueMember[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
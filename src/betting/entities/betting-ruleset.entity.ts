@@ -0,0 +1,64 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { BettingScoringParams } from '../config/betting-scoring.config';
+import {
+  EligibilityRules,
+  MonteCarloConfig,
+  OddsCalculationParams,
+} from '../types/odds-calculator.types';
+
+/**
+ * Parameters of a betting ruleset
+ */
+export interface RulesetParams {
+  scoring: BettingScoringParams;
+  odds: OddsCalculationParams;
+  eligibility: EligibilityRules;
+  monteCarlo: MonteCarloConfig;
+}
+
+/**
+ * Versioned scoring and odds parameters, applying from a season on
+ *
+ * Each betting week keeps the ruleset it was created under, so past
+ * weeks are always recalculated with their own rules. A ruleset is a
+ * draft until a week uses it (lockedAt), then it can't change anymore.
+ */
+@Entity('betting_rulesets')
+export class BettingRuleset {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'int', unique: true })
+  version: number;
+
+  /** First season (absolute number, see SeasonUtils) it applies to */
+  @Column({ type: 'int', unique: true })
+  seasonNumber: number;
+
+  @Column({ type: 'jsonb' })
+  scoring: BettingScoringParams;
+
+  @Column({ type: 'jsonb' })
+  odds: OddsCalculationParams;
+
+  @Column({ type: 'jsonb' })
+  eligibility: EligibilityRules;
+
+  @Column({ type: 'jsonb' })
+  monteCarlo: MonteCarloConfig;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lockedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -11,14 +11,21 @@ import {
 import { Competitor } from '../../competitors/competitor.entity';
 import { Bet } from './bet.entity';
 import { CompetitorOdds } from './competitor-odds.entity';
+import { BettingRuleset } from './betting-ruleset.entity';
 
 export enum BettingWeekStatus {
+  UPCOMING = 'upcoming', // Created ahead of time - accumulator legs only
   CALIBRATION = 'calibration', // First week of season - no betting allowed
   OPEN = 'open',
   CLOSED = 'closed',
   FINALIZED = 'finalized',
 }
 
+export enum BettingWeekScoringMode {
+  FIXED_ODDS = 'fixed_odds', // Correct picks earn their odd (house odds)
+  PARI_MUTUEL = 'pari_mutuel', // Correct picks share the pool of stakes
+}
+
 @Entity('betting_weeks')
 @Index(['year', 'weekNumber'], { unique: true })
 export class BettingWeek {
@@ -50,6 +57,27 @@ export class BettingWeek {
   })
   status: BettingWeekStatus;
 
+  /**
+   * How correct picks are paid (see PARI_MUTUEL_CONFIG for the pool mode)
+   */
+  @Column({
+    type: 'enum',
+    enum: BettingWeekScoringMode,
+    default: BettingWeekScoringMode.FIXED_ODDS,
+  })
+  scoringMode: BettingWeekScoringMode;
+
+  /**
+   * Ruleset the week was created under (scoring, odds, eligibility).
+   * Null only if no ruleset existed, the config defaults apply then.
+   */
+  @Column({ nullable: true })
+  rulesetId: string | null;
+
+  @ManyToOne(() => BettingRuleset, { nullable: true })
+  @JoinColumn({ name: 'rulesetId' })
+  ruleset: BettingRuleset | null;
+
   /**
    * Indicates if this is the first ISO week of the season (calibration week).
    * During calibration weeks, betting is blocked to allow ELO ratings to stabilize
@@ -79,6 +107,27 @@ export class BettingWeek {
   @JoinColumn({ name: 'podiumThirdId' })
   podiumThird: Competitor;
 
+  /**
+   * Final standing of the week (competitor IDs, podium first), used to
+   * settle matchup markets. Null for weeks finalized before markets.
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  finalStandings: string[] | null;
+
+  /**
+   * Podium determined automatically when the week was finalized, kept
+   * when a podium override replaces it (see PodiumOverrideService)
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  automaticPodium: string[] | null;
+
+  /** Reason of the podium override applied to the week, if any */
+  @Column({ type: 'text', nullable: true })
+  podiumOverrideReason: string | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  podiumOverriddenAt: Date | null;
+
   @Column({ type: 'timestamptz', nullable: true })
   finalizedAt: Date;
 
@@ -42,6 +42,10 @@ export class CompetitorOdds {
   @Column({ type: 'timestamptz' })
   calculatedAt: Date;
 
+  /** Race whose result triggered the recalculation (null: manual / scheduled) */
+  @Column({ type: 'uuid', nullable: true })
+  raceId: string | null;
+
   @Column({ type: 'jsonb', nullable: true })
   metadata: {
     elo: number;
@@ -0,0 +1,65 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/user.entity';
+import { BetStatus } from './bet.entity';
+import { BetPosition } from './bet-pick.entity';
+import { DailyRound } from './daily-round.entity';
+
+export interface DailyBetPick {
+  competitorId: string;
+  position: BetPosition;
+  oddAtBet: number;
+  isCorrect: boolean | null;
+  pointsEarned: number | null;
+}
+
+/**
+ * Podium bet on a daily round, one per user and round (no boost)
+ */
+@Entity('daily_bets')
+@Index(['userId', 'dailyRoundId'], { unique: true })
+export class DailyBet {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: string;
+
+  @Column()
+  dailyRoundId: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @ManyToOne(() => DailyRound, (round) => round.bets, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'dailyRoundId' })
+  dailyRound: DailyRound;
+
+  /** First, second and third pick, in that order */
+  @Column({ type: 'jsonb' })
+  picks: DailyBetPick[];
+
+  @Column({
+    type: 'enum',
+    enum: BetStatus,
+    default: BetStatus.PENDING,
+  })
+  status: BetStatus;
+
+  @Column({ type: 'float', nullable: true })
+  pointsEarned: number | null;
+
+  @Column({ type: 'boolean', default: false })
+  isFinalized: boolean;
+
+  @CreateDateColumn()
+  placedAt: Date;
+}
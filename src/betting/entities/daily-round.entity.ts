@@ -0,0 +1,93 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+} from 'typeorm';
+import { BettingWeek } from './betting-week.entity';
+import { DailyBet } from './daily-bet.entity';
+
+export enum DailyRoundStatus {
+  OPEN = 'open', // Accepting bets until closesAt
+  CLOSED = 'closed', // Bets closed, waiting for the day's races
+  FINALIZED = 'finalized', // Podium determined, bets settled
+  CANCELLED = 'cancelled', // Not enough competitors raced
+}
+
+export enum DailyRankingMethod {
+  RACES_WON = 'races_won', // Most races won, then best average rank
+  AVG_RANK = 'avg_rank', // Best average rank (minimum races required)
+}
+
+/** Podium odds of a competitor, frozen when the round opens */
+export interface DailyRoundOdd {
+  competitorId: string;
+  competitorName: string;
+  oddFirst: number;
+  oddSecond: number;
+  oddThird: number;
+}
+
+/**
+ * Daily podium betting round (see DAILY_BETTING_CONFIG). Priced with the
+ * ruleset of its betting week, settled into the same season ranking.
+ */
+@Entity('daily_rounds')
+export class DailyRound {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** Day of the round (YYYY-MM-DD, UTC) */
+  @Column({ type: 'date', unique: true })
+  date: string;
+
+  @Column()
+  bettingWeekId: string;
+
+  @ManyToOne(() => BettingWeek)
+  @JoinColumn({ name: 'bettingWeekId' })
+  bettingWeek: BettingWeek;
+
+  @Column({ type: 'int' })
+  seasonNumber: number;
+
+  @Column({ type: 'int' })
+  year: number;
+
+  @Column({ type: 'enum', enum: DailyRankingMethod })
+  rankingMethod: DailyRankingMethod;
+
+  @Column({
+    type: 'enum',
+    enum: DailyRoundStatus,
+    default: DailyRoundStatus.OPEN,
+  })
+  status: DailyRoundStatus;
+
+  @Column({ type: 'timestamptz' })
+  closesAt: Date;
+
+  @Column({ type: 'jsonb' })
+  odds: DailyRoundOdd[];
+
+  @Column({ type: 'uuid', nullable: true })
+  podiumFirstId: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  podiumSecondId: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  podiumThirdId: string | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  finalizedAt: Date | null;
+
+  @OneToMany(() => DailyBet, (bet) => bet.dailyRound)
+  bets: DailyBet[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,81 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/user.entity';
+import { Competitor } from '../../competitors/competitor.entity';
+import { BettingWeek } from './betting-week.entity';
+import { BetStatus } from './bet.entity';
+import { MarketSide, MarketType } from './market-odds.entity';
+
+/**
+ * Bet on a weekly market (see MarketType). Won: oddAtBet points, lost:
+ * -oddAtBet, void (push, or no race for an average rank): CANCELLED with
+ * 0 points.
+ */
+@Entity('market_bets')
+@Index(['userId', 'bettingWeekId'])
+export class MarketBet {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: string;
+
+  @Column()
+  bettingWeekId: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @ManyToOne(() => BettingWeek)
+  @JoinColumn({ name: 'bettingWeekId' })
+  bettingWeek: BettingWeek;
+
+  @Column({ type: 'enum', enum: MarketType })
+  marketType: MarketType;
+
+  @Column()
+  competitorId: string;
+
+  @ManyToOne(() => Competitor, { eager: true })
+  @JoinColumn({ name: 'competitorId' })
+  competitor: Competitor;
+
+  @Column({ type: 'uuid', nullable: true })
+  opponentId: string | null;
+
+  @Column({ type: 'float', nullable: true })
+  line: number | null;
+
+  @Column({ type: 'enum', enum: MarketSide, nullable: true })
+  side: MarketSide | null;
+
+  @Column({ type: 'float' })
+  oddAtBet: number;
+
+  @Column({ type: 'timestamptz' })
+  placedAt: Date;
+
+  @Column({ type: 'boolean', default: false })
+  isFinalized: boolean;
+
+  @Column({
+    type: 'enum',
+    enum: BetStatus,
+    default: BetStatus.PENDING,
+  })
+  status: BetStatus;
+
+  @Column({ type: 'float', nullable: true })
+  pointsEarned: number | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
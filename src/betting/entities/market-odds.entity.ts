@@ -0,0 +1,78 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Competitor } from '../../competitors/competitor.entity';
+
+/**
+ * Weekly markets besides the 3-pick podium, settled on the week's final
+ * standing (winner, top 3, matchup) or on its races (race count, avg rank)
+ */
+export enum MarketType {
+  WINNER = 'winner', // Competitor wins the week
+  TOP_THREE = 'top_three', // Competitor on the podium, any position
+  MATCHUP = 'matchup', // Competitor finishes ahead of the opponent
+  RACE_COUNT = 'race_count', // Over / under a number of races in the week
+  AVG_RANK = 'avg_rank', // Over / under an average rank12 in the week
+}
+
+export enum MarketSide {
+  OVER = 'over',
+  UNDER = 'under',
+}
+
+/**
+ * Price of one market selection, recalculated with the podium odds
+ * (same calculatedAt / raceId semantics as CompetitorOdds)
+ */
+@Entity('market_odds')
+@Index(['bettingWeekId', 'calculatedAt'])
+export class MarketOdds {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  bettingWeekId: string;
+
+  @Column({ type: 'enum', enum: MarketType })
+  marketType: MarketType;
+
+  @Column()
+  competitorId: string;
+
+  @ManyToOne(() => Competitor)
+  @JoinColumn({ name: 'competitorId' })
+  competitor: Competitor;
+
+  /** Matchup opponent */
+  @Column({ type: 'uuid', nullable: true })
+  opponentId: string | null;
+
+  /** Over / under line */
+  @Column({ type: 'float', nullable: true })
+  line: number | null;
+
+  /** Over / under side */
+  @Column({ type: 'enum', enum: MarketSide, nullable: true })
+  side: MarketSide | null;
+
+  @Column({ type: 'float' })
+  probability: number;
+
+  @Column({ type: 'float' })
+  odd: number;
+
+  @Column({ type: 'timestamptz' })
+  calculatedAt: Date;
+
+  @Column({ type: 'uuid', nullable: true })
+  raceId: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
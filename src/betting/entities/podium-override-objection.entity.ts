@@ -0,0 +1,43 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/user.entity';
+import { PodiumOverride } from './podium-override.entity';
+
+/**
+ * Objection of a bettor to a podium override, one per bettor
+ */
+@Entity('podium_override_objections')
+@Index(['podiumOverrideId', 'userId'], { unique: true })
+export class PodiumOverrideObjection {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  podiumOverrideId: string;
+
+  @ManyToOne(() => PodiumOverride, (override) => override.objections, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'podiumOverrideId' })
+  podiumOverride: PodiumOverride;
+
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'text' })
+  reason: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,79 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/user.entity';
+import { BettingWeek } from './betting-week.entity';
+import { PodiumOverrideObjection } from './podium-override-objection.entity';
+
+export enum PodiumOverrideStatus {
+  PENDING = 'pending', // Objection window open
+  CONTESTED = 'contested', // Objected, waiting for an admin decision
+  APPLIED = 'applied', // Week re-finalized with the podium
+  REJECTED = 'rejected', // Dropped by an admin
+}
+
+/**
+ * Proposed replacement of the podium of a week (see PODIUM_OVERRIDE_CONFIG)
+ */
+@Entity('podium_overrides')
+@Index(['bettingWeekId'])
+export class PodiumOverride {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  bettingWeekId: string;
+
+  @ManyToOne(() => BettingWeek)
+  @JoinColumn({ name: 'bettingWeekId' })
+  bettingWeek: BettingWeek;
+
+  @Column()
+  proposedById: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'proposedById' })
+  proposedBy: User;
+
+  @Column({ type: 'uuid' })
+  podiumFirstId: string;
+
+  @Column({ type: 'uuid' })
+  podiumSecondId: string;
+
+  @Column({ type: 'uuid' })
+  podiumThirdId: string;
+
+  /** Podium of the week when the override was proposed */
+  @Column({ type: 'jsonb', nullable: true })
+  previousPodium: string[] | null;
+
+  @Column({ type: 'text' })
+  reason: string;
+
+  @Column({
+    type: 'enum',
+    enum: PodiumOverrideStatus,
+    default: PodiumOverrideStatus.PENDING,
+  })
+  status: PodiumOverrideStatus;
+
+  @Column({ type: 'timestamptz' })
+  objectionDeadline: Date;
+
+  @OneToMany(() => PodiumOverrideObjection, (o) => o.podiumOverride)
+  objections: PodiumOverrideObjection[];
+
+  @Column({ type: 'timestamptz', nullable: true })
+  resolvedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,48 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { RaceCorrectedEvent } from '../../races/events';
+import { OddsCalculatorService } from '../services/odds-calculator.service';
+import { WeekManagerService } from '../services/week-manager.service';
+import { BettingWeekStatus } from '../entities/betting-week.entity';
+
+/**
+ * Listener for race correction events
+ * A corrected or deleted race changes the replayed ratings of everyone
+ * who raced afterwards, so the odds of the open week are recalculated.
+ * Existing bets keep the odds locked at the time they were placed.
+ */
+@Injectable()
+export class RaceCorrectedListener {
+  private readonly logger = new Logger(RaceCorrectedListener.name);
+
+  constructor(
+    private readonly oddsCalculator: OddsCalculatorService,
+    private readonly weekManager: WeekManagerService,
+  ) {}
+
+  @OnEvent('race.corrected')
+  async handleRaceCorrected(event: RaceCorrectedEvent) {
+    this.logger.log(`Race corrected event received: ${event.raceId}`);
+
+    try {
+      const week = await this.weekManager.getCurrentWeek();
+
+      if (!week || week.status !== BettingWeekStatus.OPEN) {
+        this.logger.log(
+          'No open betting week, skipping odds recalculation after correction',
+        );
+        return;
+      }
+
+      await this.oddsCalculator.calculateOddsForWeek(week.id, event.raceId);
+      this.logger.log(
+        `Odds recalculated for week ${week.id} after correction of race ${event.raceId}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to recalculate odds after correction of race ${event.raceId}:`,
+        error instanceof Error ? error.stack : undefined,
+      );
+    }
+  }
+}
@@ -5,6 +5,7 @@ import { Repository } from 'typeorm';
 import { RaceCreatedEvent } from '../../races/events';
 import { OddsCalculatorService } from '../services/odds-calculator.service';
 import { BettingWeek, BettingWeekStatus } from '../entities/betting-week.entity';
+import { CompetitorOdds } from '../entities/competitor-odds.entity';
 
 /**
  * Listener for race creation events
@@ -13,6 +14,10 @@ import { BettingWeek, BettingWeekStatus } from '../entities/betting-week.entity'
  * Dynamic odds: Odds are recalculated after each race to reflect
  * the current state of the competition. Existing bets keep the
  * odds locked at the time they were placed.
+ *
+ * Failures are rethrown: the race.created event comes from the outbox,
+ * which retries it with backoff. A retry re-runs every listener, so odds
+ * already recalculated for the race are not recalculated again.
  */
 @Injectable()
 export class RaceCreatedListener {
@@ -22,9 +27,11 @@ export class RaceCreatedListener {
     private readonly oddsCalculator: OddsCalculatorService,
     @InjectRepository(BettingWeek)
     private readonly bettingWeekRepository: Repository<BettingWeek>,
+    @InjectRepository(CompetitorOdds)
+    private readonly competitorOddsRepository: Repository<CompetitorOdds>,
   ) {}
 
-  @OnEvent('race.created')
+  @OnEvent('race.created', { suppressErrors: false })
   async handleRaceCreated(event: RaceCreatedEvent) {
     this.logger.log(`Race created event received: ${event.race.id}`);
 
@@ -55,7 +62,20 @@ export class RaceCreatedListener {
         return;
       }
 
-      await this.oddsCalculator.calculateOddsForWeek(event.bettingWeekId);
+      const alreadyRecalculated = await this.competitorOddsRepository.exists({
+        where: { bettingWeekId: event.bettingWeekId, raceId: event.race.id },
+      });
+      if (alreadyRecalculated) {
+        this.logger.log(
+          `Odds of week ${event.bettingWeekId} already recalculated after race ${event.race.id}, skipping`,
+        );
+        return;
+      }
+
+      await this.oddsCalculator.calculateOddsForWeek(
+        event.bettingWeekId,
+        event.race.id,
+      );
       this.logger.log(
         `Dynamic odds recalculated for week ${event.bettingWeekId} after race ${event.race.id}`,
       );
@@ -65,20 +85,7 @@ export class RaceCreatedListener {
         `Failed to recalculate odds for week ${event.bettingWeekId}:`,
         errorStack,
       );
-
-      // Retry once after 5s delay
-      try {
-        await new Promise((resolve) => setTimeout(resolve, 5000));
-        this.logger.log(`Retrying odds calculation for week ${event.bettingWeekId}...`);
-        await this.oddsCalculator.calculateOddsForWeek(event.bettingWeekId);
-        this.logger.log(`Retry succeeded for week ${event.bettingWeekId}`);
-      } catch (retryError) {
-        const retryStack = retryError instanceof Error ? retryError.stack : undefined;
-        this.logger.error(
-          `Retry also failed for week ${event.bettingWeekId} — odds may be stale:`,
-          retryStack,
-        );
-      }
+      throw error;
     }
   }
 }
@@ -4,8 +4,11 @@
  * Focus on:
  * - First week of month detection (calibration week)
  * - ISO week calculation
+ * - Weeks following a week (upcoming weeks)
  */
 
+import { WeekUtils } from '../week-manager.service';
+
 describe('First Week of Month Detection', () => {
   /**
    * A week is considered the "first week of the month" if its Monday
@@ -192,3 +195,29 @@ describe('Betting Week Status', () => {
     expect(statuses).toContain('finalized');
   });
 });
+
+describe('WeekUtils.getFollowingWeeks', () => {
+  it('should return the next weeks of the year', () => {
+    expect(WeekUtils.getFollowingWeeks(2024, 10, 3)).toEqual([
+      { year: 2024, weekNumber: 11 },
+      { year: 2024, weekNumber: 12 },
+      { year: 2024, weekNumber: 13 },
+    ]);
+  });
+
+  it('should move to week 1 of the next ISO year', () => {
+    // 2024-W52 is followed by 2025-W01 (Monday December 30, 2024)
+    expect(WeekUtils.getFollowingWeeks(2024, 51, 3)).toEqual([
+      { year: 2024, weekNumber: 52 },
+      { year: 2025, weekNumber: 1 },
+      { year: 2025, weekNumber: 2 },
+    ]);
+  });
+
+  it('should handle a year of 53 ISO weeks', () => {
+    expect(WeekUtils.getFollowingWeeks(2026, 52, 2)).toEqual([
+      { year: 2026, weekNumber: 53 },
+      { year: 2027, weekNumber: 1 },
+    ]);
+  });
+});
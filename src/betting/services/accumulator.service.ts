@@ -0,0 +1,375 @@
+/**
+ * AccumulatorService
+ *
+ * Accumulator bets: one podium pick per week over the current and
+ * upcoming weeks, combined odd = product of the leg odds (see
+ * ACCUMULATORS_CONFIG). Each leg settles with the finalization of its
+ * week, the slip once every leg has:
+ * - Finalized week: leg won if the competitor finished at the position
+ * - Cancelled week (WeekManagerService.cancelWeek): leg void (odd of 1)
+ * - Rolled back week: its legs go back to pending, the slips they
+ *   belonged to are taken back out of the rankings
+ *
+ * Settled slips are ranked in the season of their last leg.
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
+import { AccumulatorBet } from '../entities/accumulator-bet.entity';
+import {
+  AccumulatorLeg,
+  AccumulatorLegStatus,
+} from '../entities/accumulator-leg.entity';
+import {
+  BettingWeek,
+  BettingWeekScoringMode,
+  BettingWeekStatus,
+} from '../entities/betting-week.entity';
+import { BetStatus } from '../entities/bet.entity';
+import { BetPosition } from '../entities/bet-pick.entity';
+import { CompetitorOdds } from '../entities/competitor-odds.entity';
+import { PlaceAccumulatorDto } from '../dto/place-accumulator.dto';
+import { ACCUMULATORS_CONFIG } from '../config/accumulators.config';
+import { combineOdds, resolveAccumulator } from '../utils/accumulator-utils';
+
+@Injectable()
+export class AccumulatorService {
+  private readonly logger = new Logger(AccumulatorService.name);
+
+  constructor(
+    @InjectRepository(AccumulatorBet)
+    private readonly accumulatorRepository: Repository<AccumulatorBet>,
+    @InjectRepository(AccumulatorLeg)
+    private readonly legRepository: Repository<AccumulatorLeg>,
+    @InjectRepository(BettingWeek)
+    private readonly bettingWeekRepository: Repository<BettingWeek>,
+    @InjectRepository(CompetitorOdds)
+    private readonly competitorOddsRepository: Repository<CompetitorOdds>,
+  ) {}
+
+  /**
+   * Place an accumulator on the current and upcoming weeks, each leg at
+   * the latest odds of its week
+   *
+   * @throws NotFoundException if a week doesn't exist
+   * @throws BadRequestException on invalid legs, a week closed to bets or
+   * a competitor without odds for their week
+   * @throws ConflictException if a week is already in another slip of
+   * the user
+   */
+  async placeAccumulator(
+    userId: string,
+    dto: PlaceAccumulatorDto,
+  ): Promise<AccumulatorBet> {
+    const legs = dto?.legs;
+    const { MIN_LEGS, MAX_LEGS } = ACCUMULATORS_CONFIG;
+    if (
+      !Array.isArray(legs) ||
+      legs.length < MIN_LEGS ||
+      legs.length > MAX_LEGS
+    ) {
+      throw new BadRequestException(
+        `An accumulator has ${MIN_LEGS} to ${MAX_LEGS} legs`,
+      );
+    }
+    const weekIds = legs.map((leg) => leg.bettingWeekId);
+    if (new Set(weekIds).size !== weekIds.length) {
+      throw new BadRequestException('Each leg must be on a different week');
+    }
+    if (
+      legs.some((leg) => !Object.values(BetPosition).includes(leg.position))
+    ) {
+      throw new BadRequestException('Invalid leg position');
+    }
+
+    const weeks = await this.bettingWeekRepository.find({
+      where: { id: In(weekIds) },
+    });
+    const now = new Date();
+    for (const weekId of weekIds) {
+      const week = weeks.find((w) => w.id === weekId);
+      if (!week) {
+        throw new NotFoundException(`Betting week with ID ${weekId} not found`);
+      }
+      if (
+        ![BettingWeekStatus.OPEN, BettingWeekStatus.UPCOMING].includes(
+          week.status,
+        ) ||
+        week.endDate <= now
+      ) {
+        throw new BadRequestException(
+          `Week ${week.weekNumber}/${week.year} is closed to bets`,
+        );
+      }
+      if (week.scoringMode === BettingWeekScoringMode.PARI_MUTUEL) {
+        throw new BadRequestException(
+          `Week ${week.weekNumber}/${week.year} has no fixed odds (pari-mutuel)`,
+        );
+      }
+    }
+
+    const taken = await this.legRepository
+      .createQueryBuilder('leg')
+      .innerJoin('leg.accumulatorBet', 'slip')
+      .where('slip.userId = :userId', { userId })
+      .andWhere('leg.bettingWeekId IN (:...weekIds)', { weekIds })
+      .getCount();
+    if (taken > 0) {
+      throw new ConflictException(
+        'You already have an accumulator on one of these weeks',
+      );
+    }
+
+    const pricedLegs = await Promise.all(
+      legs.map(async ({ bettingWeekId, competitorId, position }) => {
+        const odds = await this.findWeekOdds(bettingWeekId, competitorId);
+        const oddAtBet =
+          position === BetPosition.FIRST
+            ? odds.oddFirst
+            : position === BetPosition.SECOND
+              ? odds.oddSecond
+              : odds.oddThird;
+        if (!oddAtBet) {
+          throw new BadRequestException(
+            `Competitor ${competitorId} has no ${position} odd`,
+          );
+        }
+        return this.legRepository.create({
+          bettingWeekId,
+          competitorId,
+          position,
+          oddAtBet,
+          status: AccumulatorLegStatus.PENDING,
+        });
+      }),
+    );
+
+    const lastWeek = weeks.reduce((last, week) =>
+      week.startDate > last.startDate ? week : last,
+    );
+    const slip = await this.accumulatorRepository.save(
+      this.accumulatorRepository.create({
+        userId,
+        legs: pricedLegs,
+        combinedOdd: combineOdds(pricedLegs.map((leg) => leg.oddAtBet)),
+        seasonNumber: lastWeek.seasonNumber,
+        year: lastWeek.year,
+        status: BetStatus.PENDING,
+        pointsEarned: null,
+        settledAt: null,
+      }),
+    );
+
+    this.logger.log(
+      `Accumulator ${slip.id} placed by ${userId}: ${legs.length} legs @ ${slip.combinedOdd}`,
+    );
+    return slip;
+  }
+
+  /**
+   * Settle the legs of a finalized week, then the slips left with no
+   * pending leg
+   *
+   * @param em - Entity manager of an outer transaction (optional)
+   * @returns Number of settled legs
+   */
+  async settleWeekLegs(week: BettingWeek, em?: EntityManager): Promise<number> {
+    const manager = em ?? this.legRepository.manager;
+    const legs = await manager.find(AccumulatorLeg, {
+      where: { bettingWeekId: week.id, status: AccumulatorLegStatus.PENDING },
+    });
+    if (legs.length === 0) return 0;
+
+    const podium: Record<BetPosition, string | null> = {
+      [BetPosition.FIRST]: week.podiumFirstId,
+      [BetPosition.SECOND]: week.podiumSecondId,
+      [BetPosition.THIRD]: week.podiumThirdId,
+    };
+    for (const leg of legs) {
+      leg.status =
+        podium[leg.position] === leg.competitorId
+          ? AccumulatorLegStatus.WON
+          : AccumulatorLegStatus.LOST;
+    }
+    await manager.save(legs);
+
+    await this.settleSlips(
+      legs.map((leg) => leg.accumulatorBetId),
+      manager,
+    );
+    this.logger.log(`Settled ${legs.length} accumulator legs of ${week.id}`);
+    return legs.length;
+  }
+
+  /**
+   * Void the legs of a cancelled week, then settle the slips left with no
+   * pending leg
+   *
+   * @returns Number of voided legs
+   */
+  async voidWeekLegs(weekId: string): Promise<number> {
+    const legs = await this.legRepository.find({
+      where: { bettingWeekId: weekId, status: AccumulatorLegStatus.PENDING },
+    });
+    if (legs.length === 0) return 0;
+
+    await this.legRepository.update(
+      { id: In(legs.map((leg) => leg.id)) },
+      { status: AccumulatorLegStatus.VOID },
+    );
+
+    await this.settleSlips(legs.map((leg) => leg.accumulatorBetId));
+    this.logger.log(`Voided ${legs.length} accumulator legs of ${weekId}`);
+    return legs.length;
+  }
+
+  /**
+   * Undo the settlement of the legs of a rolled back week: the legs go
+   * back to pending, their settled slips back to pending out of the
+   * rankings
+   *
+   * @param em - Entity manager of an outer transaction (optional)
+   * @returns Number of slips taken back out of the rankings
+   */
+  async revertWeekLegs(weekId: string, em?: EntityManager): Promise<number> {
+    const manager = em ?? this.legRepository.manager;
+    const legs = await manager.find(AccumulatorLeg, {
+      where: { bettingWeekId: weekId },
+    });
+    if (legs.length === 0) return 0;
+
+    const slips = await manager.find(AccumulatorBet, {
+      where: {
+        id: In(legs.map((leg) => leg.accumulatorBetId)),
+        isFinalized: true,
+      },
+    });
+    for (const slip of slips) {
+      if (slip.status === BetStatus.CANCELLED) continue;
+      await manager.query(
+        `UPDATE bettor_rankings
+         SET "totalPoints" = GREATEST(0, "totalPoints" - $4),
+             "betsPlaced" = "betsPlaced" - 1,
+             "betsWon" = "betsWon" - $5,
+             "updatedAt" = NOW()
+         WHERE "userId" = $1 AND "seasonNumber" = $2 AND "year" = $3`,
+        [
+          slip.userId,
+          slip.seasonNumber,
+          slip.year,
+          slip.pointsEarned ?? 0,
+          slip.status === BetStatus.WON ? 1 : 0,
+        ],
+      );
+    }
+    if (slips.length > 0) {
+      await manager.update(
+        AccumulatorBet,
+        { id: In(slips.map((slip) => slip.id)) },
+        {
+          isFinalized: false,
+          status: BetStatus.PENDING,
+          pointsEarned: null,
+          settledAt: null,
+        },
+      );
+    }
+
+    await manager.update(
+      AccumulatorLeg,
+      { bettingWeekId: weekId },
+      { status: AccumulatorLegStatus.PENDING },
+    );
+
+    return slips.length;
+  }
+
+  /**
+   * Accumulators of a user, latest first
+   */
+  async getUserAccumulators(
+    userId: string,
+    limit: number = ACCUMULATORS_CONFIG.MY_BETS_LIMIT,
+  ): Promise<AccumulatorBet[]> {
+    return await this.accumulatorRepository.find({
+      where: { userId },
+      relations: ['legs.competitor', 'legs.bettingWeek'],
+      order: { placedAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Settle the slips whose legs are all settled
+   */
+  private async settleSlips(
+    slipIds: string[],
+    manager: EntityManager = this.accumulatorRepository.manager,
+  ): Promise<void> {
+    const slips = await manager.find(AccumulatorBet, {
+      where: { id: In([...new Set(slipIds)]), isFinalized: false },
+    });
+
+    for (const slip of slips) {
+      const { outcome, points } = resolveAccumulator(slip.legs);
+      if (outcome === 'pending') continue;
+
+      slip.isFinalized = true;
+      slip.pointsEarned = points;
+      slip.settledAt = new Date();
+      slip.status =
+        outcome === 'won'
+          ? BetStatus.WON
+          : outcome === 'lost'
+            ? BetStatus.LOST
+            : BetStatus.CANCELLED;
+      await manager.save(slip);
+
+      if (outcome !== 'void') {
+        await manager.query(
+          `INSERT INTO bettor_rankings ("userId", "month", "seasonNumber", "year", "totalPoints", "betsPlaced", "betsWon", "perfectBets", "boostsUsed", "rank")
+           VALUES ($1, $2, $2, $3, $4, 1, $5, 0, 0, 0)
+           ON CONFLICT ("userId", "seasonNumber", "year")
+           DO UPDATE SET "totalPoints" = bettor_rankings."totalPoints" + $4,
+                         "betsPlaced" = bettor_rankings."betsPlaced" + 1,
+                         "betsWon" = bettor_rankings."betsWon" + $5,
+                         "updatedAt" = NOW()`,
+          [
+            slip.userId,
+            slip.seasonNumber,
+            slip.year,
+            points,
+            outcome === 'won' ? 1 : 0,
+          ],
+        );
+      }
+    }
+  }
+
+  /**
+   * Latest odds of a competitor in a week (upcoming weeks get odds when
+   * they are created)
+   */
+  private async findWeekOdds(
+    bettingWeekId: string,
+    competitorId: string,
+  ): Promise<CompetitorOdds> {
+    const odds = await this.competitorOddsRepository.findOne({
+      where: { bettingWeekId, competitorId },
+      order: { calculatedAt: 'DESC' },
+    });
+    if (!odds) {
+      throw new BadRequestException(
+        `Competitor ${competitorId} has no odds for week ${bettingWeekId}`,
+      );
+    }
+    return odds;
+  }
+}
@@ -9,11 +9,20 @@
  * - Apply x2 boost multiplier to selected picks
  * - Update bet records with points earned
  * - Update bettor rankings for monthly leaderboard
+ * - Settle the weekly market bets (see MarketType)
+ * - Settle the accumulator legs on the week (see AccumulatorService)
  *
- * Calculation Rules:
+ * Calculation Rules (defaults, a week is scored with its own ruleset):
  * - Correct pick: points = oddAtBet * (hasBoost ? 2 : 1)
  * - Incorrect pick: 0 points
  * - Perfect podium (all 3 correct): total points * 2
+ * - Pari-mutuel weeks: correct picks share the pool of their position
+ *   (see PARI_MUTUEL_CONFIG)
+ *
+ * Corrections:
+ * - Dry-run: full result of a finalization, nothing written
+ * - Rollback: reverts points, rankings, XP and achievements of the week
+ * - Re-finalize: rollback, then finalization with a manual podium
  *
  * Design Principles:
  * - Idempotent (safe to run multiple times)
@@ -22,20 +31,40 @@
  * - Type-safe throughout
  */
 
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import {
   BettingWeek,
+  BettingWeekScoringMode,
   BettingWeekStatus,
 } from '../entities/betting-week.entity';
 import { Bet, BetStatus } from '../entities/bet.entity';
 import { BetPick, BetPosition } from '../entities/bet-pick.entity';
 import { BettorRanking } from '../entities/bettor-ranking.entity';
 import { CompetitorOdds } from '../entities/competitor-odds.entity';
+import { MarketBet } from '../entities/market-bet.entity';
+import { RaceResult } from '../../races/race-result.entity';
+import { Competitor } from '../../competitors/competitor.entity';
+import { User } from '../../users/user.entity';
+import { UserAchievement } from '../../achievements/entities/user-achievement.entity';
+import { AchievementDomain } from '../../achievements/entities/achievement.entity';
+import { XP_SOURCES } from '../../achievements/config/xp-sources.config';
+import { XPHistory } from '../../achievements/entities/xp-history.entity';
+import { WeekManagerService } from './week-manager.service';
+import { RulesetService } from './ruleset.service';
+import { AccumulatorService } from './accumulator.service';
+import { resolveMarketBet, WeekActivity } from '../utils/market-utils';
+import { computePoolOdds, getPickStake, PoolOdds } from '../utils/pool-utils';
 import {
-  DEFAULT_SCORING_PARAMS,
+  BettingScoringParams,
   SCORING_LOGGER_CONFIG,
 } from '../config/betting-scoring.config';
 import { StreakTrackerService } from '../../achievements/services/streak-tracker.service';
@@ -51,7 +80,7 @@ import { TvDisplayService } from '../../image-generation/services/tv-display.ser
 /**
  * Podium result for a week
  */
-interface PodiumResult {
+export interface PodiumResult {
   firstId: string;
   secondId: string;
   thirdId: string;
@@ -94,21 +123,52 @@ interface BetCalculation {
   finalPoints: number;
 }
 
+/**
+ * Odds and scoring params the bets of a week are paid with
+ */
+interface WeekScoring {
+  finalOddsMap: Map<string, PositionOdds>; // Fixed odds weeks (BOG)
+  poolOdds: Map<string, PoolOdds> | null; // Pari-mutuel weeks
+  scoring: BettingScoringParams; // Ruleset of the week
+}
+
+/**
+ * Points written by a finalization, rewarded once committed
+ */
+interface ScoredWeek {
+  result: FinalizationResult;
+  bets: Bet[];
+  calculations: BetCalculation[];
+}
+
 /**
  * Week finalization result
  */
-interface FinalizationResult {
+export interface FinalizationResult {
   weekId: string;
   weekNumber: number;
   year: number;
   month: number;
   podium: PodiumResult;
   processedBets: number;
+  processedMarketBets: number;
   totalPointsDistributed: number;
   calculations: BetCalculation[];
   finalizedAt: Date;
 }
 
+/**
+ * What a rollback reverted
+ */
+export interface RollbackResult {
+  weekId: string;
+  revertedBets: number;
+  revertedMarketBets: number;
+  revertedAccumulators: number;
+  revokedXP: number;
+  revokedAchievements: number;
+}
+
 @Injectable()
 export class BettingFinalizerService {
   private readonly logger = new Logger(BettingFinalizerService.name);
@@ -124,6 +184,15 @@ export class BettingFinalizerService {
     private readonly bettorRankingRepository: Repository<BettorRanking>,
     @InjectRepository(CompetitorOdds)
     private readonly competitorOddsRepository: Repository<CompetitorOdds>,
+    @InjectRepository(MarketBet)
+    private readonly marketBetRepository: Repository<MarketBet>,
+    @InjectRepository(RaceResult)
+    private readonly raceResultRepository: Repository<RaceResult>,
+    @InjectRepository(Competitor)
+    private readonly competitorRepository: Repository<Competitor>,
+    private readonly weekManagerService: WeekManagerService,
+    private readonly rulesetService: RulesetService,
+    private readonly accumulatorService: AccumulatorService,
     private readonly eventEmitter: EventEmitter2,
     private readonly streakTrackerService: StreakTrackerService,
     private readonly xpLevelService: XPLevelService,
@@ -142,6 +211,10 @@ export class BettingFinalizerService {
    * 3. Calculates points for each bet
    * 4. Updates bet records
    * 5. Updates bettor rankings
+   * 6. Settles the market bets
+   * 7. Rewards the bettors (streaks, XP, daily stats, events)
+   *
+   * Steps 1 to 6 run in one transaction, the rewards once it committed.
    *
    * @param weekId - The week to finalize
    * @returns Complete finalization result with all calculations
@@ -149,8 +222,24 @@ export class BettingFinalizerService {
   async finalizeWeek(weekId: string): Promise<FinalizationResult> {
     this.logger.log(`Starting finalization for week ${weekId}`);
 
+    const scored = await this.bettingWeekRepository.manager.transaction((em) =>
+      this.scoreWeek(em, weekId),
+    );
+    await this.rewardBets(scored.bets, scored.calculations);
+
+    return scored.result;
+  }
+
+  /**
+   * Points of a finalization (steps 1 to 6 of finalizeWeek), written
+   * with the given entity manager
+   */
+  private async scoreWeek(
+    em: EntityManager,
+    weekId: string,
+  ): Promise<ScoredWeek> {
     // 1. Fetch and validate week data
-    const week = await this.fetchWeekData(weekId);
+    const week = await this.fetchWeekData(weekId, em);
 
     // 2. Extract podium
     const podium: PodiumResult = {
@@ -164,36 +253,42 @@ export class BettingFinalizerService {
     );
 
     // 3. Fetch only non-finalized bets for this week (prevents double finalization)
-    const bets = await this.betRepository.find({
+    const bets = await em.find(Bet, {
       where: { bettingWeekId: weekId, isFinalized: false },
       relations: ['picks', 'picks.competitor'],
     });
 
+    const processedMarketBets = await this.settleMarketBets(week, em);
+    await this.accumulatorService.settleWeekLegs(week, em);
+
     if (bets.length === 0) {
       this.logger.warn(`No bets found for week ${weekId}`);
-      return {
+      const result: FinalizationResult = {
         weekId,
         weekNumber: week.weekNumber,
         year: week.year,
         month: week.month,
         podium,
         processedBets: 0,
+        processedMarketBets,
         totalPointsDistributed: 0,
         calculations: [],
         finalizedAt: new Date(),
       };
+      return { result, bets, calculations: [] };
     }
 
     this.logger.log(`Processing ${bets.length} bets...`);
 
-    // 4. Fetch final odds for BOG calculation
-    const finalOddsMap = await this.fetchFinalOdds(weekId);
+    // 4. Fetch final odds for BOG calculation (pool odds in pari-mutuel weeks)
+    const weekScoring = await this.fetchWeekScoring(week);
 
     // 5. Calculate points for all bets with BOG
-    const calculations = await this.processBets(bets, podium, finalOddsMap);
+    const calculations = await this.scoreBets(em, bets, podium, weekScoring);
 
     // 6. Update bettor rankings
     await this.updateBettorRankings(
+      em,
       week.seasonNumber,
       week.year,
       calculations,
@@ -212,6 +307,7 @@ export class BettingFinalizerService {
       month: week.month,
       podium,
       processedBets: bets.length,
+      processedMarketBets,
       totalPointsDistributed,
       calculations: SCORING_LOGGER_CONFIG.logDetailedCalculations
         ? calculations
@@ -223,15 +319,361 @@ export class BettingFinalizerService {
       `Finalization complete: ${bets.length} bets processed, ${totalPointsDistributed.toFixed(2)} points distributed`,
     );
 
-    return result;
+    return { result, bets, calculations };
   }
 
   /**
-   * Fetch and validate week data
+   * Dry-run of a finalization: the result it would give, nothing written
+   *
+   * All bets of the week are calculated, finalized or not (the preview
+   * of a re-finalization).
+   *
+   * @param weekId - The week to preview
+   * @param podium - Podium to use (defaults to the week's podium)
    */
-  private async fetchWeekData(weekId: string): Promise<BettingWeek> {
+  async previewFinalization(
+    weekId: string,
+    podium?: PodiumResult,
+  ): Promise<FinalizationResult> {
     const week = await this.bettingWeekRepository.findOne({
       where: { id: weekId },
+    });
+    if (!week) {
+      throw new NotFoundException(`Betting week with ID ${weekId} not found`);
+    }
+
+    const finalPodium: PodiumResult | null =
+      podium ??
+      (week.podiumFirstId && week.podiumSecondId && week.podiumThirdId
+        ? {
+            firstId: week.podiumFirstId,
+            secondId: week.podiumSecondId,
+            thirdId: week.podiumThirdId,
+          }
+        : null);
+    if (!finalPodium) {
+      throw new BadRequestException(
+        'This week has no podium yet, a podium must be supplied',
+      );
+    }
+    await this.assertValidPodium(finalPodium);
+
+    const bets = await this.betRepository.find({
+      where: { bettingWeekId: weekId },
+      relations: ['picks', 'picks.competitor'],
+    });
+    const weekScoring = await this.fetchWeekScoring(week);
+    const calculations = bets.map((bet) =>
+      this.calculateBet(bet, finalPodium, weekScoring),
+    );
+
+    return {
+      weekId,
+      weekNumber: week.weekNumber,
+      year: week.year,
+      month: week.month,
+      podium: finalPodium,
+      processedBets: bets.length,
+      processedMarketBets: await this.marketBetRepository.count({
+        where: { bettingWeekId: weekId },
+      }),
+      totalPointsDistributed: calculations.reduce(
+        (sum, calc) => sum + calc.finalPoints,
+        0,
+      ),
+      calculations,
+      finalizedAt: new Date(),
+    };
+  }
+
+  /**
+   * Roll back the finalization of a week, in one transaction
+   *
+   * Reverts the points of its bets and market bets, their bettor ranking
+   * totals, the XP awarded for its bets and the betting achievements
+   * unlocked by its finalization. The week goes back to CLOSED without
+   * podium. Streaks and daily stats are kept.
+   *
+   * Weeks finalized before XP was tied to bets can't be rolled back;
+   * achievements unlocked before the week was recorded on unlocks are kept.
+   */
+  async rollbackWeek(weekId: string): Promise<RollbackResult> {
+    return this.bettingWeekRepository.manager.transaction(async (em) => {
+      const week = await em.findOne(BettingWeek, { where: { id: weekId } });
+      if (!week) {
+        throw new NotFoundException(`Betting week with ID ${weekId} not found`);
+      }
+      if (week.status !== BettingWeekStatus.FINALIZED) {
+        throw new BadRequestException(
+          `Week ${weekId} is not finalized (current: ${week.status})`,
+        );
+      }
+
+      const result = await this.revertWeek(em, week);
+      await this.recalculateRanks(week.seasonNumber, week.year, em);
+      return result;
+    });
+  }
+
+  /**
+   * Finalize a week again with a manual podium (rolled back first if
+   * already finalized). Market bets keep the previous standing behind
+   * the new podium. Rollback and finalization share one transaction,
+   * the bettors are rewarded once it committed.
+   */
+  async refinalizeWeek(
+    weekId: string,
+    podium: PodiumResult,
+  ): Promise<FinalizationResult> {
+    await this.assertValidPodium(podium);
+
+    const scored = await this.bettingWeekRepository.manager.transaction(
+      async (em) => {
+        const week = await em.findOne(BettingWeek, { where: { id: weekId } });
+        if (!week) {
+          throw new NotFoundException(
+            `Betting week with ID ${weekId} not found`,
+          );
+        }
+        if (
+          week.status !== BettingWeekStatus.FINALIZED &&
+          week.status !== BettingWeekStatus.CLOSED
+        ) {
+          throw new BadRequestException(
+            `Week ${weekId} is still open for betting (current: ${week.status})`,
+          );
+        }
+
+        const podiumIds: [string, string, string] = [
+          podium.firstId,
+          podium.secondId,
+          podium.thirdId,
+        ];
+        const standings = [
+          ...podiumIds,
+          ...(week.finalStandings ?? []).filter(
+            (id) => !podiumIds.includes(id),
+          ),
+        ];
+
+        if (week.status === BettingWeekStatus.FINALIZED) {
+          await this.revertWeek(em, week);
+        }
+
+        await this.weekManagerService.finalizeWeek(
+          weekId,
+          podiumIds,
+          standings,
+          em,
+        );
+        const scored = await this.scoreWeek(em, weekId);
+        await this.recalculateRanks(week.seasonNumber, week.year, em);
+        return scored;
+      },
+    );
+    await this.rewardBets(scored.bets, scored.calculations);
+
+    return scored.result;
+  }
+
+  /**
+   * Revert a finalized week with the given entity manager (see
+   * rollbackWeek). The week must still be FINALIZED when it is written
+   * back, so two concurrent rollbacks can't both revert it.
+   */
+  private async revertWeek(
+    em: EntityManager,
+    week: BettingWeek,
+  ): Promise<RollbackResult> {
+    const weekId = week.id;
+    this.logger.log(`Rolling back finalization of week ${weekId}`);
+
+    // 1. Bets and their bettor rankings (cancelled bets were never ranked)
+    const bets = await em.find(Bet, {
+      where: { bettingWeekId: weekId, isFinalized: true },
+      relations: ['picks'],
+    });
+    const rankedBets = bets.filter((b) => b.status !== BetStatus.CANCELLED);
+    if (rankedBets.length > 0) {
+      const xpTiedToBets = await em.count(XPHistory, {
+        where: { relatedEntityId: In(rankedBets.map((b) => b.id)) },
+      });
+      if (xpTiedToBets === 0) {
+        throw new BadRequestException(
+          `Week ${weekId} was finalized before XP was tied to bets, its XP can't be rolled back`,
+        );
+      }
+    }
+    for (const bet of rankedBets) {
+      await this.revertBettorRanking(
+        em,
+        bet.userId,
+        week.seasonNumber,
+        week.year,
+        bet.pointsEarned ?? 0,
+        bet.picks.some((p) => p.isCorrect) ? 1 : 0,
+        bet.picks.every((p) => p.isCorrect) ? 1 : 0,
+        bet.picks.some((p) => p.hasBoost) ? 1 : 0,
+      );
+    }
+    const betIds = bets.map((b) => b.id);
+    if (betIds.length > 0) {
+      await em.update(
+        Bet,
+        { id: In(betIds) },
+        {
+          isFinalized: false,
+          status: BetStatus.PENDING,
+          pointsEarned: () => 'NULL',
+          resultSeenAt: null,
+        },
+      );
+      await em.update(
+        BetPick,
+        { betId: In(betIds) },
+        {
+          isCorrect: () => 'NULL',
+          pointsEarned: () => 'NULL',
+          finalOdd: null,
+          usedBogOdd: false,
+        },
+      );
+    }
+
+    // 2. Market bets (void ones were never ranked)
+    const marketBets = await em.find(MarketBet, {
+      where: { bettingWeekId: weekId, isFinalized: true },
+    });
+    for (const marketBet of marketBets) {
+      if (marketBet.status === BetStatus.CANCELLED) continue;
+      await this.revertBettorRanking(
+        em,
+        marketBet.userId,
+        week.seasonNumber,
+        week.year,
+        marketBet.pointsEarned ?? 0,
+        marketBet.status === BetStatus.WON ? 1 : 0,
+        0,
+        0,
+      );
+    }
+    if (marketBets.length > 0) {
+      await em.update(
+        MarketBet,
+        { id: In(marketBets.map((b) => b.id)) },
+        { isFinalized: false, status: BetStatus.PENDING, pointsEarned: null },
+      );
+    }
+
+    // 3. Accumulators with a leg on the week
+    const revertedAccumulators = await this.accumulatorService.revertWeekLegs(
+      weekId,
+      em,
+    );
+
+    // 4. XP and achievements
+    const revokedXP = await this.xpLevelService.revokeXPForEntities(
+      betIds,
+      `Finalization of week ${week.weekNumber}/${week.year} rolled back`,
+      em,
+    );
+    const revokedAchievements = await this.revokeWeekAchievements(em, week);
+
+    // 5. Week back to closed, without podium
+    const reverted = await em.update(
+      BettingWeek,
+      { id: weekId, status: BettingWeekStatus.FINALIZED },
+      {
+        status: BettingWeekStatus.CLOSED,
+        podiumFirstId: () => 'NULL',
+        podiumSecondId: () => 'NULL',
+        podiumThirdId: () => 'NULL',
+        finalStandings: () => 'NULL',
+        finalizedAt: () => 'NULL',
+      },
+    );
+    if (!reverted.affected) {
+      throw new ConflictException(
+        `Week ${weekId} is already being rolled back`,
+      );
+    }
+
+    this.logger.log(
+      `Week ${weekId} rolled back: ${bets.length} bets, ${marketBets.length} market bets, ${revertedAccumulators} accumulators, ${revokedXP} XP, ${revokedAchievements} achievements`,
+    );
+
+    return {
+      weekId,
+      revertedBets: bets.length,
+      revertedMarketBets: marketBets.length,
+      revertedAccumulators,
+      revokedXP,
+      revokedAchievements,
+    };
+  }
+
+  /**
+   * Check a manual podium: 3 different existing competitors
+   */
+  private async assertValidPodium(podium: PodiumResult): Promise<void> {
+    const ids = [podium.firstId, podium.secondId, podium.thirdId];
+    if (new Set(ids).size !== 3) {
+      throw new BadRequestException(
+        'The podium must have 3 different competitors',
+      );
+    }
+
+    const count = await this.competitorRepository.count({
+      where: { id: In(ids) },
+    });
+    if (count !== 3) {
+      throw new BadRequestException('Podium competitor not found');
+    }
+  }
+
+  /**
+   * Remove the betting achievements unlocked by the finalization of a
+   * week (recorded on the unlock), with their XP
+   *
+   * @returns Number of removed achievements
+   */
+  private async revokeWeekAchievements(
+    em: EntityManager,
+    week: BettingWeek,
+  ): Promise<number> {
+    const userAchievements = await em.find(UserAchievement, {
+      where: {
+        bettingWeekId: week.id,
+        achievement: { domain: AchievementDomain.BETTING },
+      },
+      relations: ['achievement'],
+    });
+
+    for (const userAchievement of userAchievements) {
+      const { userId, achievement } = userAchievement;
+      await em.remove(userAchievement);
+      await em.decrement(User, { id: userId }, 'achievementCount', 1);
+      await this.xpLevelService.revokeXP(
+        userId,
+        XP_SOURCES[`ACHIEVEMENT_${achievement.rarity}`],
+        achievement.id,
+        `Achievement ${achievement.key} revoked (week ${week.weekNumber}/${week.year} rolled back)`,
+        em,
+      );
+    }
+
+    return userAchievements.length;
+  }
+
+  /**
+   * Fetch and validate week data
+   */
+  private async fetchWeekData(
+    weekId: string,
+    em: EntityManager,
+  ): Promise<BettingWeek> {
+    const week = await em.findOne(BettingWeek, {
+      where: { id: weekId },
       relations: ['podiumFirst', 'podiumSecond', 'podiumThird'],
     });
 
@@ -298,22 +740,75 @@ export class BettingFinalizerService {
   }
 
   /**
-   * Process all bets and calculate points
+   * Final odds (fixed odds weeks) or pool odds (pari-mutuel weeks), and
+   * the scoring params of the ruleset the week was created under
+   */
+  private async fetchWeekScoring(week: BettingWeek): Promise<WeekScoring> {
+    const { scoring } = await this.rulesetService.getParamsForWeek(week);
+
+    if (week.scoringMode === BettingWeekScoringMode.PARI_MUTUEL) {
+      return {
+        finalOddsMap: new Map(),
+        poolOdds: await this.fetchPoolOdds(week.id, scoring),
+        scoring,
+      };
+    }
+    return {
+      finalOddsMap: await this.fetchFinalOdds(week.id),
+      poolOdds: null,
+      scoring,
+    };
+  }
+
+  /**
+   * Implied pool odds of a pari-mutuel week, from the picks of all its bets
    */
-  private async processBets(
+  private async fetchPoolOdds(
+    weekId: string,
+    scoring: BettingScoringParams,
+  ): Promise<Map<string, PoolOdds>> {
+    const picks = await this.betPickRepository.find({
+      where: { bet: { bettingWeekId: weekId } },
+    });
+    const { pools, odds } = computePoolOdds(picks, scoring);
+
+    this.logger.log(
+      `Pari-mutuel pools for week ${weekId}: ${pools.first} / ${pools.second} / ${pools.third}`,
+    );
+
+    return odds;
+  }
+
+  /**
+   * Calculate the points of all bets and write them
+   */
+  private async scoreBets(
+    em: EntityManager,
     bets: Bet[],
     podium: PodiumResult,
-    finalOddsMap: Map<string, PositionOdds>,
+    weekScoring: WeekScoring,
   ): Promise<BetCalculation[]> {
     const calculations: BetCalculation[] = [];
 
-    // Process each bet in a transaction
     for (const bet of bets) {
-      const calculation = this.calculateBetPoints(bet, podium, finalOddsMap);
+      const calculation = this.calculateBet(bet, podium, weekScoring);
       calculations.push(calculation);
+      await this.updateBetRecord(em, bet, calculation);
+    }
 
-      // Update bet record
-      await this.updateBetRecord(bet, calculation);
+    return calculations;
+  }
+
+  /**
+   * Reward the bettors of scored bets: streaks, XP, daily stats,
+   * achievements and notifications (through bet.finalized)
+   */
+  private async rewardBets(
+    bets: Bet[],
+    calculations: BetCalculation[],
+  ): Promise<void> {
+    for (const [index, bet] of bets.entries()) {
+      const calculation = calculations[index];
 
       // Update participation streak for this user
       try {
@@ -374,12 +869,23 @@ export class BettingFinalizerService {
 
       // Award XP for betting actions
       try {
+        // XP is tied to the bet so that a rollback can take it back
         // Base XP for placing bet
-        await this.xpLevelService.awardXP(bet.userId, XPSource.BET_PLACED);
+        await this.xpLevelService.awardXP(
+          bet.userId,
+          XPSource.BET_PLACED,
+          null,
+          bet.id,
+        );
 
         // XP for correct picks
         for (let i = 0; i < correctPicksCount; i++) {
-          await this.xpLevelService.awardXP(bet.userId, XPSource.CORRECT_PICK);
+          await this.xpLevelService.awardXP(
+            bet.userId,
+            XPSource.CORRECT_PICK,
+            null,
+            bet.id,
+          );
         }
 
         // XP for perfect podium
@@ -387,6 +893,8 @@ export class BettingFinalizerService {
           await this.xpLevelService.awardXP(
             bet.userId,
             XPSource.PERFECT_PODIUM,
+            null,
+            bet.id,
           );
         }
 
@@ -394,6 +902,8 @@ export class BettingFinalizerService {
         await this.xpLevelService.awardXP(
           bet.userId,
           XPSource.WEEKLY_PARTICIPATION,
+          null,
+          bet.id,
         );
 
         // XP bonus for high odds (odds >= 5)
@@ -506,8 +1016,19 @@ export class BettingFinalizerService {
         );
       }
     }
+  }
 
-    return calculations;
+  /**
+   * Calculate points for a single bet, with the scoring of its week
+   */
+  private calculateBet(
+    bet: Bet,
+    podium: PodiumResult,
+    { finalOddsMap, poolOdds, scoring }: WeekScoring,
+  ): BetCalculation {
+    return poolOdds
+      ? this.calculatePoolBetPoints(bet, podium, poolOdds, scoring)
+      : this.calculateBetPoints(bet, podium, finalOddsMap, scoring);
   }
 
   /**
@@ -518,6 +1039,7 @@ export class BettingFinalizerService {
     bet: Bet,
     podium: PodiumResult,
     finalOddsMap: Map<string, PositionOdds>,
+    scoring: BettingScoringParams,
   ): BetCalculation {
     const pickCalculations: PickCalculation[] = [];
 
@@ -549,16 +1071,13 @@ export class BettingFinalizerService {
 
         // Apply boost if enabled
         if (pick.hasBoost) {
-          pointsEarned *= DEFAULT_SCORING_PARAMS.boostMultiplier;
+          pointsEarned *= scoring.boostMultiplier;
         }
 
         // Apply minimum points guarantee
-        pointsEarned = Math.max(
-          pointsEarned,
-          DEFAULT_SCORING_PARAMS.minPointsPerCorrectPick,
-        );
+        pointsEarned = Math.max(pointsEarned, scoring.minPointsPerCorrectPick);
       } else {
-        pointsEarned = DEFAULT_SCORING_PARAMS.incorrectPickPoints;
+        pointsEarned = scoring.incorrectPickPoints;
       }
 
       // Round to 2 decimal places to avoid floating point accumulation
@@ -592,10 +1111,8 @@ export class BettingFinalizerService {
 
     if (isPerfectPodium) {
       perfectPodiumBonus =
-        totalPointsBeforeBonus *
-        (DEFAULT_SCORING_PARAMS.perfectPodiumBonus - 1);
-      finalPoints =
-        totalPointsBeforeBonus * DEFAULT_SCORING_PARAMS.perfectPodiumBonus;
+        totalPointsBeforeBonus * (scoring.perfectPodiumBonus - 1);
+      finalPoints = totalPointsBeforeBonus * scoring.perfectPodiumBonus;
     }
 
     // Round to 2 decimal places to avoid floating point accumulation errors
@@ -613,6 +1130,55 @@ export class BettingFinalizerService {
     };
   }
 
+  /**
+   * Calculate points for a single bet of a pari-mutuel week
+   * A correct pick earns its stake times the pool odd of its position
+   * (rounded down, so the pool is never overpaid). No bonus, no BOG.
+   */
+  private calculatePoolBetPoints(
+    bet: Bet,
+    podium: PodiumResult,
+    poolOdds: Map<string, PoolOdds>,
+    scoring: BettingScoringParams,
+  ): BetCalculation {
+    const pickCalculations: PickCalculation[] = bet.picks.map((pick) => {
+      const isCorrect = this.isPickCorrect(pick, podium);
+      const poolOdd = poolOdds.get(pick.competitorId)?.[pick.position] ?? null;
+      const pointsEarned =
+        isCorrect && poolOdd !== null
+          ? Math.floor(getPickStake(pick.hasBoost, scoring) * poolOdd * 100) /
+            100
+          : scoring.incorrectPickPoints;
+
+      return {
+        pickId: pick.id,
+        competitorId: pick.competitorId,
+        position: pick.position,
+        isCorrect,
+        oddAtBet: pick.oddAtBet,
+        hasBoost: pick.hasBoost,
+        pointsEarned,
+        finalOdd: poolOdd,
+        usedBogOdd: false,
+      };
+    });
+
+    const totalPoints = pickCalculations.reduce(
+      (sum, calc) => sum + calc.pointsEarned,
+      0,
+    );
+
+    return {
+      betId: bet.id,
+      userId: bet.userId,
+      picks: pickCalculations,
+      totalPointsBeforeBonus: totalPoints,
+      isPerfectPodium: pickCalculations.every((calc) => calc.isCorrect),
+      perfectPodiumBonus: 0,
+      finalPoints: Math.round(totalPoints * 100) / 100,
+    };
+  }
+
   /**
    * Check if a pick is correct
    */
@@ -632,10 +1198,95 @@ export class BettingFinalizerService {
     }
   }
 
+  /**
+   * Settle the non-finalized market bets of a week
+   *
+   * Won bets earn oddAtBet points and lost bets cost as much, like live
+   * bets. Void bets (push on a line, no race for an average rank) are
+   * cancelled and left out of the rankings.
+   *
+   * @returns Number of settled market bets
+   */
+  private async settleMarketBets(
+    week: BettingWeek,
+    em: EntityManager,
+  ): Promise<number> {
+    const marketBets = await em.find(MarketBet, {
+      where: { bettingWeekId: week.id, isFinalized: false },
+    });
+    if (marketBets.length === 0) return 0;
+
+    const standings = week.finalStandings ?? [
+      week.podiumFirstId,
+      week.podiumSecondId,
+      week.podiumThirdId,
+    ];
+
+    const activityRows: Array<{
+      competitorId: string;
+      raceCount: string;
+      avgRank12: string;
+    }> = await this.raceResultRepository
+      .createQueryBuilder('result')
+      .innerJoin('result.race', 'race')
+      .select('result.competitorId', 'competitorId')
+      .addSelect('COUNT(*)', 'raceCount')
+      .addSelect('AVG(result.rank12)', 'avgRank12')
+      .where('race.bettingWeekId = :weekId', { weekId: week.id })
+      .groupBy('result.competitorId')
+      .getRawMany();
+    const activity = new Map<string, WeekActivity>(
+      activityRows.map((row) => [
+        row.competitorId,
+        {
+          raceCount: parseInt(row.raceCount, 10),
+          avgRank12: parseFloat(row.avgRank12),
+        },
+      ]),
+    );
+
+    for (const marketBet of marketBets) {
+      const outcome = resolveMarketBet(marketBet, standings, activity);
+      const stake = Math.round(marketBet.oddAtBet * 100) / 100;
+      const points =
+        outcome === 'won' ? stake : outcome === 'lost' ? -stake : 0;
+
+      marketBet.isFinalized = true;
+      marketBet.pointsEarned = points;
+      marketBet.status =
+        outcome === 'won'
+          ? BetStatus.WON
+          : outcome === 'lost'
+            ? BetStatus.LOST
+            : BetStatus.CANCELLED;
+      await em.save(marketBet);
+
+      if (outcome !== 'void') {
+        await this.upsertBettorRanking(
+          em,
+          marketBet.userId,
+          week.seasonNumber,
+          week.year,
+          points,
+          outcome === 'won' ? 1 : 0,
+          0,
+          0,
+        );
+      }
+    }
+
+    this.logger.log(
+      `Settled ${marketBets.length} market bets for week ${week.id}`,
+    );
+
+    return marketBets.length;
+  }
+
   /**
    * Update bet record with calculated points
    */
   private async updateBetRecord(
+    em: EntityManager,
     bet: Bet,
     calculation: BetCalculation,
   ): Promise<void> {
@@ -643,7 +1294,7 @@ export class BettingFinalizerService {
     bet.isFinalized = true;
     bet.pointsEarned = calculation.finalPoints;
     bet.status = calculation.finalPoints > 0 ? BetStatus.WON : BetStatus.LOST;
-    await this.betRepository.save(bet);
+    await em.save(bet);
 
     // Update individual picks
     for (const pickCalc of calculation.picks) {
@@ -654,7 +1305,7 @@ export class BettingFinalizerService {
         // BOG fields
         pick.finalOdd = pickCalc.finalOdd;
         pick.usedBogOdd = pickCalc.usedBogOdd;
-        await this.betPickRepository.save(pick);
+        await em.save(pick);
       }
     }
   }
@@ -663,6 +1314,7 @@ export class BettingFinalizerService {
    * Update bettor rankings for the season
    */
   private async updateBettorRankings(
+    em: EntityManager,
     seasonNumber: number,
     year: number,
     calculations: BetCalculation[],
@@ -677,6 +1329,7 @@ export class BettingFinalizerService {
       const hasBoost = calc.picks.some((p) => p.hasBoost);
 
       await this.upsertBettorRanking(
+        em,
         calc.userId,
         seasonNumber,
         year,
@@ -699,6 +1352,7 @@ export class BettingFinalizerService {
    * Uses INSERT ... ON CONFLICT with atomic addition for all counters.
    */
   private async upsertBettorRanking(
+    em: EntityManager,
     userId: string,
     seasonNumber: number,
     year: number,
@@ -707,7 +1361,7 @@ export class BettingFinalizerService {
     perfectBet: number,
     boostUsed: number,
   ): Promise<void> {
-    await this.bettorRankingRepository.query(
+    await em.query(
       `INSERT INTO bettor_rankings ("userId", "month", "seasonNumber", "year", "totalPoints", "betsPlaced", "betsWon", "perfectBets", "boostsUsed", "rank")
        VALUES ($1, $2, $2, $3, $4, 1, $5, $6, $7, 0)
        ON CONFLICT ("userId", "seasonNumber", "year")
@@ -721,19 +1375,62 @@ export class BettingFinalizerService {
     );
   }
 
+  /**
+   * Take back what upsertBettorRanking added for a bet
+   *
+   * Points are not clamped: lost market bets rank negative points, and
+   * a clamp would keep part of them after the rollback.
+   */
+  private async revertBettorRanking(
+    em: EntityManager,
+    userId: string,
+    seasonNumber: number,
+    year: number,
+    pointsToRemove: number,
+    betWon: number,
+    perfectBet: number,
+    boostUsed: number,
+  ): Promise<void> {
+    await em.query(
+      `UPDATE bettor_rankings
+       SET "totalPoints" = "totalPoints" - $4,
+           "betsPlaced" = GREATEST(0, "betsPlaced" - 1),
+           "betsWon" = GREATEST(0, "betsWon" - $5),
+           "perfectBets" = GREATEST(0, "perfectBets" - $6),
+           "boostsUsed" = GREATEST(0, "boostsUsed" - $7),
+           "updatedAt" = NOW()
+       WHERE "userId" = $1 AND "seasonNumber" = $2 AND "year" = $3`,
+      [
+        userId,
+        seasonNumber,
+        year,
+        pointsToRemove,
+        betWon,
+        perfectBet,
+        boostUsed,
+      ],
+    );
+  }
+
   /**
    * Recalculate all ranks for a given season
    *
    * This should be called after all bets are finalized to assign proper ranks.
    * Ranks are based on total points (highest = rank 1).
+   *
+   * @param em - Entity manager of an outer transaction (optional)
    */
-  async recalculateRanks(seasonNumber: number, year: number): Promise<void> {
+  async recalculateRanks(
+    seasonNumber: number,
+    year: number,
+    em?: EntityManager,
+  ): Promise<void> {
     this.logger.log(
       `Recalculating ranks for season ${seasonNumber}/${year}...`,
     );
 
     // Atomic rank recalculation using a single SQL UPDATE with window function
-    await this.bettorRankingRepository.query(
+    await (em ?? this.bettorRankingRepository.manager).query(
       `UPDATE bettor_rankings br
        SET rank = sub.new_rank
        FROM (
@@ -0,0 +1,405 @@
+/**
+ * DailyBettingService
+ *
+ * Optional daily podium round next to the weekly cycle (see
+ * DAILY_BETTING_CONFIG):
+ * 1. Open (weekday morning): price the likely participants of the day
+ *    with the ruleset of the current week, freeze the odds
+ * 2. Close (before lunch): no more bets
+ * 3. Settle (end of day): rank the day's races, score the bets like a
+ *    weekly bet (times pointsFactor) into the season BettorRanking
+ *
+ * No round during calibration weeks, and a day with fewer than 3 ranked
+ * competitors is cancelled (bets are void).
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThanOrEqual, MoreThanOrEqual, Repository } from 'typeorm';
+import { DailyRound, DailyRoundStatus } from '../entities/daily-round.entity';
+import { DailyBet, DailyBetPick } from '../entities/daily-bet.entity';
+import {
+  BettingWeek,
+  BettingWeekStatus,
+} from '../entities/betting-week.entity';
+import { BetStatus } from '../entities/bet.entity';
+import { BetPosition } from '../entities/bet-pick.entity';
+import { BettorRanking } from '../entities/bettor-ranking.entity';
+import { RaceResult } from '../../races/race-result.entity';
+import { OddsCalculatorService } from './odds-calculator.service';
+import { RulesetService } from './ruleset.service';
+import { PlaceDailyBetDto } from '../dto/place-daily-bet.dto';
+import { DAILY_BETTING_CONFIG } from '../config/daily-betting.config';
+import { rankDailyStandings } from '../utils/daily-utils';
+
+const POSITIONS = [BetPosition.FIRST, BetPosition.SECOND, BetPosition.THIRD];
+
+@Injectable()
+export class DailyBettingService {
+  private readonly logger = new Logger(DailyBettingService.name);
+
+  constructor(
+    @InjectRepository(DailyRound)
+    private readonly roundRepository: Repository<DailyRound>,
+    @InjectRepository(DailyBet)
+    private readonly betRepository: Repository<DailyBet>,
+    @InjectRepository(BettingWeek)
+    private readonly bettingWeekRepository: Repository<BettingWeek>,
+    @InjectRepository(RaceResult)
+    private readonly raceResultRepository: Repository<RaceResult>,
+    @InjectRepository(BettorRanking)
+    private readonly bettorRankingRepository: Repository<BettorRanking>,
+    private readonly oddsCalculatorService: OddsCalculatorService,
+    private readonly rulesetService: RulesetService,
+  ) {}
+
+  /**
+   * Open the round of a day (idempotent: returns the existing round)
+   *
+   * @returns null when no round is offered that day (disabled, no open
+   * betting week, or fewer than 3 likely participants)
+   */
+  async openRound(date: Date = new Date()): Promise<DailyRound | null> {
+    const dateKey = this.toDateKey(date);
+
+    const existing = await this.roundRepository.findOne({
+      where: { date: dateKey },
+    });
+    if (existing) return existing;
+
+    if (!DAILY_BETTING_CONFIG.enabled) {
+      this.logger.log('Daily betting is disabled');
+      return null;
+    }
+
+    const week = await this.bettingWeekRepository.findOne({
+      where: {
+        status: In([BettingWeekStatus.OPEN, BettingWeekStatus.CLOSED]),
+        startDate: LessThanOrEqual(date),
+        endDate: MoreThanOrEqual(date),
+      },
+    });
+    if (!week) {
+      this.logger.log(`No daily round on ${dateKey}: no betting week running`);
+      return null;
+    }
+
+    const participantIds = await this.fetchLikelyParticipants(date);
+    const odds = await this.oddsCalculatorService.calculateDailyOdds(
+      week.id,
+      participantIds,
+    );
+    if (odds.length < POSITIONS.length) {
+      this.logger.log(
+        `No daily round on ${dateKey}: ${odds.length} likely participant(s)`,
+      );
+      return null;
+    }
+
+    const closesAt = this.getDayStart(dateKey);
+    closesAt.setUTCHours(
+      DAILY_BETTING_CONFIG.closeHourUtc,
+      DAILY_BETTING_CONFIG.closeMinuteUtc,
+    );
+
+    const round = await this.roundRepository.save(
+      this.roundRepository.create({
+        date: dateKey,
+        bettingWeekId: week.id,
+        seasonNumber: week.seasonNumber,
+        year: week.year,
+        rankingMethod: DAILY_BETTING_CONFIG.rankingMethod,
+        status: DailyRoundStatus.OPEN,
+        closesAt,
+        odds: odds.map((o) => ({
+          competitorId: o.competitorId,
+          competitorName: o.competitorName,
+          oddFirst: o.oddFirst,
+          oddSecond: o.oddSecond,
+          oddThird: o.oddThird,
+        })),
+        podiumFirstId: null,
+        podiumSecondId: null,
+        podiumThirdId: null,
+        finalizedAt: null,
+      }),
+    );
+
+    this.logger.log(
+      `Daily round ${dateKey} opened: ${odds.length} competitors, closes at ${closesAt.toISOString()}`,
+    );
+    return round;
+  }
+
+  /**
+   * Close the open rounds past their closing time
+   *
+   * @returns Number of rounds closed
+   */
+  async closeRounds(): Promise<number> {
+    const result = await this.roundRepository.update(
+      { status: DailyRoundStatus.OPEN, closesAt: LessThanOrEqual(new Date()) },
+      { status: DailyRoundStatus.CLOSED },
+    );
+    return result.affected ?? 0;
+  }
+
+  /**
+   * Rank the day's races and settle the bets of its round (idempotent:
+   * a settled or cancelled round is returned as is)
+   *
+   * @returns null if there was no round that day
+   */
+  async settleRound(date: Date = new Date()): Promise<DailyRound | null> {
+    const dateKey = this.toDateKey(date);
+    const round = await this.roundRepository.findOne({
+      where: { date: dateKey },
+      relations: ['bettingWeek'],
+    });
+    if (!round) return null;
+    if (
+      round.status === DailyRoundStatus.FINALIZED ||
+      round.status === DailyRoundStatus.CANCELLED
+    ) {
+      return round;
+    }
+
+    const dayStart = this.getDayStart(dateKey);
+    const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+    const results = await this.raceResultRepository
+      .createQueryBuilder('result')
+      .innerJoin('result.race', 'race')
+      .where('race.date >= :dayStart AND race.date < :dayEnd', {
+        dayStart,
+        dayEnd,
+      })
+      .select(['result.competitorId', 'result.rank12'])
+      .getMany();
+
+    const standings = rankDailyStandings(
+      results,
+      round.rankingMethod,
+      DAILY_BETTING_CONFIG.minRacesForAvgRank,
+    );
+    const bets = await this.betRepository.find({
+      where: { dailyRoundId: round.id, isFinalized: false },
+    });
+
+    if (standings.length < POSITIONS.length) {
+      for (const bet of bets) {
+        bet.status = BetStatus.CANCELLED;
+        bet.pointsEarned = 0;
+        bet.isFinalized = true;
+      }
+      await this.betRepository.save(bets);
+
+      round.status = DailyRoundStatus.CANCELLED;
+      round.finalizedAt = new Date();
+      this.logger.warn(
+        `Daily round ${dateKey} cancelled: ${standings.length} ranked competitor(s)`,
+      );
+      return await this.roundRepository.save(round);
+    }
+
+    const podium = standings.slice(0, 3).map((s) => s.competitorId);
+    const { scoring } = await this.rulesetService.getParamsForWeek(
+      round.bettingWeek,
+    );
+
+    for (const bet of bets) {
+      let points = 0;
+      bet.picks = bet.picks.map((pick, index) => {
+        const isCorrect = pick.competitorId === podium[index];
+        const pointsEarned = isCorrect
+          ? Math.max(pick.oddAtBet, scoring.minPointsPerCorrectPick)
+          : scoring.incorrectPickPoints;
+        points += pointsEarned;
+        return { ...pick, isCorrect, pointsEarned };
+      });
+
+      const correctCount = bet.picks.filter((p) => p.isCorrect).length;
+      const isPerfectPodium = correctCount === POSITIONS.length;
+      if (isPerfectPodium) points *= scoring.perfectPodiumBonus;
+      points =
+        Math.round(points * DAILY_BETTING_CONFIG.pointsFactor * 100) / 100;
+
+      bet.status = correctCount > 0 ? BetStatus.WON : BetStatus.LOST;
+      bet.pointsEarned = points;
+      bet.isFinalized = true;
+      await this.betRepository.save(bet);
+
+      await this.addPoints(
+        bet.userId,
+        round.seasonNumber,
+        round.year,
+        points,
+        correctCount > 0,
+        isPerfectPodium,
+      );
+    }
+
+    round.podiumFirstId = podium[0];
+    round.podiumSecondId = podium[1];
+    round.podiumThirdId = podium[2];
+    round.status = DailyRoundStatus.FINALIZED;
+    round.finalizedAt = new Date();
+
+    this.logger.log(
+      `Daily round ${dateKey} settled: ${bets.length} bets, podium ${podium.join(', ')}`,
+    );
+    return await this.roundRepository.save(round);
+  }
+
+  /**
+   * Round of today, if any
+   */
+  async getCurrentRound(): Promise<DailyRound | null> {
+    return await this.roundRepository.findOne({
+      where: { date: this.toDateKey(new Date()) },
+    });
+  }
+
+  /**
+   * Bet on the podium of a daily round, at the odds frozen at opening
+   *
+   * @throws BadRequestException if the round is closed or the podium is
+   * invalid
+   * @throws ConflictException if the user already bet on this round
+   */
+  async placeBet(userId: string, dto: PlaceDailyBetDto): Promise<DailyBet> {
+    const round = await this.roundRepository.findOne({
+      where: { id: dto?.dailyRoundId },
+    });
+    if (!round) {
+      throw new NotFoundException(
+        `Daily round with ID ${dto?.dailyRoundId} not found`,
+      );
+    }
+    if (
+      round.status !== DailyRoundStatus.OPEN ||
+      round.closesAt <= new Date()
+    ) {
+      throw new BadRequestException('This daily round is closed');
+    }
+
+    const competitorIds = dto.competitorIds;
+    if (
+      !Array.isArray(competitorIds) ||
+      competitorIds.length !== POSITIONS.length ||
+      new Set(competitorIds).size !== POSITIONS.length
+    ) {
+      throw new BadRequestException('Pick 3 different competitors');
+    }
+
+    const existing = await this.betRepository.findOne({
+      where: { userId, dailyRoundId: round.id },
+    });
+    if (existing) {
+      throw new ConflictException('You already bet on this daily round');
+    }
+
+    const picks: DailyBetPick[] = competitorIds.map((competitorId, index) => {
+      const odd = round.odds.find((o) => o.competitorId === competitorId);
+      if (!odd) {
+        throw new BadRequestException(
+          `Competitor ${competitorId} is not offered in this daily round`,
+        );
+      }
+      const position = POSITIONS[index];
+      return {
+        competitorId,
+        position,
+        oddAtBet:
+          position === BetPosition.FIRST
+            ? odd.oddFirst
+            : position === BetPosition.SECOND
+              ? odd.oddSecond
+              : odd.oddThird,
+        isCorrect: null,
+        pointsEarned: null,
+      };
+    });
+
+    return await this.betRepository.save(
+      this.betRepository.create({
+        userId,
+        dailyRoundId: round.id,
+        picks,
+        status: BetStatus.PENDING,
+        pointsEarned: null,
+      }),
+    );
+  }
+
+  /**
+   * Daily bets of a user, latest first
+   */
+  async getUserBets(userId: string, limit = 30): Promise<DailyBet[]> {
+    return await this.betRepository.find({
+      where: { userId },
+      relations: ['dailyRound'],
+      order: { placedAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Competitors who raced on enough different days of the recent window
+   */
+  private async fetchLikelyParticipants(date: Date): Promise<string[]> {
+    const { likelyWindowDays, likelyMinActiveDays } = DAILY_BETTING_CONFIG;
+    const windowStart = this.getDayStart(this.toDateKey(date));
+    windowStart.setUTCDate(windowStart.getUTCDate() - likelyWindowDays);
+
+    const rows: Array<{ competitorId: string }> =
+      await this.raceResultRepository
+        .createQueryBuilder('result')
+        .innerJoin('result.race', 'race')
+        .select('result.competitorId', 'competitorId')
+        .where('race.date >= :windowStart', { windowStart })
+        .andWhere('race.date < :now', { now: date })
+        .groupBy('result.competitorId')
+        .having('COUNT(DISTINCT DATE(race.date)) >= :minDays', {
+          minDays: likelyMinActiveDays,
+        })
+        .getRawMany();
+
+    return rows.map((r) => r.competitorId);
+  }
+
+  private async addPoints(
+    userId: string,
+    seasonNumber: number,
+    year: number,
+    points: number,
+    isWin: boolean,
+    isPerfect: boolean,
+  ): Promise<void> {
+    await this.bettorRankingRepository.query(
+      `INSERT INTO bettor_rankings ("userId", "month", "seasonNumber", "year", "totalPoints", "betsPlaced", "betsWon", "perfectBets", "boostsUsed", "rank")
+       VALUES ($1, $2, $2, $3, $4, 1, $5, $6, 0, 0)
+       ON CONFLICT ("userId", "seasonNumber", "year")
+       DO UPDATE SET "totalPoints" = bettor_rankings."totalPoints" + $4,
+                     "betsPlaced" = bettor_rankings."betsPlaced" + 1,
+                     "betsWon" = bettor_rankings."betsWon" + $5,
+                     "perfectBets" = bettor_rankings."perfectBets" + $6,
+                     "updatedAt" = NOW()`,
+      [userId, seasonNumber, year, points, isWin ? 1 : 0, isPerfect ? 1 : 0],
+    );
+  }
+
+  /** YYYY-MM-DD of a date (UTC) */
+  private toDateKey(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private getDayStart(dateKey: string): Date {
+    return new Date(`${dateKey}T00:00:00.000Z`);
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * LeaguesService
+ *
+ * Private betting leagues: a user creates a league, shares its invite
+ * code, and the members get rankings, community bets and season
+ * highlights limited to the league. Nothing is scored per league: the
+ * league views filter the global bets and rankings on its members.
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomInt } from 'crypto';
+import { BettingLeague } from '../entities/betting-league.entity';
+import { BettingLeagueMember } from '../entities/betting-league-member.entity';
+import { CreateLeagueDto } from '../dto/create-league.dto';
+import { LEAGUES_CONFIG } from '../config/leagues.config';
+
+export interface LeagueSummary {
+  id: string;
+  name: string;
+  ownerId: string;
+  memberCount: number;
+  createdAt: Date;
+}
+
+export interface LeagueDetails extends LeagueSummary {
+  inviteCode: string;
+  members: Array<{
+    userId: string;
+    firstName: string | null;
+    lastName: string | null;
+    profilePictureUrl: string | null;
+    joinedAt: Date;
+  }>;
+}
+
+@Injectable()
+export class LeaguesService {
+  private readonly logger = new Logger(LeaguesService.name);
+
+  constructor(
+    @InjectRepository(BettingLeague)
+    private readonly leagueRepository: Repository<BettingLeague>,
+    @InjectRepository(BettingLeagueMember)
+    private readonly memberRepository: Repository<BettingLeagueMember>,
+  ) {}
+
+  /**
+   * Create a league, its creator being the owner and first member
+   */
+  async createLeague(
+    userId: string,
+    dto: CreateLeagueDto,
+  ): Promise<LeagueDetails> {
+    const name = dto?.name?.trim();
+    if (!name || name.length > 50) {
+      throw new BadRequestException('League name must be 1-50 characters');
+    }
+    await this.assertCanJoinAnotherLeague(userId);
+
+    const league = await this.leagueRepository.save(
+      this.leagueRepository.create({
+        name,
+        ownerId: userId,
+        inviteCode: await this.generateInviteCode(),
+      }),
+    );
+    await this.memberRepository.save(
+      this.memberRepository.create({ leagueId: league.id, userId }),
+    );
+
+    this.logger.log(`League "${name}" (${league.id}) created by ${userId}`);
+
+    return await this.getLeague(userId, league.id);
+  }
+
+  /**
+   * Join a league with its invite code
+   *
+   * @throws NotFoundException if no league has this code
+   * @throws ConflictException if already a member, or the league is full
+   */
+  async joinLeague(userId: string, inviteCode: string): Promise<LeagueDetails> {
+    const league = await this.leagueRepository.findOne({
+      where: { inviteCode: (inviteCode ?? '').trim().toUpperCase() },
+    });
+    if (!league) {
+      throw new NotFoundException('Invalid invite code');
+    }
+
+    const existing = await this.memberRepository.findOne({
+      where: { leagueId: league.id, userId },
+    });
+    if (existing) {
+      throw new ConflictException('You are already a member of this league');
+    }
+
+    const memberCount = await this.memberRepository.count({
+      where: { leagueId: league.id },
+    });
+    if (memberCount >= LEAGUES_CONFIG.MAX_MEMBERS) {
+      throw new ConflictException(
+        `This league is full (${LEAGUES_CONFIG.MAX_MEMBERS} members)`,
+      );
+    }
+    await this.assertCanJoinAnotherLeague(userId);
+
+    await this.memberRepository.save(
+      this.memberRepository.create({ leagueId: league.id, userId }),
+    );
+
+    this.logger.log(`User ${userId} joined league ${league.id}`);
+
+    return await this.getLeague(userId, league.id);
+  }
+
+  /**
+   * Leave a league. The owner hands the league over to the oldest
+   * member; the last member leaving deletes it.
+   */
+  async leaveLeague(userId: string, leagueId: string): Promise<void> {
+    const league = await this.findLeague(leagueId);
+    const membership = await this.memberRepository.findOne({
+      where: { leagueId, userId },
+    });
+    if (!membership) {
+      throw new NotFoundException('You are not a member of this league');
+    }
+
+    await this.memberRepository.remove(membership);
+
+    const nextOwner = await this.memberRepository.findOne({
+      where: { leagueId },
+      order: { joinedAt: 'ASC' },
+    });
+    if (!nextOwner) {
+      await this.leagueRepository.remove(league);
+      this.logger.log(`League ${leagueId} deleted (no members left)`);
+      return;
+    }
+
+    if (league.ownerId === userId) {
+      await this.leagueRepository.update(leagueId, {
+        ownerId: nextOwner.userId,
+      });
+      this.logger.log(
+        `League ${leagueId} handed over to ${nextOwner.userId} (owner left)`,
+      );
+    }
+  }
+
+  /**
+   * Replace the invite code of a league (owner only), the previous code
+   * stops working
+   */
+  async regenerateInviteCode(
+    userId: string,
+    leagueId: string,
+  ): Promise<{ inviteCode: string }> {
+    const league = await this.findLeague(leagueId);
+    if (league.ownerId !== userId) {
+      throw new ForbiddenException(
+        'Only the league owner can change the invite code',
+      );
+    }
+
+    const inviteCode = await this.generateInviteCode();
+    await this.leagueRepository.update(leagueId, { inviteCode });
+
+    return { inviteCode };
+  }
+
+  /**
+   * Leagues of a user
+   */
+  async getUserLeagues(userId: string): Promise<LeagueSummary[]> {
+    const memberships = await this.memberRepository.find({
+      where: { userId },
+      relations: ['league'],
+      order: { joinedAt: 'ASC' },
+    });
+    if (memberships.length === 0) return [];
+
+    const counts: Array<{ leagueId: string; count: string }> =
+      await this.memberRepository
+        .createQueryBuilder('member')
+        .select('member.leagueId', 'leagueId')
+        .addSelect('COUNT(*)', 'count')
+        .where('member.leagueId IN (:...leagueIds)', {
+          leagueIds: memberships.map((m) => m.leagueId),
+        })
+        .groupBy('member.leagueId')
+        .getRawMany();
+    const countMap = new Map(
+      counts.map(({ leagueId, count }) => [leagueId, parseInt(count, 10)]),
+    );
+
+    return memberships.map(({ league }) =>
+      this.toSummary(league, countMap.get(league.id) ?? 0),
+    );
+  }
+
+  /**
+   * League with its invite code and members (members only)
+   */
+  async getLeague(userId: string, leagueId: string): Promise<LeagueDetails> {
+    const league = await this.findLeague(leagueId);
+
+    const members = await this.memberRepository.find({
+      where: { leagueId },
+      relations: ['user', 'user.competitor'],
+      order: { joinedAt: 'ASC' },
+    });
+    if (!members.some((m) => m.userId === userId)) {
+      throw new ForbiddenException('You are not a member of this league');
+    }
+
+    return {
+      ...this.toSummary(league, members.length),
+      inviteCode: league.inviteCode,
+      members: members.map((m) => ({
+        userId: m.userId,
+        firstName: m.user?.firstName ?? null,
+        lastName: m.user?.lastName ?? null,
+        profilePictureUrl:
+          m.user?.competitor?.profilePictureUrl ??
+          m.user?.profilePictureUrl ??
+          null,
+        joinedAt: m.joinedAt,
+      })),
+    };
+  }
+
+  /**
+   * User IDs of the members of a league, to filter league views
+   *
+   * @throws NotFoundException if the league doesn't exist
+   */
+  async getMemberIds(leagueId: string): Promise<string[]> {
+    await this.findLeague(leagueId);
+    const members = await this.memberRepository.find({
+      where: { leagueId },
+      select: ['userId'],
+    });
+    return members.map((m) => m.userId);
+  }
+
+  private async findLeague(leagueId: string): Promise<BettingLeague> {
+    const league = await this.leagueRepository.findOne({
+      where: { id: leagueId },
+    });
+    if (!league) {
+      throw new NotFoundException(`League with ID ${leagueId} not found`);
+    }
+    return league;
+  }
+
+  private async assertCanJoinAnotherLeague(userId: string): Promise<void> {
+    const leagueCount = await this.memberRepository.count({
+      where: { userId },
+    });
+    if (leagueCount >= LEAGUES_CONFIG.MAX_LEAGUES_PER_USER) {
+      throw new BadRequestException(
+        `You can't be in more than ${LEAGUES_CONFIG.MAX_LEAGUES_PER_USER} leagues`,
+      );
+    }
+  }
+
+  /**
+   * Random invite code not used by another league
+   */
+  private async generateInviteCode(): Promise<string> {
+    const { INVITE_CODE_ALPHABET, INVITE_CODE_LENGTH } = LEAGUES_CONFIG;
+
+    for (;;) {
+      let code = '';
+      for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+        code += INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)];
+      }
+      const taken = await this.leagueRepository.exists({
+        where: { inviteCode: code },
+      });
+      if (!taken) return code;
+    }
+  }
+
+  private toSummary(league: BettingLeague, memberCount: number): LeagueSummary {
+    return {
+      id: league.id,
+      name: league.name,
+      ownerId: league.ownerId,
+      memberCount,
+      createdAt: league.createdAt,
+    };
+  }
+}
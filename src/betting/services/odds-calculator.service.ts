@@ -5,28 +5,38 @@
  *
  * Architecture:
  * - Pure calculation logic (no side effects beyond DB save)
- * - Configurable parameters (via config file)
+ * - Configurable parameters (ruleset of the week, see RulesetService)
  * - Detailed intermediate steps (for debugging)
  * - Type-safe throughout
  *
  * Calculation Flow:
- * 1. Fetch all competitors + recent race data
+ * 1. Fetch all competitors + recent race data (RD with pending inactivity decay)
  * 2. Filter eligible competitors (lifetime calibration + 30-day activity)
  * 3. Compute Plackett-Luce strengths via Glicko-2 g(phi) dampening
  * 4. Run Monte Carlo simulation (50K) for P(1st), P(2nd), P(3rd)
  * 5. Convert probabilities to decimal odds
  * 6. Apply min/max capping
  * 7. Save to database
+ * 8. Price and save the weekly markets (winner, top 3, matchups, over/under)
  */
 
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, Repository } from 'typeorm';
 import { Competitor } from '../../competitors/competitor.entity';
 import { RaceEvent } from '../../races/race-event.entity';
 import { RaceResult } from '../../races/race-result.entity';
 import { CompetitorOdds } from '../entities/competitor-odds.entity';
 import { BettingWeek } from '../entities/betting-week.entity';
+import {
+  MarketOdds,
+  MarketSide,
+  MarketType,
+} from '../entities/market-odds.entity';
+import { RatingPoolService } from '../../rating/rating-pool.service';
+import { RdDecayService } from '../../rating/rd-decay.service';
+import { RulesetService } from './ruleset.service';
+import { RulesetParams } from '../entities/betting-ruleset.entity';
 import {
   CompetitorWithStats,
   OddsCalculationStep,
@@ -34,13 +44,24 @@ import {
   CompetitorOdd,
   RecentRacePerformance,
   IneligibilityReason,
+  LineupPrediction,
+  CompetitorOddsHistory,
+  CompetitorOddsMovement,
+  MarketOdd,
+  EligibilityRules,
+  MonteCarloConfig,
 } from '../types/odds-calculator.types';
+import { CompetitorNotFoundException } from '../../common/exceptions';
+import { getWinningTeams } from '../../races/utils/team-standings';
 import {
-  DEFAULT_ODDS_PARAMS,
-  ELIGIBILITY_RULES,
   ODDS_LOGGER_CONFIG,
-  MONTE_CARLO_CONFIG,
+  MARKETS_CONFIG,
 } from '../config/odds-calculator.config';
+import {
+  priceOverUnder,
+  simulateWeekActivity,
+  toMarketOdd,
+} from '../utils/market-utils';
 
 @Injectable()
 export class OddsCalculatorService {
@@ -57,13 +78,21 @@ export class OddsCalculatorService {
     private readonly competitorOddsRepository: Repository<CompetitorOdds>,
     @InjectRepository(BettingWeek)
     private readonly bettingWeekRepository: Repository<BettingWeek>,
+    @InjectRepository(MarketOdds)
+    private readonly marketOddsRepository: Repository<MarketOdds>,
+    private readonly ratingPoolService: RatingPoolService,
+    private readonly rdDecayService: RdDecayService,
+    private readonly rulesetService: RulesetService,
   ) {}
 
   /**
    * Calculate odds for all competitors in a betting week
+   *
+   * @param raceId - Race whose result triggered the recalculation, if any
    */
   async calculateOddsForWeek(
     bettingWeekId: string,
+    raceId: string | null = null,
   ): Promise<OddsCalculationResult> {
     this.logger.log(`Starting odds calculation for week ${bettingWeekId}`);
 
@@ -75,7 +104,8 @@ export class OddsCalculatorService {
       throw new Error(`Betting week ${bettingWeekId} not found`);
     }
 
-    const competitorsWithStats = await this.fetchCompetitorsWithStats();
+    const params = await this.rulesetService.getParamsForWeek(week);
+    const competitorsWithStats = await this.fetchCompetitorsWithStats(params);
 
     const eligibleCompetitors = competitorsWithStats.filter(
       (c) => c.isEligible,
@@ -93,32 +123,22 @@ export class OddsCalculatorService {
       };
     }
 
-    const calculationSteps = this.calculateOddsSteps(eligibleCompetitors);
+    const calculationSteps = this.calculateOddsSteps(
+      eligibleCompetitors,
+      params,
+    );
 
-    const odds: CompetitorOdd[] = calculationSteps.map((step) => ({
-      competitorId: step.competitorId,
-      competitorName: step.competitorName,
-      oddFirst: step.oddFirst,
-      oddSecond: step.oddSecond,
-      oddThird: step.oddThird,
-      probability: step.normalizedProbability,
-      isEligible: step.isEligible,
-      metadata: {
-        elo: step.conservativeScore,
-        rd: step.rd,
-        recentWins: step.recentRaceCount,
-        winStreak: step.winStreak,
-        raceCount: step.recentRaceCount,
-        avgRank: step.avgRecentRank,
-        formFactor: 1.0,
-        probability: step.normalizedProbability,
-        mu: step.mu,
-        phi: step.phi,
-        plStrength: step.plStrength,
-      },
-    }));
+    const odds = calculationSteps.map((step) => this.toCompetitorOdd(step));
 
-    await this.saveOddsToDatabase(bettingWeekId, odds);
+    await this.saveOddsToDatabase(bettingWeekId, odds, raceId);
+
+    const marketOdds = await this.calculateMarketOdds(
+      week,
+      eligibleCompetitors,
+      calculationSteps,
+      params,
+    );
+    await this.saveMarketOddsToDatabase(bettingWeekId, marketOdds, raceId);
 
     const result: OddsCalculationResult = {
       bettingWeekId,
@@ -138,14 +158,207 @@ export class OddsCalculatorService {
     return result;
   }
 
+  /**
+   * Calculate odds for a week from a rating pool instead of the global
+   * rating. Eligibility is unchanged; competitors without a rating in the
+   * pool are left out. Not saved: bets are always priced on global odds.
+   *
+   * @param bettingWeekId - Betting week UUID
+   * @param pool - Pool key or "overall" (see RATING_POOLS_CONFIG)
+   */
+  async calculatePoolOddsForWeek(
+    bettingWeekId: string,
+    pool: string,
+  ): Promise<CompetitorOdd[]> {
+    const week = await this.bettingWeekRepository.findOne({
+      where: { id: bettingWeekId },
+    });
+
+    if (!week) {
+      throw new Error(`Betting week ${bettingWeekId} not found`);
+    }
+
+    const params = await this.rulesetService.getParamsForWeek(week);
+    const poolRatings = await this.ratingPoolService.getPoolRatings(pool);
+
+    const eligibleCompetitors = (await this.fetchCompetitorsWithStats(params))
+      .filter((c) => c.isEligible && poolRatings.has(c.competitor.id))
+      .map((c) => {
+        const { rating, rd, vol } = poolRatings.get(c.competitor.id)!;
+        return {
+          ...c,
+          competitor: Object.assign(new Competitor(), c.competitor, {
+            rating,
+            rd,
+            vol,
+          }),
+        };
+      });
+
+    if (eligibleCompetitors.length === 0) return [];
+
+    return this.calculateOddsSteps(eligibleCompetitors, params).map((step) =>
+      this.toCompetitorOdd(step),
+    );
+  }
+
+  /**
+   * Podium odds of a daily round, with the ruleset of its week, among the
+   * likely participants of the day only. Calibration still applies, the
+   * 30-day activity rule doesn't (participants are picked on activity).
+   * Not saved: the round keeps its own snapshot.
+   *
+   * @param competitorIds - Likely participants of the day
+   */
+  async calculateDailyOdds(
+    bettingWeekId: string,
+    competitorIds: string[],
+  ): Promise<CompetitorOdd[]> {
+    const week = await this.bettingWeekRepository.findOne({
+      where: { id: bettingWeekId },
+    });
+
+    if (!week) {
+      throw new Error(`Betting week ${bettingWeekId} not found`);
+    }
+
+    const params = await this.rulesetService.getParamsForWeek(week);
+    const participants = (await this.fetchCompetitorsWithStats(params)).filter(
+      (c) =>
+        competitorIds.includes(c.competitor.id) &&
+        c.ineligibilityReason !== 'calibrating',
+    );
+
+    if (participants.length === 0) return [];
+
+    return this.calculateOddsSteps(participants, params).map((step) =>
+      this.toCompetitorOdd(step),
+    );
+  }
+
+  /**
+   * Predict the finish of an arbitrary lineup (the people about to race),
+   * with the same strengths and simulation as the weekly odds (ruleset of
+   * the current season). Betting eligibility is ignored.
+   *
+   * In a team race, each simulated finish is also scored by team with the
+   * Mario Kart points of the positions in the lineup (see getWinningTeams).
+   *
+   * @param competitorIds - Lineup, without duplicates
+   * @param teamOf - Team label of each competitor, for a team race
+   * @returns One prediction per competitor, best expected position first
+   */
+  async predictLineup(
+    competitorIds: string[],
+    teamOf?: Map<string, string>,
+  ): Promise<LineupPrediction[]> {
+    const competitors = await this.competitorRepository.find({
+      where: { id: In(competitorIds) },
+    });
+    const missingId = competitorIds.find(
+      (id) => !competitors.some((c) => c.id === id),
+    );
+    if (missingId) {
+      throw new CompetitorNotFoundException(missingId);
+    }
+
+    const { monteCarlo } = await this.rulesetService.getCurrentParams();
+    const strengths = competitors.map((c) => {
+      const competitor = Object.assign(
+        new Competitor(),
+        c,
+        this.rdDecayService.getCurrentRating(c),
+      );
+      return { competitor, ...this.computeStrength(competitor, monteCarlo) };
+    });
+    const totalAlpha = strengths.reduce((sum, s) => sum + s.alpha, 0);
+
+    const { NUM_SIMULATIONS } = monteCarlo;
+    const teamWins = new Map<string, number>();
+    const mcResults = this.runMonteCarloSimulation(
+      strengths.map((s) => ({ id: s.competitor.id, alpha: s.alpha })),
+      NUM_SIMULATIONS,
+      strengths.length,
+      teamOf &&
+        ((order) => {
+          const winners = getWinningTeams(
+            order.map((index) => strengths[index].competitor.id),
+            teamOf,
+          );
+          for (const team of winners) {
+            teamWins.set(team, (teamWins.get(team) ?? 0) + 1);
+          }
+        }),
+    );
+
+    const predictions = strengths.map(({ competitor, alpha }) => {
+      const positionDistribution = mcResults
+        .get(competitor.id)!
+        .map((count) => count / NUM_SIMULATIONS);
+
+      return {
+        competitorId: competitor.id,
+        competitorName: `${competitor.firstName} ${competitor.lastName}`,
+        rating: competitor.rating,
+        rd: competitor.rd,
+        plStrength: alpha,
+        winProbability: alpha / totalAlpha,
+        expectedPosition: positionDistribution.reduce(
+          (sum, p, index) => sum + p * (index + 1),
+          0,
+        ),
+        positionDistribution,
+        ...(teamOf && {
+          team: teamOf.get(competitor.id)!,
+          teamWinProbability:
+            (teamWins.get(teamOf.get(competitor.id)!) ?? 0) / NUM_SIMULATIONS,
+        }),
+      };
+    });
+
+    return predictions.sort((a, b) => a.expectedPosition - b.expectedPosition);
+  }
+
+  /**
+   * Decimal odd of an outcome of a lineup (live bets), clamped like the
+   * weekly odds
+   *
+   * @param lineupIds - People about to race
+   * @param probabilityOf - Probability of the outcome from the lineup
+   * prediction (see predictLineup)
+   */
+  async calculateLineupOdd(
+    lineupIds: string[],
+    probabilityOf: (predictions: LineupPrediction[]) => number,
+  ): Promise<number> {
+    const [predictions, params] = await Promise.all([
+      this.predictLineup([...new Set(lineupIds)]),
+      this.rulesetService.getCurrentParams(),
+    ]);
+
+    return Math.max(
+      params.odds.minOdd,
+      Math.min(1 / probabilityOf(predictions), params.odds.maxOdd),
+    );
+  }
+
   /**
    * Fetch all competitors with their recent race statistics
    *
    * No longer requires a BettingWeek — eligibility is based on
    * lifetime races and a 30-day rolling window only.
+   * RD includes the decay of idle days not applied yet (RdDecayService).
    */
-  private async fetchCompetitorsWithStats(): Promise<CompetitorWithStats[]> {
-    const competitors = await this.competitorRepository.find();
+  private async fetchCompetitorsWithStats(
+    params: RulesetParams,
+  ): Promise<CompetitorWithStats[]> {
+    const competitors = (await this.competitorRepository.find()).map((c) =>
+      Object.assign(
+        new Competitor(),
+        c,
+        this.rdDecayService.getCurrentRating(c),
+      ),
+    );
 
     const competitorsWithStats = await Promise.all(
       competitors.map(async (competitor) => {
@@ -157,7 +370,7 @@ export class OddsCalculatorService {
             competitorId: competitor.id,
           })
           .orderBy('race.date', 'DESC')
-          .limit(DEFAULT_ODDS_PARAMS.recentRacesCount)
+          .limit(params.odds.recentRacesCount)
           .select(['result.rank12', 'race.date', 'race.id'])
           .getRawMany();
 
@@ -173,7 +386,11 @@ export class OddsCalculatorService {
         );
 
         const { isEligible, reason, recentRacesInWindow } =
-          this.checkCompetitorEligibility(competitor, recentRacePerformances);
+          this.checkCompetitorEligibility(
+            competitor,
+            recentRacePerformances,
+            params.eligibility,
+          );
 
         return {
           competitor,
@@ -199,13 +416,14 @@ export class OddsCalculatorService {
   private checkCompetitorEligibility(
     competitor: Competitor,
     recentRaces: RecentRacePerformance[],
+    rules: EligibilityRules,
   ): {
     isEligible: boolean;
     reason: IneligibilityReason;
     recentRacesInWindow: number;
   } {
     // Rule 1: Calibration check (lifetime races)
-    if (competitor.totalLifetimeRaces < ELIGIBILITY_RULES.MIN_LIFETIME_RACES) {
+    if (competitor.totalLifetimeRaces < rules.MIN_LIFETIME_RACES) {
       return {
         isEligible: false,
         reason: 'calibrating',
@@ -215,15 +433,13 @@ export class OddsCalculatorService {
 
     // Rule 2: Recent activity check (rolling 30-day window)
     const windowStart = new Date();
-    windowStart.setDate(
-      windowStart.getDate() - ELIGIBILITY_RULES.RECENT_WINDOW_DAYS,
-    );
+    windowStart.setDate(windowStart.getDate() - rules.RECENT_WINDOW_DAYS);
 
     const recentRacesInWindow = recentRaces.filter(
       (r) => new Date(r.date) >= windowStart,
     ).length;
 
-    if (recentRacesInWindow < ELIGIBILITY_RULES.MIN_RECENT_RACES) {
+    if (recentRacesInWindow < rules.MIN_RECENT_RACES) {
       return {
         isEligible: false,
         reason: 'inactive',
@@ -243,9 +459,9 @@ export class OddsCalculatorService {
    */
   private calculateOddsSteps(
     competitorsWithStats: CompetitorWithStats[],
+    params: RulesetParams,
   ): OddsCalculationStep[] {
-    const { GLICKO_SCALE, INCORPORATE_RD, NUM_SIMULATIONS } =
-      MONTE_CARLO_CONFIG;
+    const { NUM_SIMULATIONS, PODIUM_SIZE } = params.monteCarlo;
 
     // Step 1: Compute Plackett-Luce strengths
     const strengths: Array<{
@@ -255,15 +471,10 @@ export class OddsCalculatorService {
     }> = [];
 
     for (const { competitor, recentRaces } of competitorsWithStats) {
-      const mu = (competitor.rating - 1500) / GLICKO_SCALE;
-      const phi = competitor.rd / GLICKO_SCALE;
-
-      // g(phi) dampening from Glicko-2
-      const gPhi = INCORPORATE_RD
-        ? 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI))
-        : 1;
-
-      const alpha = Math.exp(mu * gPhi);
+      const { mu, phi, alpha } = this.computeStrength(
+        competitor,
+        params.monteCarlo,
+      );
 
       // Calculate average recent rank (for metadata)
       const avgRecentRank =
@@ -307,6 +518,7 @@ export class OddsCalculatorService {
       const pWin = s.alpha / totalAlpha;
       s.step.rawProbability = pWin;
       s.step.adjustedProbability = pWin;
+
       s.step.normalizedProbability = pWin;
     }
 
@@ -314,53 +526,78 @@ export class OddsCalculatorService {
     const mcResults = this.runMonteCarloSimulation(
       strengths.map((s) => ({ id: s.competitorId, alpha: s.alpha })),
       NUM_SIMULATIONS,
+      PODIUM_SIZE,
     );
 
     // Step 4: Convert to odds
     for (const s of strengths) {
-      const mc = mcResults.get(s.competitorId)!;
-      s.step.pFirst = mc.first / NUM_SIMULATIONS;
-      s.step.pSecond = mc.second / NUM_SIMULATIONS;
-      s.step.pThird = mc.third / NUM_SIMULATIONS;
+      const [first, second = 0, third = 0] = mcResults.get(s.competitorId)!;
+      s.step.pFirst = first / NUM_SIMULATIONS;
+      s.step.pSecond = second / NUM_SIMULATIONS;
+      s.step.pThird = third / NUM_SIMULATIONS;
 
       // Decimal odds = 1 / probability, clamped
       const clamp = (v: number) =>
-        Math.max(
-          DEFAULT_ODDS_PARAMS.minOdd,
-          Math.min(v, DEFAULT_ODDS_PARAMS.maxOdd),
-        );
+        Math.max(params.odds.minOdd, Math.min(v, params.odds.maxOdd));
 
       s.step.oddFirst = clamp(1 / s.step.pFirst);
       s.step.oddSecond = clamp(1 / s.step.pSecond);
       s.step.oddThird = clamp(1 / s.step.pThird);
-
     }
 
     return strengths.map((s) => s.step);
   }
 
   /**
-   * Run Monte Carlo simulation to estimate podium probabilities
+   * Plackett-Luce strength of a competitor: exp(mu * g(phi))
+   */
+  private computeStrength(
+    competitor: Competitor,
+    monteCarlo: MonteCarloConfig,
+  ): {
+    mu: number;
+    phi: number;
+    alpha: number;
+  } {
+    const { GLICKO_SCALE, INCORPORATE_RD } = monteCarlo;
+
+    const mu = (competitor.rating - 1500) / GLICKO_SCALE;
+    const phi = competitor.rd / GLICKO_SCALE;
+
+    // g(phi) dampening from Glicko-2
+    const gPhi = INCORPORATE_RD
+      ? 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI))
+      : 1;
+
+    return { mu, phi, alpha: Math.exp(mu * gPhi) };
+  }
+
+  /**
+   * Run Monte Carlo simulation to estimate finishing position probabilities
    *
    * Uses Plackett-Luce sampling: for each position, draw a competitor
    * proportionally to their alpha, then remove them from the pool.
+   *
+   * @param positions - Number of positions drawn (3 for the podium)
+   * @param onSimulation - Called with the drawn order of each simulation
+   *   (indexes in `competitors`)
+   * @returns Per competitor, the number of simulations finishing at each
+   *   of the first `positions` positions
    */
   private runMonteCarloSimulation(
     competitors: Array<{ id: string; alpha: number }>,
     numSimulations: number,
-  ): Map<string, { first: number; second: number; third: number }> {
-    const counts = new Map<
-      string,
-      { first: number; second: number; third: number }
-    >();
+    positions: number,
+    onSimulation?: (order: number[]) => void,
+  ): Map<string, number[]> {
+    const n = competitors.length;
+    const drawn = Math.min(positions, n);
 
+    const counts = new Map<string, number[]>();
     for (const c of competitors) {
-      counts.set(c.id, { first: 0, second: 0, third: 0 });
+      counts.set(c.id, new Array<number>(drawn).fill(0));
     }
 
-    const positionKeys = ['first', 'second', 'third'] as const;
-    const n = competitors.length;
-
     for (let sim = 0; sim < numSimulations; sim++) {
       // Copy alphas for this simulation (we'll zero out selected ones)
       const alphas = new Float64Array(n);
@@ -369,9 +606,9 @@ export class OddsCalculatorService {
       }
 
       let totalAlpha = alphas.reduce((sum, a) => sum + a, 0);
+      const order: number[] = [];
 
-      const positions = Math.min(MONTE_CARLO_CONFIG.PODIUM_SIZE, n);
-      for (let pos = 0; pos < positions; pos++) {
+      for (let pos = 0; pos < drawn; pos++) {
         // Draw a competitor proportionally to alpha
         const rand = Math.random() * totalAlpha;
         let cumulative = 0;
@@ -387,23 +624,226 @@ export class OddsCalculatorService {
         }
 
         // Increment counter
-        counts.get(competitors[selectedIdx].id)![positionKeys[pos]]++;
+        counts.get(competitors[selectedIdx].id)![pos]++;
+        order.push(selectedIdx);
 
         // Remove from pool
         totalAlpha -= alphas[selectedIdx];
         alphas[selectedIdx] = 0;
       }
+
+      onSimulation?.(order);
     }
 
     return counts;
   }
 
+  /**
+   * Price the weekly markets of the eligible competitors
+   *
+   * - Winner / top 3: podium probabilities of the odds calculation
+   * - Matchups: share of full-order simulations where one finishes ahead
+   *   of the other, only for pairs where both sides have a chance
+   * - Race count / average rank: simulated weeks (see simulateWeekActivity)
+   */
+  private async calculateMarketOdds(
+    week: BettingWeek,
+    competitorsWithStats: CompetitorWithStats[],
+    steps: OddsCalculationStep[],
+    params: RulesetParams,
+  ): Promise<MarketOdd[]> {
+    const { NUM_SIMULATIONS } = params.monteCarlo;
+    const { ACTIVITY_SIMULATIONS, MATCHUP_MIN_PROBABILITY } = MARKETS_CONFIG;
+    const marketOdds: MarketOdd[] = [];
+
+    const addOdd = (
+      marketType: MarketType,
+      step: OddsCalculationStep,
+      probability: number,
+      selection: Partial<Pick<MarketOdd, 'opponentId' | 'line' | 'side'>> = {},
+    ) =>
+      marketOdds.push({
+        marketType,
+        competitorId: step.competitorId,
+        competitorName: step.competitorName,
+        opponentId: selection.opponentId ?? null,
+        line: selection.line ?? null,
+        side: selection.side ?? null,
+        probability,
+        odd: toMarketOdd(probability, params.odds),
+      });
+
+    for (const step of steps) {
+      addOdd(MarketType.WINNER, step, step.pFirst);
+      addOdd(
+        MarketType.TOP_THREE,
+        step,
+        step.pFirst + step.pSecond + step.pThird,
+      );
+    }
+
+    // Matchups: ahead[i][j] = simulations where i finished ahead of j
+    const n = steps.length;
+    const ahead = steps.map(() => new Array<number>(n).fill(0));
+    this.runMonteCarloSimulation(
+      steps.map((step) => ({ id: step.competitorId, alpha: step.plStrength })),
+      NUM_SIMULATIONS,
+      n,
+      (order) => {
+        for (let i = 0; i < order.length; i++) {
+          for (let j = i + 1; j < order.length; j++) {
+            ahead[order[i]][order[j]]++;
+          }
+        }
+      },
+    );
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const pAhead = ahead[i][j] / NUM_SIMULATIONS;
+        if (Math.min(pAhead, 1 - pAhead) < MATCHUP_MIN_PROBABILITY) continue;
+        addOdd(MarketType.MATCHUP, steps[i], pAhead, {
+          opponentId: steps[j].competitorId,
+        });
+        addOdd(MarketType.MATCHUP, steps[j], 1 - pAhead, {
+          opponentId: steps[i].competitorId,
+        });
+      }
+    }
+
+    // Race count / average rank
+    const { playedRanks, racesInWindow } = await this.fetchWeekActivity(
+      week,
+      steps.map((step) => step.competitorId),
+      params.eligibility.RECENT_WINDOW_DAYS,
+    );
+    const now = Date.now();
+    const remainingShare = Math.min(
+      1,
+      Math.max(
+        0,
+        (new Date(week.endDate).getTime() - now) /
+          (new Date(week.endDate).getTime() -
+            new Date(week.startDate).getTime()),
+      ),
+    );
+
+    for (const step of steps) {
+      const stats = competitorsWithStats.find(
+        (c) => c.competitor.id === step.competitorId,
+      )!;
+      const weeklyPace =
+        ((racesInWindow.get(step.competitorId) ?? 0) * 7) /
+        params.eligibility.RECENT_WINDOW_DAYS;
+      const { raceCounts, avgRanks } = simulateWeekActivity(
+        playedRanks.get(step.competitorId) ?? [],
+        stats.recentRaces.map((r) => r.rank12),
+        weeklyPace * remainingShare,
+        ACTIVITY_SIMULATIONS,
+      );
+
+      const lines: Array<[MarketType, ReturnType<typeof priceOverUnder>]> = [
+        [MarketType.RACE_COUNT, priceOverUnder(raceCounts, true)],
+        [MarketType.AVG_RANK, priceOverUnder(avgRanks, false)],
+      ];
+      for (const [marketType, price] of lines) {
+        if (!price) continue;
+        addOdd(marketType, step, price.pOver, {
+          line: price.line,
+          side: MarketSide.OVER,
+        });
+        addOdd(marketType, step, price.pUnder, {
+          line: price.line,
+          side: MarketSide.UNDER,
+        });
+      }
+    }
+
+    return marketOdds;
+  }
+
+  /**
+   * rank12 of the races already run in the week, and number of races in
+   * the recent activity window, per competitor
+   */
+  private async fetchWeekActivity(
+    week: BettingWeek,
+    competitorIds: string[],
+    recentWindowDays: number,
+  ): Promise<{
+    playedRanks: Map<string, number[]>;
+    racesInWindow: Map<string, number>;
+  }> {
+    const playedRanks = new Map<string, number[]>();
+    const racesInWindow = new Map<string, number>();
+    if (competitorIds.length === 0) return { playedRanks, racesInWindow };
+
+    const weekResults = await this.raceResultRepository
+      .createQueryBuilder('result')
+      .innerJoin('result.race', 'race')
+      .where('race.bettingWeekId = :weekId', { weekId: week.id })
+      .andWhere('result.competitorId IN (:...competitorIds)', {
+        competitorIds,
+      })
+      .getMany();
+    for (const result of weekResults) {
+      const ranks = playedRanks.get(result.competitorId) ?? [];
+      ranks.push(result.rank12);
+      playedRanks.set(result.competitorId, ranks);
+    }
+
+    const windowStart = new Date();
+    windowStart.setDate(windowStart.getDate() - recentWindowDays);
+    const windowCounts: Array<{ competitorId: string; count: string }> =
+      await this.raceResultRepository
+        .createQueryBuilder('result')
+        .innerJoin('result.race', 'race')
+        .select('result.competitorId', 'competitorId')
+        .addSelect('COUNT(*)', 'count')
+        .where('race.date >= :windowStart', { windowStart })
+        .andWhere('result.competitorId IN (:...competitorIds)', {
+          competitorIds,
+        })
+        .groupBy('result.competitorId')
+        .getRawMany();
+    for (const { competitorId, count } of windowCounts) {
+      racesInWindow.set(competitorId, parseInt(count, 10));
+    }
+
+    return { playedRanks, racesInWindow };
+  }
+
+  private toCompetitorOdd(step: OddsCalculationStep): CompetitorOdd {
+    return {
+      competitorId: step.competitorId,
+      competitorName: step.competitorName,
+      oddFirst: step.oddFirst,
+      oddSecond: step.oddSecond,
+      oddThird: step.oddThird,
+      probability: step.normalizedProbability,
+      isEligible: step.isEligible,
+      metadata: {
+        elo: step.conservativeScore,
+        rd: step.rd,
+        recentWins: step.recentRaceCount,
+        winStreak: step.winStreak,
+        raceCount: step.recentRaceCount,
+        avgRank: step.avgRecentRank,
+        formFactor: 1.0,
+        probability: step.normalizedProbability,
+        mu: step.mu,
+        phi: step.phi,
+        plStrength: step.plStrength,
+      },
+    };
+  }
+
   /**
    * Save calculated odds to database
    */
   private async saveOddsToDatabase(
     bettingWeekId: string,
     odds: CompetitorOdd[],
+    raceId: string | null,
   ): Promise<void> {
     const now = new Date();
 
@@ -415,6 +855,7 @@ export class OddsCalculatorService {
         oddSecond: odd.oddSecond,
         oddThird: odd.oddThird,
         calculatedAt: now,
+        raceId,
         metadata: odd.metadata,
       }),
     );
@@ -424,6 +865,36 @@ export class OddsCalculatorService {
     this.logger.log(`Saved ${oddsEntities.length} odds to database`);
   }
 
+  /**
+   * Save calculated market odds to database
+   */
+  private async saveMarketOddsToDatabase(
+    bettingWeekId: string,
+    marketOdds: MarketOdd[],
+    raceId: string | null,
+  ): Promise<void> {
+    const now = new Date();
+
+    const entities = marketOdds.map((odd) =>
+      this.marketOddsRepository.create({
+        bettingWeekId,
+        marketType: odd.marketType,
+        competitorId: odd.competitorId,
+        opponentId: odd.opponentId,
+        line: odd.line,
+        side: odd.side,
+        probability: odd.probability,
+        odd: odd.odd,
+        calculatedAt: now,
+        raceId,
+      }),
+    );
+
+    await this.marketOddsRepository.save(entities);
+
+    this.logger.log(`Saved ${entities.length} market odds to database`);
+  }
+
   /**
    * Calculate average odd (for logging)
    */
@@ -457,6 +928,106 @@ export class OddsCalculatorService {
     }));
   }
 
+  /**
+   * Get the market odds of the latest recalculation of a week
+   */
+  async getLatestMarketOddsForWeek(weekId: string): Promise<MarketOdd[]> {
+    const latest = await this.marketOddsRepository.findOne({
+      where: { bettingWeekId: weekId },
+      order: { calculatedAt: 'DESC' },
+    });
+    if (!latest) return [];
+
+    const entities = await this.marketOddsRepository.find({
+      where: { bettingWeekId: weekId, calculatedAt: latest.calculatedAt },
+      relations: ['competitor'],
+    });
+
+    return entities.map((entity) => ({
+      marketType: entity.marketType,
+      competitorId: entity.competitorId,
+      competitorName: `${entity.competitor.firstName} ${entity.competitor.lastName}`,
+      opponentId: entity.opponentId,
+      line: entity.line,
+      side: entity.side,
+      probability: entity.probability,
+      odd: entity.odd,
+    }));
+  }
+
+  /**
+   * Line movement of each competitor's odds over a week: one point per
+   * recalculation that changed one of their odds, oldest first
+   */
+  async getOddsHistoryForWeek(
+    weekId: string,
+  ): Promise<CompetitorOddsHistory[]> {
+    const series = await this.fetchOddsSeries(weekId);
+
+    return series.map(({ competitorId, competitorName, points }) => ({
+      competitorId,
+      competitorName,
+      points: points.filter(
+        (point, i) =>
+          i === 0 ||
+          point.oddFirst !== points[i - 1].oddFirst ||
+          point.oddSecond !== points[i - 1].oddSecond ||
+          point.oddThird !== points[i - 1].oddThird,
+      ),
+    }));
+  }
+
+  /**
+   * Opening (first) and closing (latest) odds of each competitor in a week
+   */
+  async getOpeningClosingOdds(
+    weekId: string,
+  ): Promise<CompetitorOddsMovement[]> {
+    const series = await this.fetchOddsSeries(weekId);
+
+    return series.map(({ competitorId, competitorName, points }) => ({
+      competitorId,
+      competitorName,
+      opening: points[0],
+      closing: points[points.length - 1],
+    }));
+  }
+
+  /**
+   * Every odds row of a week, grouped by competitor (oldest first)
+   */
+  private async fetchOddsSeries(
+    weekId: string,
+  ): Promise<CompetitorOddsHistory[]> {
+    const oddsEntities = await this.competitorOddsRepository.find({
+      where: { bettingWeekId: weekId },
+      relations: ['competitor'],
+      order: { calculatedAt: 'ASC' },
+    });
+
+    const series = new Map<string, CompetitorOddsHistory>();
+    for (const entity of oddsEntities) {
+      let history = series.get(entity.competitorId);
+      if (!history) {
+        history = {
+          competitorId: entity.competitorId,
+          competitorName: `${entity.competitor.firstName} ${entity.competitor.lastName}`,
+          points: [],
+        };
+        series.set(entity.competitorId, history);
+      }
+      history.points.push({
+        calculatedAt: entity.calculatedAt,
+        raceId: entity.raceId,
+        oddFirst: entity.oddFirst,
+        oddSecond: entity.oddSecond,
+        oddThird: entity.oddThird,
+      });
+    }
+
+    return [...series.values()];
+  }
+
   /**
    * Get eligible competitors for a betting week
    *
@@ -493,7 +1064,8 @@ export class OddsCalculatorService {
       throw new Error(`Betting week ${weekId} not found`);
     }
 
-    const competitorsWithStats = await this.fetchCompetitorsWithStats();
+    const params = await this.rulesetService.getParamsForWeek(week);
+    const competitorsWithStats = await this.fetchCompetitorsWithStats(params);
 
     const competitors = competitorsWithStats.map((c) => ({
       id: c.competitor.id,
@@ -518,9 +1090,9 @@ export class OddsCalculatorService {
       eligibleCount,
       totalCount: competitors.length,
       eligibilityRules: {
-        minLifetimeRaces: ELIGIBILITY_RULES.MIN_LIFETIME_RACES,
-        minRecentRaces: ELIGIBILITY_RULES.MIN_RECENT_RACES,
-        recentWindowDays: ELIGIBILITY_RULES.RECENT_WINDOW_DAYS,
+        minLifetimeRaces: params.eligibility.MIN_LIFETIME_RACES,
+        minRecentRaces: params.eligibility.MIN_RECENT_RACES,
+        recentWindowDays: params.eligibility.RECENT_WINDOW_DAYS,
       },
       competitors,
     };
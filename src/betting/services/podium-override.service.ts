@@ -0,0 +1,342 @@
+/**
+ * PodiumOverrideService
+ *
+ * Contested-result workflow for the automatic podium of a week (see
+ * PODIUM_OVERRIDE_CONFIG):
+ * 1. An admin proposes a podium with a reason, the bettors of the week
+ *    are notified ('podium.override_proposed')
+ * 2. Bettors of the week can object until the objection deadline
+ * 3. Without objection, the override applies at the deadline (cron);
+ *    an objected override waits for an admin to apply or reject it
+ *
+ * Applying re-finalizes the week with the podium (rollback then
+ * finalization, see BettingFinalizerService.refinalizeWeek) and records
+ * the reason on the week, next to its automatic podium.
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { In, LessThanOrEqual, Repository } from 'typeorm';
+import {
+  PodiumOverride,
+  PodiumOverrideStatus,
+} from '../entities/podium-override.entity';
+import { PodiumOverrideObjection } from '../entities/podium-override-objection.entity';
+import { BettingWeek } from '../entities/betting-week.entity';
+import { Bet } from '../entities/bet.entity';
+import { MarketBet } from '../entities/market-bet.entity';
+import { Competitor } from '../../competitors/competitor.entity';
+import { BettingFinalizerService } from './betting-finalizer.service';
+import {
+  ObjectPodiumOverrideDto,
+  ProposePodiumOverrideDto,
+} from '../dto/podium-override.dto';
+import { PODIUM_OVERRIDE_CONFIG } from '../config/podium-override.config';
+import {
+  getProposalError,
+  isObjectionWindowOpen,
+  isOverrideDue,
+  isOverrideInProgress,
+  toOverrideReason,
+} from '../utils/podium-override-utils';
+
+@Injectable()
+export class PodiumOverrideService {
+  private readonly logger = new Logger(PodiumOverrideService.name);
+
+  constructor(
+    @InjectRepository(PodiumOverride)
+    private readonly overrideRepository: Repository<PodiumOverride>,
+    @InjectRepository(PodiumOverrideObjection)
+    private readonly objectionRepository: Repository<PodiumOverrideObjection>,
+    @InjectRepository(BettingWeek)
+    private readonly bettingWeekRepository: Repository<BettingWeek>,
+    @InjectRepository(Bet)
+    private readonly betRepository: Repository<Bet>,
+    @InjectRepository(MarketBet)
+    private readonly marketBetRepository: Repository<MarketBet>,
+    @InjectRepository(Competitor)
+    private readonly competitorRepository: Repository<Competitor>,
+    private readonly bettingFinalizerService: BettingFinalizerService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Propose a podium for a finalized week and notify its bettors
+   *
+   * @throws BadRequestException on an invalid podium or reason, or a
+   * week not finalized
+   * @throws ConflictException if an override of the week is in progress
+   */
+  async proposeOverride(
+    userId: string,
+    weekId: string,
+    dto: ProposePodiumOverrideDto,
+  ): Promise<PodiumOverride> {
+    const week = await this.findWeek(weekId);
+    const reason = this.toReason(dto?.reason);
+    const podium = [dto.podiumFirstId, dto.podiumSecondId, dto.podiumThirdId];
+    const previousPodium = week.podiumFirstId
+      ? [week.podiumFirstId, week.podiumSecondId, week.podiumThirdId]
+      : null;
+    const proposalError = getProposalError(week.status, podium, previousPodium);
+    if (proposalError) {
+      throw new BadRequestException(proposalError);
+    }
+
+    const found = await this.competitorRepository.count({
+      where: { id: In(podium) },
+    });
+    if (found !== 3) {
+      throw new BadRequestException('Podium competitors not found');
+    }
+
+    const inProgress = await this.overrideRepository.exists({
+      where: {
+        bettingWeekId: weekId,
+        status: In([
+          PodiumOverrideStatus.PENDING,
+          PodiumOverrideStatus.CONTESTED,
+        ]),
+      },
+    });
+    if (inProgress) {
+      throw new ConflictException(
+        'A podium override of this week is already in progress',
+      );
+    }
+
+    const objectionDeadline = new Date(
+      Date.now() + PODIUM_OVERRIDE_CONFIG.OBJECTION_WINDOW_HOURS * 3600 * 1000,
+    );
+    const override = await this.overrideRepository.save(
+      this.overrideRepository.create({
+        bettingWeekId: weekId,
+        proposedById: userId,
+        podiumFirstId: podium[0],
+        podiumSecondId: podium[1],
+        podiumThirdId: podium[2],
+        previousPodium,
+        reason,
+        status: PodiumOverrideStatus.PENDING,
+        objectionDeadline,
+        resolvedAt: null,
+      }),
+    );
+
+    this.eventEmitter.emit('podium.override_proposed', {
+      overrideId: override.id,
+      weekNumber: week.weekNumber,
+      year: week.year,
+      reason,
+      objectionDeadline,
+      userIds: await this.getWeekBettorIds(weekId),
+    });
+
+    this.logger.log(
+      `Podium override ${override.id} proposed for week ${weekId} (${reason})`,
+    );
+    return override;
+  }
+
+  /**
+   * Object to a podium override (bettors of the week, once, before the
+   * deadline). The override then waits for an admin decision.
+   */
+  async objectToOverride(
+    userId: string,
+    overrideId: string,
+    dto: ObjectPodiumOverrideDto,
+  ): Promise<PodiumOverrideObjection> {
+    const override = await this.findOverride(overrideId);
+    if (!isObjectionWindowOpen(override, new Date())) {
+      throw new BadRequestException('The objection window is closed');
+    }
+
+    const bettorIds = await this.getWeekBettorIds(override.bettingWeekId);
+    if (!bettorIds.includes(userId)) {
+      throw new ForbiddenException('Only bettors of the week can object');
+    }
+
+    const existing = await this.objectionRepository.exists({
+      where: { podiumOverrideId: overrideId, userId },
+    });
+    if (existing) {
+      throw new ConflictException('You already objected to this override');
+    }
+
+    const objection = await this.objectionRepository.save(
+      this.objectionRepository.create({
+        podiumOverrideId: overrideId,
+        userId,
+        reason: this.toReason(dto?.reason),
+      }),
+    );
+    if (override.status === PodiumOverrideStatus.PENDING) {
+      await this.overrideRepository.update(overrideId, {
+        status: PodiumOverrideStatus.CONTESTED,
+      });
+    }
+
+    this.logger.log(`Podium override ${overrideId} contested by ${userId}`);
+    return objection;
+  }
+
+  /**
+   * Podium overrides of a week with their objections, latest first
+   */
+  async getWeekOverrides(weekId: string): Promise<PodiumOverride[]> {
+    await this.findWeek(weekId);
+    return await this.overrideRepository.find({
+      where: { bettingWeekId: weekId },
+      relations: ['objections'],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Apply an override once its objection window is over (admin decision
+   * on a contested override)
+   */
+  async applyOverride(overrideId: string): Promise<PodiumOverride> {
+    const override = await this.findOverride(overrideId);
+    this.assertInProgress(override);
+    if (isObjectionWindowOpen(override, new Date())) {
+      throw new BadRequestException('The objection window is still open');
+    }
+    return await this.apply(override);
+  }
+
+  /**
+   * Drop an override, the podium of the week stays as is
+   */
+  async rejectOverride(overrideId: string): Promise<PodiumOverride> {
+    const override = await this.findOverride(overrideId);
+    this.assertInProgress(override);
+
+    override.status = PodiumOverrideStatus.REJECTED;
+    override.resolvedAt = new Date();
+    this.logger.log(`Podium override ${overrideId} rejected`);
+    return await this.overrideRepository.save(override);
+  }
+
+  /**
+   * Apply the uncontested overrides whose objection window is over
+   *
+   * Each override is read again before applying: an objection may have
+   * come in while the previous weeks were re-finalized.
+   *
+   * @returns Number of applied overrides
+   */
+  async applyDueOverrides(): Promise<number> {
+    const due = await this.overrideRepository.find({
+      where: {
+        status: PodiumOverrideStatus.PENDING,
+        objectionDeadline: LessThanOrEqual(new Date()),
+      },
+    });
+
+    let applied = 0;
+    for (const { id } of due) {
+      try {
+        const override = await this.findOverride(id);
+        if (!isOverrideDue(override, new Date())) continue;
+        await this.apply(override);
+        applied++;
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error';
+        this.logger.error(
+          `Failed to apply podium override ${id}: ${errorMessage}`,
+        );
+      }
+    }
+    return applied;
+  }
+
+  private async apply(override: PodiumOverride): Promise<PodiumOverride> {
+    await this.bettingFinalizerService.refinalizeWeek(override.bettingWeekId, {
+      firstId: override.podiumFirstId,
+      secondId: override.podiumSecondId,
+      thirdId: override.podiumThirdId,
+    });
+
+    const resolvedAt = new Date();
+    await this.bettingWeekRepository.update(override.bettingWeekId, {
+      podiumOverrideReason: override.reason,
+      podiumOverriddenAt: resolvedAt,
+    });
+
+    override.status = PodiumOverrideStatus.APPLIED;
+    override.resolvedAt = resolvedAt;
+    this.logger.log(
+      `Podium override ${override.id} applied to week ${override.bettingWeekId}`,
+    );
+    return await this.overrideRepository.save(override);
+  }
+
+  private assertInProgress(override: PodiumOverride): void {
+    if (!isOverrideInProgress(override)) {
+      throw new BadRequestException(
+        `Podium override ${override.id} is already ${override.status}`,
+      );
+    }
+  }
+
+  /**
+   * Users with a podium or market bet on the week
+   */
+  private async getWeekBettorIds(weekId: string): Promise<string[]> {
+    const [bets, marketBets] = await Promise.all([
+      this.betRepository.find({
+        where: { bettingWeekId: weekId },
+        select: ['userId'],
+      }),
+      this.marketBetRepository.find({
+        where: { bettingWeekId: weekId },
+        select: ['userId'],
+      }),
+    ]);
+    return [...new Set([...bets, ...marketBets].map((b) => b.userId))];
+  }
+
+  private toReason(reason: string | undefined): string {
+    const trimmed = toOverrideReason(reason);
+    if (!trimmed) {
+      throw new BadRequestException(
+        `Reason must be 1-${PODIUM_OVERRIDE_CONFIG.MAX_REASON_LENGTH} characters`,
+      );
+    }
+    return trimmed;
+  }
+
+  private async findWeek(weekId: string): Promise<BettingWeek> {
+    const week = await this.bettingWeekRepository.findOne({
+      where: { id: weekId },
+    });
+    if (!week) {
+      throw new NotFoundException(`Betting week with ID ${weekId} not found`);
+    }
+    return week;
+  }
+
+  private async findOverride(overrideId: string): Promise<PodiumOverride> {
+    const override = await this.overrideRepository.findOne({
+      where: { id: overrideId },
+    });
+    if (!override) {
+      throw new NotFoundException(
+        `Podium override with ID ${overrideId} not found`,
+      );
+    }
+    return override;
+  }
+}
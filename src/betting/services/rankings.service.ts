@@ -23,11 +23,14 @@ export class RankingsService {
    *
    * @param seasonNumber - Season (1-13), optional. Also accepts month (1-12) for backward compat.
    * @param year - Year (e.g., 2024), optional
+   * @param memberIds - Members of a private league: only them, ranked
+   *   among themselves
    * @returns List of bettor rankings
    */
   async getMonthlyRankings(
     seasonNumber?: number,
     year?: number,
+    memberIds?: string[],
   ): Promise<{
     month?: number;
     seasonNumber?: number;
@@ -71,6 +74,21 @@ export class RankingsService {
       queryBuilder.andWhere('ranking.year = :year', { year });
     }
 
+    if (memberIds) {
+      if (memberIds.length === 0) {
+        return {
+          month: seasonNumber,
+          seasonNumber,
+          year,
+          count: 0,
+          rankings: [],
+        };
+      }
+      queryBuilder.andWhere('ranking.userId IN (:...memberIds)', {
+        memberIds,
+      });
+    }
+
     // Order by rank (ASC) and total points (DESC)
     queryBuilder
       .orderBy('ranking.rank', 'ASC', 'NULLS LAST')
@@ -113,6 +131,19 @@ export class RankingsService {
       previousWeekRank: r.previousWeekRank ?? null,
     }));
 
+    // League: rank among the members (the weekly snapshot is a global rank)
+    if (memberIds) {
+      formattedRankings.sort((a, b) => b.totalPoints - a.totalPoints);
+      formattedRankings.forEach((ranking, index) => {
+        ranking.rank =
+          index > 0 &&
+          ranking.totalPoints === formattedRankings[index - 1].totalPoints
+            ? formattedRankings[index - 1].rank
+            : index + 1;
+        ranking.previousWeekRank = null;
+      });
+    }
+
     this.logger.log(
       `Found ${formattedRankings.length} bettor rankings${seasonNumber ? ` for season ${seasonNumber}/${year}` : ''}`,
     );
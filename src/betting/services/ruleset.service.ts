@@ -0,0 +1,254 @@
+/**
+ * RulesetService
+ *
+ * Season-versioned betting rules (scoring, odds, eligibility, Monte
+ * Carlo). A ruleset applies from its season until the next ruleset; each
+ * week is attached to the ruleset of its season when created and always
+ * calculated and scored with it, even after new rules came in.
+ *
+ * Admins draft the rules of the next season; the draft locks when the
+ * first week of that season is created.
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThanOrEqual, Repository } from 'typeorm';
+import { getISOWeek } from 'date-fns';
+import {
+  BettingRuleset,
+  RulesetParams,
+} from '../entities/betting-ruleset.entity';
+import { BettingWeek } from '../entities/betting-week.entity';
+import { DEFAULT_RULESET_PARAMS } from '../config/ruleset.config';
+import { DraftRulesetDto } from '../dto/draft-ruleset.dto';
+import { SeasonUtils } from '../utils/season-utils';
+
+@Injectable()
+export class RulesetService {
+  private readonly logger = new Logger(RulesetService.name);
+
+  /** Params of locked rulesets, which never change */
+  private readonly lockedParams = new Map<string, RulesetParams>();
+
+  constructor(
+    @InjectRepository(BettingRuleset)
+    private readonly rulesetRepository: Repository<BettingRuleset>,
+  ) {}
+
+  /**
+   * Params a week was created under (config defaults for weeks without
+   * a ruleset)
+   */
+  async getParamsForWeek(
+    week: Pick<BettingWeek, 'rulesetId'>,
+  ): Promise<RulesetParams> {
+    if (!week.rulesetId) return DEFAULT_RULESET_PARAMS;
+
+    const cached = this.lockedParams.get(week.rulesetId);
+    if (cached) return cached;
+
+    const ruleset = await this.rulesetRepository.findOne({
+      where: { id: week.rulesetId },
+    });
+    if (!ruleset) return DEFAULT_RULESET_PARAMS;
+
+    const params = this.toParams(ruleset);
+    if (ruleset.lockedAt) this.lockedParams.set(ruleset.id, params);
+    return params;
+  }
+
+  /**
+   * Params of the current season, for calculations outside of a week
+   */
+  async getCurrentParams(): Promise<RulesetParams> {
+    const ruleset = await this.findForSeason(this.getCurrentSeasonNumber());
+    return ruleset ? this.toParams(ruleset) : DEFAULT_RULESET_PARAMS;
+  }
+
+  /**
+   * Ruleset a new week of the season is created under, locked from now on
+   *
+   * @returns null if no ruleset exists (the week uses the config defaults)
+   */
+  async assignRuleset(seasonNumber: number): Promise<BettingRuleset | null> {
+    const ruleset = await this.findForSeason(seasonNumber);
+    if (!ruleset) return null;
+
+    if (!ruleset.lockedAt) {
+      ruleset.lockedAt = new Date();
+      await this.rulesetRepository.save(ruleset);
+      this.logger.log(
+        `Ruleset v${ruleset.version} locked (season ${ruleset.seasonNumber})`,
+      );
+    }
+
+    return ruleset;
+  }
+
+  /**
+   * All rulesets, latest first
+   */
+  async findAll(): Promise<BettingRuleset[]> {
+    return await this.rulesetRepository.find({
+      order: { version: 'DESC' },
+    });
+  }
+
+  /**
+   * Ruleset of the current season
+   */
+  async getCurrentRuleset(): Promise<{
+    seasonNumber: number;
+    ruleset: BettingRuleset | null;
+    params: RulesetParams;
+  }> {
+    const seasonNumber = this.getCurrentSeasonNumber();
+    const ruleset = await this.findForSeason(seasonNumber);
+    return {
+      seasonNumber,
+      ruleset,
+      params: ruleset ? this.toParams(ruleset) : DEFAULT_RULESET_PARAMS,
+    };
+  }
+
+  /**
+   * Create or update the draft ruleset of the next season
+   *
+   * Fields left out keep their value: from the existing draft, otherwise
+   * from the current season's ruleset.
+   *
+   * @throws ConflictException if the next season's ruleset is locked
+   * @throws BadRequestException if the resulting params are inconsistent
+   */
+  async draftNextSeason(dto: DraftRulesetDto): Promise<BettingRuleset> {
+    const seasonNumber = this.getCurrentSeasonNumber() + 1;
+
+    let draft = await this.rulesetRepository.findOne({
+      where: { seasonNumber },
+    });
+    if (draft?.lockedAt) {
+      throw new ConflictException(
+        `Ruleset of season ${seasonNumber} is locked: weeks already use it`,
+      );
+    }
+
+    const base = draft
+      ? this.toParams(draft)
+      : (await this.getCurrentRuleset()).params;
+    const params: RulesetParams = {
+      scoring: this.merge(base.scoring, dto.scoring),
+      odds: this.merge(base.odds, dto.odds),
+      eligibility: this.merge(base.eligibility, dto.eligibility),
+      monteCarlo: this.merge(base.monteCarlo, dto.monteCarlo),
+    };
+    this.assertValidParams(params);
+
+    if (!draft) {
+      const latest = await this.rulesetRepository.findOne({
+        where: {},
+        order: { version: 'DESC' },
+      });
+      if (latest && latest.seasonNumber > seasonNumber) {
+        throw new ConflictException(
+          `A ruleset already exists for season ${latest.seasonNumber}`,
+        );
+      }
+      draft = this.rulesetRepository.create({
+        version: (latest?.version ?? 0) + 1,
+        seasonNumber,
+        lockedAt: null,
+      });
+    }
+    Object.assign(draft, params);
+
+    const saved = await this.rulesetRepository.save(draft);
+    this.logger.log(
+      `Ruleset v${saved.version} drafted for season ${seasonNumber}`,
+    );
+    return saved;
+  }
+
+  private async findForSeason(
+    seasonNumber: number,
+  ): Promise<BettingRuleset | null> {
+    return await this.rulesetRepository.findOne({
+      where: { seasonNumber: LessThanOrEqual(seasonNumber) },
+      order: { seasonNumber: 'DESC' },
+    });
+  }
+
+  private getCurrentSeasonNumber(): number {
+    const now = new Date();
+    return SeasonUtils.getSeasonNumber(getISOWeek(now), now.getFullYear());
+  }
+
+  private toParams(ruleset: BettingRuleset): RulesetParams {
+    return {
+      scoring: ruleset.scoring,
+      odds: ruleset.odds,
+      eligibility: ruleset.eligibility,
+      monteCarlo: ruleset.monteCarlo,
+    };
+  }
+
+  /**
+   * Known fields of a params group, overridden where the update has a
+   * value of the same type
+   *
+   * @throws BadRequestException on a value of another type
+   */
+  private merge<T extends object>(base: T, update?: Partial<T>): T {
+    const merged = { ...base };
+    for (const key of Object.keys(base) as Array<keyof T>) {
+      const value = update?.[key];
+      if (value === undefined) continue;
+      if (typeof value !== typeof base[key]) {
+        throw new BadRequestException(
+          `${String(key)} must be a ${typeof base[key]}`,
+        );
+      }
+      merged[key] = value;
+    }
+    return merged;
+  }
+
+  private assertValidParams(params: RulesetParams): void {
+    const { scoring, odds, eligibility, monteCarlo } = params;
+    const errors: string[] = [];
+
+    if (odds.minOdd < 1 || odds.minOdd >= odds.maxOdd) {
+      errors.push('odds: 1 <= minOdd < maxOdd required');
+    }
+    if (!Number.isInteger(odds.recentRacesCount) || odds.recentRacesCount < 1) {
+      errors.push('odds: recentRacesCount must be a positive integer');
+    }
+    if (scoring.boostMultiplier < 1 || scoring.perfectPodiumBonus < 1) {
+      errors.push('scoring: multipliers must be at least 1');
+    }
+    if (
+      scoring.minPointsPerCorrectPick < 0 ||
+      scoring.incorrectPickPoints < 0
+    ) {
+      errors.push('scoring: points must not be negative');
+    }
+    if (
+      eligibility.MIN_LIFETIME_RACES < 0 ||
+      eligibility.MIN_RECENT_RACES < 0 ||
+      eligibility.RECENT_WINDOW_DAYS < 1
+    ) {
+      errors.push('eligibility: invalid thresholds');
+    }
+    if (monteCarlo.NUM_SIMULATIONS < 1000 || monteCarlo.GLICKO_SCALE <= 0) {
+      errors.push('monteCarlo: invalid simulation settings');
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException(errors.join('; '));
+    }
+  }
+}
@@ -16,13 +16,21 @@
 
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, LessThanOrEqual, MoreThanOrEqual } from 'typeorm';
+import {
+  EntityManager,
+  Repository,
+  LessThanOrEqual,
+  MoreThanOrEqual,
+} from 'typeorm';
 import {
   BettingWeek,
   BettingWeekStatus,
 } from '../entities/betting-week.entity';
 import { OddsCalculatorService } from './odds-calculator.service';
+import { RulesetService } from './ruleset.service';
+import { AccumulatorService } from './accumulator.service';
 import { SeasonUtils } from '../utils/season-utils';
+import { ACCUMULATORS_CONFIG } from '../config/accumulators.config';
 
 /**
  * Week calculation utilities
@@ -70,6 +78,27 @@ export class WeekUtils {
     const monday = this.getMondayOfWeek(year, week);
     return monday.getMonth() + 1; // getMonth() returns 0-11
   }
+
+  /**
+   * Get the year and number of the weeks following a given week
+   */
+  static getFollowingWeeks(
+    year: number,
+    week: number,
+    count: number,
+  ): Array<{ year: number; weekNumber: number }> {
+    const monday = this.getMondayOfWeek(year, week);
+    return Array.from({ length: count }, (_, i) => {
+      // Thursday decides the ISO year of a week
+      const thursday = new Date(
+        monday.getTime() + ((i + 1) * 7 + 3) * 86400000,
+      );
+      return {
+        year: thursday.getFullYear(),
+        weekNumber: this.getISOWeek(thursday),
+      };
+    });
+  }
 }
 
 @Injectable()
@@ -80,6 +109,8 @@ export class WeekManagerService {
     @InjectRepository(BettingWeek)
     private readonly bettingWeekRepository: Repository<BettingWeek>,
     private readonly oddsCalculatorService: OddsCalculatorService,
+    private readonly rulesetService: RulesetService,
+    private readonly accumulatorService: AccumulatorService,
   ) {}
 
   /**
@@ -91,6 +122,9 @@ export class WeekManagerService {
    * If it's the first week of the 4-week season, the week is created in
    * CALIBRATION status (betting blocked for ELO stabilization).
    *
+   * A week created ahead of time (UPCOMING) is opened. The following weeks
+   * of the season are then created ahead (see createUpcomingWeeks).
+   *
    * @returns The created or existing week
    */
   async createCurrentWeek(): Promise<BettingWeek> {
@@ -109,7 +143,15 @@ export class WeekManagerService {
     });
 
     if (existing) {
-      this.logger.log(`Week ${year}-W${weekNumber} already exists`);
+      if (existing.status === BettingWeekStatus.UPCOMING) {
+        existing.status = BettingWeekStatus.OPEN;
+        await this.bettingWeekRepository.save(existing);
+        this.logger.log(`Opened upcoming week ${year}-W${weekNumber}`);
+        await this.calculateInitialOdds(existing.id);
+      } else {
+        this.logger.log(`Week ${year}-W${weekNumber} already exists`);
+      }
+      await this.createUpcomingWeeks(existing);
       return existing;
     }
 
@@ -150,6 +192,8 @@ export class WeekManagerService {
           where: { seasonNumber, year, isCalibrationWeek: false },
         })) + 1;
 
+    const ruleset = await this.rulesetService.assignRuleset(seasonNumber);
+
     const week = this.bettingWeekRepository.create({
       weekNumber,
       year,
@@ -160,6 +204,7 @@ export class WeekManagerService {
       status,
       isCalibrationWeek,
       seasonWeekNumber,
+      rulesetId: ruleset?.id ?? null,
     });
 
     const savedWeek = await this.bettingWeekRepository.save(week);
@@ -176,10 +221,68 @@ export class WeekManagerService {
 
     // Calculate initial odds - await to ensure they're computed before week is used
     await this.calculateInitialOdds(savedWeek.id);
+    await this.createUpcomingWeeks(savedWeek);
 
     return savedWeek;
   }
 
+  /**
+   * Create the following weeks of the season ahead of time, in UPCOMING
+   * status with their initial odds, so that accumulators can chain them
+   *
+   * An upcoming week takes no regular bet and opens on its Monday (see
+   * createCurrentWeek). The next season is left out: its first week is a
+   * calibration week and its ruleset may still change.
+   */
+  private async createUpcomingWeeks(current: BettingWeek): Promise<void> {
+    const following = WeekUtils.getFollowingWeeks(
+      current.year,
+      current.weekNumber,
+      ACCUMULATORS_CONFIG.UPCOMING_WEEKS,
+    );
+
+    try {
+      for (const [index, { year, weekNumber }] of following.entries()) {
+        if (
+          SeasonUtils.getSeasonNumber(weekNumber, year) !== current.seasonNumber
+        ) {
+          break;
+        }
+        if (
+          await this.bettingWeekRepository.exists({
+            where: { year, weekNumber },
+          })
+        ) {
+          continue;
+        }
+
+        const week = await this.bettingWeekRepository.save(
+          this.bettingWeekRepository.create({
+            weekNumber,
+            year,
+            month: WeekUtils.getWeekMonth(year, weekNumber),
+            seasonNumber: current.seasonNumber,
+            startDate: WeekUtils.getMondayOfWeek(year, weekNumber),
+            endDate: WeekUtils.getSundayOfWeek(year, weekNumber),
+            status: BettingWeekStatus.UPCOMING,
+            isCalibrationWeek: false,
+            seasonWeekNumber: current.seasonWeekNumber + index + 1,
+            rulesetId: current.rulesetId,
+          }),
+        );
+        this.logger.log(`Created upcoming week ${year}-W${weekNumber}`);
+
+        await this.calculateInitialOdds(week.id);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to create the weeks following ${current.year}-W${current.weekNumber}`,
+        error.stack,
+      );
+      // Don't throw - the current week is usable, the next run retries
+    }
+  }
+
   /**
    * Calculate initial odds for a new week
    *
@@ -288,12 +391,17 @@ export class WeekManagerService {
    *
    * @param weekId - The week to finalize
    * @param podiumIds - The final podium [first, second, third]
+   * @param standings - Full final standing, podium first (market bets)
+   * @param em - Entity manager of an outer transaction (optional)
    */
   async finalizeWeek(
     weekId: string,
     podiumIds: [string, string, string],
+    standings?: string[],
+    em?: EntityManager,
   ): Promise<void> {
-    const week = await this.getWeekById(weekId);
+    const manager = em ?? this.bettingWeekRepository.manager;
+    const week = await manager.findOne(BettingWeek, { where: { id: weekId } });
 
     if (!week) {
       throw new Error(`Week ${weekId} not found`);
@@ -308,10 +416,11 @@ export class WeekManagerService {
     week.podiumFirstId = podiumIds[0];
     week.podiumSecondId = podiumIds[1];
     week.podiumThirdId = podiumIds[2];
+    week.finalStandings = standings ?? null;
     week.status = BettingWeekStatus.FINALIZED;
     week.finalizedAt = new Date();
 
-    await this.bettingWeekRepository.save(week);
+    await manager.save(week);
 
     this.logger.log(
       `Week ${weekId} finalized with podium: ${podiumIds.join(', ')}`,
@@ -320,7 +429,8 @@ export class WeekManagerService {
 
   /**
    * Cancel a week when no podium can be determined.
-   * Marks all bets as finalized with 0 points so they don't stay stuck in pending.
+   * Marks all bets (market bets included) as finalized with 0 points so they don't stay stuck in pending.
+   * Accumulator legs on the week are voided.
    */
   async cancelWeek(weekId: string): Promise<void> {
     const week = await this.getWeekById(weekId);
@@ -345,6 +455,19 @@ export class WeekManagerService {
       .where('"bettingWeekId" = :weekId AND "isFinalized" = false', { weekId })
       .execute();
 
+    await this.bettingWeekRepository.manager
+      .createQueryBuilder()
+      .update('market_bets')
+      .set({
+        isFinalized: true,
+        pointsEarned: 0,
+        status: 'cancelled',
+      })
+      .where('"bettingWeekId" = :weekId AND "isFinalized" = false', { weekId })
+      .execute();
+
+    await this.accumulatorService.voidWeekLegs(weekId);
+
     this.logger.log(`Week ${weekId} cancelled — all pending bets set to 0 points`);
   }
 
@@ -6,6 +6,7 @@
  */
 
 import { Competitor } from '../../competitors/competitor.entity';
+import { MarketSide, MarketType } from '../entities/market-odds.entity';
 
 /**
  * Reason why a competitor is not eligible for betting
@@ -122,6 +123,67 @@ export interface OddMetadata {
   plStrength?: number;
 }
 
+/**
+ * Odds of a competitor at one recalculation
+ */
+export interface OddsHistoryPoint {
+  calculatedAt: Date;
+  raceId: string | null; // Race that triggered the recalculation (null: manual / scheduled)
+  oddFirst: number;
+  oddSecond: number;
+  oddThird: number;
+}
+
+/**
+ * Line movement of a competitor's odds over a betting week
+ */
+export interface CompetitorOddsHistory {
+  competitorId: string;
+  competitorName: string;
+  points: OddsHistoryPoint[]; // Oldest first, only recalculations that changed an odd
+}
+
+/**
+ * First and last odds of a competitor in a betting week (the closing
+ * odds are the final odds of Best Odds Guaranteed)
+ */
+export interface CompetitorOddsMovement {
+  competitorId: string;
+  competitorName: string;
+  opening: OddsHistoryPoint;
+  closing: OddsHistoryPoint;
+}
+
+/**
+ * Price of a weekly market selection (see MarketType)
+ */
+export interface MarketOdd {
+  marketType: MarketType;
+  competitorId: string;
+  competitorName: string;
+  opponentId: string | null; // Matchup opponent
+  line: number | null; // Over / under line
+  side: MarketSide | null; // Over / under side
+  probability: number;
+  odd: number;
+}
+
+/**
+ * Predicted finish of a competitor in an arbitrary lineup
+ */
+export interface LineupPrediction {
+  competitorId: string;
+  competitorName: string;
+  rating: number;
+  rd: number;
+  plStrength: number; // exp(mu * g(phi))
+  winProbability: number; // Softmax P_win
+  expectedPosition: number; // 1 = first (from Monte Carlo)
+  positionDistribution: number[]; // [P(1st), P(2nd), ...] one entry per lineup member
+  team?: string; // Team races only
+  teamWinProbability?: number; // P(own team wins), team races only
+}
+
 /**
  * Configuration parameters for odds calculation
  * Allows easy tuning without modifying core logic
@@ -131,3 +193,22 @@ export interface OddsCalculationParams {
   maxOdd: number; // Maximum odd value (default: 50)
   recentRacesCount: number; // Number of recent races to consider (default: 5)
 }
+
+/**
+ * Eligibility rules (see ELIGIBILITY_RULES)
+ */
+export interface EligibilityRules {
+  MIN_LIFETIME_RACES: number; // Calibration period (lifetime races)
+  MIN_RECENT_RACES: number; // Races required in the rolling window
+  RECENT_WINDOW_DAYS: number; // Rolling window in days
+}
+
+/**
+ * Monte Carlo simulation configuration (see MONTE_CARLO_CONFIG)
+ */
+export interface MonteCarloConfig {
+  NUM_SIMULATIONS: number;
+  GLICKO_SCALE: number;
+  INCORPORATE_RD: boolean;
+  PODIUM_SIZE: number;
+}
@@ -0,0 +1,60 @@
+/**
+ * Tests for the accumulator slips
+ *
+ * Focus on:
+ * - A slip settling only once every leg is settled
+ * - Void legs (cancelled weeks) left out of the combined odd
+ */
+
+import { AccumulatorLegStatus } from '../../entities/accumulator-leg.entity';
+import { ACCUMULATORS_CONFIG } from '../../config/accumulators.config';
+import { combineOdds, resolveAccumulator } from '../accumulator-utils';
+
+describe('accumulator-utils', () => {
+  const leg = (oddAtBet: number, status: AccumulatorLegStatus) => ({
+    oddAtBet,
+    status,
+  });
+
+  it('should multiply the leg odds, capped', () => {
+    expect(combineOdds([2.5, 3])).toBe(7.5);
+    expect(combineOdds([20, 20])).toBe(ACCUMULATORS_CONFIG.MAX_COMBINED_ODD);
+  });
+
+  it('should stay pending while a leg is pending, even after a loss', () => {
+    expect(
+      resolveAccumulator([
+        leg(2, AccumulatorLegStatus.LOST),
+        leg(3, AccumulatorLegStatus.PENDING),
+      ]),
+    ).toEqual({ outcome: 'pending', points: 0 });
+  });
+
+  it('should be lost if any leg lost', () => {
+    expect(
+      resolveAccumulator([
+        leg(2, AccumulatorLegStatus.WON),
+        leg(3, AccumulatorLegStatus.LOST),
+      ]),
+    ).toEqual({ outcome: 'lost', points: 0 });
+  });
+
+  it('should pay the combined odd of the non-void legs', () => {
+    expect(
+      resolveAccumulator([
+        leg(2, AccumulatorLegStatus.WON),
+        leg(3, AccumulatorLegStatus.VOID),
+        leg(1.5, AccumulatorLegStatus.WON),
+      ]),
+    ).toEqual({ outcome: 'won', points: 3 });
+  });
+
+  it('should be void if every leg is void', () => {
+    expect(
+      resolveAccumulator([
+        leg(2, AccumulatorLegStatus.VOID),
+        leg(3, AccumulatorLegStatus.VOID),
+      ]),
+    ).toEqual({ outcome: 'void', points: 0 });
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Tests for the daily round standings
+ *
+ * Focus on:
+ * - Races won first, average rank breaking ties
+ * - Average rank only for competitors with enough races
+ */
+
+import { DailyRankingMethod } from '../../entities/daily-round.entity';
+import { rankDailyStandings } from '../daily-utils';
+
+describe('daily-utils', () => {
+  const result = (competitorId: string, rank12: number) => ({
+    competitorId,
+    rank12,
+  });
+
+  const results = [
+    result('a', 1),
+    result('a', 5),
+    result('b', 1),
+    result('b', 2),
+    result('c', 2),
+    result('c', 2),
+    result('c', 3),
+    result('d', 1),
+  ];
+
+  it('should rank by races won, then average rank', () => {
+    const standings = rankDailyStandings(
+      results,
+      DailyRankingMethod.RACES_WON,
+      2,
+    );
+
+    expect(standings.map((s) => s.competitorId)).toEqual(['d', 'b', 'a', 'c']);
+    expect(standings[1]).toEqual({
+      competitorId: 'b',
+      raceCount: 2,
+      racesWon: 1,
+      avgRank: 1.5,
+    });
+  });
+
+  it('should rank by average rank among competitors with enough races', () => {
+    const standings = rankDailyStandings(
+      results,
+      DailyRankingMethod.AVG_RANK,
+      2,
+    );
+
+    expect(standings.map((s) => s.competitorId)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('should return no standings without races', () => {
+    expect(rankDailyStandings([], DailyRankingMethod.RACES_WON, 2)).toEqual([]);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Tests for the weekly markets helpers
+ *
+ * Focus on:
+ * - Over / under lines and probabilities
+ * - Settlement of each market, pushes included
+ * - Malformed requests and bets a user can't hold together
+ * - Weeks without fixed odds
+ */
+
+import { MarketSide, MarketType } from '../../entities/market-odds.entity';
+import {
+  BettingWeekScoringMode,
+  BettingWeekStatus,
+} from '../../entities/betting-week.entity';
+import { MARKETS_CONFIG } from '../../config/odds-calculator.config';
+import {
+  getMarketBetConflict,
+  getMarketBetRequestError,
+  getMarketWeekError,
+  priceOverUnder,
+  resolveMarketBet,
+  samplePoisson,
+  simulateWeekActivity,
+  WeekActivity,
+} from '../market-utils';
+
+describe('market-utils', () => {
+  const standings = ['a', 'b', 'c', 'd'];
+  const activity = new Map<string, WeekActivity>([
+    ['a', { raceCount: 5, avgRank12: 2.5 }],
+    ['b', { raceCount: 3, avgRank12: 4 }],
+  ]);
+  const selection = (
+    marketType: MarketType,
+    competitorId: string,
+    extra: { opponentId?: string; line?: number; side?: MarketSide } = {},
+  ) => ({
+    marketType,
+    competitorId,
+    opponentId: extra.opponentId ?? null,
+    line: extra.line ?? null,
+    side: extra.side ?? null,
+  });
+
+  it('should never draw a race with a zero pace', () => {
+    expect(samplePoisson(0)).toBe(0);
+  });
+
+  it('should keep the races already run in the week', () => {
+    const { raceCounts, avgRanks } = simulateWeekActivity([2, 4], [], 3, 10);
+
+    expect(new Set(raceCounts)).toEqual(new Set([2]));
+    expect(new Set(avgRanks)).toEqual(new Set([3]));
+  });
+
+  it('should put race count lines on half points', () => {
+    const price = priceOverUnder([1, 2, 2, 3, 4], true);
+
+    expect(price).toEqual({ line: 2.5, pOver: 0.4, pUnder: 0.6 });
+  });
+
+  it('should exclude pushes from over / under probabilities', () => {
+    const price = priceOverUnder([2, 3, 3, 3, 5], false);
+
+    expect(price).toEqual({ line: 3, pOver: 0.5, pUnder: 0.5 });
+  });
+
+  it('should not price a line that one side can never win', () => {
+    expect(priceOverUnder([2, 2, 2], true)).toBeNull();
+    expect(priceOverUnder([], true)).toBeNull();
+  });
+
+  it('should settle podium markets on the final standing', () => {
+    const resolve = (s: ReturnType<typeof selection>) =>
+      resolveMarketBet(s, standings, activity);
+
+    expect(resolve(selection(MarketType.WINNER, 'a'))).toBe('won');
+    expect(resolve(selection(MarketType.WINNER, 'b'))).toBe('lost');
+    expect(resolve(selection(MarketType.TOP_THREE, 'c'))).toBe('won');
+    expect(resolve(selection(MarketType.TOP_THREE, 'd'))).toBe('lost');
+    expect(
+      resolve(selection(MarketType.MATCHUP, 'd', { opponentId: 'x' })),
+    ).toBe('won');
+    expect(
+      resolve(selection(MarketType.MATCHUP, 'x', { opponentId: 'y' })),
+    ).toBe('void');
+  });
+
+  it('should settle activity markets on the races of the week', () => {
+    const resolve = (s: ReturnType<typeof selection>) =>
+      resolveMarketBet(s, standings, activity);
+
+    expect(
+      resolve(
+        selection(MarketType.RACE_COUNT, 'a', {
+          line: 4.5,
+          side: MarketSide.OVER,
+        }),
+      ),
+    ).toBe('won');
+    expect(
+      resolve(
+        selection(MarketType.RACE_COUNT, 'c', {
+          line: 0.5,
+          side: MarketSide.UNDER,
+        }),
+      ),
+    ).toBe('won');
+    expect(
+      resolve(
+        selection(MarketType.AVG_RANK, 'b', { line: 4, side: MarketSide.OVER }),
+      ),
+    ).toBe('void');
+    expect(
+      resolve(
+        selection(MarketType.AVG_RANK, 'c', {
+          line: 4.5,
+          side: MarketSide.UNDER,
+        }),
+      ),
+    ).toBe('void');
+  });
+
+  it('should reject a request without a known market or a competitor', () => {
+    const request = {
+      marketType: MarketType.WINNER as unknown,
+      competitorId: 'a' as unknown,
+      opponentId: null,
+      side: null,
+    };
+
+    expect(getMarketBetRequestError(request)).toBeNull();
+    expect(
+      getMarketBetRequestError({ ...request, marketType: 'jackpot' }),
+    ).not.toBeNull();
+    expect(
+      getMarketBetRequestError({ ...request, competitorId: undefined }),
+    ).not.toBeNull();
+    expect(
+      getMarketBetRequestError({ ...request, marketType: MarketType.MATCHUP }),
+    ).not.toBeNull();
+    expect(
+      getMarketBetRequestError({ ...request, side: MarketSide.OVER }),
+    ).not.toBeNull();
+  });
+
+  it('should reject a second bet on a market or the reverse matchup', () => {
+    const aOverB = selection(MarketType.MATCHUP, 'a', { opponentId: 'b' });
+
+    expect(getMarketBetConflict(aOverB, [])).toBeNull();
+    expect(getMarketBetConflict(aOverB, [aOverB])).not.toBeNull();
+    expect(
+      getMarketBetConflict(
+        selection(MarketType.MATCHUP, 'b', { opponentId: 'a' }),
+        [aOverB],
+      ),
+    ).not.toBeNull();
+    expect(
+      getMarketBetConflict(
+        selection(MarketType.MATCHUP, 'a', { opponentId: 'c' }),
+        [aOverB],
+      ),
+    ).toBeNull();
+    expect(
+      getMarketBetConflict(selection(MarketType.WINNER, 'b'), [
+        selection(MarketType.WINNER, 'a'),
+      ]),
+    ).not.toBeNull();
+  });
+
+  it('should cap the market bets of a week', () => {
+    const topThrees = standings.map((id) =>
+      selection(MarketType.TOP_THREE, id),
+    );
+    const weekBets = Array.from(
+      { length: MARKETS_CONFIG.MAX_BETS_PER_WEEK },
+      (_, index) => topThrees[index % topThrees.length],
+    );
+
+    expect(
+      getMarketBetConflict(selection(MarketType.WINNER, 'a'), weekBets),
+    ).not.toBeNull();
+    expect(
+      getMarketBetConflict(
+        selection(MarketType.WINNER, 'a'),
+        weekBets.slice(1),
+      ),
+    ).toBeNull();
+  });
+
+  it('should only take market bets on open fixed odds weeks', () => {
+    expect(
+      getMarketWeekError(
+        BettingWeekStatus.OPEN,
+        BettingWeekScoringMode.FIXED_ODDS,
+      ),
+    ).toBeNull();
+    expect(
+      getMarketWeekError(
+        BettingWeekStatus.OPEN,
+        BettingWeekScoringMode.PARI_MUTUEL,
+      ),
+    ).toContain('pari-mutuel');
+    expect(
+      getMarketWeekError(
+        BettingWeekStatus.CLOSED,
+        BettingWeekScoringMode.FIXED_ODDS,
+      ),
+    ).not.toBeNull();
+  });
+});
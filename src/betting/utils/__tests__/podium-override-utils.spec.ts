@@ -0,0 +1,154 @@
+/**
+ * Tests for the podium override checks
+ *
+ * Focus on:
+ * - Proposals on finalized weeks only, with a new podium
+ * - Reasons of proposals and objections
+ * - Objection window and overrides due at the deadline
+ */
+
+import { BettingWeekStatus } from '../../entities/betting-week.entity';
+import { PodiumOverrideStatus } from '../../entities/podium-override.entity';
+import { PODIUM_OVERRIDE_CONFIG } from '../../config/podium-override.config';
+import {
+  getProposalError,
+  isObjectionWindowOpen,
+  isOverrideDue,
+  isOverrideInProgress,
+  toOverrideReason,
+} from '../podium-override-utils';
+
+describe('podium-override-utils', () => {
+  describe('getProposalError', () => {
+    const previousPodium = ['a', 'b', 'c'];
+
+    it('should accept a new podium of a finalized week', () => {
+      expect(
+        getProposalError(
+          BettingWeekStatus.FINALIZED,
+          ['b', 'a', 'c'],
+          previousPodium,
+        ),
+      ).toBeNull();
+    });
+
+    it('should refuse a week that is not finalized', () => {
+      for (const status of [
+        BettingWeekStatus.OPEN,
+        BettingWeekStatus.CLOSED,
+        BettingWeekStatus.CALIBRATION,
+      ]) {
+        expect(
+          getProposalError(status, ['b', 'a', 'c'], previousPodium),
+        ).toMatch(/not finalized/);
+      }
+    });
+
+    it('should refuse a podium without 3 different competitors', () => {
+      expect(
+        getProposalError(
+          BettingWeekStatus.FINALIZED,
+          ['a', 'a', 'c'],
+          previousPodium,
+        ),
+      ).toMatch(/3 different/);
+      expect(
+        getProposalError(
+          BettingWeekStatus.FINALIZED,
+          ['a', undefined, 'c'],
+          previousPodium,
+        ),
+      ).toMatch(/3 different/);
+    });
+
+    it('should refuse the current podium of the week', () => {
+      expect(
+        getProposalError(
+          BettingWeekStatus.FINALIZED,
+          ['a', 'b', 'c'],
+          previousPodium,
+        ),
+      ).toMatch(/already the podium/);
+      expect(
+        getProposalError(BettingWeekStatus.FINALIZED, ['a', 'b', 'c'], null),
+      ).toBeNull();
+    });
+  });
+
+  describe('toOverrideReason', () => {
+    it('should trim the reason', () => {
+      expect(toOverrideReason('  wrong podium ')).toBe('wrong podium');
+    });
+
+    it('should refuse an empty or too long reason', () => {
+      expect(toOverrideReason('   ')).toBeNull();
+      expect(toOverrideReason(undefined)).toBeNull();
+      expect(
+        toOverrideReason('x'.repeat(PODIUM_OVERRIDE_CONFIG.MAX_REASON_LENGTH)),
+      ).not.toBeNull();
+      expect(
+        toOverrideReason(
+          'x'.repeat(PODIUM_OVERRIDE_CONFIG.MAX_REASON_LENGTH + 1),
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe('objection window', () => {
+    const now = new Date('2026-03-02T12:00:00Z');
+    const before = new Date('2026-03-02T11:00:00Z');
+    const after = new Date('2026-03-02T13:00:00Z');
+    const override = (
+      status: PodiumOverrideStatus,
+      objectionDeadline: Date,
+    ) => ({ status, objectionDeadline });
+
+    it('should be open to objections until the deadline', () => {
+      expect(
+        isObjectionWindowOpen(
+          override(PodiumOverrideStatus.PENDING, after),
+          now,
+        ),
+      ).toBe(true);
+      expect(
+        isObjectionWindowOpen(
+          override(PodiumOverrideStatus.CONTESTED, after),
+          now,
+        ),
+      ).toBe(true);
+      expect(
+        isObjectionWindowOpen(override(PodiumOverrideStatus.PENDING, now), now),
+      ).toBe(false);
+      expect(
+        isObjectionWindowOpen(
+          override(PodiumOverrideStatus.APPLIED, after),
+          now,
+        ),
+      ).toBe(false);
+    });
+
+    it('should apply only uncontested overrides past the deadline', () => {
+      expect(
+        isOverrideDue(override(PodiumOverrideStatus.PENDING, before), now),
+      ).toBe(true);
+      expect(
+        isOverrideDue(override(PodiumOverrideStatus.PENDING, now), now),
+      ).toBe(true);
+      expect(
+        isOverrideDue(override(PodiumOverrideStatus.PENDING, after), now),
+      ).toBe(false);
+      expect(
+        isOverrideDue(override(PodiumOverrideStatus.CONTESTED, before), now),
+      ).toBe(false);
+    });
+
+    it('should only treat pending or contested overrides as in progress', () => {
+      expect(
+        isOverrideInProgress(override(PodiumOverrideStatus.CONTESTED, now)),
+      ).toBe(true);
+      expect(
+        isOverrideInProgress(override(PodiumOverrideStatus.REJECTED, now)),
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Tests for the pari-mutuel pools
+ *
+ * Focus on:
+ * - One pool per position, boosted picks staking more
+ * - Winners of a position sharing exactly its pool
+ */
+
+import { BetPosition } from '../../entities/bet-pick.entity';
+import { computePoolOdds, getPickStake } from '../pool-utils';
+
+describe('pool-utils', () => {
+  const pick = (
+    competitorId: string,
+    position: BetPosition,
+    hasBoost = false,
+  ) => ({ competitorId, position, hasBoost });
+
+  it('should compute the implied odds of each position', () => {
+    const { pools, odds } = computePoolOdds([
+      pick('a', BetPosition.FIRST),
+      pick('a', BetPosition.FIRST, true),
+      pick('b', BetPosition.FIRST),
+      pick('b', BetPosition.SECOND),
+    ]);
+
+    expect(pools).toEqual({ first: 4, second: 1, third: 0 });
+    expect(odds.get('a')).toEqual({ first: 4 / 3, second: null, third: null });
+    expect(odds.get('b')).toEqual({ first: 4, second: 1, third: null });
+  });
+
+  it('should pay out exactly the pool to the winners', () => {
+    const picks = [
+      pick('a', BetPosition.FIRST),
+      pick('a', BetPosition.FIRST, true),
+      pick('b', BetPosition.FIRST),
+      pick('c', BetPosition.FIRST),
+    ];
+    const { pools, odds } = computePoolOdds(picks);
+
+    const paid = picks
+      .filter((p) => p.competitorId === 'a')
+      .reduce(
+        (sum, p) => sum + getPickStake(p.hasBoost) * odds.get('a')!.first!,
+        0,
+      );
+
+    expect(paid).toBeCloseTo(pools.first);
+  });
+});
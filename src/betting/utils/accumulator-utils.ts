@@ -0,0 +1,52 @@
+/**
+ * Accumulator helpers (see ACCUMULATORS_CONFIG)
+ */
+
+import { AccumulatorLegStatus } from '../entities/accumulator-leg.entity';
+import { ACCUMULATORS_CONFIG } from '../config/accumulators.config';
+
+export interface AccumulatorLegLike {
+  oddAtBet: number;
+  status: AccumulatorLegStatus;
+}
+
+export type AccumulatorOutcome = 'pending' | 'won' | 'lost' | 'void';
+
+/**
+ * Product of leg odds, capped at MAX_COMBINED_ODD and rounded to 2
+ * decimals
+ */
+export function combineOdds(odds: number[]): number {
+  const product = odds.reduce((acc, odd) => acc * odd, 1);
+  return (
+    Math.round(Math.min(product, ACCUMULATORS_CONFIG.MAX_COMBINED_ODD) * 100) /
+    100
+  );
+}
+
+/**
+ * Outcome of a slip: pending until every leg is settled, then lost if a
+ * leg lost, void if every leg is void, otherwise won with the combined
+ * odd of the non-void legs as points
+ */
+export function resolveAccumulator(legs: AccumulatorLegLike[]): {
+  outcome: AccumulatorOutcome;
+  points: number;
+} {
+  if (legs.some((leg) => leg.status === AccumulatorLegStatus.PENDING)) {
+    return { outcome: 'pending', points: 0 };
+  }
+  if (legs.some((leg) => leg.status === AccumulatorLegStatus.LOST)) {
+    return { outcome: 'lost', points: 0 };
+  }
+
+  const wonLegs = legs.filter((leg) => leg.status === AccumulatorLegStatus.WON);
+  if (wonLegs.length === 0) {
+    return { outcome: 'void', points: 0 };
+  }
+
+  return {
+    outcome: 'won',
+    points: combineOdds(wonLegs.map((leg) => leg.oddAtBet)),
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Daily round standings (see DAILY_BETTING_CONFIG.rankingMethod)
+ */
+
+import { DailyRankingMethod } from '../entities/daily-round.entity';
+
+export interface DailyRaceResultLike {
+  competitorId: string;
+  rank12: number;
+}
+
+export interface DailyStanding {
+  competitorId: string;
+  raceCount: number;
+  racesWon: number;
+  avgRank: number;
+}
+
+/**
+ * Rank the competitors of the day, best first
+ *
+ * - RACES_WON: most races won, then best average rank, then most races
+ * - AVG_RANK: best average rank among competitors with at least
+ *   minRacesForAvgRank races, then most races
+ *
+ * @param results - Results of all the races of the day
+ */
+export function rankDailyStandings(
+  results: DailyRaceResultLike[],
+  method: DailyRankingMethod,
+  minRacesForAvgRank: number,
+): DailyStanding[] {
+  const totals = new Map<
+    string,
+    { raceCount: number; racesWon: number; rankSum: number }
+  >();
+  for (const { competitorId, rank12 } of results) {
+    const total = totals.get(competitorId) ?? {
+      raceCount: 0,
+      racesWon: 0,
+      rankSum: 0,
+    };
+    total.raceCount++;
+    total.rankSum += rank12;
+    if (rank12 === 1) total.racesWon++;
+    totals.set(competitorId, total);
+  }
+
+  const standings: DailyStanding[] = [...totals].map(
+    ([competitorId, { raceCount, racesWon, rankSum }]) => ({
+      competitorId,
+      raceCount,
+      racesWon,
+      avgRank: rankSum / raceCount,
+    }),
+  );
+
+  if (method === DailyRankingMethod.AVG_RANK) {
+    return standings
+      .filter((s) => s.raceCount >= minRacesForAvgRank)
+      .sort((a, b) => a.avgRank - b.avgRank || b.raceCount - a.raceCount);
+  }
+
+  return standings.sort(
+    (a, b) =>
+      b.racesWon - a.racesWon ||
+      a.avgRank - b.avgRank ||
+      b.raceCount - a.raceCount,
+  );
+}
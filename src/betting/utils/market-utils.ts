@@ -0,0 +1,289 @@
+/**
+ * Weekly markets helpers (see MarketType)
+ *
+ * Pricing of the activity markets: each simulated week adds to the races
+ * already run a Poisson number of races at the competitor's recent pace,
+ * with ranks drawn from their recent races. Podium markets (winner,
+ * top 3, matchups) come from the Plackett-Luce Monte Carlo of
+ * OddsCalculatorService.
+ *
+ * Settlement: winner / top 3 / matchups on the week's final standing,
+ * race count / average rank on the races of the week. A result equal to
+ * the line, or an average rank without any race, voids the bet.
+ */
+
+import { MarketSide, MarketType } from '../entities/market-odds.entity';
+import {
+  BettingWeekScoringMode,
+  BettingWeekStatus,
+} from '../entities/betting-week.entity';
+import {
+  DEFAULT_ODDS_PARAMS,
+  MARKETS_CONFIG,
+} from '../config/odds-calculator.config';
+import { OddsCalculationParams } from '../types/odds-calculator.types';
+
+export type MarketOutcome = 'won' | 'lost' | 'void';
+
+export interface WeekActivity {
+  raceCount: number;
+  avgRank12: number | null;
+}
+
+export interface OverUnderPrice {
+  line: number;
+  pOver: number;
+  pUnder: number;
+}
+
+export interface MarketSelection {
+  marketType: MarketType;
+  competitorId: string;
+  opponentId: string | null;
+  line: number | null;
+  side: MarketSide | null;
+}
+
+export interface MarketBetRequest {
+  marketType: unknown;
+  competitorId: unknown;
+  opponentId: string | null;
+  side: MarketSide | null;
+}
+
+/**
+ * Why a market bet request is malformed, null if it isn't
+ *
+ * Checked before any query: the body is not validated upstream, and
+ * TypeORM drops an undefined competitorId from its where clauses.
+ */
+export function getMarketBetRequestError(
+  request: MarketBetRequest,
+): string | null {
+  const { marketType, competitorId, opponentId, side } = request;
+  if (!Object.values(MarketType).includes(marketType as MarketType)) {
+    return 'Unknown market type';
+  }
+  if (typeof competitorId !== 'string' || !competitorId) {
+    return 'A competitor is required';
+  }
+  if ((marketType === MarketType.MATCHUP) !== (opponentId !== null)) {
+    return 'An opponent is required for matchups, and only for them';
+  }
+  const isOverUnder =
+    marketType === MarketType.RACE_COUNT || marketType === MarketType.AVG_RANK;
+  if (isOverUnder !== (side !== null)) {
+    return 'A side is required for over / under markets, and only for them';
+  }
+  return null;
+}
+
+/**
+ * Why a week takes no market bets, null if it does
+ *
+ * Market bets pay fixed odds, which a pari-mutuel week doesn't have:
+ * they would mint points outside of its pool.
+ */
+export function getMarketWeekError(
+  status: BettingWeekStatus,
+  scoringMode: BettingWeekScoringMode,
+): string | null {
+  if (status !== BettingWeekStatus.OPEN) {
+    return 'This betting week is closed';
+  }
+  if (scoringMode === BettingWeekScoringMode.PARI_MUTUEL) {
+    return 'This betting week has no fixed odds (pari-mutuel)';
+  }
+  return null;
+}
+
+/**
+ * Why a market bet clashes with the user's bets of the week, null if it
+ * doesn't
+ *
+ * One bet per market: per week for the winner, per competitor (and
+ * opponent) for the other markets, whatever the side. A matchup also
+ * excludes its reverse, otherwise both sides are one sure win.
+ */
+export function getMarketBetConflict(
+  selection: Pick<
+    MarketSelection,
+    'marketType' | 'competitorId' | 'opponentId'
+  >,
+  weekBets: Array<
+    Pick<MarketSelection, 'marketType' | 'competitorId' | 'opponentId'>
+  >,
+): string | null {
+  const { marketType, competitorId, opponentId } = selection;
+  for (const bet of weekBets) {
+    if (bet.marketType !== marketType) continue;
+    if (
+      marketType === MarketType.WINNER ||
+      (bet.competitorId === competitorId && bet.opponentId === opponentId)
+    ) {
+      return 'You already placed a bet on this market';
+    }
+    if (
+      marketType === MarketType.MATCHUP &&
+      bet.competitorId === opponentId &&
+      bet.opponentId === competitorId
+    ) {
+      return 'You already bet on the reverse of this matchup';
+    }
+  }
+  if (weekBets.length >= MARKETS_CONFIG.MAX_BETS_PER_WEEK) {
+    return `At most ${MARKETS_CONFIG.MAX_BETS_PER_WEEK} market bets per week`;
+  }
+  return null;
+}
+
+/**
+ * Decimal odd of a probability, clamped like the podium odds
+ */
+export function toMarketOdd(
+  probability: number,
+  params: OddsCalculationParams = DEFAULT_ODDS_PARAMS,
+): number {
+  return Math.max(params.minOdd, Math.min(1 / probability, params.maxOdd));
+}
+
+/**
+ * Draw from a Poisson law (Knuth's algorithm, fine for small means)
+ */
+export function samplePoisson(
+  mean: number,
+  random: () => number = Math.random,
+): number {
+  const limit = Math.exp(-mean);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count++;
+    product *= random();
+  }
+  return count;
+}
+
+/**
+ * Simulate the week of a competitor: the races already run, plus a
+ * Poisson number of races to come with ranks drawn from recent ones
+ *
+ * @param playedRanks - rank12 of their races already run in the week
+ * @param recentRanks - rank12 of their recent races
+ * @param remainingPace - Expected number of races until the end of the week
+ * @returns Race count of each simulated week, and the average rank of
+ *   the simulated weeks with at least one race
+ */
+export function simulateWeekActivity(
+  playedRanks: number[],
+  recentRanks: number[],
+  remainingPace: number,
+  numSimulations: number,
+  random: () => number = Math.random,
+): { raceCounts: number[]; avgRanks: number[] } {
+  const raceCounts: number[] = [];
+  const avgRanks: number[] = [];
+  const playedTotal = playedRanks.reduce((sum, rank) => sum + rank, 0);
+
+  for (let sim = 0; sim < numSimulations; sim++) {
+    const upcoming =
+      recentRanks.length > 0 ? samplePoisson(remainingPace, random) : 0;
+    const raceCount = playedRanks.length + upcoming;
+    raceCounts.push(raceCount);
+
+    if (raceCount === 0) continue;
+    let totalRank = playedTotal;
+    for (let i = 0; i < upcoming; i++) {
+      totalRank += recentRanks[Math.floor(random() * recentRanks.length)];
+    }
+    avgRanks.push(totalRank / raceCount);
+  }
+
+  return { raceCounts, avgRanks };
+}
+
+/**
+ * Over / under line at the median of simulated values, rounded to the
+ * half unit, with the probability of each side (pushes excluded, as
+ * they void the bet)
+ *
+ * @param halfPoint - Keep the line on x.5 (no push on integer values)
+ * @returns null without any simulated value, or if a side never wins
+ */
+export function priceOverUnder(
+  samples: number[],
+  halfPoint: boolean,
+): OverUnderPrice | null {
+  if (samples.length === 0) return null;
+
+  const sorted = [...samples].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  const line = halfPoint
+    ? Math.floor(median) + 0.5
+    : Math.round(median * 2) / 2;
+
+  const over = sorted.filter((value) => value > line).length;
+  const under = sorted.filter((value) => value < line).length;
+  if (over === 0 || under === 0) return null;
+
+  return {
+    line,
+    pOver: over / (over + under),
+    pUnder: under / (over + under),
+  };
+}
+
+function resolveOverUnder(
+  value: number,
+  line: number,
+  side: MarketSide,
+): MarketOutcome {
+  if (value === line) return 'void';
+  return value > line === (side === MarketSide.OVER) ? 'won' : 'lost';
+}
+
+/**
+ * Outcome of a market bet
+ *
+ * @param standings - Final standing of the week (competitor IDs, podium first)
+ * @param activity - Race count and average rank of each competitor in the week
+ */
+export function resolveMarketBet(
+  selection: MarketSelection,
+  standings: string[],
+  activity: Map<string, WeekActivity>,
+): MarketOutcome {
+  const { competitorId, line, side } = selection;
+
+  switch (selection.marketType) {
+    case MarketType.WINNER:
+      return standings[0] === competitorId ? 'won' : 'lost';
+
+    case MarketType.TOP_THREE:
+      return standings.slice(0, 3).includes(competitorId) ? 'won' : 'lost';
+
+    case MarketType.MATCHUP: {
+      const position = (id: string | null) => {
+        const index = id ? standings.indexOf(id) : -1;
+        return index === -1 ? Infinity : index;
+      };
+      const own = position(competitorId);
+      const opponent = position(selection.opponentId);
+      if (own === opponent) return 'void'; // Both out of the standing
+      return own < opponent ? 'won' : 'lost';
+    }
+
+    case MarketType.RACE_COUNT:
+      return resolveOverUnder(
+        activity.get(competitorId)?.raceCount ?? 0,
+        line!,
+        side!,
+      );
+
+    case MarketType.AVG_RANK: {
+      const avgRank12 = activity.get(competitorId)?.avgRank12 ?? null;
+      if (avgRank12 === null) return 'void';
+      return resolveOverUnder(avgRank12, line!, side!);
+    }
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Podium override checks (see PODIUM_OVERRIDE_CONFIG)
+ */
+
+import { BettingWeekStatus } from '../entities/betting-week.entity';
+import { PodiumOverrideStatus } from '../entities/podium-override.entity';
+import { PODIUM_OVERRIDE_CONFIG } from '../config/podium-override.config';
+
+export interface PodiumOverrideLike {
+  status: PodiumOverrideStatus;
+  objectionDeadline: Date;
+}
+
+/**
+ * Why a podium can't be proposed for a week, null if it can
+ *
+ * Only a finalized week has an automatic podium to replace.
+ *
+ * @param podium - Proposed podium [first, second, third]
+ * @param previousPodium - Current podium of the week, if any
+ */
+export function getProposalError(
+  weekStatus: BettingWeekStatus,
+  podium: Array<string | null | undefined>,
+  previousPodium: Array<string | null> | null,
+): string | null {
+  if (weekStatus !== BettingWeekStatus.FINALIZED) {
+    return `Week is not finalized (current: ${weekStatus})`;
+  }
+  if (podium.some((id) => !id) || new Set(podium).size !== 3) {
+    return 'Podium must be 3 different competitors';
+  }
+  if (previousPodium?.every((id, index) => id === podium[index])) {
+    return 'This is already the podium of the week';
+  }
+  return null;
+}
+
+/**
+ * Trimmed reason of a proposal or objection, null if empty or too long
+ */
+export function toOverrideReason(reason: unknown): string | null {
+  const trimmed = typeof reason === 'string' ? reason.trim() : '';
+  return trimmed && trimmed.length <= PODIUM_OVERRIDE_CONFIG.MAX_REASON_LENGTH
+    ? trimmed
+    : null;
+}
+
+export function isOverrideInProgress(override: PodiumOverrideLike): boolean {
+  return (
+    override.status === PodiumOverrideStatus.PENDING ||
+    override.status === PodiumOverrideStatus.CONTESTED
+  );
+}
+
+/**
+ * Bettors can object until the deadline, an admin applies after it
+ */
+export function isObjectionWindowOpen(
+  override: PodiumOverrideLike,
+  now: Date,
+): boolean {
+  return isOverrideInProgress(override) && override.objectionDeadline > now;
+}
+
+/**
+ * Uncontested override whose objection window is over, applied by the
+ * cron
+ */
+export function isOverrideDue(
+  override: PodiumOverrideLike,
+  now: Date,
+): boolean {
+  return (
+    override.status === PodiumOverrideStatus.PENDING &&
+    override.objectionDeadline <= now
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * Pari-mutuel pool helpers (see PARI_MUTUEL_CONFIG)
+ *
+ * Each position (first, second, third) has its own pool. The implied odd
+ * of a competitor at a position is the pool divided by the stakes on
+ * them, so a correct pick earns stake * odd and the winners of a
+ * position share exactly its pool.
+ */
+
+import { BetPosition } from '../entities/bet-pick.entity';
+import {
+  BettingScoringParams,
+  DEFAULT_SCORING_PARAMS,
+  PARI_MUTUEL_CONFIG,
+} from '../config/betting-scoring.config';
+
+export interface PoolPickLike {
+  competitorId: string;
+  position: BetPosition;
+  hasBoost: boolean;
+}
+
+/** Implied odd per position, null when nobody staked on it */
+export interface PoolOdds {
+  first: number | null;
+  second: number | null;
+  third: number | null;
+}
+
+export interface PoolSummary {
+  /** Total stakes of each position */
+  pools: Record<BetPosition, number>;
+  odds: Map<string, PoolOdds>;
+}
+
+/**
+ * Stake of a pick (boosted picks stake boostMultiplier times more)
+ *
+ * @param scoring - Scoring params of the week's ruleset
+ */
+export function getPickStake(
+  hasBoost: boolean,
+  scoring: BettingScoringParams = DEFAULT_SCORING_PARAMS,
+): number {
+  return (
+    PARI_MUTUEL_CONFIG.pointsPerStake * (hasBoost ? scoring.boostMultiplier : 1)
+  );
+}
+
+/**
+ * Pools and implied odds of the picks of a week
+ */
+export function computePoolOdds(
+  picks: PoolPickLike[],
+  scoring: BettingScoringParams = DEFAULT_SCORING_PARAMS,
+): PoolSummary {
+  const pools: Record<BetPosition, number> = {
+    [BetPosition.FIRST]: 0,
+    [BetPosition.SECOND]: 0,
+    [BetPosition.THIRD]: 0,
+  };
+  const stakes = new Map<string, Record<BetPosition, number>>();
+
+  for (const pick of picks) {
+    const stake = getPickStake(pick.hasBoost, scoring);
+    pools[pick.position] += stake;
+
+    let competitorStakes = stakes.get(pick.competitorId);
+    if (!competitorStakes) {
+      competitorStakes = {
+        [BetPosition.FIRST]: 0,
+        [BetPosition.SECOND]: 0,
+        [BetPosition.THIRD]: 0,
+      };
+      stakes.set(pick.competitorId, competitorStakes);
+    }
+    competitorStakes[pick.position] += stake;
+  }
+
+  const impliedOdd = (position: BetPosition, stake: number) =>
+    stake > 0 ? pools[position] / stake : null;
+
+  const odds = new Map<string, PoolOdds>();
+  for (const [competitorId, competitorStakes] of stakes) {
+    odds.set(competitorId, {
+      first: impliedOdd(BetPosition.FIRST, competitorStakes.first),
+      second: impliedOdd(BetPosition.SECOND, competitorStakes.second),
+      third: impliedOdd(BetPosition.THIRD, competitorStakes.third),
+    });
+  }
+
+  return { pools, odds };
+}
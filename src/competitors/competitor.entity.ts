@@ -36,6 +36,13 @@ export class Competitor {
   @Column('float', { default: 0.06 })
   vol: number;
 
+  /**
+   * End of the last idle rating period whose RD decay was applied
+   * (see RD_DECAY_CONFIG). Null until the first decay.
+   */
+  @Column({ type: 'timestamptz', nullable: true })
+  rdDecayedThrough: Date | null;
+
   @Column({ default: 0 })
   raceCount: number;
 
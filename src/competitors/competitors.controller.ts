@@ -14,7 +14,7 @@ import {
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { CompetitorsService } from './competitors.service';
-import { RacesService } from 'src/races/races.service';
+import { RacesService, RivalryFilters } from 'src/races/races.service';
 import { UsersService } from 'src/users/users.service';
 import { UpdateCompetitorDto } from './dtos/update-competitor.dto';
 import { LinkCharacterDto } from './dtos/link-character.dto';
@@ -22,6 +22,7 @@ import { sanitizeCompetitor } from './utils/sanitize-competitor';
 import { CreateCompetitorDto } from './dtos/create-competitor.dto';
 import { Public } from '../auth/decorators/public.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RatingPoolService } from '../rating/rating-pool.service';
 
 @Controller('competitors')
 export class CompetitorsController {
@@ -29,6 +30,7 @@ export class CompetitorsController {
     private competitorsService: CompetitorsService,
     private racesService: RacesService,
     private usersService: UsersService,
+    private ratingPoolService: RatingPoolService,
   ) {}
 
   private async assertCompetitorOwnership(
@@ -43,22 +45,60 @@ export class CompetitorsController {
     }
   }
 
+  private parseRivalryFilters(
+    season?: string,
+    year?: string,
+    period?: string,
+  ): RivalryFilters {
+    return {
+      season: season ? parseInt(season, 10) : undefined,
+      year: year ? parseInt(year, 10) || undefined : undefined,
+      period: period || undefined,
+    };
+  }
+
   /* ───────── LIST & DETAIL ───────── */
 
-  /* --- GET all --- */
+  /* --- GET all (optionally rated in a pool) --- */
   @Public()
   @Get()
-  async findAll() {
-    const list = await this.competitorsService.findAll();
+  async findAll(@Query('pool') pool?: string) {
+    const list = pool
+      ? await this.competitorsService.findAllInPool(pool)
+      : await this.competitorsService.findAll();
     return list.map(sanitizeCompetitor);
   }
 
-  /* --- GET one --- */
+  /* --- GET rating pools --- */
+  @Public()
+  @Get('rating-pools')
+  getRatingPools() {
+    return this.ratingPoolService.listPools();
+  }
+
+  /* --- GET rivalry matrix --- */
+  @Get('rivalries')
+  getRivalryMatrix(
+    @Query('ids') ids?: string,
+    @Query('season') season?: string,
+    @Query('year') year?: string,
+    @Query('period') period?: string,
+  ) {
+    return this.racesService.getRivalryMatrix(
+      ids ? ids.split(',').filter(Boolean) : undefined,
+      this.parseRivalryFilters(season, year, period),
+    );
+  }
+
+  /* --- GET one (with nemesis / favourite victim) --- */
   @Public()
   @Get(':id')
   async findOne(@Param('id') id: string) {
     const comp = await this.competitorsService.findOne(id);
-    return comp ? sanitizeCompetitor(comp) : null;
+    if (!comp) return null;
+
+    const rivals = await this.racesService.getRivalsForCompetitor(id);
+    return { ...sanitizeCompetitor(comp), ...rivals };
   }
 
   /* --- POST --- */
@@ -128,9 +168,10 @@ export class CompetitorsController {
   getEloHistory(
     @Param('id') id: string,
     @Query('days') daysStr?: string,
+    @Query('pool') pool?: string,
   ) {
     const days = daysStr ? parseInt(daysStr, 10) || undefined : undefined;
-    return this.competitorsService.getEloHistory(id, days);
+    return this.competitorsService.getEloHistory(id, days, pool);
   }
 
   /* ───────── BEST SCORE ───────── */
@@ -152,4 +193,28 @@ export class CompetitorsController {
     const limit = Math.min(Math.max(parseInt(limitStr || '3', 10) || 3, 1), 10);
     return this.racesService.getRecentRacesForCompetitor(competitorId, limit);
   }
+
+  /* ───────── HEAD-TO-HEAD ───────── */
+
+  @Get(':id/head-to-head/:otherId')
+  getHeadToHead(
+    @Param('id') id: string,
+    @Param('otherId') otherId: string,
+    @Query('season') season?: string,
+    @Query('year') year?: string,
+    @Query('period') period?: string,
+  ) {
+    return this.racesService.getHeadToHead(
+      id,
+      otherId,
+      this.parseRivalryFilters(season, year, period),
+    );
+  }
+
+  /* ───────── TRACK STATS ───────── */
+
+  @Get(':competitorId/track-stats')
+  getTrackStats(@Param('competitorId') competitorId: string) {
+    return this.racesService.getTrackStatsForCompetitor(competitorId);
+  }
 }
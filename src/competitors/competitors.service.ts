@@ -1,15 +1,23 @@
 import { Injectable } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import { EntityManager } from 'typeorm';
 import { Competitor } from './competitor.entity';
 import { CreateCompetitorDto } from './dtos/create-competitor.dto';
 import { UpdateCompetitorDto } from './dtos/update-competitor.dto';
 import { CharacterVariant } from 'src/character-variants/character-variant.entity';
 import { RaceResult } from '../races/race-result.entity';
 import { sanitizeCompetitor } from './utils/sanitize-competitor';
-import { CompetitorRepository } from './repositories/competitor.repository';
+import {
+  CompetitorRepository,
+  PlayStreakLostPayload,
+} from './repositories/competitor.repository';
 import { CompetitorEloSnapshotRepository } from './repositories/competitor-elo-snapshot.repository';
 import { RaceResultRepository } from '../races/repositories/race-result.repository';
 import { RatingCalculationService } from '../rating/rating-calculation.service';
+import { RatingPoolService } from '../rating/rating-pool.service';
+import { RatingPeriodService } from '../rating/rating-period.service';
+import { isPeriodMode } from '../rating/utils/rating-periods';
+import { GLOBAL_POOL } from '../rating/config/rating-pools.config';
 import { UploadService } from '../upload/upload.service';
 import {
   CompetitorNotFoundException,
@@ -22,6 +30,10 @@ export interface EloHistoryPoint {
   rating: number;
   rd: number;
   raceCount: number;
+  /** Snapshot closing a rating period ('period' rating mode) */
+  ratingPeriodEnd?: boolean;
+  /** Live rating of a rating period that is still open */
+  provisional?: boolean;
 }
 
 @Injectable()
@@ -31,6 +43,8 @@ export class CompetitorsService {
     private competitorEloSnapshotRepository: CompetitorEloSnapshotRepository,
     private raceResultRepository: RaceResultRepository,
     private ratingCalculationService: RatingCalculationService,
+    private ratingPoolService: RatingPoolService,
+    private ratingPeriodService: RatingPeriodService,
     private eventEmitter: EventEmitter2,
     private uploadService: UploadService,
   ) {}
@@ -41,6 +55,26 @@ export class CompetitorsService {
     return this.competitorRepository.findAllWithCharacterVariants();
   }
 
+  /**
+   * Competitors rated in a pool, with the pool rating in place of the
+   * global one. Competitors that never raced in the pool are left out.
+   *
+   * @param pool - Pool key or "overall" (see RATING_POOLS_CONFIG)
+   */
+  async findAllInPool(pool: string): Promise<Competitor[]> {
+    this.ratingPoolService.assertValidPool(pool);
+    if (pool === GLOBAL_POOL) return this.findAll();
+
+    const [competitors, poolRatings] = await Promise.all([
+      this.findAll(),
+      this.ratingPoolService.getPoolRatings(pool),
+    ]);
+
+    return competitors
+      .filter((c) => poolRatings.has(c.id))
+      .map((c) => Object.assign(new Competitor(), c, poolRatings.get(c.id)));
+  }
+
   async findOne(id: string): Promise<Competitor | null> {
     return this.competitorRepository.findOne(id, [
       'characterVariant',
@@ -129,17 +163,35 @@ export class CompetitorsService {
     return this.competitorRepository.save(competitor);
   }
 
-  async updateRatingsForRace(raceResults: RaceResult[]) {
+  /**
+   * Update Glicko-2 ratings after a race and store the rating snapshot
+   * on each result
+   *
+   * @param raceResults - Results of the race
+   * @param em - Entity manager of the race transaction (optional)
+   * @param raceDate - Date of the race, for its rating period in 'period' mode
+   */
+  async updateRatingsForRace(
+    raceResults: RaceResult[],
+    em?: EntityManager,
+    raceDate: Date = new Date(),
+  ) {
     // Get competitors
     const ids = raceResults.map((r) => r.competitorId);
-    const competitors = await this.competitorRepository.findByIds(ids);
-
-    // Calculate updated ratings using Glicko-2
-    const updatedRatings =
-      this.ratingCalculationService.calculateRatingsForRace(
-        competitors,
-        raceResults,
-      );
+    const competitors = await this.competitorRepository.findByIds(ids, em);
+
+    // Calculate updated ratings using Glicko-2: one rating period per race,
+    // or provisional ratings of the open period in 'period' mode
+    const updatedRatings = isPeriodMode()
+      ? await this.ratingPeriodService.calculateProvisionalRatings(
+          em ?? this.competitorRepository.repository.manager,
+          raceDate,
+          competitors,
+        )
+      : this.ratingCalculationService.calculateRatingsForRace(
+          competitors,
+          raceResults,
+        );
 
     // Compute and persist rating deltas + ELO snapshots BEFORE updateManyRatings mutates competitors
     for (const result of raceResults) {
@@ -157,17 +209,25 @@ export class CompetitorsService {
         result.volAfter = newRatings.vol;
       }
     }
-    await this.raceResultRepository.saveMany(raceResults);
+    if (em) {
+      await em.save(RaceResult, raceResults);
+    } else {
+      await this.raceResultRepository.saveMany(raceResults);
+    }
 
     // Use repository method to update all ratings in a transaction
     await this.competitorRepository.updateManyRatings(
       competitors,
       updatedRatings,
       raceResults,
+      em,
     );
 
     // Refresh competitors after update
-    const updatedCompetitors = await this.competitorRepository.findByIds(ids);
+    const updatedCompetitors = await this.competitorRepository.findByIds(
+      ids,
+      em,
+    );
 
     // Return sanitized competitors
     return updatedCompetitors.map(sanitizeCompetitor);
@@ -187,8 +247,11 @@ export class CompetitorsService {
    * Mark competitor as active this week (for betting eligibility)
    * This should be called after each race creation
    */
-  async markAsActiveThisWeek(competitorId: string): Promise<void> {
-    await this.competitorRepository.markAsActiveThisWeek(competitorId);
+  async markAsActiveThisWeek(
+    competitorId: string,
+    em?: EntityManager,
+  ): Promise<void> {
+    await this.competitorRepository.markAsActiveThisWeek(competitorId, em);
   }
 
   /**
@@ -207,12 +270,19 @@ export class CompetitorsService {
 
   /**
    * Update play streak for a competitor after a race
+   *
+   * @returns The streak.play_lost payload if the streak was broken
    */
   async updatePlayStreak(
     competitorId: string,
     raceDate: Date,
-  ): Promise<void> {
-    await this.competitorRepository.updatePlayStreak(competitorId, raceDate);
+    em?: EntityManager,
+  ): Promise<PlayStreakLostPayload | null> {
+    return this.competitorRepository.updatePlayStreak(
+      competitorId,
+      raceDate,
+      em,
+    );
   }
 
   /**
@@ -221,8 +291,9 @@ export class CompetitorsService {
   async updateWinStreak(
     competitorId: string,
     rank12: number,
+    em?: EntityManager,
   ): Promise<void> {
-    await this.competitorRepository.updateWinStreak(competitorId, rank12);
+    await this.competitorRepository.updateWinStreak(competitorId, rank12, em);
   }
 
   /**
@@ -233,22 +304,26 @@ export class CompetitorsService {
    */
   async updateRecentPositions(
     raceResults: { competitorId: string; rank12: number }[],
+    em?: EntityManager,
   ): Promise<void> {
-    await this.competitorRepository.updateRecentPositions(raceResults);
+    await this.competitorRepository.updateRecentPositions(raceResults, em);
   }
 
   /**
    * Get ELO history for a competitor from daily snapshots.
-   * Always appends a live point for today if not already the last snapshot.
+   * Always appends a live point for today if not already the last snapshot
+   * (unless the competitor has no rating in the requested pool).
    */
   async getEloHistory(
     competitorId: string,
     days?: number,
+    pool: string = GLOBAL_POOL,
   ): Promise<EloHistoryPoint[]> {
     const competitor = await this.competitorRepository.findOne(competitorId);
     if (!competitor) {
       throw new CompetitorNotFoundException(competitorId);
     }
+    this.ratingPoolService.assertValidPool(pool);
 
     const sinceDate = days
       ? new Date(Date.now() - days * 24 * 60 * 60 * 1000)
@@ -258,6 +333,7 @@ export class CompetitorsService {
       await this.competitorEloSnapshotRepository.findByCompetitor(
         competitorId,
         sinceDate,
+        pool,
       );
 
     const history: EloHistoryPoint[] = snapshots.map((s) => ({
@@ -265,18 +341,27 @@ export class CompetitorsService {
       rating: s.rating,
       rd: s.rd,
       raceCount: s.raceCount,
+      ...(s.ratingPeriodEnd && { ratingPeriodEnd: true }),
     }));
 
     // Append live point for today if not already present as last snapshot
     const today = new Date().toISOString().split('T')[0];
     const lastDate =
       snapshots.length > 0 ? String(snapshots[snapshots.length - 1].date) : '';
-    if (lastDate !== today) {
+    const live =
+      pool === GLOBAL_POOL
+        ? competitor
+        : await this.ratingPoolService.getCompetitorPoolRating(
+            competitorId,
+            pool,
+          );
+    if (live && lastDate !== today) {
       history.push({
         date: new Date().toISOString(),
-        rating: competitor.rating,
-        rd: competitor.rd,
-        raceCount: competitor.raceCount,
+        rating: live.rating,
+        rd: live.rd,
+        raceCount: live.raceCount,
+        ...(pool === GLOBAL_POOL && isPeriodMode() && { provisional: true }),
       });
     }
 
@@ -10,7 +10,7 @@ import {
 import { Competitor } from '../competitor.entity';
 
 @Entity('competitor_elo_snapshots')
-@Index(['competitorId', 'date'], { unique: true })
+@Index(['competitorId', 'pool', 'date'], { unique: true })
 export class CompetitorEloSnapshot {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -22,6 +22,12 @@ export class CompetitorEloSnapshot {
   @JoinColumn({ name: 'competitorId' })
   competitor: Competitor;
 
+  /**
+   * Rating pool of the snapshot ('global' for the Competitor rating)
+   */
+  @Column({ default: 'global' })
+  pool: string;
+
   @Column({ type: 'date' })
   date: string;
 
@@ -37,6 +43,20 @@ export class CompetitorEloSnapshot {
   @Column({ type: 'int', default: 0 })
   raceCount: number;
 
+  /**
+   * End of the rating period this snapshot closes, in 'period' rating
+   * mode (see RATING_PERIOD_CONFIG). Null for a plain daily snapshot.
+   */
+  @Column({ type: 'timestamptz', nullable: true })
+  ratingPeriodEnd: Date | null;
+
+  /**
+   * RD added on this date by the inactivity decay (see RD_DECAY_CONFIG),
+   * null if the competitor's RD did not decay
+   */
+  @Column('float', { nullable: true })
+  rdInflation: number | null;
+
   @CreateDateColumn()
   createdAt: Date;
 }
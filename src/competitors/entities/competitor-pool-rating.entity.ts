@@ -0,0 +1,50 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Competitor } from '../competitor.entity';
+
+/**
+ * Glicko-2 rating of a competitor in one rating pool
+ * (see RATING_POOLS_CONFIG). The global rating stays on Competitor.
+ */
+@Entity('competitor_pool_ratings')
+@Index(['competitorId', 'pool'], { unique: true })
+@Index(['pool'])
+export class CompetitorPoolRating {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  competitorId: string;
+
+  @ManyToOne(() => Competitor, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'competitorId' })
+  competitor: Competitor;
+
+  @Column()
+  pool: string;
+
+  @Column('float')
+  rating: number;
+
+  @Column('float')
+  rd: number;
+
+  @Column('float')
+  vol: number;
+
+  @Column({ type: 'int', default: 0 })
+  raceCount: number;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastRaceDate: Date | null;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
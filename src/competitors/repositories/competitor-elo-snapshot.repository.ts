@@ -3,6 +3,7 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { CompetitorEloSnapshot } from '../entities/competitor-elo-snapshot.entity';
 import { BaseRepository } from '../../common/repositories/base.repository';
+import { GLOBAL_POOL } from '../../rating/config/rating-pools.config';
 
 @Injectable()
 export class CompetitorEloSnapshotRepository extends BaseRepository<CompetitorEloSnapshot> {
@@ -14,16 +15,18 @@ export class CompetitorEloSnapshotRepository extends BaseRepository<CompetitorEl
   }
 
   /**
-   * Find snapshots for a competitor, ordered by date ASC.
+   * Find snapshots for a competitor in a rating pool, ordered by date ASC.
    * Optionally filter to snapshots on or after sinceDate.
    */
   async findByCompetitor(
     competitorId: string,
     sinceDate?: Date,
+    pool: string = GLOBAL_POOL,
   ): Promise<CompetitorEloSnapshot[]> {
     const qb = this.repository
       .createQueryBuilder('snapshot')
       .where('snapshot.competitorId = :competitorId', { competitorId })
+      .andWhere('snapshot.pool = :pool', { pool })
       .orderBy('snapshot.date', 'ASC');
 
     if (sinceDate) {
@@ -37,10 +40,11 @@ export class CompetitorEloSnapshotRepository extends BaseRepository<CompetitorEl
 
   /**
    * Upsert a snapshot (INSERT ON CONFLICT DO UPDATE).
-   * Idempotent: safe to call multiple times for the same (competitorId, date).
+   * Idempotent: safe to call multiple times for the same (competitorId, pool, date).
    */
   async upsertSnapshot(data: {
     competitorId: string;
+    pool?: string;
     date: string;
     rating: number;
     rd: number;
@@ -51,8 +55,11 @@ export class CompetitorEloSnapshotRepository extends BaseRepository<CompetitorEl
       .createQueryBuilder()
       .insert()
       .into(CompetitorEloSnapshot)
-      .values(data)
-      .orUpdate(['rating', 'rd', 'vol', 'raceCount'], ['competitorId', 'date'])
+      .values({ ...data, pool: data.pool ?? GLOBAL_POOL })
+      .orUpdate(
+        ['rating', 'rd', 'vol', 'raceCount'],
+        ['competitorId', 'pool', 'date'],
+      )
       .execute();
   }
 }
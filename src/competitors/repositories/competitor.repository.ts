@@ -1,16 +1,28 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { In, Repository } from 'typeorm';
-import { EventEmitter2 } from '@nestjs/event-emitter';
+import { EntityManager, In, Repository } from 'typeorm';
 import { Competitor } from '../competitor.entity';
 import { BaseRepository } from '../../common/repositories/base.repository';
 import { RaceResult } from '../../races/race-result.entity';
 import { User } from '../../users/user.entity';
 import { businessDaysBetween, missedBusinessDays } from '../utils/business-days';
 
+/**
+ * Payload of the streak.play_lost event
+ */
+export interface PlayStreakLostPayload {
+  userId: string;
+  lostValue: number;
+  lostAt: Date;
+  missedDays: string[];
+}
+
 /**
  * Competitor repository with domain-specific queries
  *
+ * Methods run at race creation accept an optional EntityManager so they
+ * can take part in the race transaction.
+ *
  * Competitor State Management:
  * - markAsActiveThisWeek: Called after a race is created
  * - resetWeeklyActivity: Called by cron every Monday
@@ -18,19 +30,11 @@ import { businessDaysBetween, missedBusinessDays } from '../utils/business-days'
  */
 @Injectable()
 export class CompetitorRepository extends BaseRepository<Competitor> {
-  private readonly eventEmitter: EventEmitter2;
-  private readonly userRepository: Repository<User>;
-
   constructor(
     @InjectRepository(Competitor)
     repository: Repository<Competitor>,
-    @InjectRepository(User)
-    userRepository: Repository<User>,
-    eventEmitter: EventEmitter2,
   ) {
     super(repository, 'Competitor');
-    this.eventEmitter = eventEmitter;
-    this.userRepository = userRepository;
   }
 
   /**
@@ -55,9 +59,10 @@ export class CompetitorRepository extends BaseRepository<Competitor> {
   /**
    * Find competitors by array of IDs
    * @param ids - Array of competitor UUIDs
+   * @param em - Entity manager of an outer transaction (optional)
    */
-  async findByIds(ids: string[]): Promise<Competitor[]> {
-    return this.repository.find({
+  async findByIds(ids: string[], em?: EntityManager): Promise<Competitor[]> {
+    return (em ?? this.repository.manager).find(Competitor, {
       where: { id: In(ids) },
       relations: ['characterVariant', 'characterVariant.baseCharacter'],
     });
@@ -94,13 +99,15 @@ export class CompetitorRepository extends BaseRepository<Competitor> {
    * @param competitors - Competitors to update
    * @param updatedRatings - Map of competitor ID to new ratings
    * @param raceResults - Race results for calculating averages
+   * @param em - Entity manager of an outer transaction (optional)
    */
   async updateManyRatings(
     competitors: Competitor[],
     updatedRatings: Map<string, { rating: number; rd: number; vol: number }>,
     raceResults: RaceResult[],
+    em?: EntityManager,
   ): Promise<void> {
-    await this.repository.manager.transaction(async (em) => {
+    await this.inTransaction(em, async (em) => {
       for (const c of competitors) {
         const ratings = updatedRatings.get(c.id)!;
         const result = raceResults.find((r) => r.competitorId === c.id)!;
@@ -135,9 +142,13 @@ export class CompetitorRepository extends BaseRepository<Competitor> {
    * Also increments the current month race count and totalLifetimeRaces
    *
    * @param competitorId - Competitor UUID
+   * @param em - Entity manager of an outer transaction (optional)
    */
-  async markAsActiveThisWeek(competitorId: string): Promise<void> {
-    await this.repository.update(competitorId, {
+  async markAsActiveThisWeek(
+    competitorId: string,
+    em?: EntityManager,
+  ): Promise<void> {
+    await (em ?? this.repository.manager).update(Competitor, competitorId, {
       isActiveThisWeek: true,
       currentMonthRaceCount: () => '"currentMonthRaceCount" + 1',
       totalLifetimeRaces: () => '"totalLifetimeRaces" + 1',
@@ -196,11 +207,13 @@ export class CompetitorRepository extends BaseRepository<Competitor> {
    * Prepends new position and keeps last 5.
    *
    * @param raceResults - Array of race results with competitorId and rank12
+   * @param em - Entity manager of an outer transaction (optional)
    */
   async updateRecentPositions(
     raceResults: { competitorId: string; rank12: number }[],
+    em?: EntityManager,
   ): Promise<void> {
-    await this.repository.manager.transaction(async (em) => {
+    await this.inTransaction(em, async (em) => {
       for (const result of raceResults) {
         const competitor = await em.findOne(Competitor, {
           where: { id: result.competitorId },
@@ -292,16 +305,23 @@ export class CompetitorRepository extends BaseRepository<Competitor> {
    *
    * @param competitorId - Competitor UUID
    * @param raceDate - Date of the race
+   * @param em - Entity manager of an outer transaction (optional)
+   * @returns The streak.play_lost payload when a streak was broken, to be
+   *   emitted by the caller once the race is committed
    */
   async updatePlayStreak(
     competitorId: string,
     raceDate: Date,
-  ): Promise<void> {
-    const competitor = await this.repository.findOne({
+    em?: EntityManager,
+  ): Promise<PlayStreakLostPayload | null> {
+    const manager = em ?? this.repository.manager;
+    const competitor = await manager.findOne(Competitor, {
       where: { id: competitorId },
     });
 
-    if (!competitor) return;
+    if (!competitor) return null;
+
+    let lostStreak: PlayStreakLostPayload | null = null;
 
     let { playStreak, bestPlayStreak } = competitor;
 
@@ -315,7 +335,7 @@ export class CompetitorRepository extends BaseRepository<Competitor> {
 
       if (businessDays === 0) {
         // Same business day — no change
-        return;
+        return null;
       } else if (businessDays <= 2) {
         // Consecutive day (1) or 1-day grace (2)
         playStreak += 1;
@@ -328,7 +348,7 @@ export class CompetitorRepository extends BaseRepository<Competitor> {
           competitor.playStreakLostAt = new Date();
           competitor.playStreakLossSeenAt = null;
 
-          await this.repository.update(competitorId, {
+          await manager.update(Competitor, competitorId, {
             playStreakLostValue: playStreak,
             playStreakLostAt: new Date(),
             playStreakLossSeenAt: null,
@@ -336,17 +356,17 @@ export class CompetitorRepository extends BaseRepository<Competitor> {
           });
 
           // Find the user linked to this competitor
-          const user = await this.userRepository.findOne({
+          const user = await manager.findOne(User, {
             where: { competitorId },
           });
 
           if (user) {
-            this.eventEmitter.emit('streak.play_lost', {
+            lostStreak = {
               userId: user.id,
               lostValue: playStreak,
               lostAt: new Date(),
               missedDays: missed,
-            });
+            };
           }
         }
 
@@ -356,10 +376,12 @@ export class CompetitorRepository extends BaseRepository<Competitor> {
 
     bestPlayStreak = Math.max(bestPlayStreak, playStreak);
 
-    await this.repository.update(competitorId, {
+    await manager.update(Competitor, competitorId, {
       playStreak,
       bestPlayStreak,
     });
+
+    return lostStreak;
   }
 
   /**
@@ -370,12 +392,15 @@ export class CompetitorRepository extends BaseRepository<Competitor> {
    *
    * @param competitorId - Competitor UUID
    * @param rank12 - Race finishing position
+   * @param em - Entity manager of an outer transaction (optional)
    */
   async updateWinStreak(
     competitorId: string,
     rank12: number,
+    em?: EntityManager,
   ): Promise<void> {
-    const competitor = await this.repository.findOne({
+    const manager = em ?? this.repository.manager;
+    const competitor = await manager.findOne(Competitor, {
       where: { id: competitorId },
     });
 
@@ -392,10 +417,21 @@ export class CompetitorRepository extends BaseRepository<Competitor> {
       competitor.winStreak = 0;
     }
 
-    await this.repository.update(competitorId, {
+    await manager.update(Competitor, competitorId, {
       winStreak: competitor.winStreak,
       bestWinStreak: competitor.bestWinStreak,
       totalWins: competitor.totalWins,
     });
   }
+
+  /**
+   * Run work in the given transaction, or in a new one
+   */
+  private async inTransaction(
+    em: EntityManager | undefined,
+    work: (em: EntityManager) => Promise<void>,
+  ): Promise<void> {
+    if (em) return work(em);
+    await this.repository.manager.transaction(work);
+  }
 }
@@ -0,0 +1,124 @@
+/**
+ * Tests for competitor stats rebuilt from race history
+ *
+ * Focus on:
+ * - Lifetime counters and averages
+ * - Play streak rules (weekdays, 1-day grace)
+ * - Win streak reset at season transition
+ */
+
+import { computeDerivedStats } from '../competitor-history';
+
+describe('computeDerivedStats', () => {
+  // Wednesday of ISO week 20, 2026 (season 4)
+  const now = new Date(2026, 4, 13, 18, 0, 0);
+
+  const race = (date: Date, rank12: number) => ({ date, rank12 });
+
+  it('should return empty stats for a competitor without races', () => {
+    const stats = computeDerivedStats([], now);
+
+    expect(stats.raceCount).toBe(0);
+    expect(stats.lastRaceDate).toBeNull();
+    expect(stats.recentPositions).toBeNull();
+    expect(stats.playStreak).toBe(0);
+    expect(stats.isActiveThisWeek).toBe(false);
+  });
+
+  it('should compute lifetime counters regardless of input order', () => {
+    const stats = computeDerivedStats(
+      [
+        race(new Date(2026, 4, 13, 12), 3),
+        race(new Date(2026, 4, 11, 12), 1),
+        race(new Date(2026, 4, 12, 12), 2),
+      ],
+      now,
+    );
+
+    expect(stats.raceCount).toBe(3);
+    expect(stats.totalLifetimeRaces).toBe(3);
+    expect(stats.lifetimeAvgRank).toBe(2);
+    expect(stats.totalWins).toBe(1);
+    expect(stats.lastRaceDate).toEqual(new Date(2026, 4, 13, 12));
+    expect(stats.recentPositions).toEqual([3, 2, 1]);
+    expect(stats.isActiveThisWeek).toBe(true);
+  });
+
+  it('should keep only the last 5 positions, most recent first', () => {
+    const history = [1, 2, 3, 4, 5, 6].map((rank, i) =>
+      race(new Date(2026, 4, 4 + i, 12), rank),
+    );
+
+    expect(computeDerivedStats(history, now).recentPositions).toEqual([
+      6, 5, 4, 3, 2,
+    ]);
+  });
+
+  it('should tolerate one missed weekday in the play streak', () => {
+    const stats = computeDerivedStats(
+      [
+        race(new Date(2026, 4, 11, 12), 2), // Monday
+        race(new Date(2026, 4, 11, 13), 2), // same day: no change
+        race(new Date(2026, 4, 13, 12), 2), // Wednesday: 1-day grace
+      ],
+      now,
+    );
+
+    expect(stats.playStreak).toBe(2);
+    expect(stats.bestPlayStreak).toBe(2);
+  });
+
+  it('should break the play streak after 2 missed weekdays', () => {
+    const stats = computeDerivedStats(
+      [
+        race(new Date(2026, 4, 4, 12), 2), // Monday
+        race(new Date(2026, 4, 5, 12), 2), // Tuesday
+        race(new Date(2026, 4, 8, 12), 2), // Friday
+      ],
+      now,
+    );
+
+    expect(stats.playStreak).toBe(1);
+    expect(stats.bestPlayStreak).toBe(2);
+  });
+
+  it('should reset the win streak at season transition', () => {
+    const stats = computeDerivedStats(
+      [
+        race(new Date(2026, 3, 28, 12), 1), // season 3
+        race(new Date(2026, 3, 29, 12), 1), // season 3
+        race(new Date(2026, 4, 5, 12), 1), // season 4
+      ],
+      now,
+    );
+
+    expect(stats.winStreak).toBe(1);
+    expect(stats.bestWinStreak).toBe(2);
+    expect(stats.totalWins).toBe(3);
+  });
+
+  it('should compute seasonal average on the current season only', () => {
+    const stats = computeDerivedStats(
+      [
+        race(new Date(2026, 3, 28, 12), 10), // season 3
+        race(new Date(2026, 4, 5, 12), 2), // season 4
+        race(new Date(2026, 4, 6, 12), 4), // season 4
+      ],
+      now,
+    );
+
+    expect(stats.currentMonthRaceCount).toBe(2);
+    expect(stats.avgRank12).toBe(3);
+  });
+
+  it('should keep the last season average when no race this season', () => {
+    const stats = computeDerivedStats(
+      [race(new Date(2026, 3, 28, 12), 6), race(new Date(2026, 3, 29, 12), 8)],
+      now,
+    );
+
+    expect(stats.currentMonthRaceCount).toBe(0);
+    expect(stats.avgRank12).toBe(7);
+    expect(stats.winStreak).toBe(0);
+  });
+});
@@ -0,0 +1,144 @@
+import { businessDaysBetween } from './business-days';
+import { SeasonUtils } from '../../betting/utils/season-utils';
+import { WeekUtils } from '../../betting/services/week-manager.service';
+
+const RECENT_POSITIONS_LENGTH = 5;
+
+export interface CompetitorHistoryEntry {
+  date: Date;
+  rank12: number;
+}
+
+/**
+ * Competitor counters that are derived from the race history
+ * (everything on Competitor except the Glicko-2 rating itself).
+ */
+export interface CompetitorDerivedStats {
+  raceCount: number;
+  totalLifetimeRaces: number;
+  lifetimeAvgRank: number;
+  avgRank12: number;
+  currentMonthRaceCount: number;
+  lastRaceDate: Date | null;
+  recentPositions: number[] | null;
+  totalWins: number;
+  winStreak: number;
+  bestWinStreak: number;
+  playStreak: number;
+  bestPlayStreak: number;
+  isActiveThisWeek: boolean;
+}
+
+/**
+ * Absolute season number of a date (same numbering as betting weeks).
+ */
+export function getSeasonOfDate(date: Date): number {
+  return SeasonUtils.getSeasonNumber(
+    WeekUtils.getISOWeek(date),
+    date.getFullYear(),
+  );
+}
+
+/**
+ * Rebuild the derived competitor stats from a full race history.
+ *
+ * Mirrors the incremental updates done at race creation:
+ * - play streak: weekdays only, 1 missed weekday tolerated (updatePlayStreak)
+ * - win streak: consecutive 1st places, reset at each season transition
+ * - avgRank12 / currentMonthRaceCount: seasonal, avgRank12 keeps the last
+ *   season's value until the competitor races again (resetMonthlyStats)
+ *
+ * @param history - Every race result of the competitor (any order)
+ * @param now - Reference date for seasonal and weekly counters
+ */
+export function computeDerivedStats(
+  history: CompetitorHistoryEntry[],
+  now: Date = new Date(),
+): CompetitorDerivedStats {
+  const entries = [...history].sort(
+    (a, b) => a.date.getTime() - b.date.getTime(),
+  );
+
+  const currentSeason = getSeasonOfDate(now);
+  const weekStart = WeekUtils.getMondayOfWeek(
+    now.getFullYear(),
+    WeekUtils.getISOWeek(now),
+  );
+
+  let rankSum = 0;
+  let totalWins = 0;
+  let winStreak = 0;
+  let bestWinStreak = 0;
+  let playStreak = 0;
+  let bestPlayStreak = 0;
+  let previousDate: Date | null = null;
+  let previousSeason: number | null = null;
+  const seasonRanks = new Map<number, number[]>();
+
+  for (const entry of entries) {
+    const season = getSeasonOfDate(entry.date);
+    rankSum += entry.rank12;
+
+    if (!seasonRanks.has(season)) seasonRanks.set(season, []);
+    seasonRanks.get(season)!.push(entry.rank12);
+
+    // Win streaks are reset by the season soft reset
+    if (previousSeason !== null && season !== previousSeason) {
+      winStreak = 0;
+    }
+    if (entry.rank12 === 1) {
+      winStreak += 1;
+      totalWins += 1;
+      bestWinStreak = Math.max(bestWinStreak, winStreak);
+    } else {
+      winStreak = 0;
+    }
+
+    if (!previousDate) {
+      playStreak = 1;
+    } else {
+      const businessDays = businessDaysBetween(previousDate, entry.date);
+      if (businessDays > 0) {
+        playStreak = businessDays <= 2 ? playStreak + 1 : 1;
+      }
+    }
+    bestPlayStreak = Math.max(bestPlayStreak, playStreak);
+
+    previousDate = entry.date;
+    previousSeason = season;
+  }
+
+  const currentSeasonRanks = seasonRanks.get(currentSeason) ?? [];
+  const lastSeasonRanks =
+    currentSeasonRanks.length > 0
+      ? currentSeasonRanks
+      : previousSeason !== null
+        ? seasonRanks.get(previousSeason)!
+        : [];
+  const average = (values: number[]) =>
+    values.length > 0
+      ? values.reduce((sum, v) => sum + v, 0) / values.length
+      : 0;
+
+  return {
+    raceCount: entries.length,
+    totalLifetimeRaces: entries.length,
+    lifetimeAvgRank: entries.length > 0 ? rankSum / entries.length : 0,
+    avgRank12: average(lastSeasonRanks),
+    currentMonthRaceCount: currentSeasonRanks.length,
+    lastRaceDate: previousDate,
+    recentPositions:
+      entries.length > 0
+        ? entries
+            .slice(-RECENT_POSITIONS_LENGTH)
+            .map((e) => e.rank12)
+            .reverse()
+        : null,
+    totalWins,
+    winStreak: previousSeason === currentSeason ? winStreak : 0,
+    bestWinStreak,
+    playStreak,
+    bestPlayStreak,
+    isActiveThisWeek: previousDate !== null && previousDate >= weekStart,
+  };
+}
@@ -56,11 +56,11 @@ export class Duel {
   @Column({ nullable: true })
   raceEventId: string;
 
-  @Column({ nullable: true })
-  winnerUserId: string;
+  @Column({ type: 'varchar', nullable: true })
+  winnerUserId: string | null;
 
-  @Column({ nullable: true })
-  loserUserId: string;
+  @Column({ type: 'varchar', nullable: true })
+  loserUserId: string | null;
 
   @CreateDateColumn()
   createdAt: Date;
@@ -1,6 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { OnEvent } from '@nestjs/event-emitter';
 import { RaceCreatedEvent } from '../races/events/race-created.event';
+import { RaceCorrectedEvent } from '../races/events/race-corrected.event';
 import { DuelsService } from './duels.service';
 
 @Injectable()
@@ -9,7 +10,8 @@ export class DuelsListener {
 
   constructor(private readonly duelsService: DuelsService) {}
 
-  @OnEvent('race.created')
+  // Errors are rethrown so the outbox retries the event
+  @OnEvent('race.created', { suppressErrors: false })
   async handleRaceCreated(event: RaceCreatedEvent) {
     this.logger.log(`Race created event received for duel resolution: ${event.race.id}`);
 
@@ -20,6 +22,23 @@ export class DuelsListener {
         `Failed to resolve duels for race ${event.race.id}:`,
         error instanceof Error ? error.stack : undefined,
       );
+      throw error;
+    }
+  }
+
+  @OnEvent('race.corrected')
+  async handleRaceCorrected(event: RaceCorrectedEvent) {
+    this.logger.log(
+      `Race corrected event received for duel re-settlement: ${event.raceId}`,
+    );
+
+    try {
+      await this.duelsService.resettleDuelsForCorrectedRace(event);
+    } catch (error) {
+      this.logger.error(
+        `Failed to re-settle duels for race ${event.raceId}:`,
+        error instanceof Error ? error.stack : undefined,
+      );
     }
   }
 }
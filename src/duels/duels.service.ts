@@ -13,6 +13,8 @@ import { User, UserRole } from '../users/user.entity';
 import { BettorRanking } from '../betting/entities/bettor-ranking.entity';
 import { RaceEvent } from '../races/race-event.entity';
 import { RaceResult } from '../races/race-result.entity';
+import { RaceCorrectedEvent } from '../races/events/race-corrected.event';
+import { getTeamRanks } from '../races/utils/team-standings';
 import { SeasonUtils } from '../betting/utils/season-utils';
 import { WeekUtils } from '../betting/services/week-manager.service';
 import { CreateDuelDto } from './dtos/create-duel.dto';
@@ -276,50 +278,179 @@ export class DuelsService {
     const seasonNumber = SeasonUtils.getSeasonNumber(WeekUtils.getISOWeek(now), year);
 
     for (const duel of acceptedDuels) {
-      const challengerResult = resultsByCompetitor.get(duel.challengerCompetitorId);
-      const challengedResult = resultsByCompetitor.get(duel.challengedCompetitorId);
+      await this.settleDuel(
+        duel,
+        race.id,
+        resultsByCompetitor,
+        now,
+        seasonNumber,
+        year,
+      );
+    }
+  }
 
-      if (!challengerResult || !challengedResult) {
-        // One or both absent → cancel, refund
-        duel.status = DuelStatus.CANCELLED;
-        duel.raceEventId = race.id;
-        duel.resolvedAt = now;
-        await this.duelRepository.save(duel);
+  /**
+   * Re-settle duels that were resolved against a race which has since
+   * been corrected or deleted: the previous point transfer is reversed,
+   * then the duel is resolved again against the corrected results
+   * (or cancelled if the race no longer exists).
+   */
+  async resettleDuelsForCorrectedRace(
+    event: RaceCorrectedEvent,
+  ): Promise<void> {
+    const duels = await this.duelRepository.find({
+      where: {
+        raceEventId: event.raceId,
+        status: In([DuelStatus.RESOLVED, DuelStatus.CANCELLED]),
+      },
+    });
 
-        this.eventEmitter.emit('duel.cancelled', { duel, reason: 'absent' });
-        this.logger.log(`Duel ${duel.id} cancelled: competitor(s) absent from race ${race.id}`);
-        continue;
-      }
+    if (duels.length === 0) {
+      this.logger.log(`No duels settled on race ${event.raceId}`);
+      return;
+    }
 
-      duel.raceEventId = race.id;
-      duel.resolvedAt = now;
+    const resultsByCompetitor = new Map(
+      (event.race?.results ?? []).map((r) => [r.competitorId, r]),
+    );
 
-      if (challengerResult.rank12 === challengedResult.rank12) {
-        // Tie → refund both
+    for (const duel of duels) {
+      const settledAt = duel.resolvedAt ?? new Date();
+      const year = settledAt.getFullYear();
+      const seasonNumber = SeasonUtils.getSeasonNumber(
+        WeekUtils.getISOWeek(settledAt),
+        year,
+      );
+
+      if (
+        duel.status === DuelStatus.RESOLVED &&
+        duel.winnerUserId &&
+        duel.loserUserId
+      ) {
+        await this.transferPoints(
+          duel.loserUserId,
+          duel.winnerUserId,
+          duel.stake,
+          seasonNumber,
+          year,
+        );
+      }
+      duel.winnerUserId = null;
+      duel.loserUserId = null;
+
+      if (!event.race) {
         duel.status = DuelStatus.CANCELLED;
         await this.duelRepository.save(duel);
 
-        this.eventEmitter.emit('duel.cancelled', { duel, reason: 'tie' });
-        this.logger.log(`Duel ${duel.id} tied: both rank ${challengerResult.rank12}`);
+        this.eventEmitter.emit('duel.cancelled', {
+          duel,
+          reason: 'race_deleted',
+        });
+        this.logger.log(
+          `Duel ${duel.id} cancelled: race ${event.raceId} was deleted`,
+        );
         continue;
       }
 
-      // Lower rank12 = better placement
-      const challengerWins = challengerResult.rank12 < challengedResult.rank12;
-      duel.winnerUserId = challengerWins ? duel.challengerUserId : duel.challengedUserId;
-      duel.loserUserId = challengerWins ? duel.challengedUserId : duel.challengerUserId;
-      duel.status = DuelStatus.RESOLVED;
+      await this.settleDuel(
+        duel,
+        event.raceId,
+        resultsByCompetitor,
+        settledAt,
+        seasonNumber,
+        year,
+      );
+    }
+  }
 
-      await this.duelRepository.save(duel);
+  private async settleDuel(
+    duel: Duel,
+    raceId: string,
+    resultsByCompetitor: Map<string, RaceResult>,
+    now: Date,
+    seasonNumber: number,
+    year: number,
+  ): Promise<void> {
+    const challengerResult = resultsByCompetitor.get(
+      duel.challengerCompetitorId,
+    );
+    const challengedResult = resultsByCompetitor.get(
+      duel.challengedCompetitorId,
+    );
 
-      // Transfer points
-      await this.transferPoints(duel.winnerUserId, duel.loserUserId, duel.stake, seasonNumber, year);
+    if (!challengerResult || !challengedResult) {
+      // One or both absent → cancel, refund
+      duel.status = DuelStatus.CANCELLED;
+      duel.raceEventId = raceId;
+      duel.resolvedAt = now;
+      await this.duelRepository.save(duel);
 
-      this.eventEmitter.emit('duel.resolved', { duel });
+      this.eventEmitter.emit('duel.cancelled', { duel, reason: 'absent' });
       this.logger.log(
-        `Duel ${duel.id} resolved: winner=${duel.winnerUserId}, stake=${duel.stake}`,
+        `Duel ${duel.id} cancelled: competitor(s) absent from race ${raceId}`,
       );
+      return;
     }
+
+    duel.raceEventId = raceId;
+    duel.resolvedAt = now;
+
+    // Team race: teammates can't settle a duel, opponents are compared
+    // on their team's rank rather than their own placement
+    const teamRanks = getTeamRanks([...resultsByCompetitor.values()]);
+    if (teamRanks && challengerResult.team === challengedResult.team) {
+      duel.status = DuelStatus.CANCELLED;
+      await this.duelRepository.save(duel);
+
+      this.eventEmitter.emit('duel.cancelled', { duel, reason: 'teammates' });
+      this.logger.log(`Duel ${duel.id} cancelled: teammates in race ${raceId}`);
+      return;
+    }
+
+    const challengerRank = teamRanks
+      ? teamRanks.get(challengerResult.competitorId)!
+      : challengerResult.rank12;
+    const challengedRank = teamRanks
+      ? teamRanks.get(challengedResult.competitorId)!
+      : challengedResult.rank12;
+
+    if (challengerRank === challengedRank) {
+      // Tie → refund both
+      duel.status = DuelStatus.CANCELLED;
+      await this.duelRepository.save(duel);
+
+      this.eventEmitter.emit('duel.cancelled', { duel, reason: 'tie' });
+      this.logger.log(`Duel ${duel.id} tied: both rank ${challengerRank}`);
+      return;
+    }
+
+    // Lower rank = better placement
+    const challengerWins = challengerRank < challengedRank;
+    const winnerUserId = challengerWins
+      ? duel.challengerUserId
+      : duel.challengedUserId;
+    const loserUserId = challengerWins
+      ? duel.challengedUserId
+      : duel.challengerUserId;
+    duel.winnerUserId = winnerUserId;
+    duel.loserUserId = loserUserId;
+    duel.status = DuelStatus.RESOLVED;
+
+    await this.duelRepository.save(duel);
+
+    // Transfer points
+    await this.transferPoints(
+      winnerUserId,
+      loserUserId,
+      duel.stake,
+      seasonNumber,
+      year,
+    );
+
+    this.eventEmitter.emit('duel.resolved', { duel });
+    this.logger.log(
+      `Duel ${duel.id} resolved: winner=${winnerUserId}, stake=${duel.stake}`,
+    );
   }
 
   private async transferPoints(
@@ -1,6 +1,9 @@
 export const LIVE_BETTING_CONFIG = {
   DETECTION_CONFIRM_SECONDS: 30,
   SESSION_EXPIRY_SECONDS: 900, // 15 min
+  SESSION_JOIN_SECONDS: 120, // joining window once the lineup is confirmed
   MIN_COMPETITOR_OVERLAP: 0.75,
   DETECTION_CONFIDENCE_THRESHOLD: 0.6,
+  MAX_MARKET_POSITION: 4, // players on the kart-select screen
+  CASH_OUT_MARGIN: 0.9, // applied to the win probability of a cash-out
 };
@@ -1,7 +1,33 @@
-import { IsNotEmpty, IsString } from 'class-validator';
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { LiveBetMarketType } from '../entities/live-bet.entity';
+import { LIVE_BETTING_CONFIG } from '../config/live-betting.config';
 
 export class CreateLiveBetDto {
   @IsString()
   @IsNotEmpty()
   competitorId: string;
+
+  @IsOptional()
+  @IsEnum(LiveBetMarketType)
+  marketType?: LiveBetMarketType; // Defaults to winner
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(LIVE_BETTING_CONFIG.MAX_MARKET_POSITION)
+  @Type(() => Number)
+  marketPosition?: number; // N of top-N, position of exact position
+
+  @IsOptional()
+  @IsString()
+  opponentCompetitorId?: string; // Head-to-head only
 }
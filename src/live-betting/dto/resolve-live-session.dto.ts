@@ -0,0 +1,6 @@
+import { IsUUID } from 'class-validator';
+
+export class ResolveLiveSessionDto {
+  @IsUUID()
+  raceId: string; // One of the candidate races of the session
+}
@@ -10,13 +10,23 @@ import {
 import { User } from '../../users/user.entity';
 import { Competitor } from '../../competitors/competitor.entity';
 import { RaceEvent } from '../../races/race-event.entity';
+import { LiveRaceSession } from './live-race-session.entity';
 
 export enum LiveBetStatus {
   DETECTING = 'detecting',
   ACTIVE = 'active',
+  AWAITING_ACCEPTANCE = 'awaiting_acceptance',
   WON = 'won',
   LOST = 'lost',
   CANCELLED = 'cancelled',
+  CASHED_OUT = 'cashed_out',
+}
+
+export enum LiveBetMarketType {
+  WINNER = 'winner',
+  TOP_N = 'top_n',
+  EXACT_POSITION = 'exact_position',
+  HEAD_TO_HEAD = 'head_to_head',
 }
 
 export interface DetectedCharacter {
@@ -28,6 +38,7 @@ export interface DetectedCharacter {
 @Entity('live_bets')
 @Index(['userId', 'status'])
 @Index(['status', 'expiresAt'])
+@Index(['sessionId', 'userId'], { unique: true })
 export class LiveBet {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -39,6 +50,13 @@ export class LiveBet {
   @JoinColumn({ name: 'userId' })
   user: User;
 
+  @Column()
+  sessionId: string;
+
+  @ManyToOne(() => LiveRaceSession, (session) => session.liveBets)
+  @JoinColumn({ name: 'sessionId' })
+  session: LiveRaceSession;
+
   @Column()
   competitorId: string;
 
@@ -46,9 +64,37 @@ export class LiveBet {
   @JoinColumn({ name: 'competitorId' })
   competitor: Competitor;
 
+  @Column({
+    type: 'enum',
+    enum: LiveBetMarketType,
+    enumName: 'live_bet_market_type_enum',
+    default: LiveBetMarketType.WINNER,
+  })
+  marketType: LiveBetMarketType;
+
+  // N of a top-N market, position of an exact position market
+  @Column({ type: 'int', nullable: true })
+  marketPosition: number | null;
+
+  // Competitor to beat in a head-to-head market
+  @Column({ type: 'varchar', nullable: true })
+  opponentCompetitorId: string | null;
+
+  @ManyToOne(() => Competitor)
+  @JoinColumn({ name: 'opponentCompetitorId' })
+  opponentCompetitor: Competitor | null;
+
   @Column({ type: 'float' })
   oddAtBet: number;
 
+  // Lineup oddAtBet was priced on (null: provisional weekly odd)
+  @Column({ type: 'jsonb', nullable: true })
+  pricedCompetitorIds: string[] | null;
+
+  // Odd re-quoted on a changed lineup, waiting for the bettor to accept it
+  @Column({ type: 'float', nullable: true })
+  quotedOdd: number | null;
+
   @Column()
   photoUrl: string;
 
@@ -67,7 +113,11 @@ export class LiveBet {
   @Column({ type: 'varchar', nullable: true })
   raceEventId: string | null;
 
-  @ManyToOne(() => RaceEvent, { nullable: true })
+  // No FK: the race may be deleted after settlement (see race.corrected)
+  @ManyToOne(() => RaceEvent, {
+    nullable: true,
+    createForeignKeyConstraints: false,
+  })
   @JoinColumn({ name: 'raceEventId' })
   raceEvent: RaceEvent;
 
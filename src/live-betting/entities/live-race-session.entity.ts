@@ -0,0 +1,90 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/user.entity';
+import { RaceEvent } from '../../races/race-event.entity';
+import { DetectedCharacter, LiveBet } from './live-bet.entity';
+
+export enum LiveRaceSessionStatus {
+  DETECTING = 'detecting',
+  ACTIVE = 'active',
+  REVIEW = 'review', // matched more than one race, waiting for an admin
+  RESOLVED = 'resolved',
+  CANCELLED = 'cancelled',
+}
+
+/**
+ * One kart-select screen: photo, detection and lineup shared by the live
+ * bets of every spectator who joins it before it locks
+ */
+@Entity('live_race_sessions')
+@Index(['status', 'expiresAt'])
+export class LiveRaceSession {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  createdById: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'createdById' })
+  createdBy: User;
+
+  @Column()
+  photoUrl: string;
+
+  @Column({ type: 'jsonb', nullable: true })
+  detectedCharacters: DetectedCharacter[] | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  confirmedCompetitorIds: string[] | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  detectionExpiresAt: Date | null;
+
+  // No more bets after this (set when the lineup is confirmed)
+  @Column({ type: 'timestamptz', nullable: true })
+  locksAt: Date | null;
+
+  @Column({ type: 'timestamptz' })
+  expiresAt: Date;
+
+  @Column({ type: 'varchar', nullable: true })
+  raceEventId: string | null;
+
+  // Races the session matched, when under review
+  @Column({ type: 'jsonb', nullable: true })
+  candidateRaceIds: string[] | null;
+
+  // No FK: the race may be deleted after settlement (see race.corrected)
+  @ManyToOne(() => RaceEvent, {
+    nullable: true,
+    createForeignKeyConstraints: false,
+  })
+  @JoinColumn({ name: 'raceEventId' })
+  raceEvent: RaceEvent;
+
+  @Column({
+    type: 'enum',
+    enum: LiveRaceSessionStatus,
+    enumName: 'live_race_session_status_enum',
+    default: LiveRaceSessionStatus.DETECTING,
+  })
+  status: LiveRaceSessionStatus;
+
+  @OneToMany(() => LiveBet, (liveBet) => liveBet.session)
+  liveBets: LiveBet[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  resolvedAt: Date | null;
+}
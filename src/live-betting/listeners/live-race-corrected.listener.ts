@@ -0,0 +1,27 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { RaceCorrectedEvent } from '../../races/events/race-corrected.event';
+import { LiveBettingService } from '../services/live-betting.service';
+
+@Injectable()
+export class LiveRaceCorrectedListener {
+  private readonly logger = new Logger(LiveRaceCorrectedListener.name);
+
+  constructor(private readonly liveBettingService: LiveBettingService) {}
+
+  @OnEvent('race.corrected')
+  async handleRaceCorrected(event: RaceCorrectedEvent) {
+    this.logger.log(
+      `Race corrected event received for live bet re-settlement: ${event.raceId}`,
+    );
+
+    try {
+      await this.liveBettingService.resettleForCorrectedRace(event);
+    } catch (error) {
+      this.logger.error(
+        `Failed to re-settle live bets for race ${event.raceId}:`,
+        error instanceof Error ? error.stack : undefined,
+      );
+    }
+  }
+}
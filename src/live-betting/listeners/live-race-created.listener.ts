@@ -9,7 +9,8 @@ export class LiveRaceCreatedListener {
 
   constructor(private readonly liveBettingService: LiveBettingService) {}
 
-  @OnEvent('race.created')
+  // Errors are rethrown so the outbox retries the event
+  @OnEvent('race.created', { suppressErrors: false })
   async handleRaceCreated(event: RaceCreatedEvent) {
     this.logger.log(
       `Race created event received for live bet resolution: ${event.race.id}`,
@@ -22,6 +23,7 @@ export class LiveRaceCreatedListener {
         `Failed to resolve live bets for race ${event.race.id}:`,
         error instanceof Error ? error.stack : undefined,
       );
+      throw error;
     }
   }
 }
@@ -10,25 +10,50 @@ import {
   UseInterceptors,
   UploadedFile,
   BadRequestException,
+  ForbiddenException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { FileInterceptor } from '@nestjs/platform-express';
-import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+} from '@nestjs/swagger';
 import { ClerkGuard } from '../auth/clerk.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { Public } from '../auth/decorators/public.decorator';
 import { LiveBettingService } from './services/live-betting.service';
 import { CreateLiveBetDto } from './dto/create-live-bet.dto';
 import { ConfirmDetectionDto } from './dto/confirm-detection.dto';
+import { RespondQuoteDto } from './dto/respond-quote.dto';
+import { ResolveLiveSessionDto } from './dto/resolve-live-session.dto';
 
 @ApiTags('live-betting')
 @ApiBearerAuth()
 @Controller('live-betting')
 @UseGuards(ClerkGuard)
 export class LiveBettingController {
-  constructor(private readonly liveBettingService: LiveBettingService) {}
+  constructor(
+    private readonly liveBettingService: LiveBettingService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Helper method to check the ADMIN_SECRET query parameter of admin routes
+   */
+  private assertAdminSecret(secret: string): void {
+    const adminSecret = this.configService.get<string>('ADMIN_SECRET');
+    if (!adminSecret || secret !== adminSecret) {
+      throw new ForbiddenException('Invalid admin secret');
+    }
+  }
 
   @Post()
-  @ApiOperation({ summary: 'Create a new live bet with photo proof' })
+  @ApiOperation({
+    summary: 'Open a live session with photo proof and bet on it',
+  })
   @UseInterceptors(FileInterceptor('photo'))
   async createLiveBet(
     @CurrentUser('clerkId') clerkId: string,
@@ -38,11 +63,80 @@ export class LiveBettingController {
     if (!file) {
       throw new BadRequestException('Photo is required');
     }
-    return this.liveBettingService.createLiveBet(
-      clerkId,
-      dto.competitorId,
-      file,
-    );
+    return this.liveBettingService.createLiveBet(clerkId, dto, file);
+  }
+
+  /**
+   * Sessions that matched more than one race
+   * Protected by ADMIN_SECRET query parameter
+   */
+  @Public()
+  @Get('review-queue')
+  @ApiOperation({ summary: 'Get live sessions that matched several races' })
+  @ApiQuery({ name: 'secret', required: true, type: String })
+  @ApiResponse({ status: 403, description: 'Invalid admin secret' })
+  async getReviewQueue(@Query('secret') secret: string) {
+    this.assertAdminSecret(secret);
+    return this.liveBettingService.getReviewQueue();
+  }
+
+  /**
+   * Settle a session under review on a race
+   * Protected by ADMIN_SECRET query parameter
+   */
+  @Public()
+  @Post('sessions/:sessionId/review/resolve')
+  @ApiOperation({ summary: 'Settle a live session under review on a race' })
+  @ApiQuery({ name: 'secret', required: true, type: String })
+  @ApiResponse({ status: 403, description: 'Invalid admin secret' })
+  async resolveReview(
+    @Query('secret') secret: string,
+    @Param('sessionId') sessionId: string,
+    @Body() dto: ResolveLiveSessionDto,
+  ) {
+    this.assertAdminSecret(secret);
+    return this.liveBettingService.resolveReview(sessionId, dto.raceId);
+  }
+
+  /**
+   * Cancel a session under review with its bets
+   * Protected by ADMIN_SECRET query parameter
+   */
+  @Public()
+  @Post('sessions/:sessionId/review/cancel')
+  @ApiOperation({ summary: 'Cancel a live session under review' })
+  @ApiQuery({ name: 'secret', required: true, type: String })
+  @ApiResponse({ status: 403, description: 'Invalid admin secret' })
+  async cancelReview(
+    @Query('secret') secret: string,
+    @Param('sessionId') sessionId: string,
+  ) {
+    this.assertAdminSecret(secret);
+    return this.liveBettingService.cancelReview(sessionId);
+  }
+
+  @Get('sessions/open')
+  @ApiOperation({ summary: 'Get live sessions still open to bets' })
+  async getOpenSessions() {
+    return this.liveBettingService.getOpenSessions();
+  }
+
+  @Get('sessions/:sessionId')
+  @ApiOperation({ summary: 'Get a live session with its bets' })
+  async getSession(@Param('sessionId') sessionId: string) {
+    return this.liveBettingService.getSession(sessionId);
+  }
+
+  @Post('sessions/:sessionId/bets')
+  @ApiOperation({
+    summary: 'Bet on the lineup of a live session opened by someone else',
+  })
+  async joinSession(
+    @Param('sessionId') sessionId: string,
+    @CurrentUser('clerkId') clerkId: string,
+    @Body() dto: CreateLiveBetDto,
+  ) {
+    return this.liveBettingService.joinSession(sessionId, clerkId, dto);
   }
 
   @Patch(':id/confirm')
@@ -59,6 +153,29 @@ export class LiveBettingController {
     );
   }
 
+  @Patch(':id/quote')
+  @ApiOperation({
+    summary: 'Accept or decline the odd re-quoted on the lineup',
+  })
+  async respondToQuote(
+    @Param('id') id: string,
+    @CurrentUser('clerkId') clerkId: string,
+    @Body() dto: RespondQuoteDto,
+  ) {
+    return this.liveBettingService.respondToQuote(id, clerkId, dto.accept);
+  }
+
+  @Post(':id/cash-out')
+  @ApiOperation({
+    summary: 'Cash out an active live bet before its session locks',
+  })
+  async cashOut(
+    @Param('id') id: string,
+    @CurrentUser('clerkId') clerkId: string,
+  ) {
+    return this.liveBettingService.cashOut(id, clerkId);
+  }
+
   @Get('active')
   @ApiOperation({ summary: 'Get my active live bets' })
   async getActiveBets(@CurrentUser('clerkId') clerkId: string) {
@@ -1,21 +1,25 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { LiveBet } from './entities/live-bet.entity';
+import { LiveRaceSession } from './entities/live-race-session.entity';
 import { LiveBettingController } from './live-betting.controller';
 import { LiveBettingService } from './services/live-betting.service';
 import { CharacterDetectorService } from './services/character-detector.service';
 import { LiveRaceCreatedListener } from './listeners/live-race-created.listener';
+import { LiveRaceCorrectedListener } from './listeners/live-race-corrected.listener';
 import { User } from '../users/user.entity';
 import { BettorRanking } from '../betting/entities/bettor-ranking.entity';
 import { CompetitorOdds } from '../betting/entities/competitor-odds.entity';
 import { BettingWeek } from '../betting/entities/betting-week.entity';
 import { RaceResult } from '../races/race-result.entity';
 import { CharacterVariantsModule } from '../character-variants/character-variants.module';
+import { BettingModule } from '../betting/betting.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([
       LiveBet,
+      LiveRaceSession,
       User,
       BettorRanking,
       CompetitorOdds,
@@ -23,9 +27,15 @@ import { CharacterVariantsModule } from '../character-variants/character-variant
       RaceResult,
     ]),
     CharacterVariantsModule,
+    BettingModule,
   ],
   controllers: [LiveBettingController],
-  providers: [LiveBettingService, CharacterDetectorService, LiveRaceCreatedListener],
+  providers: [
+    LiveBettingService,
+    CharacterDetectorService,
+    LiveRaceCreatedListener,
+    LiveRaceCorrectedListener,
+  ],
   exports: [LiveBettingService],
 })
 export class LiveBettingModule {}
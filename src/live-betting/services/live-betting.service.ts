@@ -2,22 +2,45 @@ import {
   Injectable,
   Logger,
   BadRequestException,
+  ConflictException,
   NotFoundException,
   ForbiddenException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, In, LessThanOrEqual, MoreThanOrEqual } from 'typeorm';
 import { EventEmitter2 } from '@nestjs/event-emitter';
-import { LiveBet, LiveBetStatus } from '../entities/live-bet.entity';
+import {
+  LiveBet,
+  LiveBetMarketType,
+  LiveBetStatus,
+} from '../entities/live-bet.entity';
+import {
+  LiveRaceSession,
+  LiveRaceSessionStatus,
+} from '../entities/live-race-session.entity';
 import { User } from '../../users/user.entity';
 import { BettorRanking } from '../../betting/entities/bettor-ranking.entity';
 import { CompetitorOdds } from '../../betting/entities/competitor-odds.entity';
 import { BettingWeek, BettingWeekStatus } from '../../betting/entities/betting-week.entity';
 import { RaceEvent } from '../../races/race-event.entity';
 import { RaceResult } from '../../races/race-result.entity';
+import { RaceCorrectedEvent } from '../../races/events/race-corrected.event';
+import { getTeamRanks } from '../../races/utils/team-standings';
 import { CharacterDetectorService } from './character-detector.service';
 import { UploadService } from '../../upload/upload.service';
+import { OddsCalculatorService } from '../../betting/services/odds-calculator.service';
 import { LIVE_BETTING_CONFIG } from '../config/live-betting.config';
+import { CreateLiveBetDto } from '../dto/create-live-bet.dto';
+import {
+  getCashOutValue,
+  getMarketProbability,
+  LiveMarketLike,
+  resolveLiveMarket,
+} from '../utils/live-market-utils';
+import {
+  getLineupOverlap,
+  rankSessionMatches,
+} from '../utils/live-session-matching';
 import { SeasonUtils } from '../../betting/utils/season-utils';
 import { WeekUtils } from '../../betting/services/week-manager.service';
 import * as fs from 'fs';
@@ -29,6 +52,8 @@ export class LiveBettingService {
   constructor(
     @InjectRepository(LiveBet)
     private readonly liveBetRepository: Repository<LiveBet>,
+    @InjectRepository(LiveRaceSession)
+    private readonly sessionRepository: Repository<LiveRaceSession>,
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
     @InjectRepository(BettorRanking)
@@ -41,34 +66,30 @@ export class LiveBettingService {
     private readonly raceResultRepository: Repository<RaceResult>,
     private readonly characterDetector: CharacterDetectorService,
     private readonly uploadService: UploadService,
+    private readonly oddsCalculatorService: OddsCalculatorService,
     private readonly eventEmitter: EventEmitter2,
   ) {}
 
+  /**
+   * Open a live race session from a photo of the kart-select screen, with
+   * the live bet of its creator. Detection runs once for the session.
+   */
   async createLiveBet(
     userClerkId: string,
-    competitorId: string,
+    dto: CreateLiveBetDto,
     file: Express.Multer.File,
   ): Promise<LiveBet> {
+    const market = this.toMarket(dto);
+
     const user = await this.userRepository.findOne({
       where: { clerkId: userClerkId },
     });
     if (!user) throw new NotFoundException('User not found');
 
-    // Check no existing active/detecting bet
-    const existing = await this.liveBetRepository.findOne({
-      where: {
-        userId: user.id,
-        status: In([LiveBetStatus.DETECTING, LiveBetStatus.ACTIVE]),
-      },
-    });
-    if (existing) {
-      throw new BadRequestException(
-        'You already have an active live bet. Wait for it to resolve or expire.',
-      );
-    }
+    await this.assertNoActiveBet(user.id);
 
-    // Get oddFirst for the competitor
-    const odd = await this.getOddForCompetitor(competitorId);
+    // Provisional odd until detection prices the lineup
+    const odd = await this.getProvisionalOdd(market);
 
     const now = new Date();
     const expiresAt = new Date(
@@ -80,10 +101,20 @@ export class LiveBettingService {
     const base64 = fs.readFileSync(filePath).toString('base64');
     const photoUrl = `/uploads/${file.filename}`;
 
+    const session = await this.sessionRepository.save(
+      this.sessionRepository.create({
+        createdById: user.id,
+        photoUrl,
+        status: LiveRaceSessionStatus.DETECTING,
+        expiresAt,
+      }),
+    );
+
     // Create bet with DETECTING status
     const liveBet = this.liveBetRepository.create({
+      sessionId: session.id,
       userId: user.id,
-      competitorId,
+      ...market,
       oddAtBet: odd,
       photoUrl,
       status: LiveBetStatus.DETECTING,
@@ -92,9 +123,9 @@ export class LiveBettingService {
     const saved = await this.liveBetRepository.save(liveBet);
 
     // Run detection asynchronously
-    this.runDetection(saved.id, base64).catch((err) => {
+    this.runDetection(session.id, base64).catch((err) => {
       this.logger.error(
-        `Detection failed for live bet ${saved.id}:`,
+        `Detection failed for live session ${session.id}:`,
         err instanceof Error ? err.stack : undefined,
       );
     });
@@ -102,54 +133,172 @@ export class LiveBettingService {
     return saved;
   }
 
-  private async runDetection(
-    liveBetId: string,
-    base64: string,
-  ): Promise<void> {
-    const liveBet = await this.liveBetRepository.findOne({
-      where: { id: liveBetId },
+  /**
+   * Place a live bet on a session opened by another spectator, against its
+   * lineup: priced at once on a confirmed lineup, otherwise confirmed with
+   * the other bets of the session
+   *
+   * @throws BadRequestException if the session is locked or the
+   * competitors are not in its confirmed lineup
+   * @throws ConflictException if the user already bet on the session
+   */
+  async joinSession(
+    sessionId: string,
+    userClerkId: string,
+    dto: CreateLiveBetDto,
+  ): Promise<LiveBet> {
+    const market = this.toMarket(dto);
+
+    const user = await this.userRepository.findOne({
+      where: { clerkId: userClerkId },
     });
-    if (!liveBet || liveBet.status !== LiveBetStatus.DETECTING) return;
+    if (!user) throw new NotFoundException('User not found');
+
+    const session = await this.findSession(sessionId);
+    if (!this.isJoinable(session, new Date())) {
+      throw new BadRequestException('This live session is locked');
+    }
+    const joined = await this.liveBetRepository.exists({
+      where: { sessionId, userId: user.id },
+    });
+    if (joined) {
+      throw new ConflictException('You already bet on this live session');
+    }
+    await this.assertNoActiveBet(user.id);
+
+    const confirmed = session.confirmedCompetitorIds;
+    if (
+      confirmed &&
+      [market.competitorId, market.opponentCompetitorId].some(
+        (id) => id && !confirmed.includes(id),
+      )
+    ) {
+      throw new BadRequestException(
+        'Competitors must be in the lineup of the session',
+      );
+    }
+
+    const lineup = confirmed ?? this.getDetectedIds(session);
+    const odd =
+      lineup.length > 0
+        ? await this.priceMarket(market, lineup)
+        : await this.getProvisionalOdd(market);
+
+    const liveBet = await this.liveBetRepository.save(
+      this.liveBetRepository.create({
+        sessionId,
+        userId: user.id,
+        ...market,
+        oddAtBet: odd,
+        pricedCompetitorIds: lineup.length > 0 ? lineup : null,
+        photoUrl: session.photoUrl,
+        detectedCharacters: session.detectedCharacters,
+        detectionExpiresAt: session.detectionExpiresAt,
+        confirmedCompetitorIds: confirmed,
+        status:
+          session.status === LiveRaceSessionStatus.ACTIVE
+            ? LiveBetStatus.ACTIVE
+            : LiveBetStatus.DETECTING,
+        expiresAt: session.expiresAt,
+      }),
+    );
+
+    this.logger.log(
+      `Live bet ${liveBet.id} joined session ${sessionId} @ ${odd}`,
+    );
+    return liveBet;
+  }
+
+  /**
+   * Sessions still open to bets, latest first
+   */
+  async getOpenSessions(): Promise<LiveRaceSession[]> {
+    const now = new Date();
+    return this.sessionRepository
+      .createQueryBuilder('session')
+      .leftJoinAndSelect('session.createdBy', 'createdBy')
+      .where('session.status IN (:...statuses)', {
+        statuses: [
+          LiveRaceSessionStatus.DETECTING,
+          LiveRaceSessionStatus.ACTIVE,
+        ],
+      })
+      .andWhere('session.expiresAt > :now', { now })
+      .andWhere('(session.locksAt IS NULL OR session.locksAt > :now)', { now })
+      .orderBy('session.createdAt', 'DESC')
+      .getMany();
+  }
+
+  /**
+   * A session with the live bets placed on it
+   */
+  async getSession(sessionId: string): Promise<LiveRaceSession> {
+    const session = await this.sessionRepository.findOne({
+      where: { id: sessionId },
+      relations: [
+        'createdBy',
+        'liveBets',
+        'liveBets.competitor',
+        'liveBets.opponentCompetitor',
+      ],
+    });
+    if (!session) throw new NotFoundException('Live session not found');
+    return session;
+  }
+
+  private async runDetection(sessionId: string, base64: string): Promise<void> {
+    const session = await this.sessionRepository.findOne({
+      where: { id: sessionId },
+    });
+    if (!session || session.status !== LiveRaceSessionStatus.DETECTING) {
+      return;
+    }
 
     try {
       const result = await this.characterDetector.detectCharacters(base64);
 
       const now = new Date();
-      liveBet.detectedCharacters = result.characters;
-      liveBet.detectionExpiresAt = new Date(
-        now.getTime() +
-          LIVE_BETTING_CONFIG.DETECTION_CONFIRM_SECONDS * 1000,
+      session.detectedCharacters = result.characters;
+      session.detectionExpiresAt = new Date(
+        now.getTime() + LIVE_BETTING_CONFIG.DETECTION_CONFIRM_SECONDS * 1000,
       );
+      await this.sessionRepository.save(session);
+
+      // Price the bets of the session on the detected lineup
+      const detectedIds = this.getDetectedIds(session);
+      const liveBets = await this.liveBetRepository.find({
+        where: { sessionId, status: LiveBetStatus.DETECTING },
+      });
+      for (const liveBet of liveBets) {
+        liveBet.detectedCharacters = session.detectedCharacters;
+        liveBet.detectionExpiresAt = session.detectionExpiresAt;
+        if (detectedIds.length > 0) {
+          liveBet.oddAtBet = await this.priceMarket(liveBet, detectedIds);
+          liveBet.pricedCompetitorIds = detectedIds;
+        }
+        await this.liveBetRepository.save(liveBet);
+      }
 
       // Auto-confirm if all detections are confident
       if (!result.needsConfirmation) {
-        liveBet.confirmedCompetitorIds = result.characters
-          .filter((c) => c.competitorId)
-          .map((c) => c.competitorId!);
-        liveBet.status = LiveBetStatus.ACTIVE;
+        await this.confirmSession(session, detectedIds);
         this.logger.log(
-          `Live bet ${liveBetId} auto-confirmed with ${liveBet.confirmedCompetitorIds.length} players`,
+          `Live session ${sessionId} auto-confirmed with ${detectedIds.length} players`,
         );
       }
 
-      await this.liveBetRepository.save(liveBet);
-
-      // Notify user of detection result
-      this.eventEmitter.emit('liveBet.detected', {
-        userId: liveBet.userId,
-        liveBet,
-      });
-    } catch (error) {
-      liveBet.status = LiveBetStatus.CANCELLED;
-      liveBet.cancellationReason = 'detection_failed';
-      liveBet.resolvedAt = new Date();
-      await this.liveBetRepository.save(liveBet);
-
-      this.eventEmitter.emit('liveBet.cancelled', {
-        userId: liveBet.userId,
-        liveBet,
-        reason: 'detection_failed',
+      // Notify bettors of detection result
+      const detectedBets = await this.liveBetRepository.find({
+        where: { id: In(liveBets.map((b) => b.id)) },
       });
+      for (const liveBet of detectedBets) {
+        this.eventEmitter.emit('liveBet.detected', {
+          userId: liveBet.userId,
+          liveBet,
+        });
+      }
+    } catch {
+      await this.cancelSession(session, 'detection_failed');
     }
   }
 
@@ -176,148 +325,722 @@ export class LiveBettingService {
       );
     }
 
-    liveBet.confirmedCompetitorIds = competitorIds;
-    liveBet.status = LiveBetStatus.ACTIVE;
+    const session = await this.findSession(liveBet.sessionId);
+    if (session.createdById !== user.id) {
+      throw new ForbiddenException(
+        'Only the spectator who took the photo can confirm the lineup',
+      );
+    }
+    if (session.status !== LiveRaceSessionStatus.DETECTING) {
+      throw new BadRequestException(
+        `Live session is ${session.status}, cannot confirm detection`,
+      );
+    }
+
+    const confirmedBets = await this.confirmSession(session, competitorIds);
+
+    this.logger.log(
+      `Live session ${session.id} confirmed by user with ${competitorIds.length} competitors`,
+    );
+
+    return confirmedBets.find((b) => b.id === liveBetId) ?? liveBet;
+  }
+
+  /**
+   * Accept or decline the odd re-quoted on a changed lineup. Declining
+   * cancels the bet.
+   */
+  async respondToQuote(
+    liveBetId: string,
+    userClerkId: string,
+    accept: boolean,
+  ): Promise<LiveBet> {
+    const user = await this.userRepository.findOne({
+      where: { clerkId: userClerkId },
+    });
+    if (!user) throw new NotFoundException('User not found');
+
+    const liveBet = await this.liveBetRepository.findOne({
+      where: { id: liveBetId },
+    });
+    if (!liveBet) throw new NotFoundException('Live bet not found');
+    if (liveBet.userId !== user.id) {
+      throw new ForbiddenException('This is not your live bet');
+    }
+    if (
+      liveBet.status !== LiveBetStatus.AWAITING_ACCEPTANCE ||
+      liveBet.quotedOdd === null
+    ) {
+      throw new BadRequestException(
+        `Live bet is ${liveBet.status}, no quote to answer`,
+      );
+    }
+
+    if (accept) {
+      liveBet.oddAtBet = liveBet.quotedOdd;
+      liveBet.pricedCompetitorIds = liveBet.confirmedCompetitorIds;
+      liveBet.status = LiveBetStatus.ACTIVE;
+    } else {
+      liveBet.status = LiveBetStatus.CANCELLED;
+      liveBet.cancellationReason = 'quote_declined';
+      liveBet.resolvedAt = new Date();
+    }
+    liveBet.quotedOdd = null;
     await this.liveBetRepository.save(liveBet);
 
     this.logger.log(
-      `Live bet ${liveBetId} confirmed by user with ${competitorIds.length} competitors`,
+      `Live bet ${liveBetId} quote ${accept ? 'accepted' : 'declined'} (odd ${liveBet.oddAtBet})`,
     );
 
     return liveBet;
   }
 
+  /**
+   * Settle an active bet early, at the current implied probability of its
+   * market on the lineup (see getCashOutValue). The value goes into the
+   * bettor rankings like a settlement.
+   *
+   * The price only depends on the lineup, not on the race: cash-out closes
+   * when the session locks, as the race starts.
+   *
+   * @throws ConflictException if the bet was settled meanwhile
+   */
+  async cashOut(liveBetId: string, userClerkId: string): Promise<LiveBet> {
+    const user = await this.userRepository.findOne({
+      where: { clerkId: userClerkId },
+    });
+    if (!user) throw new NotFoundException('User not found');
+
+    const liveBet = await this.liveBetRepository.findOne({
+      where: { id: liveBetId },
+    });
+    if (!liveBet) throw new NotFoundException('Live bet not found');
+    if (liveBet.userId !== user.id) {
+      throw new ForbiddenException('This is not your live bet');
+    }
+    const now = new Date();
+    if (liveBet.status !== LiveBetStatus.ACTIVE || liveBet.expiresAt <= now) {
+      throw new BadRequestException(
+        `Live bet is ${liveBet.status}, cannot cash out`,
+      );
+    }
+    const session = await this.findSession(liveBet.sessionId);
+    if (session.status !== LiveRaceSessionStatus.ACTIVE) {
+      throw new BadRequestException(
+        `Live session is ${session.status}, cannot cash out`,
+      );
+    }
+    if (session.locksAt && session.locksAt <= now) {
+      throw new BadRequestException('The race has started, cannot cash out');
+    }
+
+    const currentOdd = await this.priceMarket(
+      liveBet,
+      liveBet.confirmedCompetitorIds ?? [],
+    );
+    const cashOut = {
+      status: LiveBetStatus.CASHED_OUT,
+      pointsEarned: getCashOutValue(liveBet.oddAtBet, 1 / currentOdd),
+      resolvedAt: now,
+    };
+    // Only from ACTIVE: the session may be settled meanwhile
+    const { affected } = await this.liveBetRepository.update(
+      { id: liveBet.id, status: LiveBetStatus.ACTIVE },
+      cashOut,
+    );
+    if (!affected) {
+      throw new ConflictException('Live bet was settled meanwhile');
+    }
+    Object.assign(liveBet, cashOut);
+
+    const year = now.getFullYear();
+    const seasonNumber = SeasonUtils.getSeasonNumber(
+      WeekUtils.getISOWeek(now),
+      year,
+    );
+    await this.applySettlementPoints(liveBet, seasonNumber, year);
+
+    this.eventEmitter.emit('liveBet.resolved', {
+      userId: liveBet.userId,
+      liveBet,
+    });
+
+    this.logger.log(
+      `Live bet ${liveBetId} cashed out at ${liveBet.pointsEarned} (odd ${liveBet.oddAtBet} -> ${currentOdd})`,
+    );
+
+    return liveBet;
+  }
+
+  /**
+   * Confirm the lineup of a detecting bet. The bet goes active at its odd
+   * if the lineup is the one it was priced on; otherwise the odd is
+   * re-quoted on the lineup and waits for the bettor to accept it
+   * ('liveBet.requoted').
+   */
+  private async confirmLineup(
+    liveBet: LiveBet,
+    competitorIds: string[],
+  ): Promise<void> {
+    liveBet.confirmedCompetitorIds = competitorIds;
+
+    const priced = new Set(liveBet.pricedCompetitorIds ?? []);
+    const sameLineup =
+      priced.size === new Set(competitorIds).size &&
+      competitorIds.every((id) => priced.has(id));
+    if (sameLineup) {
+      liveBet.status = LiveBetStatus.ACTIVE;
+      await this.liveBetRepository.save(liveBet);
+      return;
+    }
+
+    const quotedOdd = await this.priceMarket(liveBet, competitorIds);
+    if (quotedOdd === liveBet.oddAtBet) {
+      liveBet.pricedCompetitorIds = competitorIds;
+      liveBet.status = LiveBetStatus.ACTIVE;
+      await this.liveBetRepository.save(liveBet);
+      return;
+    }
+
+    liveBet.quotedOdd = quotedOdd;
+    liveBet.status = LiveBetStatus.AWAITING_ACCEPTANCE;
+    await this.liveBetRepository.save(liveBet);
+
+    this.eventEmitter.emit('liveBet.requoted', {
+      userId: liveBet.userId,
+      liveBet,
+    });
+    this.logger.log(
+      `Live bet ${liveBet.id} re-quoted at ${quotedOdd} (was ${liveBet.oddAtBet})`,
+    );
+  }
+
+  /**
+   * Confirm the lineup of a session: it locks after the joining window,
+   * and each of its detecting bets is confirmed on the lineup
+   *
+   * @returns The confirmed bets
+   */
+  private async confirmSession(
+    session: LiveRaceSession,
+    competitorIds: string[],
+  ): Promise<LiveBet[]> {
+    session.confirmedCompetitorIds = competitorIds;
+    session.status = LiveRaceSessionStatus.ACTIVE;
+    session.locksAt = new Date(
+      Date.now() + LIVE_BETTING_CONFIG.SESSION_JOIN_SECONDS * 1000,
+    );
+    await this.sessionRepository.save(session);
+
+    const liveBets = await this.liveBetRepository.find({
+      where: { sessionId: session.id, status: LiveBetStatus.DETECTING },
+    });
+    for (const liveBet of liveBets) {
+      await this.confirmLineup(liveBet, competitorIds);
+    }
+    return liveBets;
+  }
+
+  /**
+   * Cancel a session with its pending bets
+   */
+  private async cancelSession(
+    session: LiveRaceSession,
+    reason: string,
+  ): Promise<void> {
+    const now = new Date();
+    session.status = LiveRaceSessionStatus.CANCELLED;
+    session.resolvedAt = now;
+    await this.sessionRepository.save(session);
+
+    const liveBets = await this.liveBetRepository.find({
+      where: {
+        sessionId: session.id,
+        status: In([
+          LiveBetStatus.DETECTING,
+          LiveBetStatus.ACTIVE,
+          LiveBetStatus.AWAITING_ACCEPTANCE,
+        ]),
+      },
+    });
+    for (const liveBet of liveBets) {
+      liveBet.status = LiveBetStatus.CANCELLED;
+      liveBet.cancellationReason = reason;
+      liveBet.resolvedAt = now;
+      await this.liveBetRepository.save(liveBet);
+
+      this.eventEmitter.emit('liveBet.cancelled', {
+        userId: liveBet.userId,
+        liveBet,
+        reason,
+      });
+    }
+  }
+
   async autoConfirmExpired(): Promise<void> {
     const now = new Date();
 
-    const expiredDetecting = await this.liveBetRepository
-      .createQueryBuilder('lb')
-      .where('lb.status = :status', { status: LiveBetStatus.DETECTING })
-      .andWhere('lb.detectionExpiresAt IS NOT NULL')
-      .andWhere('lb.detectionExpiresAt < :now', { now })
-      .andWhere('lb.detectedCharacters IS NOT NULL')
+    const expiredDetecting = await this.sessionRepository
+      .createQueryBuilder('session')
+      .where('session.status = :status', {
+        status: LiveRaceSessionStatus.DETECTING,
+      })
+      .andWhere('session.detectionExpiresAt IS NOT NULL')
+      .andWhere('session.detectionExpiresAt < :now', { now })
+      .andWhere('session.detectedCharacters IS NOT NULL')
       .getMany();
 
-    for (const liveBet of expiredDetecting) {
-      const detectedWithCompetitor = (liveBet.detectedCharacters ?? []).filter(
-        (c) => c.competitorId,
-      );
+    for (const session of expiredDetecting) {
+      const detectedIds = this.getDetectedIds(session);
 
-      if (detectedWithCompetitor.length >= 2) {
-        liveBet.confirmedCompetitorIds = detectedWithCompetitor.map(
-          (c) => c.competitorId!,
-        );
-        liveBet.status = LiveBetStatus.ACTIVE;
+      if (detectedIds.length >= 2) {
+        await this.confirmSession(session, detectedIds);
         this.logger.log(
-          `Live bet ${liveBet.id} auto-confirmed after timer expiry`,
+          `Live session ${session.id} auto-confirmed after timer expiry`,
         );
       } else {
-        liveBet.status = LiveBetStatus.CANCELLED;
-        liveBet.cancellationReason = 'detection_failed';
-        liveBet.resolvedAt = new Date();
+        await this.cancelSession(session, 'detection_failed');
         this.logger.log(
-          `Live bet ${liveBet.id} cancelled: insufficient detections`,
+          `Live session ${session.id} cancelled: insufficient detections`,
         );
       }
-
-      await this.liveBetRepository.save(liveBet);
     }
   }
 
+  /**
+   * Resolve the live session a new race settles, all its bets together:
+   * - A race linked to a session (CreateRaceDto.liveSessionId, directly or
+   *   through its race analysis) settles that session only
+   * - An unlinked race settles the best of the active sessions it matches
+   *   (see rankSessionMatches)
+   * - A session that also matches another unlinked race played since it
+   *   opened is ambiguous: it goes to the admin review queue instead
+   */
   async resolveForRace(race: RaceEvent): Promise<void> {
     await this.expireStale();
 
-    const activeBets = await this.liveBetRepository.find({
-      where: { status: LiveBetStatus.ACTIVE },
+    const results = await this.raceResultRepository.find({
+      where: { race: { id: race.id } },
+    });
+
+    if (race.liveSessionId) {
+      const session = await this.sessionRepository.findOne({
+        where: { id: race.liveSessionId },
+      });
+      if (
+        !session ||
+        (session.status !== LiveRaceSessionStatus.ACTIVE &&
+          session.status !== LiveRaceSessionStatus.REVIEW)
+      ) {
+        this.logger.warn(
+          `Race ${race.id} is linked to live session ${race.liveSessionId}, which is not active`,
+        );
+        return;
+      }
+      await this.settleSession(session, race.id, results);
+      return;
+    }
+
+    const now = new Date();
+    const activeSessions = await this.sessionRepository.find({
+      where: {
+        status: LiveRaceSessionStatus.ACTIVE,
+        expiresAt: MoreThanOrEqual(now),
+      },
     });
 
-    if (activeBets.length === 0) {
-      this.logger.log('No active live bets to resolve');
+    const [session] = rankSessionMatches(
+      activeSessions,
+      results.map((r) => r.competitorId),
+    );
+    if (!session) {
+      this.logger.log(`No active live session matches race ${race.id}`);
       return;
     }
 
+    const otherRaceIds = await this.findOtherMatchingRaces(session, race.id);
+    if (otherRaceIds.length > 0) {
+      session.status = LiveRaceSessionStatus.REVIEW;
+      session.candidateRaceIds = [...otherRaceIds, race.id];
+      await this.sessionRepository.save(session);
+      this.logger.warn(
+        `Live session ${session.id} matches ${session.candidateRaceIds.length} races, queued for review`,
+      );
+      return;
+    }
+
+    await this.settleSession(session, race.id, results);
+  }
+
+  /**
+   * Sessions that matched more than one race, oldest first (admin review
+   * queue)
+   */
+  async getReviewQueue(): Promise<LiveRaceSession[]> {
+    return this.sessionRepository.find({
+      where: { status: LiveRaceSessionStatus.REVIEW },
+      relations: ['liveBets', 'liveBets.competitor'],
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Settle a session of the review queue on the race picked by an admin
+   */
+  async resolveReview(
+    sessionId: string,
+    raceId: string,
+  ): Promise<LiveRaceSession> {
+    const session = await this.findSession(sessionId);
+    if (session.status !== LiveRaceSessionStatus.REVIEW) {
+      throw new BadRequestException(
+        `Live session is ${session.status}, not under review`,
+      );
+    }
+
     const results = await this.raceResultRepository.find({
-      where: { race: { id: race.id } },
+      where: { race: { id: raceId } },
     });
-    const raceCompetitorIds = new Set(results.map((r) => r.competitorId));
+    if (results.length === 0) {
+      throw new NotFoundException(`Race ${raceId} not found`);
+    }
 
+    await this.settleSession(session, raceId, results);
+    return session;
+  }
+
+  /**
+   * Cancel a session of the review queue with its bets
+   */
+  async cancelReview(sessionId: string): Promise<LiveRaceSession> {
+    const session = await this.findSession(sessionId);
+    if (session.status !== LiveRaceSessionStatus.REVIEW) {
+      throw new BadRequestException(
+        `Live session is ${session.status}, not under review`,
+      );
+    }
+
+    await this.cancelSession(session, 'ambiguous_race');
+    return session;
+  }
+
+  /**
+   * Settle a session and its bets on a race. Bets still waiting for a
+   * re-quote to be accepted are cancelled.
+   */
+  private async settleSession(
+    session: LiveRaceSession,
+    raceId: string,
+    results: RaceResult[],
+  ): Promise<void> {
     const now = new Date();
     const year = now.getFullYear();
-    const seasonNumber = SeasonUtils.getSeasonNumber(WeekUtils.getISOWeek(now), year);
+    const seasonNumber = SeasonUtils.getSeasonNumber(
+      WeekUtils.getISOWeek(now),
+      year,
+    );
 
-    for (const liveBet of activeBets) {
-      if (liveBet.expiresAt < now) continue; // already expired, skip
+    const raceCompetitorIds = new Set(results.map((r) => r.competitorId));
+    const overlapCount = (session.confirmedCompetitorIds ?? []).filter((id) =>
+      raceCompetitorIds.has(id),
+    ).length;
 
-      const betCompetitorIds = liveBet.confirmedCompetitorIds ?? [];
-      if (betCompetitorIds.length === 0) continue;
+    session.raceEventId = raceId;
+    session.status = LiveRaceSessionStatus.RESOLVED;
+    session.resolvedAt = now;
+    await this.sessionRepository.save(session);
 
-      const overlap = betCompetitorIds.filter((id) =>
-        raceCompetitorIds.has(id),
-      );
-      const overlapRatio = overlap.length / betCompetitorIds.length;
+    const liveBets = await this.liveBetRepository.find({
+      where: {
+        sessionId: session.id,
+        status: In([LiveBetStatus.ACTIVE, LiveBetStatus.AWAITING_ACCEPTANCE]),
+      },
+    });
 
-      if (overlapRatio < LIVE_BETTING_CONFIG.MIN_COMPETITOR_OVERLAP) {
-        continue; // Not enough overlap, skip (might match a future race)
+    for (const liveBet of liveBets) {
+      const pendingStatus = liveBet.status;
+      liveBet.resolvedAt = now;
+      if (liveBet.status === LiveBetStatus.AWAITING_ACCEPTANCE) {
+        liveBet.status = LiveBetStatus.CANCELLED;
+        liveBet.cancellationReason = 'quote_pending';
+        liveBet.quotedOdd = null;
+      } else {
+        liveBet.raceEventId = raceId;
+        this.determineOutcome(liveBet, results, overlapCount);
       }
 
-      // Find winner: competitor with rank12 = 1 among confirmed competitors
-      const winnerResult = results.find(
-        (r) => r.rank12 === 1 && betCompetitorIds.includes(r.competitorId),
+      // Skip a bet cashed out (or accepted) since it was read
+      const { affected } = await this.liveBetRepository.update(
+        { id: liveBet.id, status: pendingStatus },
+        {
+          status: liveBet.status,
+          pointsEarned: liveBet.pointsEarned,
+          cancellationReason: liveBet.cancellationReason,
+          quotedOdd: liveBet.quotedOdd,
+          raceEventId: liveBet.raceEventId,
+          resolvedAt: liveBet.resolvedAt,
+        },
       );
+      if (!affected) continue;
+      await this.applySettlementPoints(liveBet, seasonNumber, year);
 
-      liveBet.raceEventId = race.id;
-      liveBet.resolvedAt = now;
+      this.eventEmitter.emit('liveBet.resolved', {
+        userId: liveBet.userId,
+        liveBet,
+      });
 
-      if (!winnerResult) {
-        // No confirmed competitor won (rank 1 not among confirmed)
-        // Check if ANY confirmed competitor is in the race
-        if (overlap.length > 0) {
-          // Race matched but predicted competitor didn't win
-          liveBet.status = LiveBetStatus.LOST;
-          liveBet.pointsEarned = -liveBet.oddAtBet;
-        } else {
-          liveBet.status = LiveBetStatus.CANCELLED;
-          liveBet.cancellationReason = 'no_match';
-        }
-      } else if (winnerResult.competitorId === liveBet.competitorId) {
-        liveBet.status = LiveBetStatus.WON;
-        liveBet.pointsEarned = liveBet.oddAtBet;
-      } else {
-        liveBet.status = LiveBetStatus.LOST;
-        liveBet.pointsEarned = -liveBet.oddAtBet;
-      }
+      this.logger.log(
+        `Live bet ${liveBet.id} resolved: ${liveBet.status}, points=${liveBet.pointsEarned ?? 0}`,
+      );
+    }
+  }
 
-      await this.liveBetRepository.save(liveBet);
+  /**
+   * Unlinked races other than `raceId`, played since the session opened,
+   * that match its lineup. A race that already settled a session (linked
+   * or matched) is left out.
+   */
+  private async findOtherMatchingRaces(
+    session: LiveRaceSession,
+    raceId: string,
+  ): Promise<string[]> {
+    const rows: { raceId: string; competitorId: string }[] =
+      await this.raceResultRepository
+        .createQueryBuilder('result')
+        .innerJoin('result.race', 'race')
+        .select('race.id', 'raceId')
+        .addSelect('result.competitorId', 'competitorId')
+        .where('race.date >= :since', { since: session.createdAt })
+        .andWhere('race.liveSessionId IS NULL')
+        .andWhere('race.id != :raceId', { raceId })
+        .andWhere(
+          `race.id::text NOT IN (SELECT "raceEventId" FROM "live_race_sessions" WHERE "raceEventId" IS NOT NULL)`,
+        )
+        .getRawMany();
 
-      // Update bettor rankings
-      if (liveBet.status === LiveBetStatus.WON) {
-        await this.addPoints(
-          liveBet.userId,
-          liveBet.oddAtBet,
-          seasonNumber,
-          year,
-          true,
-        );
-      } else if (liveBet.status === LiveBetStatus.LOST) {
-        await this.subtractPoints(
-          liveBet.userId,
-          liveBet.oddAtBet,
-          seasonNumber,
-          year,
+    const racePlayers = new Map<string, string[]>();
+    for (const row of rows) {
+      racePlayers.set(row.raceId, [
+        ...(racePlayers.get(row.raceId) ?? []),
+        row.competitorId,
+      ]);
+    }
+
+    const lineup = session.confirmedCompetitorIds ?? [];
+    return [...racePlayers.entries()]
+      .filter(
+        ([, players]) =>
+          getLineupOverlap(lineup, players) >=
+          LIVE_BETTING_CONFIG.MIN_COMPETITOR_OVERLAP,
+      )
+      .map(([id]) => id);
+  }
+
+  /**
+   * Re-settle live bets that were resolved against a race which has since
+   * been corrected or deleted. The previous settlement is reversed in the
+   * bettor rankings, then the bet is resolved again against the corrected
+   * results, or cancelled if the race no longer exists.
+   */
+  async resettleForCorrectedRace(event: RaceCorrectedEvent): Promise<void> {
+    if (!event.race) {
+      await this.sessionRepository.update(
+        { raceEventId: event.raceId },
+        {
+          status: LiveRaceSessionStatus.CANCELLED,
+          raceEventId: null,
+        },
+      );
+    }
+
+    const settledBets = await this.liveBetRepository.find({
+      where: {
+        raceEventId: event.raceId,
+        status: In([
+          LiveBetStatus.WON,
+          LiveBetStatus.LOST,
+          LiveBetStatus.CANCELLED,
+        ]),
+      },
+    });
+
+    if (settledBets.length === 0) {
+      this.logger.log(`No live bets settled on race ${event.raceId}`);
+      return;
+    }
+
+    const results = event.race?.results ?? [];
+    const raceCompetitorIds = new Set(results.map((r) => r.competitorId));
+
+    for (const liveBet of settledBets) {
+      const settledAt = liveBet.resolvedAt ?? new Date();
+      const year = settledAt.getFullYear();
+      const seasonNumber = SeasonUtils.getSeasonNumber(
+        WeekUtils.getISOWeek(settledAt),
+        year,
+      );
+
+      await this.reverseSettlementPoints(liveBet, seasonNumber, year);
+      liveBet.pointsEarned = null;
+      liveBet.cancellationReason = null;
+
+      if (!event.race) {
+        liveBet.status = LiveBetStatus.CANCELLED;
+        liveBet.cancellationReason = 'race_deleted';
+        liveBet.raceEventId = null;
+      } else {
+        const overlap = (liveBet.confirmedCompetitorIds ?? []).filter((id) =>
+          raceCompetitorIds.has(id),
         );
+        this.determineOutcome(liveBet, results, overlap.length);
       }
 
+      await this.liveBetRepository.save(liveBet);
+      await this.applySettlementPoints(liveBet, seasonNumber, year);
+
       this.eventEmitter.emit('liveBet.resolved', {
         userId: liveBet.userId,
         liveBet,
       });
 
       this.logger.log(
-        `Live bet ${liveBet.id} resolved: ${liveBet.status}, points=${liveBet.pointsEarned ?? 0}`,
+        `Live bet ${liveBet.id} re-settled after correction of race ${event.raceId}: ${liveBet.status}`,
       );
     }
   }
 
+  /**
+   * Set status and points of a live bet from the results of its race.
+   * A winner bet wins if its competitor finished first among the confirmed
+   * players; in a team race, if its competitor is on the winning team.
+   * Other markets settle on the positions among the players of the race
+   * (see resolveLiveMarket).
+   */
+  private determineOutcome(
+    liveBet: LiveBet,
+    results: RaceResult[],
+    overlapCount: number,
+  ): void {
+    const betCompetitorIds = liveBet.confirmedCompetitorIds ?? [];
+
+    if (liveBet.marketType !== LiveBetMarketType.WINNER) {
+      const outcome =
+        overlapCount > 0 ? resolveLiveMarket(liveBet, results) : 'void';
+      if (outcome === 'void') {
+        liveBet.status = LiveBetStatus.CANCELLED;
+        liveBet.cancellationReason = 'no_match';
+      } else if (outcome === 'won') {
+        liveBet.status = LiveBetStatus.WON;
+        liveBet.pointsEarned = liveBet.oddAtBet;
+      } else {
+        liveBet.status = LiveBetStatus.LOST;
+        liveBet.pointsEarned = -liveBet.oddAtBet;
+      }
+      return;
+    }
+
+    // Team race: the bet follows its competitor's team
+    const teamRanks = getTeamRanks(results);
+    if (teamRanks) {
+      const teamRank = teamRanks.get(liveBet.competitorId);
+      if (teamRank === undefined && overlapCount === 0) {
+        liveBet.status = LiveBetStatus.CANCELLED;
+        liveBet.cancellationReason = 'no_match';
+      } else if (teamRank === 1) {
+        liveBet.status = LiveBetStatus.WON;
+        liveBet.pointsEarned = liveBet.oddAtBet;
+      } else {
+        liveBet.status = LiveBetStatus.LOST;
+        liveBet.pointsEarned = -liveBet.oddAtBet;
+      }
+      return;
+    }
+
+    // Find winner: competitor with rank12 = 1 among confirmed competitors
+    const winnerResult = results.find(
+      (r) => r.rank12 === 1 && betCompetitorIds.includes(r.competitorId),
+    );
+
+    if (!winnerResult) {
+      // No confirmed competitor won (rank 1 not among confirmed)
+      // Check if ANY confirmed competitor is in the race
+      if (overlapCount > 0) {
+        // Race matched but predicted competitor didn't win
+        liveBet.status = LiveBetStatus.LOST;
+        liveBet.pointsEarned = -liveBet.oddAtBet;
+      } else {
+        liveBet.status = LiveBetStatus.CANCELLED;
+        liveBet.cancellationReason = 'no_match';
+      }
+    } else if (winnerResult.competitorId === liveBet.competitorId) {
+      liveBet.status = LiveBetStatus.WON;
+      liveBet.pointsEarned = liveBet.oddAtBet;
+    } else {
+      liveBet.status = LiveBetStatus.LOST;
+      liveBet.pointsEarned = -liveBet.oddAtBet;
+    }
+  }
+
+  private async applySettlementPoints(
+    liveBet: LiveBet,
+    seasonNumber: number,
+    year: number,
+  ): Promise<void> {
+    if (liveBet.status === LiveBetStatus.WON) {
+      await this.addPoints(
+        liveBet.userId,
+        liveBet.oddAtBet,
+        seasonNumber,
+        year,
+        true,
+      );
+    } else if (liveBet.status === LiveBetStatus.LOST) {
+      await this.subtractPoints(
+        liveBet.userId,
+        liveBet.oddAtBet,
+        seasonNumber,
+        year,
+      );
+    } else if (liveBet.status === LiveBetStatus.CASHED_OUT) {
+      const value = liveBet.pointsEarned ?? 0;
+      if (value >= 0) {
+        await this.addPoints(liveBet.userId, value, seasonNumber, year, false);
+      } else {
+        await this.subtractPoints(liveBet.userId, -value, seasonNumber, year);
+      }
+    }
+  }
+
+  private async reverseSettlementPoints(
+    liveBet: LiveBet,
+    seasonNumber: number,
+    year: number,
+  ): Promise<void> {
+    if (
+      liveBet.status !== LiveBetStatus.WON &&
+      liveBet.status !== LiveBetStatus.LOST
+    ) {
+      return;
+    }
+
+    const isWin = liveBet.status === LiveBetStatus.WON;
+    await this.bettorRankingRepository.query(
+      `UPDATE bettor_rankings
+       SET "totalPoints" = GREATEST(0, "totalPoints" + $1),
+           "betsPlaced" = GREATEST(0, "betsPlaced" - 1),
+           "betsWon" = GREATEST(0, "betsWon" - $2),
+           "updatedAt" = NOW()
+       WHERE "userId" = $3 AND "seasonNumber" = $4 AND "year" = $5`,
+      [
+        isWin ? -liveBet.oddAtBet : liveBet.oddAtBet,
+        isWin ? 1 : 0,
+        liveBet.userId,
+        seasonNumber,
+        year,
+      ],
+    );
+  }
+
   async expireStale(): Promise<void> {
     const now = new Date();
 
@@ -330,14 +1053,36 @@ export class LiveBettingService {
         resolvedAt: now,
       })
       .where('status IN (:...statuses)', {
-        statuses: [LiveBetStatus.ACTIVE, LiveBetStatus.DETECTING],
+        statuses: [
+          LiveBetStatus.ACTIVE,
+          LiveBetStatus.DETECTING,
+          LiveBetStatus.AWAITING_ACCEPTANCE,
+        ],
       })
       .andWhere('expiresAt < :now', { now })
+      // Bets of a session under review wait for the admin decision
+      .andWhere(
+        `sessionId NOT IN (SELECT "id" FROM "live_race_sessions" WHERE "status" = :review)`,
+        { review: LiveRaceSessionStatus.REVIEW },
+      )
       .execute();
 
     if (result.affected && result.affected > 0) {
       this.logger.log(`Expired ${result.affected} stale live bets`);
     }
+
+    await this.sessionRepository
+      .createQueryBuilder()
+      .update(LiveRaceSession)
+      .set({ status: LiveRaceSessionStatus.CANCELLED, resolvedAt: now })
+      .where('status IN (:...statuses)', {
+        statuses: [
+          LiveRaceSessionStatus.DETECTING,
+          LiveRaceSessionStatus.ACTIVE,
+        ],
+      })
+      .andWhere('expiresAt < :now', { now })
+      .execute();
   }
 
   async getActiveBets(userClerkId: string): Promise<LiveBet[]> {
@@ -349,9 +1094,13 @@ export class LiveBettingService {
     return this.liveBetRepository.find({
       where: {
         userId: user.id,
-        status: In([LiveBetStatus.DETECTING, LiveBetStatus.ACTIVE]),
+        status: In([
+          LiveBetStatus.DETECTING,
+          LiveBetStatus.ACTIVE,
+          LiveBetStatus.AWAITING_ACCEPTANCE,
+        ]),
       },
-      relations: ['competitor'],
+      relations: ['competitor', 'opponentCompetitor'],
       order: { createdAt: 'DESC' },
     });
   }
@@ -373,9 +1122,10 @@ export class LiveBettingService {
           LiveBetStatus.WON,
           LiveBetStatus.LOST,
           LiveBetStatus.CANCELLED,
+          LiveBetStatus.CASHED_OUT,
         ]),
       },
-      relations: ['competitor'],
+      relations: ['competitor', 'opponentCompetitor'],
       order: { resolvedAt: 'DESC' },
       take: limit,
       skip: offset,
@@ -387,9 +1137,13 @@ export class LiveBettingService {
   async getRecentResolved(limit: number): Promise<LiveBet[]> {
     return this.liveBetRepository.find({
       where: {
-        status: In([LiveBetStatus.WON, LiveBetStatus.LOST]),
+        status: In([
+          LiveBetStatus.WON,
+          LiveBetStatus.LOST,
+          LiveBetStatus.CASHED_OUT,
+        ]),
       },
-      relations: ['competitor', 'user'],
+      relations: ['competitor', 'opponentCompetitor', 'user'],
       order: { resolvedAt: 'DESC' },
       take: limit,
     });
@@ -406,13 +1160,145 @@ export class LiveBettingService {
 
     const liveBet = await this.liveBetRepository.findOne({
       where: { id: liveBetId, userId: user.id },
-      relations: ['competitor'],
+      relations: ['competitor', 'opponentCompetitor'],
     });
     if (!liveBet) throw new NotFoundException('Live bet not found');
 
     return liveBet;
   }
 
+  /**
+   * Validate the market of a new live bet
+   *
+   * @throws BadRequestException on a position or opponent that doesn't
+   * fit the market
+   */
+  private toMarket(dto: CreateLiveBetDto): LiveMarketLike {
+    const marketType = dto.marketType ?? LiveBetMarketType.WINNER;
+    if (!Object.values(LiveBetMarketType).includes(marketType)) {
+      throw new BadRequestException(`Invalid market type ${marketType}`);
+    }
+
+    const { MAX_MARKET_POSITION } = LIVE_BETTING_CONFIG;
+    const position =
+      dto.marketPosition !== undefined && dto.marketPosition !== null
+        ? Number(dto.marketPosition)
+        : null;
+    const market: LiveMarketLike = {
+      marketType,
+      competitorId: dto.competitorId,
+      marketPosition: null,
+      opponentCompetitorId: null,
+    };
+
+    if (marketType === LiveBetMarketType.TOP_N) {
+      if (
+        position === null ||
+        !Number.isInteger(position) ||
+        position < 2 ||
+        position >= MAX_MARKET_POSITION
+      ) {
+        throw new BadRequestException(
+          `Top-N needs a position between 2 and ${MAX_MARKET_POSITION - 1}`,
+        );
+      }
+      market.marketPosition = position;
+    } else if (marketType === LiveBetMarketType.EXACT_POSITION) {
+      if (
+        position === null ||
+        !Number.isInteger(position) ||
+        position < 1 ||
+        position > MAX_MARKET_POSITION
+      ) {
+        throw new BadRequestException(
+          `Exact position needs a position between 1 and ${MAX_MARKET_POSITION}`,
+        );
+      }
+      market.marketPosition = position;
+    } else if (marketType === LiveBetMarketType.HEAD_TO_HEAD) {
+      if (
+        !dto.opponentCompetitorId ||
+        dto.opponentCompetitorId === dto.competitorId
+      ) {
+        throw new BadRequestException(
+          'Head-to-head needs an opponent other than the competitor',
+        );
+      }
+      market.opponentCompetitorId = dto.opponentCompetitorId;
+    }
+
+    return market;
+  }
+
+  private async assertNoActiveBet(userId: string): Promise<void> {
+    const existing = await this.liveBetRepository.findOne({
+      where: {
+        userId,
+        status: In([
+          LiveBetStatus.DETECTING,
+          LiveBetStatus.ACTIVE,
+          LiveBetStatus.AWAITING_ACCEPTANCE,
+        ]),
+      },
+    });
+    if (existing) {
+      throw new BadRequestException(
+        'You already have an active live bet. Wait for it to resolve or expire.',
+      );
+    }
+  }
+
+  private isJoinable(session: LiveRaceSession, now: Date): boolean {
+    return (
+      (session.status === LiveRaceSessionStatus.DETECTING ||
+        session.status === LiveRaceSessionStatus.ACTIVE) &&
+      session.expiresAt > now &&
+      (!session.locksAt || session.locksAt > now)
+    );
+  }
+
+  private getDetectedIds(session: LiveRaceSession): string[] {
+    return (session.detectedCharacters ?? [])
+      .filter((c) => c.competitorId)
+      .map((c) => c.competitorId!);
+  }
+
+  private async findSession(sessionId: string): Promise<LiveRaceSession> {
+    const session = await this.sessionRepository.findOne({
+      where: { id: sessionId },
+    });
+    if (!session) throw new NotFoundException('Live session not found');
+    return session;
+  }
+
+  /**
+   * Odd of a bet before its lineup is known: weekly win odd, or the
+   * head-to-head of the two competitors
+   */
+  private async getProvisionalOdd(market: LiveMarketLike): Promise<number> {
+    return market.marketType === LiveBetMarketType.HEAD_TO_HEAD
+      ? this.priceMarket(market, [])
+      : this.getOddForCompetitor(market.competitorId);
+  }
+
+  /**
+   * Odd of the market of a live bet on a lineup (the competitor and the
+   * opponent of a head-to-head always race)
+   */
+  private async priceMarket(
+    market: LiveMarketLike,
+    lineupIds: string[],
+  ): Promise<number> {
+    const lineup = [market.competitorId, ...lineupIds];
+    if (market.opponentCompetitorId) {
+      lineup.push(market.opponentCompetitorId);
+    }
+    return this.oddsCalculatorService.calculateLineupOdd(
+      lineup,
+      (predictions) => getMarketProbability(market, predictions),
+    );
+  }
+
   private async getOddForCompetitor(competitorId: string): Promise<number> {
     // Try to get from current betting week
     const now = new Date();
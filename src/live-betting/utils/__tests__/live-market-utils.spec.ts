@@ -0,0 +1,144 @@
+/**
+ * Tests for the live bet markets
+ *
+ * Focus on:
+ * - Market probabilities from a lineup prediction
+ * - Positions among the players of the race, not out of 12
+ * - Head-to-head void when a player is missing
+ * - Cash-out values below a win, down to a loss
+ */
+
+import { LiveBetMarketType } from '../../entities/live-bet.entity';
+import { LineupPrediction } from '../../../betting/types/odds-calculator.types';
+import { LIVE_BETTING_CONFIG } from '../../config/live-betting.config';
+import {
+  getCashOutValue,
+  getMarketProbability,
+  LiveMarketLike,
+  resolveLiveMarket,
+} from '../live-market-utils';
+
+describe('live-market-utils', () => {
+  const market = (
+    marketType: LiveBetMarketType,
+    marketPosition: number | null = null,
+    opponentCompetitorId: string | null = null,
+  ): LiveMarketLike => ({
+    marketType,
+    competitorId: 'a',
+    marketPosition,
+    opponentCompetitorId,
+  });
+
+  const prediction = (
+    competitorId: string,
+    plStrength: number,
+    positionDistribution: number[],
+  ): LineupPrediction => ({
+    competitorId,
+    competitorName: competitorId,
+    rating: 1500,
+    rd: 100,
+    plStrength,
+    winProbability: positionDistribution[0],
+    expectedPosition: 0,
+    positionDistribution,
+  });
+
+  const predictions = [
+    prediction('a', 3, [0.5, 0.3, 0.2]),
+    prediction('b', 1, [0.2, 0.3, 0.5]),
+    prediction('c', 2, [0.3, 0.4, 0.3]),
+  ];
+
+  describe('getMarketProbability', () => {
+    it('should price each market from the position distribution', () => {
+      expect(
+        getMarketProbability(market(LiveBetMarketType.WINNER), predictions),
+      ).toBe(0.5);
+      expect(
+        getMarketProbability(market(LiveBetMarketType.TOP_N, 2), predictions),
+      ).toBeCloseTo(0.8);
+      expect(
+        getMarketProbability(
+          market(LiveBetMarketType.EXACT_POSITION, 3),
+          predictions,
+        ),
+      ).toBe(0.2);
+    });
+
+    it('should price a head-to-head on the pairwise strengths', () => {
+      expect(
+        getMarketProbability(
+          market(LiveBetMarketType.HEAD_TO_HEAD, null, 'b'),
+          predictions,
+        ),
+      ).toBe(0.75);
+    });
+  });
+
+  describe('getCashOutValue', () => {
+    it('should pay less than a win on a certain outcome', () => {
+      expect(getCashOutValue(2, 1)).toBeCloseTo(
+        2 * (2 * LIVE_BETTING_CONFIG.CASH_OUT_MARGIN - 1),
+      );
+      expect(getCashOutValue(2, 1)).toBeLessThan(2);
+    });
+
+    it('should cost the whole odd on a lost cause', () => {
+      expect(getCashOutValue(2, 0)).toBe(-2);
+    });
+  });
+
+  describe('resolveLiveMarket', () => {
+    const results = [
+      { competitorId: 'b', rank12: 2 },
+      { competitorId: 'a', rank12: 5 },
+      { competitorId: 'c', rank12: 9 },
+    ];
+
+    it('should use positions among the players of the race', () => {
+      expect(
+        resolveLiveMarket(market(LiveBetMarketType.TOP_N, 2), results),
+      ).toBe('won');
+      expect(
+        resolveLiveMarket(market(LiveBetMarketType.EXACT_POSITION, 2), results),
+      ).toBe('won');
+      expect(
+        resolveLiveMarket(market(LiveBetMarketType.EXACT_POSITION, 1), results),
+      ).toBe('lost');
+    });
+
+    it('should settle a head-to-head on the finish order', () => {
+      expect(
+        resolveLiveMarket(
+          market(LiveBetMarketType.HEAD_TO_HEAD, null, 'c'),
+          results,
+        ),
+      ).toBe('won');
+      expect(
+        resolveLiveMarket(
+          market(LiveBetMarketType.HEAD_TO_HEAD, null, 'b'),
+          results,
+        ),
+      ).toBe('lost');
+    });
+
+    it('should void a head-to-head with a missing player', () => {
+      expect(
+        resolveLiveMarket(
+          market(LiveBetMarketType.HEAD_TO_HEAD, null, 'd'),
+          results,
+        ),
+      ).toBe('void');
+    });
+
+    it('should lose a position market of a missing player', () => {
+      expect(
+        resolveLiveMarket(market(LiveBetMarketType.TOP_N, 3), [
+          { competitorId: 'b', rank12: 1 },
+        ]),
+      ).toBe('lost');
+    });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Tests for the matching of races to live sessions
+ *
+ * Focus on:
+ * - Sessions below the lineup overlap left out
+ * - Tie-break on the closest lineup, then the session locked first
+ */
+
+import {
+  getLineupOverlap,
+  getLineupSimilarity,
+  rankSessionMatches,
+} from '../live-session-matching';
+
+describe('live-session-matching', () => {
+  const session = (id: string, lineup: string[], locksAt: number) => ({
+    id,
+    confirmedCompetitorIds: lineup,
+    locksAt: new Date(locksAt),
+  });
+
+  it('should measure the overlap on the session lineup', () => {
+    expect(getLineupOverlap(['a', 'b', 'c', 'd'], ['a', 'b', 'c'])).toBe(0.75);
+    expect(getLineupOverlap([], ['a'])).toBe(0);
+  });
+
+  it('should measure the similarity on both lineups', () => {
+    expect(getLineupSimilarity(['a', 'b'], ['a', 'b'])).toBe(1);
+    expect(getLineupSimilarity(['a', 'b', 'c'], ['a', 'b', 'd'])).toBe(0.5);
+  });
+
+  it('should leave out sessions below the overlap', () => {
+    const matches = rankSessionMatches(
+      [session('s1', ['a', 'b', 'c', 'd'], 0), session('s2', ['e', 'f'], 0)],
+      ['a', 'b', 'c', 'd'],
+    );
+    expect(matches.map((s) => s.id)).toEqual(['s1']);
+  });
+
+  it('should prefer the closest lineup, then the session locked first', () => {
+    const race = ['a', 'b', 'c', 'd'];
+    const matches = rankSessionMatches(
+      [
+        session('partial', ['a', 'b', 'c', 'e'], 0),
+        session('later', ['a', 'b', 'c', 'd'], 2000),
+        session('earlier', ['a', 'b', 'c', 'd'], 1000),
+      ],
+      race,
+    );
+    expect(matches.map((s) => s.id)).toEqual(['earlier', 'later', 'partial']);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Live bet market helpers: probability of a market on a lineup
+ * prediction (pricing) and its outcome on the results of a race
+ * (settlement). Positions are among the players of the race.
+ */
+
+import { LiveBetMarketType } from '../entities/live-bet.entity';
+import { LineupPrediction } from '../../betting/types/odds-calculator.types';
+import { LIVE_BETTING_CONFIG } from '../config/live-betting.config';
+
+export interface LiveMarketLike {
+  marketType: LiveBetMarketType;
+  competitorId: string;
+  marketPosition: number | null;
+  opponentCompetitorId: string | null;
+}
+
+export interface LiveMarketResultLike {
+  competitorId: string;
+  rank12: number;
+}
+
+export type LiveMarketOutcome = 'won' | 'lost' | 'void';
+
+/**
+ * Probability of a market from the prediction of its lineup. Head-to-head
+ * uses the Plackett-Luce pairwise probability, the other markets the
+ * Monte Carlo position distribution.
+ */
+export function getMarketProbability(
+  market: LiveMarketLike,
+  predictions: LineupPrediction[],
+): number {
+  const prediction = predictions.find(
+    (p) => p.competitorId === market.competitorId,
+  );
+  if (!prediction) return 0;
+
+  const distribution = prediction.positionDistribution;
+  switch (market.marketType) {
+    case LiveBetMarketType.TOP_N:
+      return distribution
+        .slice(0, market.marketPosition ?? 1)
+        .reduce((sum, p) => sum + p, 0);
+    case LiveBetMarketType.EXACT_POSITION:
+      return distribution[(market.marketPosition ?? 1) - 1] ?? 0;
+    case LiveBetMarketType.HEAD_TO_HEAD: {
+      const opponent = predictions.find(
+        (p) => p.competitorId === market.opponentCompetitorId,
+      );
+      if (!opponent) return 1;
+      return (
+        prediction.plStrength / (prediction.plStrength + opponent.plStrength)
+      );
+    }
+    default:
+      return distribution[0] ?? 0;
+  }
+}
+
+/**
+ * Points of an early cash-out: expected result of the bet (+odd if won,
+ * -odd if lost) at the current probability of its market, with the
+ * margin taken on the probability. Rounded to 2 decimals.
+ */
+export function getCashOutValue(oddAtBet: number, probability: number): number {
+  const p = Math.min(Math.max(probability, 0), 1);
+  const value = oddAtBet * (2 * p * LIVE_BETTING_CONFIG.CASH_OUT_MARGIN - 1);
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Outcome of a market on the results of a race. A player missing from the
+ * race loses (void for either player of a head-to-head).
+ */
+export function resolveLiveMarket(
+  market: LiveMarketLike,
+  results: LiveMarketResultLike[],
+): LiveMarketOutcome {
+  const position = (competitorId: string | null): number | null => {
+    const result = results.find((r) => r.competitorId === competitorId);
+    if (!result) return null;
+    return results.filter((r) => r.rank12 < result.rank12).length + 1;
+  };
+
+  const own = position(market.competitorId);
+  if (market.marketType === LiveBetMarketType.HEAD_TO_HEAD) {
+    const opponent = position(market.opponentCompetitorId);
+    if (own === null || opponent === null) return 'void';
+    return own < opponent ? 'won' : 'lost';
+  }
+  if (own === null) return 'lost';
+
+  switch (market.marketType) {
+    case LiveBetMarketType.TOP_N:
+      return own <= (market.marketPosition ?? 1) ? 'won' : 'lost';
+    case LiveBetMarketType.EXACT_POSITION:
+      return own === market.marketPosition ? 'won' : 'lost';
+    default:
+      return own === 1 ? 'won' : 'lost';
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Matching of unlinked races to live race sessions (see
+ * LiveBettingService.resolveForRace): a race goes to the session whose
+ * lineup it covers (MIN_COMPETITOR_OVERLAP), ties broken by the closest
+ * lineup, then by the session locked first (its race started first).
+ */
+
+import { LIVE_BETTING_CONFIG } from '../config/live-betting.config';
+
+export interface LiveSessionLike {
+  confirmedCompetitorIds: string[] | null;
+  locksAt: Date | null;
+}
+
+/**
+ * Share of the session lineup that took part in the race
+ */
+export function getLineupOverlap(
+  lineupIds: string[],
+  raceCompetitorIds: string[],
+): number {
+  if (lineupIds.length === 0) return 0;
+  const race = new Set(raceCompetitorIds);
+  return lineupIds.filter((id) => race.has(id)).length / lineupIds.length;
+}
+
+/**
+ * Jaccard similarity of the session lineup and the race players
+ */
+export function getLineupSimilarity(
+  lineupIds: string[],
+  raceCompetitorIds: string[],
+): number {
+  const lineup = new Set(lineupIds);
+  const union = new Set([...lineupIds, ...raceCompetitorIds]);
+  if (union.size === 0) return 0;
+  const shared = [...new Set(raceCompetitorIds)].filter((id) =>
+    lineup.has(id),
+  ).length;
+  return shared / union.size;
+}
+
+/**
+ * Sessions a race matches, best match first
+ */
+export function rankSessionMatches<T extends LiveSessionLike>(
+  sessions: T[],
+  raceCompetitorIds: string[],
+): T[] {
+  return sessions
+    .map((session) => {
+      const lineup = session.confirmedCompetitorIds ?? [];
+      return {
+        session,
+        overlap: getLineupOverlap(lineup, raceCompetitorIds),
+        similarity: getLineupSimilarity(lineup, raceCompetitorIds),
+      };
+    })
+    .filter((m) => m.overlap >= LIVE_BETTING_CONFIG.MIN_COMPETITOR_OVERLAP)
+    .sort(
+      (a, b) =>
+        b.similarity - a.similarity ||
+        (a.session.locksAt?.getTime() ?? Number.MAX_SAFE_INTEGER) -
+          (b.session.locksAt?.getTime() ?? Number.MAX_SAFE_INTEGER),
+    )
+    .map((m) => m.session);
+}
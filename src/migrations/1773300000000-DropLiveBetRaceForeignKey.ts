@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Races can now be deleted (DELETE /races/:raceId). Live bets keep the ID
+ * of the race they were settled on so they can be re-settled afterwards,
+ * like duels which never had a foreign key on raceEventId.
+ */
+export class DropLiveBetRaceForeignKey1773300000000
+  implements MigrationInterface
+{
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "live_bets" DROP CONSTRAINT "FK_live_bets_raceEventId"`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `UPDATE "live_bets" SET "raceEventId" = NULL WHERE "raceEventId" IS NOT NULL AND "raceEventId" NOT IN (SELECT "id" FROM "races")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "live_bets" ADD CONSTRAINT "FK_live_bets_raceEventId" FOREIGN KEY ("raceEventId") REFERENCES "races"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+  }
+}
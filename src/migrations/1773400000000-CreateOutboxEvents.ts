@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateOutboxEvents1773400000000 implements MigrationInterface {
+  name = 'CreateOutboxEvents1773400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."outbox_events_status_enum" AS ENUM('pending', 'dispatched', 'failed')`,
+    );
+
+    await queryRunner.query(`CREATE TABLE "outbox_events" (
+      "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+      "eventName" character varying NOT NULL,
+      "payload" jsonb NOT NULL,
+      "status" "public"."outbox_events_status_enum" NOT NULL DEFAULT 'pending',
+      "attempts" integer NOT NULL DEFAULT 0,
+      "lastError" text,
+      "nextAttemptAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+      "dispatchedAt" TIMESTAMP WITH TIME ZONE,
+      CONSTRAINT "PK_outbox_events_id" PRIMARY KEY ("id")
+    )`);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_outbox_events_status_nextAttemptAt" ON "outbox_events" ("status", "nextAttemptAt")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "IDX_outbox_events_status_nextAttemptAt"`,
+    );
+    await queryRunner.query(`DROP TABLE "outbox_events"`);
+    await queryRunner.query(`DROP TYPE "public"."outbox_events_status_enum"`);
+  }
+}
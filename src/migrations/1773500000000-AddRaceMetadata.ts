@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRaceMetadata1773500000000 implements MigrationInterface {
+  name = 'AddRaceMetadata1773500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."races_mode_enum" AS ENUM('grand_prix', 'vs_race', 'battle')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."races_engineclass_enum" AS ENUM('50cc', '100cc', '150cc', '200cc', 'mirror')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."races_itemset_enum" AS ENUM('normal', 'frantic', 'shells_only', 'bananas_only', 'mushrooms_only', 'bobombs_only', 'custom', 'none')`,
+    );
+
+    await queryRunner.query(`ALTER TABLE "races"
+      ADD COLUMN "track" character varying,
+      ADD COLUMN "cup" character varying,
+      ADD COLUMN "mode" "public"."races_mode_enum",
+      ADD COLUMN "engineClass" "public"."races_engineclass_enum",
+      ADD COLUMN "itemSet" "public"."races_itemset_enum",
+      ADD COLUMN "cpuCount" integer,
+      ADD COLUMN "humanPlayerCount" integer`);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_races_track" ON "races" ("track")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_races_track"`);
+    await queryRunner.query(`ALTER TABLE "races"
+      DROP COLUMN "humanPlayerCount",
+      DROP COLUMN "cpuCount",
+      DROP COLUMN "itemSet",
+      DROP COLUMN "engineClass",
+      DROP COLUMN "mode",
+      DROP COLUMN "cup",
+      DROP COLUMN "track"`);
+    await queryRunner.query(`DROP TYPE "public"."races_itemset_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."races_engineclass_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."races_mode_enum"`);
+  }
+}
@@ -0,0 +1,65 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Per-pool ratings (engine class, mode...) and per-pool ELO snapshots.
+ * No backfill: pools are keyed on race metadata, which older races lack.
+ */
+export class AddRatingPools1773600000000 implements MigrationInterface {
+  name = 'AddRatingPools1773600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TABLE "competitor_pool_ratings" (
+      "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+      "competitorId" uuid NOT NULL,
+      "pool" character varying NOT NULL,
+      "rating" double precision NOT NULL,
+      "rd" double precision NOT NULL,
+      "vol" double precision NOT NULL,
+      "raceCount" integer NOT NULL DEFAULT 0,
+      "lastRaceDate" TIMESTAMP WITH TIME ZONE,
+      "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+      CONSTRAINT "PK_competitor_pool_ratings_id" PRIMARY KEY ("id"),
+      CONSTRAINT "FK_competitor_pool_ratings_competitor" FOREIGN KEY ("competitorId")
+        REFERENCES "competitors"("id") ON DELETE CASCADE
+    )`);
+
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_competitor_pool_ratings_competitor_pool" ON "competitor_pool_ratings" ("competitorId", "pool")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_competitor_pool_ratings_pool" ON "competitor_pool_ratings" ("pool")`,
+    );
+
+    // Existing snapshots all belong to the global rating
+    await queryRunner.query(
+      `ALTER TABLE "competitor_elo_snapshots" ADD "pool" character varying NOT NULL DEFAULT 'global'`,
+    );
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_competitor_elo_snapshots_competitor_date"`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_competitor_elo_snapshots_competitor_pool_date" ON "competitor_elo_snapshots" ("competitorId", "pool", "date")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DELETE FROM "competitor_elo_snapshots" WHERE "pool" <> 'global'`,
+    );
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_competitor_elo_snapshots_competitor_pool_date"`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_competitor_elo_snapshots_competitor_date" ON "competitor_elo_snapshots" ("competitorId", "date")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "competitor_elo_snapshots" DROP COLUMN "pool"`,
+    );
+
+    await queryRunner.query(`DROP INDEX "IDX_competitor_pool_ratings_pool"`);
+    await queryRunner.query(
+      `DROP INDEX "IDX_competitor_pool_ratings_competitor_pool"`,
+    );
+    await queryRunner.query(`DROP TABLE "competitor_pool_ratings"`);
+  }
+}
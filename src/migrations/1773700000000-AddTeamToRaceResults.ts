@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTeamToRaceResults1773700000000 implements MigrationInterface {
+  name = 'AddTeamToRaceResults1773700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "race_results" ADD "team" character varying(32)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "race_results" DROP COLUMN "team"`);
+  }
+}
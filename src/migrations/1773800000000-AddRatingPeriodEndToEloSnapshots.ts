@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Rating period boundary on ELO snapshots ('period' rating mode)
+ */
+export class AddRatingPeriodEndToEloSnapshots1773800000000
+  implements MigrationInterface
+{
+  name = 'AddRatingPeriodEndToEloSnapshots1773800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "competitor_elo_snapshots" ADD "ratingPeriodEnd" TIMESTAMP WITH TIME ZONE`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "competitor_elo_snapshots" DROP COLUMN "ratingPeriodEnd"`,
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * RD decay of inactive competitors: last decayed period on competitors,
+ * RD added each day on ELO snapshots
+ */
+export class AddRdDecay1773900000000 implements MigrationInterface {
+  name = 'AddRdDecay1773900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "competitors" ADD "rdDecayedThrough" TIMESTAMP WITH TIME ZONE`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "competitor_elo_snapshots" ADD "rdInflation" double precision`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "competitor_elo_snapshots" DROP COLUMN "rdInflation"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "competitors" DROP COLUMN "rdDecayedThrough"`,
+    );
+  }
+}
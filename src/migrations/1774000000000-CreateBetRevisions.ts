@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Audit history of bets (placed / edited / withdrawn while the week is open)
+ */
+export class CreateBetRevisions1774000000000 implements MigrationInterface {
+  name = 'CreateBetRevisions1774000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."bet_revisions_action_enum" AS ENUM('placed', 'updated', 'withdrawn')`,
+    );
+
+    await queryRunner.query(`CREATE TABLE "bet_revisions" (
+      "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+      "betId" uuid NOT NULL,
+      "userId" uuid NOT NULL,
+      "bettingWeekId" uuid NOT NULL,
+      "action" "public"."bet_revisions_action_enum" NOT NULL,
+      "picks" jsonb NOT NULL,
+      "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+      CONSTRAINT "PK_bet_revisions_id" PRIMARY KEY ("id")
+    )`);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_bet_revisions_betId_createdAt" ON "bet_revisions" ("betId", "createdAt")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_bet_revisions_betId_createdAt"`);
+    await queryRunner.query(`DROP TABLE "bet_revisions"`);
+    await queryRunner.query(`DROP TYPE "public"."bet_revisions_action_enum"`);
+  }
+}
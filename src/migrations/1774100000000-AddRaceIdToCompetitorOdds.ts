@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Race that triggered each odds recalculation (odds line movement)
+ */
+export class AddRaceIdToCompetitorOdds1774100000000
+  implements MigrationInterface
+{
+  name = 'AddRaceIdToCompetitorOdds1774100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "competitor_odds" ADD "raceId" uuid`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "competitor_odds" DROP COLUMN "raceId"`,
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Weekly markets besides the podium (winner, top 3, matchups, race count
+ * and average rank over / under): their odds, their bets, and the final
+ * standing of each week to settle matchups
+ */
+export class AddWeeklyMarkets1774200000000 implements MigrationInterface {
+  name = 'AddWeeklyMarkets1774200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."market_type_enum" AS ENUM('winner', 'top_three', 'matchup', 'race_count', 'avg_rank')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."market_side_enum" AS ENUM('over', 'under')`,
+    );
+
+    await queryRunner.query(`CREATE TABLE "market_odds" (
+      "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+      "bettingWeekId" uuid NOT NULL,
+      "marketType" "public"."market_type_enum" NOT NULL,
+      "competitorId" uuid NOT NULL,
+      "opponentId" uuid,
+      "line" double precision,
+      "side" "public"."market_side_enum",
+      "probability" double precision NOT NULL,
+      "odd" double precision NOT NULL,
+      "calculatedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      "raceId" uuid,
+      "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+      CONSTRAINT "PK_market_odds_id" PRIMARY KEY ("id"),
+      CONSTRAINT "FK_market_odds_competitor" FOREIGN KEY ("competitorId")
+        REFERENCES "competitors"("id") ON DELETE CASCADE
+    )`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_market_odds_bettingWeekId_calculatedAt" ON "market_odds" ("bettingWeekId", "calculatedAt")`,
+    );
+
+    await queryRunner.query(`CREATE TABLE "market_bets" (
+      "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+      "userId" uuid NOT NULL,
+      "bettingWeekId" uuid NOT NULL,
+      "marketType" "public"."market_type_enum" NOT NULL,
+      "competitorId" uuid NOT NULL,
+      "opponentId" uuid,
+      "line" double precision,
+      "side" "public"."market_side_enum",
+      "oddAtBet" double precision NOT NULL,
+      "placedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      "isFinalized" boolean NOT NULL DEFAULT false,
+      "status" "bet_status_enum" NOT NULL DEFAULT 'pending',
+      "pointsEarned" double precision,
+      "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+      CONSTRAINT "PK_market_bets_id" PRIMARY KEY ("id"),
+      CONSTRAINT "FK_market_bets_user" FOREIGN KEY ("userId")
+        REFERENCES "users"("id"),
+      CONSTRAINT "FK_market_bets_betting_week" FOREIGN KEY ("bettingWeekId")
+        REFERENCES "betting_weeks"("id"),
+      CONSTRAINT "FK_market_bets_competitor" FOREIGN KEY ("competitorId")
+        REFERENCES "competitors"("id")
+    )`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_market_bets_userId_bettingWeekId" ON "market_bets" ("userId", "bettingWeekId")`,
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "betting_weeks" ADD "finalStandings" jsonb`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "betting_weeks" DROP COLUMN "finalStandings"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "IDX_market_bets_userId_bettingWeekId"`,
+    );
+    await queryRunner.query(`DROP TABLE "market_bets"`);
+    await queryRunner.query(
+      `DROP INDEX "IDX_market_odds_bettingWeekId_calculatedAt"`,
+    );
+    await queryRunner.query(`DROP TABLE "market_odds"`);
+    await queryRunner.query(`DROP TYPE "public"."market_side_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."market_type_enum"`);
+  }
+}
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Per-week scoring mode: fixed odds or pari-mutuel pool
+ */
+export class AddBettingWeekScoringMode1774300000000
+  implements MigrationInterface
+{
+  name = 'AddBettingWeekScoringMode1774300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."betting_weeks_scoringmode_enum" AS ENUM('fixed_odds', 'pari_mutuel')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "betting_weeks" ADD "scoringMode" "public"."betting_weeks_scoringmode_enum" NOT NULL DEFAULT 'fixed_odds'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "betting_weeks" DROP COLUMN "scoringMode"`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."betting_weeks_scoringmode_enum"`,
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Season-versioned betting rulesets, seeded with the scoring and odds
+ * constants in use so far (version 1, from season 1). Existing weeks are
+ * attached to it.
+ */
+export class AddBettingRulesets1774400000000 implements MigrationInterface {
+  name = 'AddBettingRulesets1774400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TABLE "betting_rulesets" (
+      "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+      "version" integer NOT NULL,
+      "seasonNumber" integer NOT NULL,
+      "scoring" jsonb NOT NULL,
+      "odds" jsonb NOT NULL,
+      "eligibility" jsonb NOT NULL,
+      "monteCarlo" jsonb NOT NULL,
+      "lockedAt" TIMESTAMP WITH TIME ZONE,
+      "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+      "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+      CONSTRAINT "UQ_betting_rulesets_version" UNIQUE ("version"),
+      CONSTRAINT "UQ_betting_rulesets_seasonNumber" UNIQUE ("seasonNumber"),
+      CONSTRAINT "PK_betting_rulesets_id" PRIMARY KEY ("id")
+    )`);
+    await queryRunner.query(
+      `INSERT INTO "betting_rulesets" ("version", "seasonNumber", "scoring", "odds", "eligibility", "monteCarlo", "lockedAt") VALUES (1, 1, '{"perfectPodiumBonus": 2, "boostMultiplier": 2, "minPointsPerCorrectPick": 0.1, "incorrectPickPoints": 0}', '{"minOdd": 1.1, "maxOdd": 50, "recentRacesCount": 5}', '{"MIN_LIFETIME_RACES": 5, "MIN_RECENT_RACES": 2, "RECENT_WINDOW_DAYS": 14}', '{"NUM_SIMULATIONS": 50000, "GLICKO_SCALE": 173.7178, "INCORPORATE_RD": true, "PODIUM_SIZE": 3}', now())`,
+    );
+    await queryRunner.query(`ALTER TABLE "betting_weeks" ADD "rulesetId" uuid`);
+    await queryRunner.query(
+      `UPDATE "betting_weeks" SET "rulesetId" = (SELECT "id" FROM "betting_rulesets" WHERE "version" = 1)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "betting_weeks" ADD CONSTRAINT "FK_betting_weeks_rulesetId" FOREIGN KEY ("rulesetId") REFERENCES "betting_rulesets"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "betting_weeks" DROP CONSTRAINT "FK_betting_weeks_rulesetId"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "betting_weeks" DROP COLUMN "rulesetId"`,
+    );
+    await queryRunner.query(`DROP TABLE "betting_rulesets"`);
+  }
+}
@@ -0,0 +1,51 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Private betting leagues and their members
+ */
+export class AddBettingLeagues1774500000000 implements MigrationInterface {
+  name = 'AddBettingLeagues1774500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TABLE "betting_leagues" (
+      "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+      "name" character varying(50) NOT NULL,
+      "inviteCode" character varying(12) NOT NULL,
+      "ownerId" uuid NOT NULL,
+      "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+      CONSTRAINT "UQ_betting_leagues_inviteCode" UNIQUE ("inviteCode"),
+      CONSTRAINT "PK_betting_leagues_id" PRIMARY KEY ("id"),
+      CONSTRAINT "FK_betting_leagues_owner" FOREIGN KEY ("ownerId")
+        REFERENCES "users"("id") ON DELETE CASCADE
+    )`);
+
+    await queryRunner.query(`CREATE TABLE "betting_league_members" (
+      "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+      "leagueId" uuid NOT NULL,
+      "userId" uuid NOT NULL,
+      "joinedAt" TIMESTAMP NOT NULL DEFAULT now(),
+      CONSTRAINT "PK_betting_league_members_id" PRIMARY KEY ("id"),
+      CONSTRAINT "FK_betting_league_members_league" FOREIGN KEY ("leagueId")
+        REFERENCES "betting_leagues"("id") ON DELETE CASCADE,
+      CONSTRAINT "FK_betting_league_members_user" FOREIGN KEY ("userId")
+        REFERENCES "users"("id") ON DELETE CASCADE
+    )`);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_betting_league_members_leagueId_userId" ON "betting_league_members" ("leagueId", "userId")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_betting_league_members_userId" ON "betting_league_members" ("userId")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_betting_league_members_userId"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_betting_league_members_leagueId_userId"`,
+    );
+    await queryRunner.query(`DROP TABLE "betting_league_members"`);
+    await queryRunner.query(`DROP TABLE "betting_leagues"`);
+  }
+}
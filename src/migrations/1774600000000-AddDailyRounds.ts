@@ -0,0 +1,69 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Daily podium betting rounds and their bets
+ */
+export class AddDailyRounds1774600000000 implements MigrationInterface {
+  name = 'AddDailyRounds1774600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."daily_rounds_rankingmethod_enum" AS ENUM('races_won', 'avg_rank')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."daily_rounds_status_enum" AS ENUM('open', 'closed', 'finalized', 'cancelled')`,
+    );
+
+    await queryRunner.query(`CREATE TABLE "daily_rounds" (
+      "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+      "date" date NOT NULL,
+      "bettingWeekId" uuid NOT NULL,
+      "seasonNumber" integer NOT NULL,
+      "year" integer NOT NULL,
+      "rankingMethod" "public"."daily_rounds_rankingmethod_enum" NOT NULL,
+      "status" "public"."daily_rounds_status_enum" NOT NULL DEFAULT 'open',
+      "closesAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      "odds" jsonb NOT NULL,
+      "podiumFirstId" uuid,
+      "podiumSecondId" uuid,
+      "podiumThirdId" uuid,
+      "finalizedAt" TIMESTAMP WITH TIME ZONE,
+      "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+      CONSTRAINT "UQ_daily_rounds_date" UNIQUE ("date"),
+      CONSTRAINT "PK_daily_rounds_id" PRIMARY KEY ("id"),
+      CONSTRAINT "FK_daily_rounds_bettingWeek" FOREIGN KEY ("bettingWeekId")
+        REFERENCES "betting_weeks"("id")
+    )`);
+
+    await queryRunner.query(`CREATE TABLE "daily_bets" (
+      "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+      "userId" uuid NOT NULL,
+      "dailyRoundId" uuid NOT NULL,
+      "picks" jsonb NOT NULL,
+      "status" "bet_status_enum" NOT NULL DEFAULT 'pending',
+      "pointsEarned" double precision,
+      "isFinalized" boolean NOT NULL DEFAULT false,
+      "placedAt" TIMESTAMP NOT NULL DEFAULT now(),
+      CONSTRAINT "PK_daily_bets_id" PRIMARY KEY ("id"),
+      CONSTRAINT "FK_daily_bets_user" FOREIGN KEY ("userId")
+        REFERENCES "users"("id"),
+      CONSTRAINT "FK_daily_bets_dailyRound" FOREIGN KEY ("dailyRoundId")
+        REFERENCES "daily_rounds"("id") ON DELETE CASCADE
+    )`);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_daily_bets_userId_dailyRoundId" ON "daily_bets" ("userId", "dailyRoundId")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_daily_bets_userId_dailyRoundId"`,
+    );
+    await queryRunner.query(`DROP TABLE "daily_bets"`);
+    await queryRunner.query(`DROP TABLE "daily_rounds"`);
+    await queryRunner.query(`DROP TYPE "public"."daily_rounds_status_enum"`);
+    await queryRunner.query(
+      `DROP TYPE "public"."daily_rounds_rankingmethod_enum"`,
+    );
+  }
+}
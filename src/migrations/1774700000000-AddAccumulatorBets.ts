@@ -0,0 +1,67 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Accumulator bets and their legs (one per week)
+ */
+export class AddAccumulatorBets1774700000000 implements MigrationInterface {
+  name = 'AddAccumulatorBets1774700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."accumulator_legs_status_enum" AS ENUM('pending', 'won', 'lost', 'void')`,
+    );
+
+    await queryRunner.query(`CREATE TABLE "accumulator_bets" (
+      "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+      "userId" uuid NOT NULL,
+      "combinedOdd" double precision NOT NULL,
+      "seasonNumber" integer NOT NULL,
+      "year" integer NOT NULL,
+      "status" "bet_status_enum" NOT NULL DEFAULT 'pending',
+      "pointsEarned" double precision,
+      "isFinalized" boolean NOT NULL DEFAULT false,
+      "settledAt" TIMESTAMP WITH TIME ZONE,
+      "placedAt" TIMESTAMP NOT NULL DEFAULT now(),
+      CONSTRAINT "PK_accumulator_bets_id" PRIMARY KEY ("id"),
+      CONSTRAINT "FK_accumulator_bets_user" FOREIGN KEY ("userId")
+        REFERENCES "users"("id")
+    )`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_accumulator_bets_userId" ON "accumulator_bets" ("userId")`,
+    );
+
+    await queryRunner.query(`CREATE TABLE "accumulator_legs" (
+      "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+      "accumulatorBetId" uuid NOT NULL,
+      "bettingWeekId" uuid NOT NULL,
+      "competitorId" uuid NOT NULL,
+      "position" "public"."bet_picks_position_enum" NOT NULL,
+      "oddAtBet" double precision NOT NULL,
+      "status" "public"."accumulator_legs_status_enum" NOT NULL DEFAULT 'pending',
+      CONSTRAINT "PK_accumulator_legs_id" PRIMARY KEY ("id"),
+      CONSTRAINT "FK_accumulator_legs_accumulatorBet" FOREIGN KEY ("accumulatorBetId")
+        REFERENCES "accumulator_bets"("id") ON DELETE CASCADE,
+      CONSTRAINT "FK_accumulator_legs_bettingWeek" FOREIGN KEY ("bettingWeekId")
+        REFERENCES "betting_weeks"("id"),
+      CONSTRAINT "FK_accumulator_legs_competitor" FOREIGN KEY ("competitorId")
+        REFERENCES "competitors"("id")
+    )`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_accumulator_legs_bettingWeekId" ON "accumulator_legs" ("bettingWeekId")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_accumulator_legs_bettingWeekId"`,
+    );
+    await queryRunner.query(`DROP TABLE "accumulator_legs"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_accumulator_bets_userId"`,
+    );
+    await queryRunner.query(`DROP TABLE "accumulator_bets"`);
+    await queryRunner.query(
+      `DROP TYPE "public"."accumulator_legs_status_enum"`,
+    );
+  }
+}
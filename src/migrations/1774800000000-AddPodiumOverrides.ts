@@ -0,0 +1,80 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Podium overrides with their objections, and the podium audit of
+ * betting weeks (automatic podium, override reason)
+ */
+export class AddPodiumOverrides1774800000000 implements MigrationInterface {
+  name = 'AddPodiumOverrides1774800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "betting_weeks"
+      ADD "automaticPodium" jsonb,
+      ADD "podiumOverrideReason" text,
+      ADD "podiumOverriddenAt" TIMESTAMP WITH TIME ZONE`);
+    // Best guess for the weeks finalized so far: their current podium
+    await queryRunner.query(`UPDATE "betting_weeks"
+      SET "automaticPodium" = jsonb_build_array("podiumFirstId", "podiumSecondId", "podiumThirdId")
+      WHERE "podiumFirstId" IS NOT NULL`);
+
+    await queryRunner.query(
+      `CREATE TYPE "public"."podium_overrides_status_enum" AS ENUM('pending', 'contested', 'applied', 'rejected')`,
+    );
+    await queryRunner.query(`CREATE TABLE "podium_overrides" (
+      "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+      "bettingWeekId" uuid NOT NULL,
+      "proposedById" uuid NOT NULL,
+      "podiumFirstId" uuid NOT NULL,
+      "podiumSecondId" uuid NOT NULL,
+      "podiumThirdId" uuid NOT NULL,
+      "previousPodium" jsonb,
+      "reason" text NOT NULL,
+      "status" "public"."podium_overrides_status_enum" NOT NULL DEFAULT 'pending',
+      "objectionDeadline" TIMESTAMP WITH TIME ZONE NOT NULL,
+      "resolvedAt" TIMESTAMP WITH TIME ZONE,
+      "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+      CONSTRAINT "PK_podium_overrides_id" PRIMARY KEY ("id"),
+      CONSTRAINT "FK_podium_overrides_bettingWeek" FOREIGN KEY ("bettingWeekId")
+        REFERENCES "betting_weeks"("id"),
+      CONSTRAINT "FK_podium_overrides_proposedBy" FOREIGN KEY ("proposedById")
+        REFERENCES "users"("id")
+    )`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_podium_overrides_bettingWeekId" ON "podium_overrides" ("bettingWeekId")`,
+    );
+
+    await queryRunner.query(`CREATE TABLE "podium_override_objections" (
+      "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+      "podiumOverrideId" uuid NOT NULL,
+      "userId" uuid NOT NULL,
+      "reason" text NOT NULL,
+      "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+      CONSTRAINT "PK_podium_override_objections_id" PRIMARY KEY ("id"),
+      CONSTRAINT "FK_podium_override_objections_podiumOverride" FOREIGN KEY ("podiumOverrideId")
+        REFERENCES "podium_overrides"("id") ON DELETE CASCADE,
+      CONSTRAINT "FK_podium_override_objections_user" FOREIGN KEY ("userId")
+        REFERENCES "users"("id")
+    )`);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_podium_override_objections_podiumOverrideId_userId" ON "podium_override_objections" ("podiumOverrideId", "userId")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_podium_override_objections_podiumOverrideId_userId"`,
+    );
+    await queryRunner.query(`DROP TABLE "podium_override_objections"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_podium_overrides_bettingWeekId"`,
+    );
+    await queryRunner.query(`DROP TABLE "podium_overrides"`);
+    await queryRunner.query(
+      `DROP TYPE "public"."podium_overrides_status_enum"`,
+    );
+    await queryRunner.query(`ALTER TABLE "betting_weeks"
+      DROP COLUMN "podiumOverriddenAt",
+      DROP COLUMN "podiumOverrideReason",
+      DROP COLUMN "automaticPodium"`);
+  }
+}
@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Live bets priced on their lineup: priced lineup, pending re-quote and
+ * the awaiting acceptance status
+ */
+export class AddLiveBetLineupPricing1774900000000
+  implements MigrationInterface
+{
+  name = 'AddLiveBetLineupPricing1774900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "public"."live_bet_status_enum" ADD VALUE IF NOT EXISTS 'awaiting_acceptance' AFTER 'active'`,
+    );
+    await queryRunner.query(`ALTER TABLE "live_bets"
+      ADD "pricedCompetitorIds" jsonb,
+      ADD "quotedOdd" double precision`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`UPDATE "live_bets"
+      SET "status" = 'cancelled', "cancellationReason" = 'timeout'
+      WHERE "status" = 'awaiting_acceptance'`);
+    await queryRunner.query(`ALTER TABLE "live_bets"
+      DROP COLUMN "quotedOdd",
+      DROP COLUMN "pricedCompetitorIds"`);
+    // PostgreSQL can't drop an enum value: 'awaiting_acceptance' stays unused
+  }
+}
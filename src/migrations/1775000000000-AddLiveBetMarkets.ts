@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Live bet markets: winner (existing bets), top-N, exact position and
+ * head-to-head
+ */
+export class AddLiveBetMarkets1775000000000 implements MigrationInterface {
+  name = 'AddLiveBetMarkets1775000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."live_bet_market_type_enum" AS ENUM('winner', 'top_n', 'exact_position', 'head_to_head')`,
+    );
+    await queryRunner.query(`ALTER TABLE "live_bets"
+      ADD "marketType" "public"."live_bet_market_type_enum" NOT NULL DEFAULT 'winner',
+      ADD "marketPosition" integer,
+      ADD "opponentCompetitorId" character varying`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "live_bets"
+      DROP COLUMN "opponentCompetitorId",
+      DROP COLUMN "marketPosition",
+      DROP COLUMN "marketType"`);
+    await queryRunner.query(`DROP TYPE "public"."live_bet_market_type_enum"`);
+  }
+}
@@ -0,0 +1,76 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Live race sessions shared by the live bets of a kart-select screen.
+ * Existing live bets each get their own session (same id as the bet).
+ */
+export class AddLiveRaceSessions1775100000000 implements MigrationInterface {
+  name = 'AddLiveRaceSessions1775100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."live_race_session_status_enum" AS ENUM('detecting', 'active', 'resolved', 'cancelled')`,
+    );
+    await queryRunner.query(`CREATE TABLE "live_race_sessions" (
+      "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+      "createdById" uuid NOT NULL,
+      "photoUrl" character varying NOT NULL,
+      "detectedCharacters" jsonb,
+      "confirmedCompetitorIds" jsonb,
+      "detectionExpiresAt" TIMESTAMP WITH TIME ZONE,
+      "locksAt" TIMESTAMP WITH TIME ZONE,
+      "expiresAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      "raceEventId" uuid,
+      "status" "public"."live_race_session_status_enum" NOT NULL DEFAULT 'detecting',
+      "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+      "resolvedAt" TIMESTAMP WITH TIME ZONE,
+      CONSTRAINT "PK_live_race_sessions_id" PRIMARY KEY ("id"),
+      CONSTRAINT "FK_live_race_sessions_createdBy" FOREIGN KEY ("createdById")
+        REFERENCES "users"("id")
+    )`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_live_race_sessions_status_expiresAt" ON "live_race_sessions" ("status", "expiresAt")`,
+    );
+
+    await queryRunner.query(`INSERT INTO "live_race_sessions" (
+      "id", "createdById", "photoUrl", "detectedCharacters",
+      "confirmedCompetitorIds", "detectionExpiresAt", "locksAt", "expiresAt",
+      "raceEventId", "status", "createdAt", "resolvedAt")
+      SELECT "id", "userId", "photoUrl", "detectedCharacters",
+        "confirmedCompetitorIds", "detectionExpiresAt", "createdAt", "expiresAt",
+        "raceEventId",
+        (CASE "status"
+          WHEN 'detecting' THEN 'detecting'
+          WHEN 'active' THEN 'active'
+          WHEN 'awaiting_acceptance' THEN 'active'
+          WHEN 'cancelled' THEN 'cancelled'
+          ELSE 'resolved'
+        END)::"public"."live_race_session_status_enum",
+        "createdAt", "resolvedAt"
+      FROM "live_bets"`);
+
+    await queryRunner.query(`ALTER TABLE "live_bets" ADD "sessionId" uuid`);
+    await queryRunner.query(`UPDATE "live_bets" SET "sessionId" = "id"`);
+    await queryRunner.query(`ALTER TABLE "live_bets"
+      ALTER COLUMN "sessionId" SET NOT NULL,
+      ADD CONSTRAINT "FK_live_bets_session" FOREIGN KEY ("sessionId")
+        REFERENCES "live_race_sessions"("id")`);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_live_bets_sessionId_userId" ON "live_bets" ("sessionId", "userId")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_live_bets_sessionId_userId"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "live_bets" DROP CONSTRAINT "FK_live_bets_session"`,
+    );
+    await queryRunner.query(`ALTER TABLE "live_bets" DROP COLUMN "sessionId"`);
+    await queryRunner.query(`DROP TABLE "live_race_sessions"`);
+    await queryRunner.query(
+      `DROP TYPE "public"."live_race_session_status_enum"`,
+    );
+  }
+}
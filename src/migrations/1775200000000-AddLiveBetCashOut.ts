@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Live bets settled early by a cash-out
+ */
+export class AddLiveBetCashOut1775200000000 implements MigrationInterface {
+  name = 'AddLiveBetCashOut1775200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "public"."live_bet_status_enum" ADD VALUE IF NOT EXISTS 'cashed_out'`,
+    );
+  }
+
+  public async down(): Promise<void> {
+    // PostgreSQL can't drop an enum value: 'cashed_out' stays unused
+  }
+}
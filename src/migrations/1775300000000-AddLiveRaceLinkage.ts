@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Explicit race / live session linkage: the session a race settles, race
+ * analyses (screenshot results) and the review queue of sessions that
+ * matched several races
+ */
+export class AddLiveRaceLinkage1775300000000 implements MigrationInterface {
+  name = 'AddLiveRaceLinkage1775300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "public"."live_race_session_status_enum" ADD VALUE IF NOT EXISTS 'review' AFTER 'active'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "live_race_sessions" ADD "candidateRaceIds" jsonb`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "races" ADD "liveSessionId" character varying`,
+    );
+
+    await queryRunner.query(`CREATE TABLE "race_analyses" (
+      "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+      "liveSessionId" character varying,
+      "track" character varying,
+      "results" jsonb NOT NULL,
+      "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+      CONSTRAINT "PK_race_analyses_id" PRIMARY KEY ("id")
+    )`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "race_analyses"`);
+    await queryRunner.query(`ALTER TABLE "races" DROP COLUMN "liveSessionId"`);
+    await queryRunner.query(`UPDATE "live_race_sessions"
+      SET "status" = 'active' WHERE "status" = 'review'`);
+    await queryRunner.query(
+      `ALTER TABLE "live_race_sessions" DROP COLUMN "candidateRaceIds"`,
+    );
+    // PostgreSQL can't drop an enum value: 'review' stays unused
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Week whose finalization unlocked an achievement, so that a rollback of
+ * the week revokes exactly those unlocks
+ */
+export class AddUserAchievementBettingWeek1775400000000
+  implements MigrationInterface
+{
+  name = 'AddUserAchievementBettingWeek1775400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user_achievements" ADD "bettingWeekId" uuid`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_user_achievements_bettingWeekId" ON "user_achievements" ("bettingWeekId")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_user_achievements_bettingWeekId"`);
+    await queryRunner.query(
+      `ALTER TABLE "user_achievements" DROP COLUMN "bettingWeekId"`,
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Weeks created ahead of time, open to accumulator legs only
+ */
+export class AddUpcomingWeekStatus1775500000000 implements MigrationInterface {
+  name = 'AddUpcomingWeekStatus1775500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "betting_weeks_status_enum" ADD VALUE IF NOT EXISTS 'upcoming' BEFORE 'calibration'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // PostgreSQL can't drop an enum value: reopen the upcoming weeks, the
+    // 'upcoming' value stays unused
+    await queryRunner.query(
+      `UPDATE "betting_weeks" SET "status" = 'open' WHERE "status" = 'upcoming'`,
+    );
+  }
+}
@@ -116,6 +116,35 @@ export class NotificationEventListener {
     }
   }
 
+  @OnEvent('podium.override_proposed')
+  async handlePodiumOverrideProposed(payload: {
+    overrideId: string;
+    weekNumber: number;
+    year: number;
+    reason: string;
+    objectionDeadline: Date;
+    userIds: string[];
+  }) {
+    try {
+      const hoursLeft = Math.round(
+        (new Date(payload.objectionDeadline).getTime() - Date.now()) / 3600000,
+      );
+      await this.notificationsService.sendNotification({
+        userIds: payload.userIds,
+        title: 'Podium corrige',
+        body: `Le podium de la semaine ${payload.weekNumber} va etre corrige : ${payload.reason}. Tu as ${hoursLeft}h pour contester.`,
+        category: NotificationCategory.BETTING,
+        tag: `podium-override-${payload.overrideId}`,
+        url: '/betting/history',
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send podium override notification ${payload.overrideId}`,
+        error,
+      );
+    }
+  }
+
   @OnEvent('duel.created')
   async handleDuelCreated(payload: {
     duel: any;
@@ -9,6 +9,11 @@ export interface ImageAnalysisRow {
   confidence: number; // 0.0 - 1.0
 }
 
+export interface ImageAnalysis {
+  results: ImageAnalysisRow[];
+  track: string | null; // as displayed on screen, null if not visible
+}
+
 const SYSTEM_MESSAGE = `You are a data-extraction assistant for a private, recreational Mario Kart 8 Deluxe tournament tracking application.
 
 Your sole task is to read race result screenshots and output structured JSON data (character names, rankings, scores) for tournament record-keeping purposes.
@@ -33,7 +38,7 @@ export class OpenAIService {
   async analyzeRaceImage(
     base64: string,
     whitelist: string[], // allowed names, exact spelling
-  ): Promise<ImageAnalysisRow[]> {
+  ): Promise<ImageAnalysis> {
     const prompt = buildPrompt(whitelist);
 
     const resp = await this.openai.chat.completions.create({
@@ -69,11 +74,16 @@ export class OpenAIService {
       throw new Error(`OpenAI refused to analyze the image`);
     }
 
-    const parsed = JSON.parse(txt) as { results: ImageAnalysisRow[] };
+    const parsed = JSON.parse(txt) as {
+      results: ImageAnalysisRow[];
+      track?: string | null;
+    };
     if (!parsed.results?.length) {
       throw new Error('Invalid JSON: "results" key missing or empty');
     }
-    return parsed.results;
+    const track =
+      typeof parsed.track === 'string' ? parsed.track.trim() || null : null;
+    return { results: parsed.results, track };
   }
 }
 
@@ -132,10 +142,15 @@ function buildPrompt(whitelist: string[]) {
   • Regarde attentivement chaque chiffre, même s'il est partiellement couvert par un élément 3D.
   • Deux joueurs avec le même score ont le même numéro de placement.
 
+  🏁 CIRCUIT
+  Si le nom du circuit est affiché (bandeau, titre, écran de sélection), recopie-le tel qu'il apparaît (ex. « Circuit Mario », « Route Arc-en-ciel »).
+  S'il n'est pas visible, mets null. N'invente jamais un nom de circuit.
+
   📋 FORMAT DE SORTIE — STRICTEMENT
-  Rends un objet JSON avec une clé "results" contenant le tableau :
+  Rends un objet JSON avec une clé "results" contenant le tableau et une clé "track" :
 
   {
+    "track": "<NomCircuit ou null>",
     "results": [
       { "character": "<NomExact>", "rank12": 1, "score": 60, "confidence": 0.95 },
       { "character": "<NomExact>", "rank12": 2, "score": 52, "confidence": 0.90 }
@@ -0,0 +1,258 @@
+/**
+ * Tests for the event outbox
+ *
+ * Focus on:
+ * - Claiming an event (one dispatch per attempt)
+ * - Dispatch, obsolete events and failures
+ * - Backoff and exhaustion of the retries
+ * - Errors of listeners registered with { suppressErrors: false }
+ * - Listeners re-run by a retry
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { FindOperator } from 'typeorm';
+import { OutboxEvent, OutboxEventStatus } from '../outbox-event.entity';
+import { OUTBOX_CONFIG, OutboxService } from '../outbox.service';
+
+type Criteria = Partial<Record<keyof OutboxEvent, unknown>>;
+
+/**
+ * In-memory outbox_events table, with the criteria used by the service
+ */
+class FakeOutboxRepository {
+  readonly rows = new Map<string, OutboxEvent>();
+
+  add(row: Partial<OutboxEvent>): OutboxEvent {
+    const event = Object.assign(new OutboxEvent(), {
+      id: `event-${this.rows.size + 1}`,
+      eventName: 'race.created',
+      payload: { raceId: 'race-1' },
+      status: OutboxEventStatus.PENDING,
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: new Date(0),
+      createdAt: new Date(this.rows.size),
+      dispatchedAt: null,
+      ...row,
+    });
+    this.rows.set(event.id, event);
+    return event;
+  }
+
+  findOne = jest.fn(({ where }: { where: { id: string } }) =>
+    Promise.resolve(this.rows.get(where.id) ?? null),
+  );
+
+  find = jest.fn(({ take }: { take: number }) =>
+    Promise.resolve(
+      [...this.rows.values()]
+        .filter(
+          (row) =>
+            row.status === OutboxEventStatus.PENDING &&
+            row.nextAttemptAt <= new Date(),
+        )
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+        .slice(0, take),
+    ),
+  );
+
+  update = jest.fn(
+    (criteria: string | Criteria, changes: Partial<OutboxEvent>) => {
+      const where: Criteria =
+        typeof criteria === 'string' ? { id: criteria } : criteria;
+      const row = this.rows.get(where.id as string);
+      const matches =
+        !!row &&
+        (where.attempts === undefined || row.attempts === where.attempts) &&
+        (!(where.status instanceof FindOperator) ||
+          row.status !== where.status.value);
+      if (matches) Object.assign(row, changes);
+      return Promise.resolve({ affected: matches ? 1 : 0 });
+    },
+  );
+}
+
+describe('OutboxService', () => {
+  let service: OutboxService;
+  let repository: FakeOutboxRepository;
+  let eventEmitter: EventEmitter2;
+
+  beforeEach(async () => {
+    repository = new FakeOutboxRepository();
+    eventEmitter = new EventEmitter2();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OutboxService,
+        { provide: getRepositoryToken(OutboxEvent), useValue: repository },
+        { provide: EventEmitter2, useValue: eventEmitter },
+      ],
+    }).compile();
+
+    service = module.get<OutboxService>(OutboxService);
+    jest.spyOn(service['logger'], 'error').mockImplementation();
+    jest.spyOn(service['logger'], 'warn').mockImplementation();
+  });
+
+  describe('dispatch', () => {
+    it('should emit the payload and mark the event as dispatched', async () => {
+      const event = repository.add({});
+      const listener = jest.fn();
+      eventEmitter.on('race.created', listener);
+
+      expect(await service.dispatch(event.id)).toBe(true);
+
+      expect(listener).toHaveBeenCalledWith({ raceId: 'race-1' });
+      expect(event.status).toBe(OutboxEventStatus.DISPATCHED);
+      expect(event.attempts).toBe(1);
+      expect(event.dispatchedAt).toBeInstanceOf(Date);
+    });
+
+    it('should emit the event rebuilt by its hydrator', async () => {
+      const event = repository.add({});
+      const listener = jest.fn();
+      eventEmitter.on('race.created', listener);
+      service.registerHydrator('race.created', (payload) =>
+        Promise.resolve({ race: { id: payload.raceId } }),
+      );
+
+      await service.dispatch(event.id);
+
+      expect(listener).toHaveBeenCalledWith({ race: { id: 'race-1' } });
+    });
+
+    it('should skip an obsolete event without emitting it', async () => {
+      const event = repository.add({});
+      const listener = jest.fn();
+      eventEmitter.on('race.created', listener);
+      service.registerHydrator('race.created', () => Promise.resolve(null));
+
+      expect(await service.dispatch(event.id)).toBe(true);
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(event.status).toBe(OutboxEventStatus.DISPATCHED);
+    });
+
+    it('should not dispatch an event already dispatched', async () => {
+      const event = repository.add({ status: OutboxEventStatus.DISPATCHED });
+      const listener = jest.fn();
+      eventEmitter.on('race.created', listener);
+
+      expect(await service.dispatch(event.id)).toBe(false);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should not dispatch an event claimed by a concurrent dispatch', async () => {
+      const event = repository.add({});
+      const listener = jest.fn();
+      eventEmitter.on('race.created', listener);
+      // Another dispatch bumps the attempts between the read and the claim
+      repository.findOne.mockResolvedValueOnce({ ...event });
+      event.attempts = 1;
+
+      expect(await service.dispatch(event.id)).toBe(false);
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('errors of the listeners', () => {
+    it('should leave the event pending with backoff when a listener throws', async () => {
+      const event = repository.add({});
+      eventEmitter.on(
+        'race.created',
+        jest.fn().mockRejectedValue(new Error('odds failed')),
+      );
+      const before = Date.now();
+
+      expect(await service.dispatch(event.id)).toBe(false);
+
+      expect(event.status).toBe(OutboxEventStatus.PENDING);
+      expect(event.lastError).toBe('odds failed');
+      expect(event.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(
+        before + OUTBOX_CONFIG.retryDelayMs,
+      );
+    });
+
+    it('should double the delay before each retry', async () => {
+      const event = repository.add({ attempts: 2 });
+      eventEmitter.on(
+        'race.created',
+        jest.fn().mockRejectedValue(new Error('down')),
+      );
+      const before = Date.now();
+
+      await service.dispatch(event.id);
+
+      expect(event.attempts).toBe(3);
+      expect(event.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(
+        before + OUTBOX_CONFIG.retryDelayMs * 4,
+      );
+    });
+
+    it('should give up after the last attempt', async () => {
+      const event = repository.add({ attempts: OUTBOX_CONFIG.maxAttempts - 1 });
+      eventEmitter.on(
+        'race.created',
+        jest.fn().mockRejectedValue(new Error('down')),
+      );
+
+      await service.dispatch(event.id);
+
+      expect(event.status).toBe(OutboxEventStatus.FAILED);
+    });
+
+    it('should dispatch despite a listener that swallows its errors', async () => {
+      const event = repository.add({});
+      // What @OnEvent does without { suppressErrors: false }
+      const relay = jest
+        .fn<Promise<void>, []>()
+        .mockRejectedValue(new Error('relay failed'));
+      eventEmitter.on(
+        'race.created',
+        jest.fn().mockImplementation(() => relay().catch(() => undefined)),
+      );
+
+      expect(await service.dispatch(event.id)).toBe(true);
+      expect(event.status).toBe(OutboxEventStatus.DISPATCHED);
+    });
+  });
+
+  describe('retryPending', () => {
+    it('should re-dispatch the due pending events only', async () => {
+      const due = repository.add({});
+      const later = repository.add({
+        nextAttemptAt: new Date(Date.now() + OUTBOX_CONFIG.retryDelayMs),
+      });
+      const failed = repository.add({ status: OutboxEventStatus.FAILED });
+      eventEmitter.on('race.created', jest.fn());
+
+      expect(await service.retryPending()).toBe(1);
+
+      expect(due.status).toBe(OutboxEventStatus.DISPATCHED);
+      expect(later.status).toBe(OutboxEventStatus.PENDING);
+      expect(failed.status).toBe(OutboxEventStatus.FAILED);
+    });
+
+    it('should re-run every listener, the one that succeeded too', async () => {
+      const event = repository.add({});
+      const succeeding = jest.fn();
+      const failing = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('down'))
+        .mockResolvedValue(undefined);
+      eventEmitter.on('race.created', succeeding);
+      eventEmitter.on('race.created', failing);
+
+      await service.dispatch(event.id);
+      event.nextAttemptAt = new Date(0);
+      await service.retryPending();
+
+      // Listeners must therefore be idempotent
+      expect(succeeding).toHaveBeenCalledTimes(2);
+      expect(failing).toHaveBeenCalledTimes(2);
+      expect(event.status).toBe(OutboxEventStatus.DISPATCHED);
+    });
+  });
+});
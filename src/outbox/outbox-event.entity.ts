@@ -0,0 +1,52 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum OutboxEventStatus {
+  PENDING = 'pending',
+  DISPATCHED = 'dispatched',
+  FAILED = 'failed',
+}
+
+/**
+ * Domain event written in the same transaction as the data it describes,
+ * and dispatched to in-process listeners once that transaction committed.
+ */
+@Entity('outbox_events')
+@Index(['status', 'nextAttemptAt'])
+export class OutboxEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  eventName: string;
+
+  @Column({ type: 'jsonb' })
+  payload: Record<string, unknown>;
+
+  @Column({
+    type: 'enum',
+    enum: OutboxEventStatus,
+    default: OutboxEventStatus.PENDING,
+  })
+  status: OutboxEventStatus;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string | null;
+
+  @Column({ type: 'timestamptz' })
+  nextAttemptAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  dispatchedAt: Date | null;
+}
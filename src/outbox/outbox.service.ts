@@ -0,0 +1,189 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { EntityManager, LessThanOrEqual, Not, Repository } from 'typeorm';
+import { OutboxEvent, OutboxEventStatus } from './outbox-event.entity';
+
+/**
+ * Builds the in-process event from a stored payload.
+ * Returns null when the event is obsolete (e.g. the race was deleted).
+ */
+export type OutboxEventHydrator = (
+  payload: Record<string, unknown>,
+) => Promise<unknown>;
+
+export const OUTBOX_CONFIG = {
+  /**
+   * Attempts before an event is marked as failed
+   */
+  maxAttempts: 5,
+
+  /**
+   * Base delay before a retry, doubled after each attempt.
+   * Also the grace period left to the post-commit dispatch
+   * before the retry task picks up a new event.
+   */
+  retryDelayMs: 60_000,
+
+  /**
+   * Max events dispatched per retry run
+   */
+  batchSize: 50,
+};
+
+/**
+ * Transactional outbox for domain events
+ *
+ * Flow:
+ * 1. enqueue() inside the business transaction (same commit as the data)
+ * 2. dispatch() after commit: listeners run through emitAsync, so a
+ *    listener registered with { suppressErrors: false } that throws
+ *    marks the event for retry
+ * 3. retryPending() (cron) re-dispatches events whose dispatch failed
+ *    or never happened (process crash between commit and dispatch)
+ *
+ * Events can be dispatched more than once, and a retry re-runs every
+ * listener of the event: listeners must be idempotent (skip what was
+ * already done for the event).
+ */
+@Injectable()
+export class OutboxService {
+  private readonly logger = new Logger(OutboxService.name);
+  private readonly hydrators = new Map<string, OutboxEventHydrator>();
+
+  constructor(
+    @InjectRepository(OutboxEvent)
+    private readonly outboxRepository: Repository<OutboxEvent>,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Register how to rebuild an event from its stored payload.
+   * Events without hydrator are emitted with the raw payload.
+   */
+  registerHydrator(eventName: string, hydrator: OutboxEventHydrator): void {
+    this.hydrators.set(eventName, hydrator);
+  }
+
+  /**
+   * Store an event in the current transaction
+   *
+   * @param em - Transaction entity manager
+   * @param eventName - Name of the event emitted on dispatch
+   * @param payload - JSON payload (keep it small: IDs, not entities)
+   */
+  async enqueue(
+    em: EntityManager,
+    eventName: string,
+    payload: Record<string, unknown>,
+  ): Promise<OutboxEvent> {
+    const event = em.create(OutboxEvent, {
+      eventName,
+      payload,
+      status: OutboxEventStatus.PENDING,
+      attempts: 0,
+      nextAttemptAt: new Date(Date.now() + OUTBOX_CONFIG.retryDelayMs),
+    });
+    return em.save(event);
+  }
+
+  /**
+   * Dispatch events after the transaction committed, without blocking
+   * the caller. Failures are left to the retry task.
+   */
+  dispatchAfterCommit(events: OutboxEvent[]): void {
+    void (async () => {
+      for (const event of events) {
+        await this.dispatch(event.id);
+      }
+    })().catch((error: Error) =>
+      this.logger.error(`Post-commit dispatch failed: ${error.message}`),
+    );
+  }
+
+  /**
+   * Emit a stored event to its listeners
+   *
+   * @param id - Outbox event UUID
+   * @returns true if the event was dispatched by this call
+   */
+  async dispatch(id: string): Promise<boolean> {
+    const event = await this.outboxRepository.findOne({ where: { id } });
+    if (!event || event.status === OutboxEventStatus.DISPATCHED) return false;
+
+    // Claim the event: bumping attempts makes concurrent dispatches no-op
+    const attempt = event.attempts + 1;
+    const claim = await this.outboxRepository.update(
+      {
+        id,
+        attempts: event.attempts,
+        status: Not(OutboxEventStatus.DISPATCHED),
+      },
+      {
+        attempts: attempt,
+        nextAttemptAt: new Date(
+          Date.now() + OUTBOX_CONFIG.retryDelayMs * 2 ** (attempt - 1),
+        ),
+      },
+    );
+    if (!claim.affected) return false;
+
+    try {
+      const hydrator = this.hydrators.get(event.eventName);
+      const payload = hydrator ? await hydrator(event.payload) : event.payload;
+
+      if (payload === null) {
+        this.logger.warn(
+          `Outbox event ${event.eventName} (${id}) is obsolete, skipping`,
+        );
+      } else {
+        await this.eventEmitter.emitAsync(event.eventName, payload);
+      }
+
+      await this.outboxRepository.update(id, {
+        status: OutboxEventStatus.DISPATCHED,
+        dispatchedAt: new Date(),
+        lastError: null,
+      });
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const exhausted = attempt >= OUTBOX_CONFIG.maxAttempts;
+
+      await this.outboxRepository.update(id, {
+        status: exhausted
+          ? OutboxEventStatus.FAILED
+          : OutboxEventStatus.PENDING,
+        lastError: message,
+      });
+
+      this.logger.error(
+        `Outbox event ${event.eventName} (${id}) failed on attempt ${attempt}/${OUTBOX_CONFIG.maxAttempts}${exhausted ? ', giving up' : ''}: ${message}`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Re-dispatch pending events whose next attempt is due
+   *
+   * @returns Number of events dispatched
+   */
+  async retryPending(): Promise<number> {
+    const events = await this.outboxRepository.find({
+      where: {
+        status: OutboxEventStatus.PENDING,
+        nextAttemptAt: LessThanOrEqual(new Date()),
+      },
+      order: { createdAt: 'ASC' },
+      take: OUTBOX_CONFIG.batchSize,
+    });
+
+    let dispatched = 0;
+    for (const event of events) {
+      if (await this.dispatch(event.id)) dispatched++;
+    }
+
+    return dispatched;
+  }
+}
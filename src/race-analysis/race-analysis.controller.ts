@@ -5,6 +5,7 @@ import {
   UseInterceptors,
   Body,
   ParseArrayPipe,
+  ParseUUIDPipe,
   BadRequestException,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
@@ -28,6 +29,8 @@ export class RaceAnalysisController {
       new ParseArrayPipe({ items: String, separator: ',', optional: true }),
     )
     competitorIds: string[] = [],
+    @Body('liveSessionId', new ParseUUIDPipe({ optional: true }))
+    liveSessionId?: string,
   ) {
     if (!file) {
       throw new BadRequestException('Aucune image reçue');
@@ -38,13 +41,19 @@ export class RaceAnalysisController {
 
     const filePath = this.uploadService.getFilePath(file.filename);
     try {
+      if (liveSessionId) {
+        await this.raceAnalysisService.assertLiveSessionExists(liveSessionId);
+      }
       const base64 = fs.readFileSync(filePath).toString('base64');
-      const list = await this.raceAnalysisService.analyzeRaceImage(
+      const analysis = await this.raceAnalysisService.analyzeRaceImage(
         base64,
         competitorIds,
       );
       this.uploadService.removeFile(file.filename);
-      return { results: list };
+      return await this.raceAnalysisService.recordAnalysis(
+        analysis,
+        liveSessionId || null,
+      );
     } catch (err) {
       this.uploadService.removeFile(file.filename);
       throw err;
@@ -0,0 +1,30 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+} from 'typeorm';
+import { RaceCompetitorResult } from './race-analysis.service';
+
+/**
+ * Results read from a race screenshot, kept so the race submitted from
+ * them can reference the upload (and through it a live session)
+ */
+@Entity('race_analyses')
+export class RaceAnalysis {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Live race session the screenshot was taken for, if any
+  @Column({ type: 'varchar', nullable: true })
+  liveSessionId: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  track: string | null;
+
+  @Column({ type: 'jsonb' })
+  results: RaceCompetitorResult[];
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
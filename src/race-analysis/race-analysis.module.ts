@@ -1,13 +1,17 @@
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { OpenAIModule } from '../openai/openai.module';
 import { CompetitorsModule } from '../competitors/competitors.module';
 import { RaceAnalysisService } from './race-analysis.service';
 import { RaceAnalysisController } from './race-analysis.controller';
+import { RaceAnalysis } from './race-analysis.entity';
+import { LiveRaceSession } from '../live-betting/entities/live-race-session.entity';
 import { BaseCharactersModule } from 'src/base-characters/base-characters.module';
 import { CharacterVariantsModule } from 'src/character-variants/character-variants.module';
 
 @Module({
   imports: [
+    TypeOrmModule.forFeature([RaceAnalysis, LiveRaceSession]),
     OpenAIModule,
     CompetitorsModule,
     BaseCharactersModule,
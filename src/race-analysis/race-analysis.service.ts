@@ -1,7 +1,11 @@
-/* eslint-disable @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-return */
 import { Injectable, NotFoundException } from '@nestjs/common';
-import { OpenAIService } from 'src/openai/openai.service';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ImageAnalysis, OpenAIService } from 'src/openai/openai.service';
 import { CharacterVariantsService } from 'src/character-variants/character-variants.service';
+import { CharacterVariant } from 'src/character-variants/character-variant.entity';
+import { LiveRaceSession } from 'src/live-betting/entities/live-race-session.entity';
+import { RaceAnalysis } from './race-analysis.entity';
 
 export interface RaceCompetitorResult {
   competitorId: string;
@@ -9,17 +13,60 @@ export interface RaceCompetitorResult {
   score: number;
 }
 
+export interface RaceImageAnalysis {
+  results: RaceCompetitorResult[];
+  track: string | null;
+}
+
+export interface RecordedRaceAnalysis extends RaceImageAnalysis {
+  analysisId: string; // CreateRaceDto.raceAnalysisId
+}
+
 @Injectable()
 export class RaceAnalysisService {
   constructor(
     private readonly openai: OpenAIService,
     private readonly variantsSrv: CharacterVariantsService,
+    @InjectRepository(RaceAnalysis)
+    private readonly raceAnalysisRepository: Repository<RaceAnalysis>,
+    @InjectRepository(LiveRaceSession)
+    private readonly liveSessionRepository: Repository<LiveRaceSession>,
   ) {}
 
+  /**
+   * @throws NotFoundException if the live race session doesn't exist
+   */
+  async assertLiveSessionExists(liveSessionId: string): Promise<void> {
+    const exists = await this.liveSessionRepository.exists({
+      where: { id: liveSessionId },
+    });
+    if (!exists) {
+      throw new NotFoundException(`Live session ${liveSessionId} not found`);
+    }
+  }
+
+  /**
+   * Keep the results of an analysis, optionally for a live race session,
+   * so the race submitted from them can be linked to it
+   */
+  async recordAnalysis(
+    analysis: RaceImageAnalysis,
+    liveSessionId: string | null,
+  ): Promise<RecordedRaceAnalysis> {
+    const saved = await this.raceAnalysisRepository.save(
+      this.raceAnalysisRepository.create({
+        liveSessionId,
+        track: analysis.track,
+        results: analysis.results,
+      }),
+    );
+    return { analysisId: saved.id, ...analysis };
+  }
+
   async analyzeRaceImage(
     base64: string,
     competitorIds: string[],
-  ): Promise<RaceCompetitorResult[]> {
+  ): Promise<RaceImageAnalysis> {
     /* 0 – Fetch variants linked to the requested competitors */
     const variants = await this.variantsSrv.findByCompetitorIds(competitorIds);
 
@@ -34,7 +81,7 @@ export class RaceAnalysisService {
 
     /* 1 – Prepare exact labels and fast lookup maps */
 
-    const labelForVariant = (v: any) =>
+    const labelForVariant = (v: CharacterVariant): string =>
       v.baseCharacter.variants.length <= 1 || v.label === 'Default'
         ? v.baseCharacter.name
         : `${v.baseCharacter.name} ${v.label.toLowerCase()}`.trim();
@@ -62,8 +109,8 @@ export class RaceAnalysisService {
     const whitelist = [...nameToVariant.keys()];
 
     /* 2 – Call OpenAI */
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
-    const aiRows = await this.openai.analyzeRaceImage(base64, whitelist);
+    const { results: aiRows, track }: ImageAnalysis =
+      await this.openai.analyzeRaceImage(base64, whitelist);
 
     /* 3 – Direct conversion */
     const resultsWithConfidence: (RaceCompetitorResult & {
@@ -106,6 +153,9 @@ export class RaceAnalysisService {
     );
 
     // Strip confidence field before returning
-    return resultsWithConfidence.map(({ confidence: _, ...rest }) => rest);
+    return {
+      results: resultsWithConfidence.map(({ confidence: _, ...rest }) => rest),
+      track,
+    };
   }
 }
@@ -0,0 +1,322 @@
+/**
+ * Tests for the race replay
+ *
+ * Focus on:
+ * - Editing a race then reverting the edit
+ * - Deleting the latest race, after an RD decay gap and a season reset
+ */
+
+import { FindOperator } from 'typeorm';
+import { RaceReplayService } from '../race-replay.service';
+import { RaceEvent } from '../race-event.entity';
+import { RaceResult } from '../race-result.entity';
+import { Competitor } from '../../competitors/competitor.entity';
+import { CompetitorEloSnapshot } from '../../competitors/entities/competitor-elo-snapshot.entity';
+import { RatingCalculationService } from '../../rating/rating-calculation.service';
+
+type Where = Record<string, unknown>;
+
+const valueOf = <T>(criteria: unknown): T =>
+  (criteria instanceof FindOperator ? criteria.value : criteria) as T;
+
+/**
+ * Query builder over the fake tables, for the race history queries of
+ * the replay
+ */
+class FakeQueryBuilder {
+  private params: Where = {};
+
+  constructor(private readonly em: FakeEntityManager) {}
+
+  innerJoin = () => this;
+  innerJoinAndSelect = () => this;
+  select = () => this;
+  addSelect = () => this;
+  groupBy = () => this;
+
+  where = (condition: string, params: Where = {}) =>
+    this.andWhere(condition, params);
+
+  andWhere = (_condition: string, params: Where = {}) => {
+    Object.assign(this.params, params);
+    return this;
+  };
+
+  private results(): RaceResult[] {
+    const competitorIds = this.params.competitorIds as string[];
+    const before = this.params.before as Date | undefined;
+    return this.em.races
+      .filter((race) => !before || race.date < before)
+      .flatMap((race) => race.results)
+      .filter((result) => competitorIds.includes(result.competitorId));
+  }
+
+  getMany = () => Promise.resolve(this.results());
+
+  getRawMany = () => {
+    const lastRaceDates = new Map<string, Date>();
+    for (const result of this.results()) {
+      const last = lastRaceDates.get(result.competitorId);
+      if (!last || result.race.date > last) {
+        lastRaceDates.set(result.competitorId, result.race.date);
+      }
+    }
+    return Promise.resolve(
+      [...lastRaceDates].map(([competitorId, lastRaceDate]) => ({
+        competitorId,
+        lastRaceDate,
+      })),
+    );
+  };
+}
+
+/**
+ * In-memory races, competitors and snapshots, with the criteria used by
+ * the replay
+ */
+class FakeEntityManager {
+  races: RaceEvent[] = [];
+  readonly competitors = new Map<string, Competitor>();
+  readonly snapshots: CompetitorEloSnapshot[] = [];
+
+  find = jest.fn((entity: unknown, { where }: { where: Where }) => {
+    if (entity === RaceEvent) {
+      const from = valueOf<Date>(where.date);
+      return Promise.resolve(
+        this.races
+          .filter((race) => race.date >= from)
+          .sort((a, b) => a.date.getTime() - b.date.getTime()),
+      );
+    }
+    if (entity === Competitor) {
+      const ids = valueOf<string[]>(where.id);
+      return Promise.resolve(
+        ids.flatMap((id) => this.competitors.get(id) ?? []),
+      );
+    }
+    const ids = valueOf<string[]>(where.competitorId);
+    const after = valueOf<string>(where.date);
+    return Promise.resolve(
+      this.snapshots.filter(
+        (s) => ids.includes(s.competitorId) && String(s.date) > after,
+      ),
+    );
+  });
+
+  save = jest.fn((_entity: unknown, rows: unknown) => Promise.resolve(rows));
+
+  update = jest.fn(
+    (_entity: unknown, id: string, changes: Partial<Competitor>) => {
+      Object.assign(this.competitors.get(id)!, changes);
+      return Promise.resolve({ affected: 1 });
+    },
+  );
+
+  createQueryBuilder = jest.fn(() => new FakeQueryBuilder(this));
+}
+
+describe('RaceReplayService', () => {
+  const NOW = new Date('2026-03-12T12:00:00.000Z');
+  const competitorIds = ['a', 'b', 'c'];
+
+  let service: RaceReplayService;
+  let em: FakeEntityManager;
+
+  const addRace = (
+    id: string,
+    date: string,
+    ranks: Record<string, number>,
+  ): RaceEvent => {
+    const race = Object.assign(new RaceEvent(), {
+      id,
+      date: new Date(date),
+    });
+    race.results = Object.entries(ranks).map(([competitorId, rank12]) =>
+      Object.assign(new RaceResult(), {
+        id: `${id}-${competitorId}`,
+        competitorId,
+        rank12,
+        score: 60 - rank12 * 4,
+        team: null,
+        race,
+      }),
+    );
+    em.races.push(race);
+    return race;
+  };
+
+  /**
+   * Four races: one day apart, then c sits one out, then a gap of idle
+   * days across the season reset of Monday 2026-03-09
+   */
+  const seedRaces = ({ withLatest }: { withLatest: boolean }) => {
+    addRace('r1', '2026-03-02T12:00:00.000Z', { a: 1, b: 2, c: 3 });
+    addRace('r2', '2026-03-03T12:00:00.000Z', { a: 3, b: 1, c: 2 });
+    addRace('r3', '2026-03-05T12:00:00.000Z', { a: 2, b: 1 });
+    if (withLatest) {
+      addRace('r4', '2026-03-10T12:00:00.000Z', { a: 3, b: 2, c: 1 });
+    }
+  };
+
+  /**
+   * Rate every race from scratch, like race creation did
+   */
+  const rateAll = () =>
+    service.replayFrom(em as never, em.races[0].date, new Map(), competitorIds);
+
+  /**
+   * captureBaselines / correction / replayFrom, like RacesService
+   */
+  const correct = async (race: RaceEvent, apply: () => void) => {
+    const baselines = await service.captureBaselines(em as never, race.date);
+    apply();
+    await service.replayFrom(
+      em as never,
+      race.date,
+      baselines,
+      race.results.map((r) => r.competitorId),
+    );
+  };
+
+  const ratings = () =>
+    competitorIds.map((id) => {
+      const { rating, rd, vol } = em.competitors.get(id)!;
+      return { id, rating, rd, vol };
+    });
+
+  const snapshots = () =>
+    em.snapshots.map(({ competitorId, date, rating, rd, vol }) => ({
+      competitorId,
+      date,
+      rating,
+      rd,
+      vol,
+    }));
+
+  const results = () =>
+    em.races.flatMap((race) =>
+      race.results.map(
+        ({
+          id,
+          ratingBefore,
+          rdBefore,
+          volBefore,
+          ratingAfter,
+          rdAfter,
+          volAfter,
+        }) => ({
+          id,
+          ratingBefore,
+          rdBefore,
+          volBefore,
+          ratingAfter,
+          rdAfter,
+          volAfter,
+        }),
+      ),
+    );
+
+  /**
+   * Compare rating states, to the float noise of the replay
+   */
+  const expectSameRatings = (actual: object[], expected: object[]) => {
+    const round = (rows: object[]) =>
+      JSON.parse(
+        JSON.stringify(rows, (_key, value: unknown) =>
+          typeof value === 'number' ? Math.round(value * 1e6) / 1e6 : value,
+        ),
+      ) as object[];
+    expect(round(actual)).toEqual(round(expected));
+  };
+
+  /**
+   * Competitors at the default rating, with a daily snapshot to rewrite
+   */
+  const createEntityManager = (): FakeEntityManager => {
+    const manager = new FakeEntityManager();
+    for (const id of competitorIds) {
+      manager.competitors.set(
+        id,
+        Object.assign(new Competitor(), {
+          id,
+          rating: 1500,
+          rd: 350,
+          vol: 0.06,
+        }),
+      );
+      for (let day = 3; day <= 12; day++) {
+        manager.snapshots.push(
+          Object.assign(new CompetitorEloSnapshot(), {
+            competitorId: id,
+            pool: 'global',
+            date: `2026-03-${String(day).padStart(2, '0')}`,
+            rating: 0,
+            rd: 0,
+            vol: 0,
+          }),
+        );
+      }
+    }
+    return manager;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    service = new RaceReplayService(new RatingCalculationService());
+    em = createEntityManager();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should give back the original ratings when an edit is reverted', async () => {
+    seedRaces({ withLatest: true });
+    await rateAll();
+    const original = {
+      results: results(),
+      snapshots: snapshots(),
+      ratings: ratings(),
+    };
+
+    const race = em.races[1];
+    const ranks = race.results.map((r) => r.rank12);
+    await correct(race, () => {
+      race.results.forEach((r, i) => (r.rank12 = ranks[ranks.length - 1 - i]));
+    });
+    expect(results()).not.toEqual(original.results);
+    expect(snapshots()).not.toEqual(original.snapshots);
+
+    await correct(race, () => {
+      race.results.forEach((r, i) => (r.rank12 = ranks[i]));
+    });
+
+    expectSameRatings(results(), original.results);
+    expectSameRatings(snapshots(), original.snapshots);
+    expectSameRatings(ratings(), original.ratings);
+  });
+
+  it('should leave the ratings of before the latest race when it is deleted', async () => {
+    seedRaces({ withLatest: false });
+    await rateAll();
+    const withoutLatest = {
+      results: results(),
+      snapshots: snapshots(),
+      ratings: ratings(),
+    };
+
+    em = createEntityManager();
+    seedRaces({ withLatest: true });
+    await rateAll();
+    expect(ratings()).not.toEqual(withoutLatest.ratings);
+
+    const latest = em.races[3];
+    await correct(latest, () => {
+      em.races = em.races.filter((race) => race !== latest);
+    });
+
+    expectSameRatings(results(), withoutLatest.results);
+    expectSameRatings(snapshots(), withoutLatest.snapshots);
+    expectSameRatings(ratings(), withoutLatest.ratings);
+  });
+});
@@ -1,8 +1,15 @@
-import { IsISO8601, IsArray, ValidateNested } from 'class-validator';
+import {
+  IsISO8601,
+  IsArray,
+  IsOptional,
+  IsUUID,
+  ValidateNested,
+} from 'class-validator';
 import { Type } from 'class-transformer';
 import { RaceResultDto } from './race-result.dto';
+import { RaceMetadataDto } from './race-metadata.dto';
 
-export class CreateRaceDto {
+export class CreateRaceDto extends RaceMetadataDto {
   @IsISO8601()
   date: string; // e.g. 2025-02-12T19:30:00Z
 
@@ -10,4 +17,12 @@ export class CreateRaceDto {
   @ValidateNested({ each: true })
   @Type(() => RaceResultDto)
   results: RaceResultDto[];
+
+  @IsOptional()
+  @IsUUID()
+  liveSessionId?: string; // Live race session settled by the race
+
+  @IsOptional()
+  @IsUUID()
+  raceAnalysisId?: string; // Screenshot analysis the results come from
 }
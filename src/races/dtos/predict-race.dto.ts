@@ -0,0 +1,24 @@
+import {
+  IsArray,
+  IsString,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ArrayUnique,
+  IsObject,
+  IsOptional,
+} from 'class-validator';
+
+export class PredictRaceDto {
+  /** Competitors about to race (2 to 12) */
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(12)
+  @ArrayUnique()
+  @IsString({ each: true })
+  competitorIds: string[];
+
+  /** Team label of each competitor, for a team race (all or none) */
+  @IsOptional()
+  @IsObject()
+  teams?: Record<string, string>;
+}
@@ -0,0 +1,49 @@
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { EngineClass, ItemSet, RaceMode } from '../race-event.entity';
+
+/**
+ * Optional game settings of a race
+ */
+export class RaceMetadataDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  track?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  cup?: string;
+
+  @IsOptional()
+  @IsEnum(RaceMode)
+  mode?: RaceMode;
+
+  @IsOptional()
+  @IsEnum(EngineClass)
+  engineClass?: EngineClass;
+
+  @IsOptional()
+  @IsEnum(ItemSet)
+  itemSet?: ItemSet;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(11)
+  cpuCount?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(12)
+  humanPlayerCount?: number;
+}
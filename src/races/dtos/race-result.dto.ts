@@ -1,4 +1,4 @@
-import { IsString, IsInt } from 'class-validator';
+import { IsString, IsInt, IsOptional, MaxLength } from 'class-validator';
 
 export class RaceResultDto {
   @IsString()
@@ -9,4 +9,10 @@ export class RaceResultDto {
 
   @IsInt()
   score: number;
+
+  /** Team label, for team races only (all results or none) */
+  @IsOptional()
+  @IsString()
+  @MaxLength(32)
+  team?: string | null;
 }
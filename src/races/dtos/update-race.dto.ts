@@ -0,0 +1,24 @@
+import {
+  IsISO8601,
+  IsArray,
+  IsOptional,
+  ArrayMinSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { RaceResultDto } from './race-result.dto';
+import { RaceMetadataDto } from './race-metadata.dto';
+
+export class UpdateRaceDto extends RaceMetadataDto {
+  @IsOptional()
+  @IsISO8601()
+  date?: string;
+
+  /** Full replacement of the race results */
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(2)
+  @ValidateNested({ each: true })
+  @Type(() => RaceResultDto)
+  results?: RaceResultDto[];
+}
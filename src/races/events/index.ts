@@ -1 +1,2 @@
 export * from './race-created.event';
+export * from './race-corrected.event';
@@ -0,0 +1,23 @@
+import { RaceEvent } from '../race-event.entity';
+import { RaceResult } from '../race-result.entity';
+
+/**
+ * Event emitted after a race has been edited or deleted and ratings
+ * have been replayed. Listeners re-settle whatever was resolved
+ * against the original results (odds, duels, live bets).
+ */
+export class RaceCorrectedEvent {
+  constructor(
+    public readonly raceId: string,
+    /** Corrected race, or null when the race was deleted */
+    public readonly race: RaceEvent | null,
+    /** Results as they were before the correction */
+    public readonly previousResults: RaceResult[],
+    /** Competitors whose rating changed during the replay */
+    public readonly affectedCompetitorIds: string[],
+  ) {}
+
+  get deleted(): boolean {
+    return this.race === null;
+  }
+}
@@ -6,10 +6,36 @@ import {
   Column,
   ManyToOne,
   JoinColumn,
+  Index,
 } from 'typeorm';
 import { RaceResult } from './race-result.entity';
 import { BettingWeek } from '../betting/entities/betting-week.entity';
 
+export enum RaceMode {
+  GRAND_PRIX = 'grand_prix',
+  VS_RACE = 'vs_race',
+  BATTLE = 'battle',
+}
+
+export enum EngineClass {
+  CC_50 = '50cc',
+  CC_100 = '100cc',
+  CC_150 = '150cc',
+  CC_200 = '200cc',
+  MIRROR = 'mirror',
+}
+
+export enum ItemSet {
+  NORMAL = 'normal',
+  FRANTIC = 'frantic',
+  SHELLS_ONLY = 'shells_only',
+  BANANAS_ONLY = 'bananas_only',
+  MUSHROOMS_ONLY = 'mushrooms_only',
+  BOBOMBS_ONLY = 'bobombs_only',
+  CUSTOM = 'custom',
+  NONE = 'none',
+}
+
 @Entity('races')
 export class RaceEvent {
   @PrimaryGeneratedColumn('uuid')
@@ -27,6 +53,35 @@ export class RaceEvent {
   @Column({ nullable: true })
   bettingWeekId: string;
 
+  // Live race session the race settles, set on submission (explicit link,
+  // see LiveBettingService.resolveForRace)
+  @Column({ type: 'varchar', nullable: true })
+  liveSessionId: string | null;
+
+  // Race metadata (null on races recorded before it was captured)
+
+  @Index()
+  @Column({ type: 'varchar', nullable: true })
+  track: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  cup: string | null;
+
+  @Column({ type: 'enum', enum: RaceMode, nullable: true })
+  mode: RaceMode | null;
+
+  @Column({ type: 'enum', enum: EngineClass, nullable: true })
+  engineClass: EngineClass | null;
+
+  @Column({ type: 'enum', enum: ItemSet, nullable: true })
+  itemSet: ItemSet | null;
+
+  @Column({ type: 'int', nullable: true })
+  cpuCount: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  humanPlayerCount: number | null;
+
   @ManyToOne(() => BettingWeek, { nullable: true })
   @JoinColumn({ name: 'bettingWeekId' })
   bettingWeek: BettingWeek;
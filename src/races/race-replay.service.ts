@@ -0,0 +1,420 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { EntityManager, In, MoreThan, MoreThanOrEqual } from 'typeorm';
+
+import { RaceEvent } from './race-event.entity';
+import { RaceResult } from './race-result.entity';
+import { Competitor } from '../competitors/competitor.entity';
+import { CompetitorEloSnapshot } from '../competitors/entities/competitor-elo-snapshot.entity';
+import {
+  computeDerivedStats,
+  getSeasonOfDate,
+} from '../competitors/utils/competitor-history';
+import {
+  RatingCalculationService,
+  RatingState,
+} from '../rating/rating-calculation.service';
+import { GLOBAL_POOL } from '../rating/config/rating-pools.config';
+import { RD_DECAY_CONFIG } from '../rating/config/rd-decay.config';
+import {
+  getIdlePeriodEnds,
+  getRatingPeriodStart,
+  groupByRatingPeriod,
+  isPeriodMode,
+} from '../rating/utils/rating-periods';
+import {
+  CompetitorNotFoundException,
+  InsufficientDataException,
+} from '../common/exceptions';
+
+/**
+ * Rating state of a competitor at a given point in time
+ */
+export interface ReplayBaseline extends RatingState {
+  asOf: Date;
+  /**
+   * Competitor's last race, when before asOf: a baseline read from a
+   * race is the rating just before it, and that race may be deleted.
+   * Defaults to asOf.
+   */
+  lastRaceDate?: Date;
+}
+
+/**
+ * Replays Glicko-2 ratings and derived competitor stats after a race
+ * has been corrected or deleted.
+ *
+ * Usage (inside a single transaction):
+ * 1. captureBaselines() BEFORE touching the race, to know every
+ *    competitor's rating just before the replay window
+ * 2. apply the correction (update / delete the race rows)
+ * 3. replayFrom() to recompute every race of the window chronologically
+ *
+ * In 'period' rating mode (RATING_PERIOD_CONFIG) the window starts with
+ * the rating period of `from`, and races are replayed period by period.
+ */
+@Injectable()
+export class RaceReplayService {
+  private readonly logger = new Logger(RaceReplayService.name);
+
+  constructor(
+    private readonly ratingCalculationService: RatingCalculationService,
+  ) {}
+
+  /**
+   * Read the rating of each competitor right before their first race
+   * in the replay window, from the ratingBefore columns of race_results.
+   *
+   * @param em - Transaction entity manager
+   * @param from - Start of the replay window (inclusive)
+   * @param currentCompetitorIds - Competitors to capture at their current
+   *   rating when they have no race in the window
+   */
+  async captureBaselines(
+    em: EntityManager,
+    from: Date,
+    currentCompetitorIds: string[] = [],
+  ): Promise<Map<string, ReplayBaseline>> {
+    const windowStart = this.getWindowStart(from);
+    const races = await this.findRacesFrom(em, windowStart);
+    const baselines = new Map<string, ReplayBaseline>();
+
+    for (const race of races) {
+      for (const result of race.results) {
+        if (baselines.has(result.competitorId)) continue;
+
+        if (
+          result.ratingBefore == null ||
+          result.rdBefore == null ||
+          result.volBefore == null
+        ) {
+          throw new InsufficientDataException(
+            'race replay',
+            `race ${race.id} has no rating snapshot for competitor ${result.competitorId}`,
+          );
+        }
+
+        baselines.set(result.competitorId, {
+          rating: result.ratingBefore,
+          rd: result.rdBefore,
+          vol: result.volBefore,
+          asOf: race.date,
+        });
+      }
+    }
+
+    const lastRaceDates = await this.findLastRaceDates(
+      em,
+      [...baselines.keys()],
+      windowStart,
+    );
+    for (const [id, lastRaceDate] of lastRaceDates) {
+      baselines.get(id)!.lastRaceDate = lastRaceDate;
+    }
+
+    const missingIds = currentCompetitorIds.filter((id) => !baselines.has(id));
+    if (missingIds.length > 0) {
+      const now = new Date();
+      const competitors = await em.find(Competitor, {
+        where: { id: In(missingIds) },
+      });
+      for (const competitor of competitors) {
+        baselines.set(competitor.id, {
+          rating: competitor.rating,
+          rd: competitor.rd,
+          vol: competitor.vol,
+          asOf: now,
+        });
+      }
+    }
+
+    return baselines;
+  }
+
+  /**
+   * Recompute ratings for every race from `from` onward, rewrite the
+   * before/after columns of race_results and the ELO snapshots, and
+   * update the competitors' current ratings.
+   *
+   * @param em - Transaction entity manager
+   * @param from - Start of the replay window (inclusive)
+   * @param baselines - Ratings captured before the correction
+   * @param statsCompetitorIds - Competitors whose race history changed:
+   *   their derived stats (streaks, averages, counters) are rebuilt too
+   * @returns IDs of every competitor whose rating was replayed
+   */
+  async replayFrom(
+    em: EntityManager,
+    from: Date,
+    baselines: Map<string, ReplayBaseline>,
+    statsCompetitorIds: string[],
+  ): Promise<string[]> {
+    from = this.getWindowStart(from);
+    const races = await this.findRacesFrom(em, from);
+
+    const competitorIds = [
+      ...new Set([
+        ...baselines.keys(),
+        ...statsCompetitorIds,
+        ...races.flatMap((race) => race.results.map((r) => r.competitorId)),
+      ]),
+    ];
+    const competitors = await em.find(Competitor, {
+      where: { id: In(competitorIds) },
+    });
+    const competitorsById = new Map(competitors.map((c) => [c.id, c]));
+
+    const now = new Date();
+    const states = new Map<string, ReplayBaseline>();
+    for (const id of competitorIds) {
+      const competitor = competitorsById.get(id);
+      if (!competitor) throw new CompetitorNotFoundException(id);
+
+      // Competitors without any race in the window keep their current rating
+      states.set(
+        id,
+        baselines.get(id) ?? {
+          rating: competitor.rating,
+          rd: competitor.rd,
+          vol: competitor.vol,
+          asOf: now,
+        },
+      );
+    }
+
+    // Rating state after each replayed race, used to rewrite snapshots
+    const checkpoints = new Map<string, ReplayBaseline[]>();
+
+    // Each rating period is rated from the ratings at its start; in
+    // 'race' mode every race is its own period
+    const periods = isPeriodMode()
+      ? groupByRatingPeriod(races)
+      : races.map((race) => [race]);
+
+    for (const period of periods) {
+      const periodStartRatings = new Map<string, RatingState>();
+
+      for (const [index, race] of period.entries()) {
+        for (const result of race.results) {
+          if (periodStartRatings.has(result.competitorId)) continue;
+          const state = this.advanceTo(
+            states.get(result.competitorId)!,
+            race.date,
+          );
+          states.set(result.competitorId, state);
+          periodStartRatings.set(result.competitorId, state);
+        }
+
+        // Ratings after the races of the period so far
+        const updatedRatings =
+          this.ratingCalculationService.calculateRatingsForPeriod(
+            periodStartRatings,
+            period.slice(0, index + 1).map((r) => r.results),
+          );
+
+        for (const result of race.results) {
+          const before = states.get(result.competitorId)!;
+          const after = updatedRatings.get(result.competitorId)!;
+
+          result.ratingBefore = before.rating;
+          result.rdBefore = before.rd;
+          result.volBefore = before.vol;
+          result.ratingAfter = after.rating;
+          result.rdAfter = after.rd;
+          result.volAfter = after.vol;
+          result.ratingDelta =
+            after.rating - 2 * after.rd - (before.rating - 2 * before.rd);
+
+          const next = { ...after, asOf: race.date };
+          states.set(result.competitorId, next);
+          if (!checkpoints.has(result.competitorId)) {
+            checkpoints.set(result.competitorId, []);
+          }
+          checkpoints.get(result.competitorId)!.push(next);
+        }
+
+        await em.save(RaceResult, race.results);
+      }
+    }
+
+    // Derived stats are only rebuilt for competitors whose history changed
+    const histories = await this.findHistories(em, statsCompetitorIds);
+
+    const currentPeriodStart = getRatingPeriodStart(now);
+    for (const id of competitorIds) {
+      const state = states.get(id)!;
+      const finalState = this.advanceTo(state, now);
+      const history = histories.get(id);
+
+      await em.update(Competitor, id, {
+        rating: finalState.rating,
+        rd: finalState.rd,
+        vol: finalState.vol,
+        // RD decay was replayed up to the start of the current period
+        ...(RD_DECAY_CONFIG.enabled &&
+          state.asOf < currentPeriodStart && {
+            rdDecayedThrough: currentPeriodStart,
+          }),
+        ...(history ? computeDerivedStats(history, now) : {}),
+      });
+    }
+
+    await this.rewriteSnapshots(em, from, baselines, checkpoints, histories);
+
+    this.logger.log(
+      `Replayed ${races.length} races for ${competitorIds.length} competitors from ${from.toISOString()}`,
+    );
+
+    return competitorIds;
+  }
+
+  /**
+   * Rewrite the daily ELO snapshots taken after the start of the window.
+   * A snapshot dated D holds the state at the start of D (taken at 00:01).
+   */
+  private async rewriteSnapshots(
+    em: EntityManager,
+    from: Date,
+    baselines: Map<string, ReplayBaseline>,
+    checkpoints: Map<string, ReplayBaseline[]>,
+    histories: Map<string, { date: Date; rank12: number }[]>,
+  ): Promise<void> {
+    const competitorIds = [
+      ...new Set([
+        ...baselines.keys(),
+        ...checkpoints.keys(),
+        ...histories.keys(),
+      ]),
+    ];
+    if (competitorIds.length === 0) return;
+
+    const snapshots = await em.find(CompetitorEloSnapshot, {
+      where: {
+        competitorId: In(competitorIds),
+        pool: GLOBAL_POOL,
+        date: MoreThan(from.toISOString().split('T')[0]),
+      },
+    });
+
+    for (const snapshot of snapshots) {
+      const cutoff = new Date(`${String(snapshot.date)}T00:00:00.000Z`);
+      // Fall back to the baseline when no replayed race precedes the snapshot
+      const baseline = baselines.get(snapshot.competitorId);
+      const lastCheckpoint =
+        (checkpoints.get(snapshot.competitorId) ?? [])
+          .filter((c) => c.asOf < cutoff)
+          .pop() ?? (baseline && baseline.asOf < cutoff ? baseline : undefined);
+
+      if (lastCheckpoint) {
+        const state = this.advanceTo(lastCheckpoint, cutoff);
+        snapshot.rating = state.rating;
+        snapshot.rd = state.rd;
+        snapshot.vol = state.vol;
+      }
+
+      const history = histories.get(snapshot.competitorId);
+      if (history) {
+        snapshot.raceCount = history.filter((h) => h.date < cutoff).length;
+      }
+    }
+
+    await em.save(CompetitorEloSnapshot, snapshots);
+  }
+
+  /**
+   * In 'period' mode, a replay starts with the rating period of `from`
+   */
+  private getWindowStart(from: Date): Date {
+    return isPeriodMode() ? getRatingPeriodStart(from) : from;
+  }
+
+  /**
+   * Apply what happened to the rating between the state's date and
+   * `date`: the RD decay of each idle rating period (RD_DECAY_CONFIG)
+   * and the season soft resets, in chronological order.
+   */
+  private advanceTo(state: ReplayBaseline, date: Date): ReplayBaseline {
+    const lastRaceDate = state.lastRaceDate ?? state.asOf;
+    const idlePeriodEnds = RD_DECAY_CONFIG.enabled
+      ? getIdlePeriodEnds(lastRaceDate, state.asOf, date)
+      : [];
+    const seasonsCrossed = getSeasonOfDate(date) - getSeasonOfDate(state.asOf);
+    if (seasonsCrossed <= 0 && idlePeriodEnds.length === 0) return state;
+
+    let next: RatingState = state;
+    let season = getSeasonOfDate(state.asOf);
+    const resetUntil = (until: Date) => {
+      for (; season < getSeasonOfDate(until); season++) {
+        next = this.ratingCalculationService.applySeasonSoftReset(next);
+      }
+    };
+
+    for (const periodEnd of idlePeriodEnds) {
+      // A season reset runs at 00:05, after the decay of the same midnight
+      resetUntil(new Date(periodEnd.getTime() - 1));
+      next = this.ratingCalculationService.applyIdlePeriod(next);
+    }
+    resetUntil(date);
+
+    return { ...next, asOf: date, lastRaceDate };
+  }
+
+  private async findRacesFrom(
+    em: EntityManager,
+    from: Date,
+  ): Promise<RaceEvent[]> {
+    return em.find(RaceEvent, {
+      where: { date: MoreThanOrEqual(from) },
+      relations: ['results'],
+      order: { date: 'ASC', id: 'ASC' },
+    });
+  }
+
+  /**
+   * Date of each competitor's last race before `before`
+   */
+  private async findLastRaceDates(
+    em: EntityManager,
+    competitorIds: string[],
+    before: Date,
+  ): Promise<Map<string, Date>> {
+    if (competitorIds.length === 0) return new Map();
+
+    const rows: Array<{ competitorId: string; lastRaceDate: Date }> = await em
+      .createQueryBuilder(RaceResult, 'result')
+      .innerJoin('result.race', 'race')
+      .select('result.competitorId', 'competitorId')
+      .addSelect('MAX(race.date)', 'lastRaceDate')
+      .where('result.competitorId IN (:...competitorIds)', { competitorIds })
+      .andWhere('race.date < :before', { before })
+      .groupBy('result.competitorId')
+      .getRawMany();
+
+    return new Map(
+      rows.map((row) => [row.competitorId, new Date(row.lastRaceDate)]),
+    );
+  }
+
+  private async findHistories(
+    em: EntityManager,
+    competitorIds: string[],
+  ): Promise<Map<string, { date: Date; rank12: number }[]>> {
+    const histories = new Map<string, { date: Date; rank12: number }[]>(
+      competitorIds.map((id) => [id, []]),
+    );
+    if (competitorIds.length === 0) return histories;
+
+    const results = await em
+      .createQueryBuilder(RaceResult, 'result')
+      .innerJoinAndSelect('result.race', 'race')
+      .where('result.competitorId IN (:...competitorIds)', { competitorIds })
+      .getMany();
+
+    for (const result of results) {
+      histories
+        .get(result.competitorId)!
+        .push({ date: result.race.date, rank12: result.rank12 });
+    }
+
+    return histories;
+  }
+}
@@ -15,6 +15,13 @@ export class RaceResult {
   @Column()
   score: number;
 
+  /**
+   * Team label in a team race (e.g. "red" / "blue"), null in an
+   * individual race. Teammates are rated jointly, see utils/team-standings.
+   */
+  @Column({ type: 'varchar', length: 32, nullable: true })
+  team: string | null;
+
   @Column('float', { nullable: true })
   ratingDelta: number | null;
 
@@ -3,21 +3,43 @@ import {
   Controller,
   Post,
   Get,
+  Patch,
+  Delete,
   Query,
   Param,
   Body,
   HttpException,
   HttpStatus,
+  HttpCode,
   Logger,
+  ForbiddenException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Public } from '../auth/decorators/public.decorator';
 import { RacesService } from './races.service';
 import { CreateRaceDto } from './dtos/create-race.dto';
+import { UpdateRaceDto } from './dtos/update-race.dto';
+import { PredictRaceDto } from './dtos/predict-race.dto';
+import { RaceMode, EngineClass, ItemSet } from './race-event.entity';
 
 @Controller('races')
 export class RacesController {
   private readonly logger = new Logger(RacesController.name);
 
-  constructor(private racesService: RacesService) {}
+  constructor(
+    private racesService: RacesService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Helper method to check the ADMIN_SECRET query parameter of admin routes
+   */
+  private assertAdminSecret(secret: string): void {
+    const adminSecret = this.configService.get<string>('ADMIN_SECRET');
+    if (!adminSecret || secret !== adminSecret) {
+      throw new ForbiddenException('Invalid admin secret');
+    }
+  }
 
   // POST /races
   @Post()
@@ -36,6 +58,23 @@ export class RacesController {
     }
   }
 
+  // POST /races/predict
+  @Post('predict')
+  @HttpCode(HttpStatus.OK)
+  async predictRace(@Body() dto: PredictRaceDto) {
+    try {
+      return await this.racesService.predictRace(dto);
+    } catch (error) {
+      this.logger.error('Error predicting race:', error.stack);
+      throw new HttpException(
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
+        error.message || 'Error predicting race',
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   // GET /races?recent=true
   @Get()
   async findAll(@Query('recent') recent: string) {
@@ -66,6 +105,11 @@ export class RacesController {
     @Query('cursor') cursor?: string,
     @Query('period') period?: string,
     @Query('competitorId') competitorId?: string,
+    @Query('track') track?: string,
+    @Query('cup') cup?: string,
+    @Query('mode') mode?: RaceMode,
+    @Query('engineClass') engineClass?: EngineClass,
+    @Query('itemSet') itemSet?: ItemSet,
   ) {
     const limit = Math.min(parseInt(limitStr, 10) || 20, 50);
     return this.racesService.findPaginated({
@@ -73,6 +117,13 @@ export class RacesController {
       cursor: cursor || undefined,
       period: period || undefined,
       competitorId: competitorId || undefined,
+      metadata: {
+        track: track || undefined,
+        cup: cup || undefined,
+        mode: mode || undefined,
+        engineClass: engineClass || undefined,
+        itemSet: itemSet || undefined,
+      },
     });
   }
 
@@ -98,6 +149,22 @@ export class RacesController {
     }
   }
 
+  // GET /races/:raceId/teams
+  @Get(':raceId/teams')
+  async getTeamStandings(@Param('raceId') raceId: string) {
+    try {
+      return await this.racesService.getTeamStandings(raceId);
+    } catch (error) {
+      this.logger.error('Error computing team standings:', error.stack);
+      throw new HttpException(
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
+        error.message || 'Error computing team standings',
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   // GET /races/:raceId
   @Get(':raceId')
   async findOne(@Param('raceId') raceId: string) {
@@ -113,4 +180,48 @@ export class RacesController {
       );
     }
   }
+
+  // PATCH /races/:raceId - protected by ADMIN_SECRET query parameter
+  @Public()
+  @Patch(':raceId')
+  async updateRace(
+    @Query('secret') secret: string,
+    @Param('raceId') raceId: string,
+    @Body() dto: UpdateRaceDto,
+  ) {
+    this.assertAdminSecret(secret);
+    try {
+      return await this.racesService.updateRace(raceId, dto);
+    } catch (error) {
+      this.logger.error('Error updating race:', error.stack);
+      throw new HttpException(
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
+        error.message || 'Error updating race',
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // DELETE /races/:raceId - protected by ADMIN_SECRET query parameter
+  @Public()
+  @Delete(':raceId')
+  async deleteRace(
+    @Query('secret') secret: string,
+    @Param('raceId') raceId: string,
+  ) {
+    this.assertAdminSecret(secret);
+    try {
+      await this.racesService.deleteRace(raceId);
+      return { deleted: true };
+    } catch (error) {
+      this.logger.error('Error deleting race:', error.stack);
+      throw new HttpException(
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
+        error.message || 'Error deleting race',
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
 }
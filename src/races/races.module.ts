@@ -3,20 +3,39 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 
 import { RaceEvent } from './race-event.entity';
 import { RaceResult } from './race-result.entity';
+import { RaceAnalysis } from '../race-analysis/race-analysis.entity';
+import { LiveRaceSession } from '../live-betting/entities/live-race-session.entity';
 import { RacesService } from './races.service';
 import { RacesController } from './races.controller';
+import { RaceReplayService } from './race-replay.service';
 import { RaceEventRepository } from './repositories/race-event.repository';
 import { RaceResultRepository } from './repositories/race-result.repository';
 
 import { CompetitorsModule } from 'src/competitors/competitors.module';
+import { RatingModule } from 'src/rating/rating.module';
+import { OutboxModule } from 'src/outbox/outbox.module';
+import { BettingModule } from 'src/betting/betting.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([RaceEvent, RaceResult]),
+    TypeOrmModule.forFeature([
+      RaceEvent,
+      RaceResult,
+      RaceAnalysis,
+      LiveRaceSession,
+    ]),
     forwardRef(() => CompetitorsModule),
+    RatingModule,
+    OutboxModule,
+    BettingModule,
   ],
   controllers: [RacesController],
-  providers: [RacesService, RaceEventRepository, RaceResultRepository],
+  providers: [
+    RacesService,
+    RaceReplayService,
+    RaceEventRepository,
+    RaceResultRepository,
+  ],
   exports: [RacesService, RaceEventRepository, RaceResultRepository],
 })
 export class RacesModule {}
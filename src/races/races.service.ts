@@ -1,21 +1,71 @@
 /* eslint-disable @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unused-vars */
-import { Injectable, Logger, ConflictException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  ConflictException,
+  OnModuleInit,
+} from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
-import { Between } from 'typeorm';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, EntityManager, Repository } from 'typeorm';
+import { isUUID } from 'class-validator';
 
-import { RaceEvent } from './race-event.entity';
+import { RaceEvent, RaceMode, EngineClass, ItemSet } from './race-event.entity';
 import { RaceResult } from './race-result.entity';
+import { RaceAnalysis } from '../race-analysis/race-analysis.entity';
+import { LiveRaceSession } from '../live-betting/entities/live-race-session.entity';
 import { CreateRaceDto } from './dtos/create-race.dto';
-import { RaceCreatedEvent } from './events';
-import { RaceEventRepository, PaginatedRacesResult } from './repositories/race-event.repository';
+import { UpdateRaceDto } from './dtos/update-race.dto';
+import { RaceResultDto } from './dtos/race-result.dto';
+import { RaceMetadataDto } from './dtos/race-metadata.dto';
+import { PredictRaceDto } from './dtos/predict-race.dto';
+import { RaceCreatedEvent, RaceCorrectedEvent } from './events';
+import { RaceReplayService } from './race-replay.service';
+import {
+  RaceEventRepository,
+  PaginatedRacesResult,
+  RaceMetadataFilters,
+  CompetitorTrackStats,
+} from './repositories/race-event.repository';
+import { computeTeamStandings, TeamStanding } from './utils/team-standings';
+import {
+  computeHeadToHead,
+  findRivals,
+  HeadToHeadRecord,
+  HeadToHeadSummary,
+  Rival,
+} from './utils/head-to-head';
 import { SeasonUtils } from '../betting/utils/season-utils';
 import { WeekUtils } from '../betting/services/week-manager.service';
 import {
   RaceEventNotFoundException,
   InvalidRaceDataException,
+  ValidationException,
+  CompetitorNotFoundException,
 } from '../common/exceptions';
 
 import { CompetitorsService } from '../competitors/competitors.service';
+import { PlayStreakLostPayload } from '../competitors/repositories/competitor.repository';
+import { OutboxService } from '../outbox/outbox.service';
+import { OutboxEvent } from '../outbox/outbox-event.entity';
+import { RatingPoolService } from '../rating/rating-pool.service';
+import { OddsCalculatorService } from '../betting/services/odds-calculator.service';
+import { LineupPrediction } from '../betting/types/odds-calculator.types';
+import { RatingPeriodService } from '../rating/rating-period.service';
+import {
+  getRatingPeriodStart,
+  isPeriodMode,
+} from '../rating/utils/rating-periods';
+
+/**
+ * Filters of the head-to-head endpoints: a season number (of `year`)
+ * and / or a period as in GET /races/paginated
+ */
+export interface RivalryFilters {
+  season?: number;
+  year?: number;
+  period?: string;
+}
 
 interface Opponent {
   rating: number;
@@ -24,17 +74,34 @@ interface Opponent {
 }
 
 @Injectable()
-export class RacesService {
+export class RacesService implements OnModuleInit {
   private readonly logger = new Logger(RacesService.name);
 
   constructor(
     private raceEventRepository: RaceEventRepository,
     private competitorsService: CompetitorsService,
+    private raceReplayService: RaceReplayService,
+    private ratingPoolService: RatingPoolService,
+    private ratingPeriodService: RatingPeriodService,
+    private oddsCalculatorService: OddsCalculatorService,
+    private outboxService: OutboxService,
     private eventEmitter: EventEmitter2,
+    @InjectRepository(RaceAnalysis)
+    private raceAnalysisRepository: Repository<RaceAnalysis>,
+    @InjectRepository(LiveRaceSession)
+    private liveSessionRepository: Repository<LiveRaceSession>,
   ) {}
 
+  onModuleInit() {
+    this.outboxService.registerHydrator('race.created', (payload) =>
+      this.hydrateRaceCreatedEvent(payload),
+    );
+  }
+
   // CREATE a new race
   async createRace(dto: CreateRaceDto): Promise<RaceEvent> {
+    this.assertValidTeams(dto.results);
+    const liveSessionId = await this.resolveLiveSessionId(dto);
     const raceDate = new Date(dto.date);
 
     // Idempotence check: prevent duplicate races with same competitors within 60s
@@ -62,7 +129,6 @@ export class RacesService {
     }
 
     try {
-
       const race = new RaceEvent();
       race.date = raceDate;
 
@@ -75,61 +141,312 @@ export class RacesService {
         rr.competitorId = r.competitorId;
         rr.rank12 = r.rank12;
         rr.score = r.score;
+        rr.team = r.team?.trim() || null;
         return rr;
       });
 
       race.results = results;
+      race.liveSessionId = liveSessionId;
+      Object.assign(race, this.resolveMetadata(dto, {}, results.length));
+
+      // The race and every competitor update are committed together:
+      // a failure at any step leaves no partially ingested race
+      const { savedRace, outboxEvents } =
+        await this.raceEventRepository.repository.manager.transaction(
+          async (em) => {
+            // In 'period' mode, a race dated in an already closed rating
+            // period is rated by replaying from that period
+            const replayBaselines =
+              isPeriodMode() &&
+              getRatingPeriodStart(raceDate) < getRatingPeriodStart(new Date())
+                ? await this.raceReplayService.captureBaselines(
+                    em,
+                    raceDate,
+                    competitorIds,
+                  )
+                : null;
+
+            const savedRace = await em.save(race);
+
+            // Update play streaks BEFORE rating update (rating update overwrites lastRaceDate)
+            const lostStreaks = await this.updateCompetitorsPlayStreak(
+              em,
+              savedRace.results,
+              raceDate,
+            );
+
+            // Update competitors' Glicko-2 ratings
+            await this.updateCompetitorsRating(em, savedRace.results, raceDate);
+            if (replayBaselines) {
+              await this.raceReplayService.replayFrom(
+                em,
+                raceDate,
+                replayBaselines,
+                [],
+              );
+            }
+
+            // Update per-mode rating pools (no-op when pools are disabled)
+            await this.ratingPoolService.applyRace(em, savedRace);
+
+            // Mark competitors as active this week
+            await this.markCompetitorsActive(em, savedRace.results);
+
+            // Update competitor recent positions
+            await this.updateCompetitorsRecentPositions(em, savedRace.results);
+
+            // Update win streaks
+            await this.updateCompetitorsWinStreak(em, savedRace.results);
+
+            // Events are stored with the race and dispatched after commit
+            const outboxEvents: OutboxEvent[] = [];
+            for (const lostStreak of lostStreaks) {
+              outboxEvents.push(
+                await this.outboxService.enqueue(em, 'streak.play_lost', {
+                  ...lostStreak,
+                }),
+              );
+            }
+            outboxEvents.push(
+              await this.outboxService.enqueue(em, 'race.created', {
+                raceId: savedRace.id,
+              }),
+            );
+
+            return { savedRace, outboxEvents };
+          },
+        );
 
-      const savedRace = await this.raceEventRepository.save(race);
+      // Emit race.created event for other modules to react
+      this.outboxService.dispatchAfterCommit(outboxEvents);
+      this.logger.log(`Race created event queued for race ${savedRace.id}`);
 
-      // Update play streaks BEFORE rating update (rating update overwrites lastRaceDate)
-      try {
-        await this.updateCompetitorsPlayStreak(savedRace.results, raceDate);
-      } catch (error) {
-        this.logger.error('Error updating play streaks:', error.stack);
-        // Non-critical, don't fail the race creation
-      }
+      return savedRace;
+    } catch (error) {
+      this.logger.error('Error creating race:', error.stack);
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
+      throw new InvalidRaceDataException(error.message);
+    }
+  }
 
-      // Update competitors' Glicko-2 ratings
-      try {
-        await this.updateCompetitorsRating(savedRace.results);
-      } catch (error) {
-        this.logger.error('Error updating competitor ratings:', error.stack);
-        // We still return the race even if rating update fails
-      }
+  // PATCH /races/:raceId
+  async updateRace(raceId: string, dto: UpdateRaceDto): Promise<RaceEvent> {
+    if (dto.results) {
+      this.assertUniqueCompetitors(dto.results);
+      this.assertValidTeams(dto.results);
+    }
 
-      // Mark competitors as active this week
-      await this.markCompetitorsActive(savedRace.results);
+    const event = await this.raceEventRepository.repository.manager.transaction(
+      async (em) => {
+        const race = await em.findOne(RaceEvent, {
+          where: { id: raceId },
+          relations: ['results'],
+        });
+        if (!race) throw new RaceEventNotFoundException(raceId);
+
+        const previousResults = race.results.map((r) =>
+          Object.assign(new RaceResult(), r),
+        );
+        const metadata = this.resolveMetadata(
+          dto,
+          race,
+          dto.results?.length ?? race.results.length,
+        );
+        const newDate = dto.date ? new Date(dto.date) : race.date;
+        const replayFrom = newDate < race.date ? newDate : race.date;
+
+        // Ratings just before the window, read before anything changes
+        const baselines = await this.raceReplayService.captureBaselines(
+          em,
+          replayFrom,
+        );
+
+        if (dto.date || Object.keys(metadata).length > 0) {
+          await em.update(RaceEvent, race.id, {
+            ...metadata,
+            ...(dto.date && {
+              date: newDate,
+              month: newDate.getMonth() + 1,
+              year: newDate.getFullYear(),
+            }),
+          });
+        }
+
+        if (dto.results) {
+          const removed = race.results.filter(
+            (r) => !dto.results!.some((d) => d.competitorId === r.competitorId),
+          );
+          if (removed.length > 0) {
+            await em.remove(RaceResult, removed);
+          }
+
+          const results = dto.results.map((r) => {
+            const rr =
+              race.results.find((e) => e.competitorId === r.competitorId) ??
+              new RaceResult();
+            rr.competitorId = r.competitorId;
+            rr.rank12 = r.rank12;
+            rr.score = r.score;
+            rr.team = r.team?.trim() || null;
+            rr.race = race;
+            return rr;
+          });
+          await em.save(RaceResult, results);
+        }
+
+        const changedCompetitorIds = [
+          ...new Set([
+            ...previousResults.map((r) => r.competitorId),
+            ...(dto.results ?? []).map((r) => r.competitorId),
+          ]),
+        ];
+        const affectedCompetitorIds = await this.raceReplayService.replayFrom(
+          em,
+          replayFrom,
+          baselines,
+          dto.results || dto.date ? changedCompetitorIds : [],
+        );
+        // Metadata changes can move the race to another pool
+        await this.ratingPoolService.rebuild(em);
+
+        const corrected = await em.findOne(RaceEvent, {
+          where: { id: raceId },
+          relations: ['results'],
+        });
+
+        return new RaceCorrectedEvent(
+          raceId,
+          corrected,
+          previousResults,
+          affectedCompetitorIds,
+        );
+      },
+    );
 
-      // Update competitor recent positions
-      try {
-        await this.updateCompetitorsRecentPositions(savedRace.results);
-      } catch (error) {
-        this.logger.error('Error updating recent positions:', error.stack);
-        // Non-critical, don't fail the race creation
-      }
+    this.eventEmitter.emit('race.corrected', event);
+    this.logger.log(
+      `Race ${raceId} corrected, ${event.affectedCompetitorIds.length} competitors replayed`,
+    );
 
-      // Update win streaks
-      try {
-        await this.updateCompetitorsWinStreak(savedRace.results);
-      } catch (error) {
-        this.logger.error('Error updating win streaks:', error.stack);
-        // Non-critical, don't fail the race creation
-      }
+    return event.race!;
+  }
 
-      // Emit race.created event for other modules to react
-      this.eventEmitter.emit(
-        'race.created',
-        new RaceCreatedEvent(savedRace, savedRace.bettingWeekId),
+  // DELETE /races/:raceId
+  async deleteRace(raceId: string): Promise<void> {
+    const event = await this.raceEventRepository.repository.manager.transaction(
+      async (em) => {
+        const race = await em.findOne(RaceEvent, {
+          where: { id: raceId },
+          relations: ['results'],
+        });
+        if (!race) throw new RaceEventNotFoundException(raceId);
+
+        const previousResults = race.results.map((r) =>
+          Object.assign(new RaceResult(), r),
+        );
+        const baselines = await this.raceReplayService.captureBaselines(
+          em,
+          race.date,
+        );
+
+        // race_results rows are removed by ON DELETE CASCADE
+        await em.delete(RaceEvent, race.id);
+
+        const affectedCompetitorIds = await this.raceReplayService.replayFrom(
+          em,
+          race.date,
+          baselines,
+          previousResults.map((r) => r.competitorId),
+        );
+        await this.ratingPoolService.rebuild(em);
+
+        return new RaceCorrectedEvent(
+          raceId,
+          null,
+          previousResults,
+          affectedCompetitorIds,
+        );
+      },
+    );
+
+    this.eventEmitter.emit('race.corrected', event);
+    this.logger.log(
+      `Race ${raceId} deleted, ${event.affectedCompetitorIds.length} competitors replayed`,
+    );
+  }
+
+  /**
+   * Close a rating period ('period' mode): rate its races once more as a
+   * single Glicko-2 period, then snapshot every competitor's rating with
+   * the period boundary. Idempotent.
+   *
+   * @param periodEnd - End of the period to close (UTC midnight)
+   * @returns Number of competitors snapshotted
+   */
+  async closeRatingPeriod(periodEnd: Date): Promise<number> {
+    const periodStart = getRatingPeriodStart(new Date(periodEnd.getTime() - 1));
+
+    return this.raceEventRepository.repository.manager.transaction(
+      async (em) => {
+        const baselines = await this.raceReplayService.captureBaselines(
+          em,
+          periodStart,
+        );
+        await this.raceReplayService.replayFrom(em, periodStart, baselines, []);
+
+        return this.ratingPeriodService.recordPeriodEnd(em, periodEnd);
+      },
+    );
+  }
+
+  // POST /races/predict
+  async predictRace(dto: PredictRaceDto): Promise<LineupPrediction[]> {
+    const ids: unknown = dto?.competitorIds;
+    if (
+      !Array.isArray(ids) ||
+      ids.length < 2 ||
+      ids.length > 12 ||
+      !ids.every((id) => typeof id === 'string')
+    ) {
+      throw new ValidationException(
+        'competitorIds',
+        'must be a list of 2 to 12 competitor IDs',
       );
-      this.logger.log(`Race created event emitted for race ${savedRace.id}`);
+    }
+    if (new Set(ids).size !== ids.length) {
+      throw new ValidationException(
+        'competitorIds',
+        'a competitor appears more than once',
+      );
+    }
 
-      return savedRace;
-    } catch (error) {
-      this.logger.error('Error creating race:', error.stack);
-      // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
-      throw new InvalidRaceDataException(error.message);
+    if (dto.teams === undefined || dto.teams === null) {
+      return this.oddsCalculatorService.predictLineup(ids);
     }
+
+    const teams: unknown = dto.teams;
+    const teamOf = new Map<string, string>();
+    for (const id of ids) {
+      const team: unknown =
+        typeof teams === 'object'
+          ? (teams as Record<string, unknown>)[id]
+          : null;
+      if (typeof team !== 'string' || !team.trim()) {
+        throw new ValidationException(
+          'teams',
+          'every competitor of a team race needs a team',
+        );
+      }
+      teamOf.set(id, team.trim());
+    }
+    if (new Set(teamOf.values()).size < 2) {
+      throw new ValidationException(
+        'teams',
+        'a team race needs at least two teams',
+      );
+    }
+
+    return this.oddsCalculatorService.predictLineup(ids, teamOf);
   }
 
   // GET /races/latest-today
@@ -149,6 +466,12 @@ export class RacesService {
     return race;
   }
 
+  // GET /races/:raceId/teams
+  async getTeamStandings(raceId: string): Promise<TeamStanding[]> {
+    const race = await this.findOne(raceId);
+    return computeTeamStandings(race.results);
+  }
+
   // GET /races/count
   async getStats(): Promise<{
     total: number;
@@ -196,36 +519,12 @@ export class RacesService {
     cursor?: string;
     period?: string;
     competitorId?: string;
+    metadata?: RaceMetadataFilters;
   }): Promise<PaginatedRacesResult> {
-    const { limit, cursor, period, competitorId } = options;
-    let dateFrom: Date | undefined;
-    let dateTo: Date | undefined;
+    const { limit, cursor, period, competitorId, metadata } = options;
+    if (metadata) this.assertMetadataEnums(metadata);
 
-    const now = new Date();
-    const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-
-    switch (period) {
-      case 'today':
-        dateFrom = todayStart;
-        break;
-      case 'week': {
-        const weekStart = new Date(todayStart);
-        weekStart.setDate(weekStart.getDate() - 7);
-        dateFrom = weekStart;
-        break;
-      }
-      case 'season': {
-        const weekNumber = WeekUtils.getISOWeek(now);
-        const year = now.getFullYear();
-        const seasonNumber = SeasonUtils.getSeasonNumber(weekNumber, year);
-        const seasonWeeks = SeasonUtils.getSeasonWeeks(seasonNumber);
-        dateFrom = WeekUtils.getMondayOfWeek(year, seasonWeeks.start);
-        const endMonday = WeekUtils.getMondayOfWeek(year, seasonWeeks.end);
-        dateTo = new Date(endMonday.getTime() + 6 * 86400000 + 86399999); // Sunday 23:59:59
-        break;
-      }
-      // 'all' or undefined: no date filter
-    }
+    const { dateFrom, dateTo } = this.getPeriodRange(period);
 
     return this.raceEventRepository.findPaginated({
       limit,
@@ -233,9 +532,69 @@ export class RacesService {
       dateFrom,
       dateTo,
       competitorId,
+      metadata,
     });
   }
 
+  // GET /competitors/:competitorId/track-stats (via CompetitorsController)
+  async getTrackStatsForCompetitor(
+    competitorId: string,
+  ): Promise<CompetitorTrackStats[]> {
+    return this.raceEventRepository.findTrackStatsForCompetitor(competitorId);
+  }
+
+  // GET /competitors/:id/head-to-head/:otherId (via CompetitorsController)
+  async getHeadToHead(
+    competitorId: string,
+    otherId: string,
+    filters: RivalryFilters = {},
+  ): Promise<HeadToHeadRecord> {
+    if (competitorId === otherId) {
+      throw new ValidationException('otherId', 'must be another competitor');
+    }
+    for (const id of [competitorId, otherId]) {
+      if (!(await this.competitorsService.findOne(id))) {
+        throw new CompetitorNotFoundException(id);
+      }
+    }
+
+    const races = await this.raceEventRepository.findShared(
+      [competitorId, otherId],
+      this.getRivalryRange(filters),
+    );
+    return computeHeadToHead(competitorId, otherId, races);
+  }
+
+  // GET /competitors/rivalries (via CompetitorsController)
+  async getRivalryMatrix(
+    competitorIds: string[] | undefined,
+    filters: RivalryFilters = {},
+  ): Promise<Record<string, Record<string, HeadToHeadSummary>>> {
+    const summaries = await this.raceEventRepository.findHeadToHeadSummaries({
+      competitorIds,
+      ...this.getRivalryRange(filters),
+    });
+
+    const matrix: Record<string, Record<string, HeadToHeadSummary>> = {};
+    for (const { competitorId, otherId, ...summary } of summaries) {
+      matrix[competitorId] ??= {};
+      matrix[competitorId][otherId] = summary;
+    }
+    return matrix;
+  }
+
+  // GET /competitors/:id (via CompetitorsController)
+  async getRivalsForCompetitor(
+    competitorId: string,
+  ): Promise<{ nemesis: Rival | null; favouriteVictim: Rival | null }> {
+    const summaries = await this.raceEventRepository.findHeadToHeadSummaries({
+      competitorId,
+    });
+    return findRivals(
+      new Map(summaries.map(({ otherId, ...summary }) => [otherId, summary])),
+    );
+  }
+
   // GET /races?recent=true
   async findAll(recent?: boolean): Promise<RaceEvent[]> {
     if (recent) {
@@ -284,11 +643,275 @@ export class RacesService {
     return this.raceEventRepository.findSimilar(raceId, 3);
   }
 
+  /**
+   * Date range of a period filter: 'today', 'week' (last 7 days),
+   * 'season' (current season) or 'all' / undefined (no bound)
+   */
+  private getPeriodRange(period?: string): {
+    dateFrom?: Date;
+    dateTo?: Date;
+  } {
+    let dateFrom: Date | undefined;
+    let dateTo: Date | undefined;
+
+    const now = new Date();
+    const todayStart = new Date(
+      now.getFullYear(),
+      now.getMonth(),
+      now.getDate(),
+    );
+
+    switch (period) {
+      case 'today':
+        dateFrom = todayStart;
+        break;
+      case 'week': {
+        const weekStart = new Date(todayStart);
+        weekStart.setDate(weekStart.getDate() - 7);
+        dateFrom = weekStart;
+        break;
+      }
+      case 'season': {
+        const weekNumber = WeekUtils.getISOWeek(now);
+        const year = now.getFullYear();
+        const seasonNumber = SeasonUtils.getSeasonNumber(weekNumber, year);
+        const seasonWeeks = SeasonUtils.getSeasonWeeks(seasonNumber);
+        dateFrom = WeekUtils.getMondayOfWeek(year, seasonWeeks.start);
+        const endMonday = WeekUtils.getMondayOfWeek(year, seasonWeeks.end);
+        dateTo = new Date(endMonday.getTime() + 6 * 86400000 + 86399999); // Sunday 23:59:59
+        break;
+      }
+      // 'all' or undefined: no date filter
+    }
+
+    return { dateFrom, dateTo };
+  }
+
+  /**
+   * Date range of the rivalry filters: a season (of `year`, current
+   * year by default) and / or a period, both bounds applying
+   */
+  private getRivalryRange(filters: RivalryFilters): {
+    dateFrom?: Date;
+    dateTo?: Date;
+  } {
+    const range = this.getPeriodRange(filters.period);
+    if (filters.season === undefined) return range;
+
+    if (!Number.isInteger(filters.season) || filters.season < 1) {
+      throw new ValidationException('season', 'must be a positive integer');
+    }
+    const year = filters.year ?? new Date().getFullYear();
+    const seasonWeeks = SeasonUtils.getSeasonWeeks(filters.season);
+    const seasonFrom = WeekUtils.getMondayOfWeek(year, seasonWeeks.start);
+    const endMonday = WeekUtils.getMondayOfWeek(year, seasonWeeks.end);
+    const seasonTo = new Date(endMonday.getTime() + 6 * 86400000 + 86399999); // Sunday 23:59:59
+
+    return {
+      dateFrom:
+        range.dateFrom && range.dateFrom > seasonFrom
+          ? range.dateFrom
+          : seasonFrom,
+      dateTo: range.dateTo && range.dateTo < seasonTo ? range.dateTo : seasonTo,
+    };
+  }
+
+  /**
+   * Validate and normalize the metadata fields present in the payload
+   *
+   * @param dto - Payload (only provided fields are returned)
+   * @param current - Current values, to check player counts on partial updates
+   * @param resultCount - Number of tracked competitors in the race
+   */
+  private resolveMetadata(
+    dto: RaceMetadataDto,
+    current: Partial<RaceEvent>,
+    resultCount: number,
+  ): Partial<RaceEvent> {
+    const metadata: Partial<RaceEvent> = {};
+
+    if (dto.track !== undefined) metadata.track = dto.track.trim() || null;
+    if (dto.cup !== undefined) metadata.cup = dto.cup.trim() || null;
+
+    this.assertMetadataEnums(dto);
+    if (dto.mode !== undefined) metadata.mode = dto.mode;
+    if (dto.engineClass !== undefined) metadata.engineClass = dto.engineClass;
+    if (dto.itemSet !== undefined) metadata.itemSet = dto.itemSet;
+
+    if (dto.cpuCount !== undefined) {
+      if (
+        !Number.isInteger(dto.cpuCount) ||
+        dto.cpuCount < 0 ||
+        dto.cpuCount > 11
+      ) {
+        throw new ValidationException('cpuCount', 'must be between 0 and 11');
+      }
+      metadata.cpuCount = dto.cpuCount;
+    }
+    if (dto.humanPlayerCount !== undefined) {
+      if (
+        !Number.isInteger(dto.humanPlayerCount) ||
+        dto.humanPlayerCount < 1 ||
+        dto.humanPlayerCount > 12
+      ) {
+        throw new ValidationException(
+          'humanPlayerCount',
+          'must be between 1 and 12',
+        );
+      }
+      metadata.humanPlayerCount = dto.humanPlayerCount;
+    }
+
+    const humans = metadata.humanPlayerCount ?? current.humanPlayerCount;
+    const cpus = metadata.cpuCount ?? current.cpuCount;
+    if (humans != null && humans < resultCount) {
+      throw new ValidationException(
+        'humanPlayerCount',
+        `lower than the number of results (${resultCount})`,
+      );
+    }
+    if (humans != null && cpus != null && humans + cpus > 12) {
+      throw new ValidationException(
+        'cpuCount',
+        'a race has at most 12 players',
+      );
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Check mode / engine class / item set values (payloads and query
+   * params are not validated by a global pipe)
+   */
+  private assertMetadataEnums(
+    values: Pick<RaceMetadataFilters, 'mode' | 'engineClass' | 'itemSet'>,
+  ): void {
+    const enums = [
+      ['mode', RaceMode],
+      ['engineClass', EngineClass],
+      ['itemSet', ItemSet],
+    ] as const;
+    for (const [field, enumValues] of enums) {
+      const value = values[field];
+      if (value && !(Object.values(enumValues) as string[]).includes(value)) {
+        throw new ValidationException(
+          field,
+          `must be one of ${Object.values(enumValues).join(', ')}`,
+        );
+      }
+    }
+  }
+
+  private assertUniqueCompetitors(results: RaceResultDto[]): void {
+    const ids = results.map((r) => r.competitorId);
+    if (new Set(ids).size !== ids.length) {
+      throw new InvalidRaceDataException(
+        'a competitor appears more than once in the results',
+      );
+    }
+  }
+
+  /**
+   * A team race needs a team on every result and at least two teams
+   */
+  private assertValidTeams(results: RaceResultDto[]): void {
+    const teams = results.map((r) => r.team?.trim() || null);
+    if (teams.every((team) => team === null)) return;
+
+    if (teams.some((team) => team === null)) {
+      throw new InvalidRaceDataException(
+        'every result of a team race needs a team',
+      );
+    }
+    if (new Set(teams).size < 2) {
+      throw new InvalidRaceDataException(
+        'a team race needs at least two teams',
+      );
+    }
+  }
+
+  /**
+   * Live session a new race is linked to: given directly, or through the
+   * race analysis its results come from
+   *
+   * @throws InvalidRaceDataException if an ID is not a UUID, or the
+   * analysis or the session doesn't exist
+   */
+  private async resolveLiveSessionId(
+    dto: CreateRaceDto,
+  ): Promise<string | null> {
+    for (const field of ['liveSessionId', 'raceAnalysisId'] as const) {
+      const id: unknown = dto[field];
+      if (id !== undefined && id !== null && !isUUID(id)) {
+        throw new InvalidRaceDataException(`${field} must be a UUID`);
+      }
+    }
+
+    let liveSessionId = dto.liveSessionId ?? null;
+    if (dto.raceAnalysisId) {
+      const analysis = await this.raceAnalysisRepository.findOne({
+        where: { id: dto.raceAnalysisId },
+      });
+      if (!analysis) {
+        throw new InvalidRaceDataException(
+          `race analysis ${dto.raceAnalysisId} not found`,
+        );
+      }
+      if (
+        liveSessionId &&
+        analysis.liveSessionId &&
+        liveSessionId !== analysis.liveSessionId
+      ) {
+        throw new InvalidRaceDataException(
+          'the race analysis belongs to another live session',
+        );
+      }
+      liveSessionId = liveSessionId ?? analysis.liveSessionId;
+    }
+
+    if (
+      liveSessionId &&
+      !(await this.liveSessionRepository.exists({
+        where: { id: liveSessionId },
+      }))
+    ) {
+      throw new InvalidRaceDataException(
+        `live session ${liveSessionId} not found`,
+      );
+    }
+    return liveSessionId;
+  }
+
+  /**
+   * Rebuild the race.created event from the outbox payload.
+   * The race is reloaded so listeners see the committed results.
+   */
+  private async hydrateRaceCreatedEvent(
+    payload: Record<string, unknown>,
+  ): Promise<RaceCreatedEvent | null> {
+    const race = await this.raceEventRepository.repository.findOne({
+      where: { id: payload.raceId as string },
+      relations: ['results'],
+    });
+
+    // Deleted before dispatch: race.corrected already covers it
+    if (!race) return null;
+
+    return new RaceCreatedEvent(race, race.bettingWeekId ?? undefined);
+  }
+
   private async updateCompetitorsRating(
+    em: EntityManager,
     raceResults: RaceResult[],
+    raceDate: Date,
   ): Promise<void> {
     try {
-      await this.competitorsService.updateRatingsForRace(raceResults);
+      await this.competitorsService.updateRatingsForRace(
+        raceResults,
+        em,
+        raceDate,
+      );
     } catch (error) {
       this.logger.error('Error in updateCompetitorsRating:', error.stack);
       throw new InvalidRaceDataException(
@@ -301,56 +924,61 @@ export class RacesService {
    * Mark competitors as active this week (for betting eligibility)
    */
   private async markCompetitorsActive(
+    em: EntityManager,
     raceResults: RaceResult[],
   ): Promise<void> {
-    try {
-      const competitorIds = [
-        ...new Set(raceResults.map((r) => r.competitorId)),
-      ];
-
-      for (const competitorId of competitorIds) {
-        await this.competitorsService.markAsActiveThisWeek(competitorId);
-      }
+    const competitorIds = [...new Set(raceResults.map((r) => r.competitorId))];
 
-      this.logger.log(
-        `Marked ${competitorIds.length} competitors as active this week`,
-      );
-    } catch (error) {
-      this.logger.error('Error marking competitors as active:', error.message);
-      // Don't throw - this is not critical
+    for (const competitorId of competitorIds) {
+      await this.competitorsService.markAsActiveThisWeek(competitorId, em);
     }
+
+    this.logger.log(
+      `Marked ${competitorIds.length} competitors as active this week`,
+    );
   }
 
   /**
    * Update play streak for each competitor in the race
+   *
+   * @returns Broken streaks, to notify once the race is committed
    */
   private async updateCompetitorsPlayStreak(
+    em: EntityManager,
     raceResults: RaceResult[],
     raceDate: Date,
-  ): Promise<void> {
-    const competitorIds = [
-      ...new Set(raceResults.map((r) => r.competitorId)),
-    ];
+  ): Promise<PlayStreakLostPayload[]> {
+    const competitorIds = [...new Set(raceResults.map((r) => r.competitorId))];
 
+    const lostStreaks: PlayStreakLostPayload[] = [];
     for (const competitorId of competitorIds) {
-      await this.competitorsService.updatePlayStreak(competitorId, raceDate);
+      const lostStreak = await this.competitorsService.updatePlayStreak(
+        competitorId,
+        raceDate,
+        em,
+      );
+      if (lostStreak) lostStreaks.push(lostStreak);
     }
 
     this.logger.log(
       `Updated play streaks for ${competitorIds.length} competitors`,
     );
+
+    return lostStreaks;
   }
 
   /**
    * Update win streak for each competitor in the race
    */
   private async updateCompetitorsWinStreak(
+    em: EntityManager,
     raceResults: RaceResult[],
   ): Promise<void> {
     for (const result of raceResults) {
       await this.competitorsService.updateWinStreak(
         result.competitorId,
         result.rank12,
+        em,
       );
     }
 
@@ -363,6 +991,7 @@ export class RacesService {
    * Update competitor recent positions after a race
    */
   private async updateCompetitorsRecentPositions(
+    em: EntityManager,
     raceResults: RaceResult[],
   ): Promise<void> {
     const data = raceResults.map((r) => ({
@@ -370,7 +999,7 @@ export class RacesService {
       rank12: r.rank12,
     }));
 
-    await this.competitorsService.updateRecentPositions(data);
+    await this.competitorsService.updateRecentPositions(data, em);
     this.logger.log(
       `Updated recent positions for ${data.length} competitors after race`,
     );
@@ -1,8 +1,14 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { RaceEvent } from '../race-event.entity';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import {
+  RaceEvent,
+  RaceMode,
+  EngineClass,
+  ItemSet,
+} from '../race-event.entity';
 import { BaseRepository } from '../../common/repositories/base.repository';
+import { HeadToHeadSummary } from '../utils/head-to-head';
 
 export interface PaginatedRacesResult {
   races: RaceEvent[];
@@ -10,6 +16,31 @@ export interface PaginatedRacesResult {
   total: number;
 }
 
+export interface RaceMetadataFilters {
+  track?: string;
+  cup?: string;
+  mode?: RaceMode;
+  engineClass?: EngineClass;
+  itemSet?: ItemSet;
+}
+
+export interface CompetitorTrackStats {
+  track: string;
+  raceCount: number;
+  avgRank12: number;
+  bestRank12: number;
+  wins: number;
+  podiums: number;
+  avgScore: number;
+  bestScore: number;
+  lastRaceDate: Date;
+}
+
+export interface HeadToHeadPairSummary extends HeadToHeadSummary {
+  competitorId: string;
+  otherId: string;
+}
+
 /**
  * Race event repository with domain-specific queries
  */
@@ -153,8 +184,9 @@ export class RaceEventRepository extends BaseRepository<RaceEvent> {
     dateFrom?: Date;
     dateTo?: Date;
     competitorId?: string;
+    metadata?: RaceMetadataFilters;
   }): Promise<PaginatedRacesResult> {
-    const { limit, cursor, dateFrom, dateTo, competitorId } = options;
+    const { limit, cursor } = options;
 
     const qb = this.repository
       .createQueryBuilder('r')
@@ -171,24 +203,7 @@ export class RaceEventRepository extends BaseRepository<RaceEvent> {
       );
     }
 
-    if (dateFrom) {
-      qb.andWhere('r.date >= :dateFrom', { dateFrom });
-    }
-    if (dateTo) {
-      qb.andWhere('r.date <= :dateTo', { dateTo });
-    }
-
-    if (competitorId) {
-      qb.andWhere((subQb) => {
-        const sub = subQb
-          .subQuery()
-          .select('rr."raceEventId"')
-          .from('race_results', 'rr')
-          .where('rr."competitorId" = :competitorId')
-          .getQuery();
-        return `r.id IN ${sub}`;
-      }).setParameter('competitorId', competitorId);
-    }
+    this.applyFilters(qb, options);
 
     // Fetch one extra to know if there's a next page
     const races = await qb.take(limit + 1).getMany();
@@ -202,22 +217,204 @@ export class RaceEventRepository extends BaseRepository<RaceEvent> {
 
     // Count total matching races (without cursor/limit)
     const countQb = this.repository.createQueryBuilder('r');
-    if (dateFrom) countQb.andWhere('r.date >= :dateFrom', { dateFrom });
-    if (dateTo) countQb.andWhere('r.date <= :dateTo', { dateTo });
+    this.applyFilters(countQb, options);
+    const total = await countQb.getCount();
+
+    return { races, nextCursor, total };
+  }
+
+  /**
+   * Per-track stats of a competitor (races without track are ignored)
+   * @param competitorId - Competitor UUID
+   */
+  async findTrackStatsForCompetitor(
+    competitorId: string,
+  ): Promise<CompetitorTrackStats[]> {
+    const rows: Record<string, string>[] = await this.repository
+      .createQueryBuilder('r')
+      .innerJoin('r.results', 'res')
+      .select('r.track', 'track')
+      .addSelect('COUNT(*)', 'raceCount')
+      .addSelect('AVG(res.rank12)', 'avgRank12')
+      .addSelect('MIN(res.rank12)', 'bestRank12')
+      .addSelect('SUM(CASE WHEN res.rank12 = 1 THEN 1 ELSE 0 END)', 'wins')
+      .addSelect('SUM(CASE WHEN res.rank12 <= 3 THEN 1 ELSE 0 END)', 'podiums')
+      .addSelect('AVG(res.score)', 'avgScore')
+      .addSelect('MAX(res.score)', 'bestScore')
+      .addSelect('MAX(r.date)', 'lastRaceDate')
+      .where('res.competitorId = :competitorId', { competitorId })
+      .andWhere('r.track IS NOT NULL')
+      .groupBy('r.track')
+      .orderBy('"raceCount"', 'DESC')
+      .addOrderBy('r.track', 'ASC')
+      .getRawMany();
+
+    return rows.map((row) => ({
+      track: row.track,
+      raceCount: parseInt(row.raceCount, 10),
+      avgRank12: parseFloat(row.avgRank12),
+      bestRank12: parseInt(row.bestRank12, 10),
+      wins: parseInt(row.wins, 10),
+      podiums: parseInt(row.podiums, 10),
+      avgScore: parseFloat(row.avgScore),
+      bestScore: parseInt(row.bestScore, 10),
+      lastRaceDate: new Date(row.lastRaceDate),
+    }));
+  }
+
+  /**
+   * Races (with results) in which every given competitor took part,
+   * oldest first. No competitor: every race of the date range.
+   *
+   * @param competitorIds - Competitor UUIDs
+   * @param range - Optional date range (inclusive)
+   */
+  async findShared(
+    competitorIds: string[],
+    range: { dateFrom?: Date; dateTo?: Date } = {},
+  ): Promise<RaceEvent[]> {
+    const qb = this.repository
+      .createQueryBuilder('r')
+      .leftJoinAndSelect('r.results', 'res')
+      .orderBy('r.date', 'ASC')
+      .addOrderBy('r.id', 'ASC');
+
+    competitorIds.forEach((competitorId, i) => {
+      qb.andWhere(
+        `r.id IN (SELECT rr."raceId" FROM race_results rr WHERE rr."competitorId" = :competitorId${i})`,
+        { [`competitorId${i}`]: competitorId },
+      );
+    });
+    this.applyFilters(qb, range);
+
+    return qb.getMany();
+  }
+
+  /**
+   * Summary of each competitor against each opponent they met (see
+   * head-to-head), aggregated over race_results joined with itself on
+   * the race
+   *
+   * @param options.competitorId - Only the records of this competitor
+   * @param options.competitorIds - Only the pairs of these competitors
+   * @param options.dateFrom / dateTo - Optional date range (inclusive)
+   */
+  async findHeadToHeadSummaries(
+    options: {
+      competitorId?: string;
+      competitorIds?: string[];
+      dateFrom?: Date;
+      dateTo?: Date;
+    } = {},
+  ): Promise<HeadToHeadPairSummary[]> {
+    const { competitorId, competitorIds, dateFrom, dateTo } = options;
+    if (competitorIds?.length === 0) return [];
+
+    const qb = this.repository
+      .createQueryBuilder('r')
+      .innerJoin('r.results', 'own')
+      // Teammates don't meet in team races
+      .innerJoin(
+        'r.results',
+        'other',
+        'other.competitorId <> own.competitorId AND (own.team IS NULL OR own.team IS DISTINCT FROM other.team)',
+      )
+      .select('own.competitorId', 'competitorId')
+      .addSelect('other.competitorId', 'otherId')
+      .addSelect('COUNT(*)', 'races')
+      .addSelect(
+        'SUM(CASE WHEN own.rank12 < other.rank12 THEN 1 ELSE 0 END)',
+        'wins',
+      )
+      .addSelect(
+        'SUM(CASE WHEN own.rank12 > other.rank12 THEN 1 ELSE 0 END)',
+        'losses',
+      )
+      .addSelect(
+        'SUM(CASE WHEN own.rank12 = other.rank12 THEN 1 ELSE 0 END)',
+        'ties',
+      )
+      .addSelect('AVG(other.rank12 - own.rank12)', 'avgRankGap')
+      .addSelect('SUM(own.score - other.score)', 'scoreDifferential')
+      .groupBy('own.competitorId')
+      .addGroupBy('other.competitorId');
+
+    if (competitorId) {
+      qb.andWhere('own.competitorId = :competitorId', { competitorId });
+    }
+    if (competitorIds) {
+      qb.andWhere('own.competitorId IN (:...competitorIds)', {
+        competitorIds,
+      }).andWhere('other.competitorId IN (:...competitorIds)', {
+        competitorIds,
+      });
+    }
+    this.applyFilters(qb, { dateFrom, dateTo });
+
+    const rows: Record<string, string>[] = await qb.getRawMany();
+    return rows.map((row) => ({
+      competitorId: row.competitorId,
+      otherId: row.otherId,
+      races: parseInt(row.races, 10),
+      wins: parseInt(row.wins, 10),
+      losses: parseInt(row.losses, 10),
+      ties: parseInt(row.ties, 10),
+      avgRankGap: parseFloat(row.avgRankGap),
+      scoreDifferential: parseInt(row.scoreDifferential, 10),
+    }));
+  }
+
+  /**
+   * Apply the date, competitor and metadata filters of findPaginated
+   */
+  private applyFilters(
+    qb: SelectQueryBuilder<RaceEvent>,
+    options: {
+      dateFrom?: Date;
+      dateTo?: Date;
+      competitorId?: string;
+      metadata?: RaceMetadataFilters;
+    },
+  ): void {
+    const { dateFrom, dateTo, competitorId, metadata = {} } = options;
+
+    if (dateFrom) {
+      qb.andWhere('r.date >= :dateFrom', { dateFrom });
+    }
+    if (dateTo) {
+      qb.andWhere('r.date <= :dateTo', { dateTo });
+    }
+
     if (competitorId) {
-      countQb.andWhere((subQb) => {
+      qb.andWhere((subQb) => {
         const sub = subQb
           .subQuery()
-          .select('rr."raceEventId"')
+          .select('rr."raceId"')
           .from('race_results', 'rr')
           .where('rr."competitorId" = :competitorId')
           .getQuery();
         return `r.id IN ${sub}`;
       }).setParameter('competitorId', competitorId);
     }
-    const total = await countQb.getCount();
 
-    return { races, nextCursor, total };
+    // Track and cup names are matched case-insensitively
+    if (metadata.track) {
+      qb.andWhere('LOWER(r.track) = LOWER(:track)', { track: metadata.track });
+    }
+    if (metadata.cup) {
+      qb.andWhere('LOWER(r.cup) = LOWER(:cup)', { cup: metadata.cup });
+    }
+    if (metadata.mode) {
+      qb.andWhere('r.mode = :mode', { mode: metadata.mode });
+    }
+    if (metadata.engineClass) {
+      qb.andWhere('r.engineClass = :engineClass', {
+        engineClass: metadata.engineClass,
+      });
+    }
+    if (metadata.itemSet) {
+      qb.andWhere('r.itemSet = :itemSet', { itemSet: metadata.itemSet });
+    }
   }
 
   async findLatestToday(): Promise<RaceEvent | null> {
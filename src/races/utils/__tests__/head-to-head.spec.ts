@@ -0,0 +1,74 @@
+/**
+ * Tests for head-to-head records
+ *
+ * Focus on:
+ * - Wins / losses, rank gap and score differential between two competitors
+ * - Teammates not meeting in team races
+ * - Nemesis and favourite victim
+ */
+
+import { computeHeadToHead, findRivals } from '../head-to-head';
+
+describe('head-to-head', () => {
+  const race = (
+    id: string,
+    ranks: Record<string, number>,
+    teams: Record<string, string> = {},
+  ) => ({
+    id,
+    date: new Date(`2026-03-0${id}T12:00:00.000Z`),
+    results: Object.entries(ranks).map(([competitorId, rank12]) => ({
+      competitorId,
+      rank12,
+      score: 16 - rank12,
+      team: teams[competitorId] ?? null,
+      ratingAfter: 1500 - rank12 * 10,
+    })),
+  });
+
+  it('should count the meetings of two competitors', () => {
+    const record = computeHeadToHead('a', 'b', [
+      race('1', { a: 1, b: 3 }),
+      race('2', { a: 4, b: 2 }),
+      race('3', { a: 1, b: 2, c: 3 }),
+    ]);
+
+    expect(record).toMatchObject({
+      races: 3,
+      wins: 2,
+      losses: 1,
+      ties: 0,
+      scoreDifferential: 1,
+      // Rating gap after race 1: +20, after race 3: +10
+      ratingGapTrend: -10,
+    });
+    expect(record.avgRankGap).toBeCloseTo((2 - 2 + 1) / 3);
+    expect(record.meetings.map((m) => m.raceId)).toEqual(['1', '2', '3']);
+  });
+
+  it('should ignore team races where they were teammates', () => {
+    const teamRace = race(
+      '1',
+      { a: 1, b: 2, c: 3, d: 4 },
+      { a: 'red', b: 'red', c: 'blue', d: 'blue' },
+    );
+
+    expect(computeHeadToHead('a', 'b', [teamRace]).races).toBe(0);
+    expect(computeHeadToHead('a', 'c', [teamRace]).wins).toBe(1);
+  });
+
+  it('should find the nemesis and favourite victim', () => {
+    const races = ['1', '2', '3'].map((id) => race(id, { b: 1, a: 2, c: 3 }));
+    races.push(race('4', { a: 1, d: 2 }));
+
+    const summaries = new Map(
+      ['b', 'c', 'd'].map((id) => [id, computeHeadToHead('a', id, races)]),
+    );
+
+    expect(findRivals(summaries)).toEqual({
+      nemesis: { competitorId: 'b', races: 3, wins: 0, losses: 3 },
+      // d was met only once
+      favouriteVictim: { competitorId: 'c', races: 3, wins: 3, losses: 0 },
+    });
+  });
+});
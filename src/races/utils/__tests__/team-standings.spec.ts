@@ -0,0 +1,105 @@
+/**
+ * Tests for team race aggregation
+ *
+ * Focus on:
+ * - Team score and rank aggregation
+ * - Joint rating credit for teammates (no match between teammates)
+ * - Winning teams of a predicted finish
+ */
+
+import {
+  computeTeamStandings,
+  getTeamRanks,
+  getWinningTeams,
+  isTeamRace,
+} from '../team-standings';
+import { RatingCalculationService } from '../../../rating/rating-calculation.service';
+import { RaceResult } from '../../race-result.entity';
+import { Competitor } from '../../../competitors/competitor.entity';
+
+describe('team standings', () => {
+  const result = (
+    competitorId: string,
+    rank12: number,
+    score: number,
+    team: string | null,
+  ) => ({ competitorId, rank12, score, team });
+
+  // 2v2: red finishes 1st and 4th (57 pts), blue 2nd and 3rd (59 pts)
+  const twoVersusTwo = [
+    result('a', 1, 30, 'red'),
+    result('b', 2, 30, 'blue'),
+    result('c', 3, 29, 'blue'),
+    result('d', 4, 27, 'red'),
+  ];
+
+  it('should detect team races', () => {
+    expect(isTeamRace(twoVersusTwo)).toBe(true);
+    expect(isTeamRace([result('a', 1, 30, null)])).toBe(false);
+    expect(getTeamRanks([result('a', 1, 30, null)])).toBeNull();
+  });
+
+  it('should rank teams on their total score', () => {
+    const standings = computeTeamStandings(twoVersusTwo);
+
+    expect(standings.map((s) => [s.team, s.rank, s.score])).toEqual([
+      ['blue', 1, 59],
+      ['red', 2, 57],
+    ]);
+    expect(standings[1].competitorIds).toEqual(['a', 'd']);
+    expect(standings[1].bestRank12).toBe(1);
+  });
+
+  it('should share the rank between tied teams', () => {
+    const ranks = getTeamRanks([
+      result('a', 1, 30, 'red'),
+      result('b', 2, 30, 'blue'),
+    ]);
+
+    expect(ranks?.get('a')).toBe(1);
+    expect(ranks?.get('b')).toBe(1);
+  });
+
+  it('should credit teammates jointly in the rating update', () => {
+    const service = new RatingCalculationService();
+    const competitors = ['a', 'b', 'c', 'd'].map((id) =>
+      Object.assign(new Competitor(), { id, rating: 1500, rd: 200, vol: 0.06 }),
+    );
+    const results = twoVersusTwo.map((r) => Object.assign(new RaceResult(), r));
+
+    const ratings = service.calculateRatingsForRace(competitors, results);
+
+    // Same starting point and same team outcome → same new rating,
+    // whatever the individual placements
+    expect(ratings.get('b')!.rating).toBeCloseTo(ratings.get('c')!.rating);
+    expect(ratings.get('a')!.rating).toBeCloseTo(ratings.get('d')!.rating);
+    expect(ratings.get('b')!.rating).toBeGreaterThan(1500);
+    expect(ratings.get('a')!.rating).toBeLessThan(1500);
+  });
+
+  describe('getWinningTeams', () => {
+    it('should score the finish with the Mario Kart points', () => {
+      const teamOf = new Map([
+        ['a', 'red'],
+        ['b', 'blue'],
+        ['c', 'blue'],
+        ['d', 'red'],
+      ]);
+
+      // red 15 + 9, blue 12 + 10
+      expect(getWinningTeams(['a', 'b', 'c', 'd'], teamOf)).toEqual(['red']);
+      // blue 15 + 12, red 10 + 9
+      expect(getWinningTeams(['b', 'c', 'a', 'd'], teamOf)).toEqual(['blue']);
+    });
+
+    it('should return every team sharing the first rank', () => {
+      // red 15 + 10 + 6 + 5, blue 12 + 9 + 8 + 7
+      const order = ['r1', 'b1', 'r2', 'b2', 'b3', 'b4', 'r3', 'r4'];
+      const teamOf = new Map(
+        order.map((id) => [id, id.startsWith('r') ? 'red' : 'blue']),
+      );
+
+      expect(getWinningTeams(order, teamOf).sort()).toEqual(['blue', 'red']);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Head-to-head helpers
+ *
+ * Two competitors meet in every race they both finished, except team
+ * races where they were teammates (as for the rating, see team-standings).
+ * The one with the better rank12 wins the meeting; equal ranks are a tie.
+ */
+
+export interface HeadToHeadResultLike {
+  competitorId: string;
+  rank12: number;
+  score: number;
+  team?: string | null;
+  ratingAfter?: number | null;
+}
+
+export interface HeadToHeadRaceLike {
+  id: string;
+  date: Date;
+  results: HeadToHeadResultLike[];
+}
+
+/** Meetings of a competitor against an opponent */
+export interface HeadToHeadSummary {
+  races: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  /** Average of (opponent rank12 - own rank12), positive when ahead */
+  avgRankGap: number | null;
+  /** Total of (own score - opponent score) */
+  scoreDifferential: number;
+}
+
+export interface HeadToHeadMeeting {
+  raceId: string;
+  date: Date;
+  rank12: number;
+  otherRank12: number;
+  score: number;
+  otherScore: number;
+  /** Rating gap after the race (own - opponent), null if not rated */
+  ratingGap: number | null;
+}
+
+export interface HeadToHeadRecord extends HeadToHeadSummary {
+  competitorId: string;
+  otherId: string;
+  /** Change of the rating gap from the first to the last meeting */
+  ratingGapTrend: number | null;
+  /** Meetings, oldest first */
+  meetings: HeadToHeadMeeting[];
+}
+
+export interface Rival {
+  competitorId: string;
+  races: number;
+  wins: number;
+  losses: number;
+}
+
+/** Meetings needed before an opponent can be a nemesis or favourite victim */
+export const MIN_RIVALRY_RACES = 3;
+
+function emptySummary(): HeadToHeadSummary {
+  return {
+    races: 0,
+    wins: 0,
+    losses: 0,
+    ties: 0,
+    avgRankGap: null,
+    scoreDifferential: 0,
+  };
+}
+
+function isMeeting(a: HeadToHeadResultLike, b: HeadToHeadResultLike): boolean {
+  return a.competitorId !== b.competitorId && (!a.team || a.team !== b.team);
+}
+
+function addMeeting(
+  summary: HeadToHeadSummary,
+  own: HeadToHeadResultLike,
+  other: HeadToHeadResultLike,
+): void {
+  const rankGap = other.rank12 - own.rank12;
+  const totalGap = (summary.avgRankGap ?? 0) * summary.races + rankGap;
+
+  summary.races++;
+  if (rankGap > 0) summary.wins++;
+  else if (rankGap < 0) summary.losses++;
+  else summary.ties++;
+  summary.avgRankGap = totalGap / summary.races;
+  summary.scoreDifferential += own.score - other.score;
+}
+
+/**
+ * Detailed record of a competitor against an opponent
+ *
+ * @param races - Races to consider, oldest first
+ */
+export function computeHeadToHead(
+  competitorId: string,
+  otherId: string,
+  races: HeadToHeadRaceLike[],
+): HeadToHeadRecord {
+  const record: HeadToHeadRecord = {
+    competitorId,
+    otherId,
+    ...emptySummary(),
+    ratingGapTrend: null,
+    meetings: [],
+  };
+
+  for (const race of races) {
+    const own = race.results.find((r) => r.competitorId === competitorId);
+    const other = race.results.find((r) => r.competitorId === otherId);
+    if (!own || !other || !isMeeting(own, other)) continue;
+
+    addMeeting(record, own, other);
+    record.meetings.push({
+      raceId: race.id,
+      date: race.date,
+      rank12: own.rank12,
+      otherRank12: other.rank12,
+      score: own.score,
+      otherScore: other.score,
+      ratingGap:
+        own.ratingAfter != null && other.ratingAfter != null
+          ? own.ratingAfter - other.ratingAfter
+          : null,
+    });
+  }
+
+  const ratingGaps = record.meetings
+    .map((m) => m.ratingGap)
+    .filter((gap): gap is number => gap !== null);
+  if (ratingGaps.length > 0) {
+    record.ratingGapTrend = ratingGaps[ratingGaps.length - 1] - ratingGaps[0];
+  }
+
+  return record;
+}
+
+/**
+ * Nemesis (opponent who beat the competitor the most) and favourite
+ * victim (opponent the competitor beat the most), among opponents met
+ * at least MIN_RIVALRY_RACES times. Ties go to the highest rate.
+ *
+ * @param summaries - Records of the competitor against each opponent
+ */
+export function findRivals(summaries: Map<string, HeadToHeadSummary>): {
+  nemesis: Rival | null;
+  favouriteVictim: Rival | null;
+} {
+  const rivals: Rival[] = [...summaries.entries()]
+    .filter(([, summary]) => summary.races >= MIN_RIVALRY_RACES)
+    .map(([otherId, summary]) => ({
+      competitorId: otherId,
+      races: summary.races,
+      wins: summary.wins,
+      losses: summary.losses,
+    }));
+
+  const best = (count: (rival: Rival) => number): Rival | null => {
+    let result: Rival | null = null;
+    for (const rival of rivals) {
+      if (count(rival) === 0) continue;
+      if (
+        !result ||
+        count(rival) > count(result) ||
+        (count(rival) === count(result) &&
+          count(rival) / rival.races > count(result) / result.races)
+      ) {
+        result = rival;
+      }
+    }
+    return result;
+  };
+
+  return {
+    nemesis: best((rival) => rival.losses),
+    favouriteVictim: best((rival) => rival.wins),
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * Team race helpers
+ *
+ * A race is a team race when its results carry a team label. Teams are
+ * ranked on the sum of their members' scores (as in Mario Kart team
+ * races), ties sharing the same rank.
+ */
+
+export interface TeamResultLike {
+  competitorId: string;
+  rank12: number;
+  score: number;
+  team?: string | null;
+}
+
+export interface TeamStanding {
+  team: string;
+  rank: number;
+  score: number;
+  competitorIds: string[];
+  /** Best individual placement in the team */
+  bestRank12: number;
+}
+
+export function isTeamRace(results: TeamResultLike[]): boolean {
+  return results.some((r) => !!r.team);
+}
+
+/**
+ * Aggregate team scores, best team first
+ *
+ * @returns Empty array for an individual race
+ */
+export function computeTeamStandings(
+  results: TeamResultLike[],
+): TeamStanding[] {
+  const teams = new Map<string, TeamStanding>();
+
+  for (const result of results) {
+    if (!result.team) continue;
+
+    const standing = teams.get(result.team) ?? {
+      team: result.team,
+      rank: 0,
+      score: 0,
+      competitorIds: [],
+      bestRank12: result.rank12,
+    };
+    standing.score += result.score;
+    standing.competitorIds.push(result.competitorId);
+    standing.bestRank12 = Math.min(standing.bestRank12, result.rank12);
+    teams.set(result.team, standing);
+  }
+
+  const standings = [...teams.values()].sort((a, b) => b.score - a.score);
+  standings.forEach((standing, i) => {
+    standing.rank =
+      i > 0 && standing.score === standings[i - 1].score
+        ? standings[i - 1].rank
+        : i + 1;
+  });
+
+  return standings;
+}
+
+/**
+ * Team rank of each competitor of a team race
+ *
+ * @returns null for an individual race
+ */
+export function getTeamRanks(
+  results: TeamResultLike[],
+): Map<string, number> | null {
+  if (!isTeamRace(results)) return null;
+
+  const ranks = new Map<string, number>();
+  for (const standing of computeTeamStandings(results)) {
+    for (const competitorId of standing.competitorIds) {
+      ranks.set(competitorId, standing.rank);
+    }
+  }
+  return ranks;
+}
+
+/** Mario Kart points of each finishing position, first place first */
+export const TEAM_RACE_POINTS = [15, 12, 10, 9, 8, 7, 6, 5, 4, 3, 2, 1];
+
+/**
+ * Teams winning a race run in the given order (several on a tie), scored
+ * with the Mario Kart points of each position
+ *
+ * @param order - Competitor IDs, first place first
+ * @param teamOf - Team label of each competitor
+ */
+export function getWinningTeams(
+  order: string[],
+  teamOf: Map<string, string>,
+): string[] {
+  const standings = computeTeamStandings(
+    order.map((competitorId, index) => ({
+      competitorId,
+      rank12: index + 1,
+      score: TEAM_RACE_POINTS[index] ?? 0,
+      team: teamOf.get(competitorId) ?? null,
+    })),
+  );
+
+  return standings.filter((s) => s.rank === 1).map((s) => s.team);
+}
@@ -0,0 +1,85 @@
+/**
+ * Rating engines configuration
+ *
+ * Production ratings (Competitor.rating / rd / vol) always use Glicko-2
+ * with GLICKO2_PARAMS. The other engines are only used by the backtest,
+ * to compare predictive accuracy on the race history.
+ */
+
+export type RatingEngineName = 'glicko2' | 'trueskill' | 'plackett-luce';
+
+export const RATING_ENGINE_NAMES: RatingEngineName[] = [
+  'glicko2',
+  'trueskill',
+  'plackett-luce',
+];
+
+export interface Glicko2Params {
+  /** System volatility constraint */
+  tau: number;
+  /** RD floor, prevents ratings from freezing */
+  minRd: number;
+  defaultRating: number;
+  defaultRd: number;
+  defaultVol: number;
+}
+
+export interface TrueSkillParams {
+  mu: number;
+  sigma: number;
+  /** Performance spread (~76% win chance at 1 beta difference) */
+  beta: number;
+  /** Dynamic factor added to sigma before each race */
+  tau: number;
+}
+
+export interface PlackettLuceParams {
+  /** Step size of the log-strength update for a new competitor */
+  learningRate: number;
+  /** Step size once the competitor is established */
+  minLearningRate: number;
+  /** Races over which the step size decays */
+  provisionalRaces: number;
+}
+
+export type RatingEngineParams =
+  | Glicko2Params
+  | TrueSkillParams
+  | PlackettLuceParams;
+
+/**
+ * Glicko-2 parameters of the production rating.
+ * TAU and MIN_RD can be overridden from the environment.
+ */
+export const GLICKO2_PARAMS: Glicko2Params = {
+  tau: Number(process.env.GLICKO2_TAU ?? 0.5),
+  minRd: Number(process.env.GLICKO2_MIN_RD ?? 30), // Glickman-recommended floor
+  defaultRating: 1500,
+  defaultRd: 350,
+  defaultVol: 0.06,
+};
+
+export const TRUESKILL_PARAMS: TrueSkillParams = {
+  mu: 25,
+  sigma: 25 / 3,
+  beta: 25 / 6,
+  tau: 25 / 300,
+};
+
+export const PLACKETT_LUCE_PARAMS: PlackettLuceParams = {
+  learningRate: 0.3,
+  minLearningRate: 0.08,
+  provisionalRaces: 10,
+};
+
+export const BACKTEST_CONFIG = {
+  /**
+   * Podium hit rate is only measured on races with more players than that
+   */
+  minPlayersForPodium: 4,
+
+  /**
+   * Max races skipped before scoring predictions
+   */
+  maxWarmupRaces: 1000,
+};
@@ -0,0 +1,24 @@
+/**
+ * Rating periods configuration
+ *
+ * Glicko-2 expects every game of a rating period to be rated at once.
+ * In 'race' mode each race is its own rating period. In 'period' mode the
+ * races of a UTC day form one period: during the day, competitors show a
+ * provisional rating (the period rated with the races so far), and
+ * TasksService.handleCloseRatingPeriod closes the period after midnight.
+ *
+ * Periods are one day long so that each closed period matches one daily
+ * ELO snapshot. Only the global rating is batched; pool ratings are
+ * still updated after each race.
+ */
+
+export type RatingUpdateMode = 'race' | 'period';
+
+export const RATING_PERIOD_CONFIG = {
+  /**
+   * RATING_UPDATE_MODE=period to batch races per rating period
+   */
+  mode: (process.env.RATING_UPDATE_MODE === 'period'
+    ? 'period'
+    : 'race') as RatingUpdateMode,
+};
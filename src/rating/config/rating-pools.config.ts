@@ -0,0 +1,38 @@
+/**
+ * Rating pools configuration
+ *
+ * Besides the global rating stored on Competitor, each competitor can have
+ * one Glicko-2 rating per pool. A pool is keyed by a race metadata value,
+ * e.g. "engineClass:200cc" or "mode:battle".
+ */
+
+export type RatingPoolDimension = 'engineClass' | 'mode' | 'track';
+
+/**
+ * Every race, whatever its metadata (rating stored on Competitor)
+ */
+export const GLOBAL_POOL = 'global';
+
+/**
+ * Composite of the pools of RATING_POOLS_CONFIG.compositeDimension
+ */
+export const OVERALL_POOL = 'overall';
+
+export const RATING_POOLS_CONFIG = {
+  /**
+   * Maintain pool ratings at race creation (RATING_POOLS_ENABLED=false to disable)
+   */
+  enabled: process.env.RATING_POOLS_ENABLED !== 'false',
+
+  /**
+   * Race metadata used to key pools.
+   * 'track' is supported but off until tracks have enough races each.
+   */
+  dimensions: ['engineClass', 'mode'] as RatingPoolDimension[],
+
+  /**
+   * Dimension whose pools make up the composite "overall" rating.
+   * A single dimension, so each race is only counted once.
+   */
+  compositeDimension: 'engineClass' as RatingPoolDimension,
+};
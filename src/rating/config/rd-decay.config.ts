@@ -0,0 +1,17 @@
+/**
+ * RD decay configuration
+ *
+ * Glicko-2 increases the RD of a competitor before each rating period
+ * they sit out: rd = min(sqrt(rd² + vol² × 173.7178²), 350). Periods are
+ * UTC days (see rating-periods): every day without a race, from the day
+ * after the competitor's last race, inflates their RD once.
+ *
+ * Applied daily by TasksService.handleApplyRdDecay and replayed by
+ * RaceReplayService. Only the global rating decays, not pool ratings.
+ */
+export const RD_DECAY_CONFIG = {
+  /**
+   * RD_DECAY_ENABLED=false to disable
+   */
+  enabled: process.env.RD_DECAY_ENABLED !== 'false',
+};
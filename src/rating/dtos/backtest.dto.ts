@@ -0,0 +1,39 @@
+import {
+  IsArray,
+  IsIn,
+  IsInt,
+  IsObject,
+  IsOptional,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  RATING_ENGINE_NAMES,
+  RatingEngineName,
+} from '../config/rating-engines.config';
+
+export class BacktestEngineDto {
+  @IsIn(RATING_ENGINE_NAMES)
+  engine: RatingEngineName;
+
+  /** Overrides of the engine's default parameters, e.g. { tau: 0.3 } */
+  @IsOptional()
+  @IsObject()
+  params?: Record<string, number>;
+}
+
+export class BacktestDto {
+  /** Engines to compare (default: every engine with default parameters) */
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => BacktestEngineDto)
+  engines?: BacktestEngineDto[];
+
+  /** First races used for rating only, not scored */
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  warmupRaces?: number;
+}
@@ -0,0 +1,72 @@
+/**
+ * Tests for the rating engines used by the backtest
+ *
+ * Focus on:
+ * - Every engine rewards the winner and penalizes the last
+ * - Plackett-Luce likelihood of a finishing order (with ties)
+ */
+
+import {
+  createRatingEngine,
+  getFinishingGroups,
+  plackettLuceLogLikelihood,
+} from '..';
+import { RATING_ENGINE_NAMES } from '../../config/rating-engines.config';
+
+describe('rating engines', () => {
+  const race = [
+    { competitorId: 'a', rank12: 1, score: 15, team: null },
+    { competitorId: 'b', rank12: 2, score: 12, team: null },
+    { competitorId: 'c', rank12: 3, score: 10, team: null },
+  ];
+
+  it.each(RATING_ENGINE_NAMES)(
+    '%s should move the winner above the last',
+    (name) => {
+      const engine = createRatingEngine(name);
+      const updated = engine.rate(
+        race.map((r) => ({ ...r, state: engine.createState() })),
+      );
+
+      const strength = (id: string) => engine.strength(updated.get(id));
+      expect(strength('a')).toBeGreaterThan(strength('b'));
+      expect(strength('b')).toBeGreaterThan(strength('c'));
+    },
+  );
+
+  it('should apply parameter overrides', () => {
+    const engine = createRatingEngine('glicko2', { defaultRating: 1000 });
+    expect(engine.createState()).toMatchObject({ rating: 1000 });
+  });
+
+  describe('plackettLuceLogLikelihood', () => {
+    it('should equal log(1/n!) for equal strengths', () => {
+      const strengths = new Map([
+        ['a', 0],
+        ['b', 0],
+        ['c', 0],
+      ]);
+      const { logLikelihood, stages } = plackettLuceLogLikelihood(
+        getFinishingGroups(race),
+        strengths,
+      );
+
+      expect(stages).toBe(2);
+      expect(logLikelihood).toBeCloseTo(-Math.log(6));
+    });
+
+    it('should group teammates as one finishing group', () => {
+      const groups = getFinishingGroups([
+        { competitorId: 'a', rank12: 1, score: 15, team: 'red' },
+        { competitorId: 'b', rank12: 2, score: 12, team: 'blue' },
+        { competitorId: 'c', rank12: 3, score: 10, team: 'blue' },
+        { competitorId: 'd', rank12: 4, score: 1, team: 'red' },
+      ]);
+
+      expect(groups).toEqual([
+        ['b', 'c'],
+        ['a', 'd'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { Glicko2, Player } from 'glicko2';
+import { RatingEngine, EngineParticipant } from './rating-engine.interface';
+import { Glicko2Params, GLICKO2_PARAMS } from '../config/rating-engines.config';
+import { getTeamRanks } from '../../races/utils/team-standings';
+
+export interface Glicko2State {
+  rating: number;
+  rd: number;
+  vol: number;
+}
+
+const GLICKO2_SCALE = 173.7178;
+
+/**
+ * Glicko-2 over pairwise matches: each pair of participants is one match
+ * (1 / 0.5 / 0). rate() treats a race as one rating period, ratePeriod()
+ * batches several races.
+ */
+export class Glicko2Engine implements RatingEngine<Glicko2State> {
+  readonly name = 'glicko2';
+
+  constructor(private readonly params: Glicko2Params = GLICKO2_PARAMS) {}
+
+  createState(): Glicko2State {
+    return {
+      rating: this.params.defaultRating,
+      rd: this.params.defaultRd,
+      vol: this.params.defaultVol,
+    };
+  }
+
+  rate(
+    participants: EngineParticipant<Glicko2State>[],
+  ): Map<string, Glicko2State> {
+    return this.ratePeriod([participants]);
+  }
+
+  /**
+   * Rate several races as one rating period: every match of the period
+   * is played from the ratings at the start of the period (the state a
+   * competitor has in their first race of the period).
+   *
+   * @returns Ratings at the end of the period of every participant
+   */
+  ratePeriod(
+    races: EngineParticipant<Glicko2State>[][],
+  ): Map<string, Glicko2State> {
+    const glicko2 = new Glicko2({
+      tau: this.params.tau,
+      rating: this.params.defaultRating,
+      rd: this.params.defaultRd,
+      vol: this.params.defaultVol,
+    });
+
+    const players = new Map<string, Player>();
+    const matches: [Player, Player, number][] = [];
+
+    for (const participants of races) {
+      const ranked = participants
+        .map((p) => {
+          if (!players.has(p.competitorId)) {
+            players.set(
+              p.competitorId,
+              glicko2.makePlayer(p.state.rating, p.state.rd, p.state.vol),
+            );
+          }
+          return { ...p, player: players.get(p.competitorId)! };
+        })
+        .sort((a, b) => a.rank12 - b.rank12);
+
+      // In a team race, teammates share their team's result: no match
+      // between teammates, and opponents are compared on team rank
+      const teamRanks = getTeamRanks(participants);
+
+      for (let i = 0; i < ranked.length; i++) {
+        for (let j = i + 1; j < ranked.length; j++) {
+          const iResult = ranked[i];
+          const jResult = ranked[j];
+
+          if (teamRanks) {
+            if (iResult.team === jResult.team) continue;
+
+            const iTeamRank = teamRanks.get(iResult.competitorId)!;
+            const jTeamRank = teamRanks.get(jResult.competitorId)!;
+            const score =
+              iTeamRank === jTeamRank ? 0.5 : iTeamRank < jTeamRank ? 1 : 0;
+            matches.push([iResult.player, jResult.player, score]);
+            continue;
+          }
+
+          // Score: 1 if i beat j, 0.5 if tied, 0 if j beat i
+          const score = iResult.rank12 === jResult.rank12 ? 0.5 : 1;
+          matches.push([iResult.player, jResult.player, score]);
+        }
+      }
+    }
+
+    glicko2.updateRatings(matches);
+
+    return new Map(
+      [...players.entries()].map(([competitorId, player]) => [
+        competitorId,
+        {
+          rating: player.getRating(),
+          rd: Math.max(player.getRd(), this.params.minRd),
+          vol: player.getVol(),
+        },
+      ]),
+    );
+  }
+
+  /**
+   * Same dampening as the odds calculator: mu * g(phi)
+   */
+  strength(state: Glicko2State): number {
+    const mu = (state.rating - this.params.defaultRating) / GLICKO2_SCALE;
+    const phi = state.rd / GLICKO2_SCALE;
+    return mu / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+  }
+
+  /**
+   * Pre-rating-period step of a period without any game: RD grows with
+   * volatility, up to the default RD
+   */
+  applyIdlePeriod(state: Glicko2State): Glicko2State {
+    return {
+      ...state,
+      rd: Math.min(
+        Math.sqrt(
+          state.rd * state.rd +
+            state.vol * state.vol * GLICKO2_SCALE * GLICKO2_SCALE,
+        ),
+        this.params.defaultRd,
+      ),
+    };
+  }
+
+  /**
+   * Season soft reset (75/25)
+   * Must stay in sync with CompetitorRepository.resetMonthlyStats
+   */
+  applySeasonReset(state: Glicko2State): Glicko2State {
+    return {
+      ...this.applyIdlePeriod(state),
+      rating: 0.75 * state.rating + 0.25 * this.params.defaultRating,
+    };
+  }
+}
@@ -0,0 +1,42 @@
+import { RatingEngine } from './rating-engine.interface';
+import { Glicko2Engine } from './glicko2.engine';
+import { TrueSkillEngine } from './trueskill.engine';
+import { PlackettLuceEngine } from './plackett-luce.engine';
+import {
+  RatingEngineName,
+  RatingEngineParams,
+  GLICKO2_PARAMS,
+  TRUESKILL_PARAMS,
+  PLACKETT_LUCE_PARAMS,
+} from '../config/rating-engines.config';
+
+export * from './rating-engine.interface';
+export * from './glicko2.engine';
+export * from './trueskill.engine';
+export * from './plackett-luce.engine';
+
+export const DEFAULT_ENGINE_PARAMS: Record<
+  RatingEngineName,
+  RatingEngineParams
+> = {
+  glicko2: GLICKO2_PARAMS,
+  trueskill: TRUESKILL_PARAMS,
+  'plackett-luce': PLACKETT_LUCE_PARAMS,
+};
+
+/**
+ * Build an engine, overriding some of its default parameters
+ */
+export function createRatingEngine(
+  name: RatingEngineName,
+  overrides: Record<string, number> = {},
+): RatingEngine {
+  switch (name) {
+    case 'glicko2':
+      return new Glicko2Engine({ ...GLICKO2_PARAMS, ...overrides });
+    case 'trueskill':
+      return new TrueSkillEngine({ ...TRUESKILL_PARAMS, ...overrides });
+    case 'plackett-luce':
+      return new PlackettLuceEngine({ ...PLACKETT_LUCE_PARAMS, ...overrides });
+  }
+}
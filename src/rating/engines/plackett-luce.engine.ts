@@ -0,0 +1,132 @@
+import { RatingEngine, EngineParticipant } from './rating-engine.interface';
+import {
+  PlackettLuceParams,
+  PLACKETT_LUCE_PARAMS,
+} from '../config/rating-engines.config';
+import { getTeamRanks, TeamResultLike } from '../../races/utils/team-standings';
+
+export interface PlackettLuceState {
+  /** Log-strength */
+  theta: number;
+  raceCount: number;
+}
+
+/**
+ * Finishing order as groups of tied competitors, best group first.
+ * Teammates form one group (they share their team's result).
+ */
+export function getFinishingGroups(results: TeamResultLike[]): string[][] {
+  const teamRanks = getTeamRanks(results);
+  const byRank = new Map<number, string[]>();
+
+  for (const result of results) {
+    const rank = teamRanks
+      ? teamRanks.get(result.competitorId)!
+      : result.rank12;
+    if (!byRank.has(rank)) byRank.set(rank, []);
+    byRank.get(rank)!.push(result.competitorId);
+  }
+
+  return [...byRank.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, group]) => group);
+}
+
+/**
+ * Plackett-Luce log-likelihood of a finishing order (Breslow
+ * approximation for ties: each tied group is drawn from the remaining
+ * competitors, all its members at once)
+ *
+ * @returns Log-likelihood and number of stages (groups drawn while
+ * more than one group remained)
+ */
+export function plackettLuceLogLikelihood(
+  groups: string[][],
+  strengths: Map<string, number>,
+): { logLikelihood: number; stages: number } {
+  let remaining = groups.flat();
+  let logLikelihood = 0;
+  let stages = 0;
+
+  for (const group of groups.slice(0, -1)) {
+    const logDenominator = logSumExp(remaining.map((id) => strengths.get(id)!));
+    for (const id of group) {
+      logLikelihood += strengths.get(id)! - logDenominator;
+    }
+    stages++;
+    remaining = remaining.filter((id) => !group.includes(id));
+  }
+
+  return { logLikelihood, stages };
+}
+
+/**
+ * Plackett-Luce with online gradient ascent on the race likelihood
+ * (Elo-MMR style): the step size shrinks as the competitor plays, down
+ * to minLearningRate.
+ */
+export class PlackettLuceEngine implements RatingEngine<PlackettLuceState> {
+  readonly name = 'plackett-luce';
+
+  constructor(
+    private readonly params: PlackettLuceParams = PLACKETT_LUCE_PARAMS,
+  ) {}
+
+  createState(): PlackettLuceState {
+    return { theta: 0, raceCount: 0 };
+  }
+
+  rate(
+    participants: EngineParticipant<PlackettLuceState>[],
+  ): Map<string, PlackettLuceState> {
+    const states = new Map(participants.map((p) => [p.competitorId, p.state]));
+    const gradients = new Map(participants.map((p) => [p.competitorId, 0]));
+
+    let remaining = participants.map((p) => p.competitorId);
+    for (const group of getFinishingGroups(participants).slice(0, -1)) {
+      const weights = remaining.map((id) => Math.exp(states.get(id)!.theta));
+      const total = weights.reduce((sum, w) => sum + w, 0);
+
+      for (const id of group) {
+        gradients.set(id, gradients.get(id)! + 1);
+      }
+      remaining.forEach((id, i) => {
+        gradients.set(
+          id,
+          gradients.get(id)! - (group.length * weights[i]) / total,
+        );
+      });
+
+      remaining = remaining.filter((id) => !group.includes(id));
+    }
+
+    return new Map(
+      participants.map((p) => [
+        p.competitorId,
+        {
+          theta:
+            p.state.theta +
+            this.learningRate(p.state) * gradients.get(p.competitorId)!,
+          raceCount: p.state.raceCount + 1,
+        },
+      ]),
+    );
+  }
+
+  strength(state: PlackettLuceState): number {
+    return state.theta;
+  }
+
+  private learningRate(state: PlackettLuceState): number {
+    const { learningRate, minLearningRate, provisionalRaces } = this.params;
+    return Math.max(
+      minLearningRate,
+      learningRate / (1 + state.raceCount / provisionalRaces),
+    );
+  }
+}
+
+function logSumExp(values: number[]): number {
+  const max = Math.max(...values);
+  return max + Math.log(values.reduce((sum, v) => sum + Math.exp(v - max), 0));
+}
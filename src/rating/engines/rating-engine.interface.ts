@@ -0,0 +1,42 @@
+import { TeamResultLike } from '../../races/utils/team-standings';
+import { RatingEngineName } from '../config/rating-engines.config';
+
+/**
+ * A race participant as seen by a rating engine
+ */
+export interface EngineParticipant<S> extends TeamResultLike {
+  state: S;
+}
+
+/**
+ * Rating system (Glicko-2, TrueSkill, Plackett-Luce...)
+ *
+ * Engines are pure: they never touch the database, so the same race
+ * history can be replayed through several engines (see
+ * RatingBacktestService).
+ */
+export interface RatingEngine<S = unknown> {
+  readonly name: RatingEngineName;
+
+  /**
+   * State of a competitor who never raced
+   */
+  createState(): S;
+
+  /**
+   * New state of every participant after a race.
+   * In a team race, teammates share their team's result.
+   */
+  rate(participants: EngineParticipant<S>[]): Map<string, S>;
+
+  /**
+   * Plackett-Luce log-strength, used to predict a finishing order:
+   * P(i finishes ahead of the others) = exp(s_i) / sum(exp(s_j))
+   */
+  strength(state: S): number;
+
+  /**
+   * State at the start of a new season, if the engine has a reset
+   */
+  applySeasonReset?(state: S): S;
+}
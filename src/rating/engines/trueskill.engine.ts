@@ -0,0 +1,123 @@
+import { RatingEngine, EngineParticipant } from './rating-engine.interface';
+import {
+  TrueSkillParams,
+  TRUESKILL_PARAMS,
+} from '../config/rating-engines.config';
+import { getTeamRanks } from '../../races/utils/team-standings';
+
+export interface TrueSkillState {
+  mu: number;
+  sigma: number;
+}
+
+/**
+ * TrueSkill, pairwise approximation
+ *
+ * The exact multiplayer update needs a factor graph (ts-trueskill is
+ * ESM-only and can't be required from this CommonJS build). Here each
+ * participant is updated against every opponent with the two-player
+ * equations, and the updates are averaged over opponents. Ties and
+ * teammates don't produce a match.
+ */
+export class TrueSkillEngine implements RatingEngine<TrueSkillState> {
+  readonly name = 'trueskill';
+
+  constructor(private readonly params: TrueSkillParams = TRUESKILL_PARAMS) {}
+
+  createState(): TrueSkillState {
+    return { mu: this.params.mu, sigma: this.params.sigma };
+  }
+
+  rate(
+    participants: EngineParticipant<TrueSkillState>[],
+  ): Map<string, TrueSkillState> {
+    const { beta, tau } = this.params;
+    const teamRanks = getTeamRanks(participants);
+    const rankOf = (p: EngineParticipant<TrueSkillState>) =>
+      teamRanks ? teamRanks.get(p.competitorId)! : p.rank12;
+
+    // Dynamics: uncertainty grows a little before each race
+    const variances = participants.map(
+      (p) => p.state.sigma * p.state.sigma + tau * tau,
+    );
+
+    const updated = new Map<string, TrueSkillState>();
+    participants.forEach((p, i) => {
+      let muDelta = 0;
+      let varianceFactor = 0;
+      let opponents = 0;
+
+      participants.forEach((q, j) => {
+        if (i === j) return;
+        if (teamRanks && p.team === q.team) return;
+        if (rankOf(p) === rankOf(q)) return;
+
+        const sign = rankOf(p) < rankOf(q) ? 1 : -1;
+        const c = Math.sqrt(2 * beta * beta + variances[i] + variances[j]);
+        const t = (sign * (p.state.mu - q.state.mu)) / c;
+        const v = vExceedsMargin(t);
+        const w = v * (v + t);
+
+        muDelta += ((sign * variances[i]) / c) * v;
+        varianceFactor += (variances[i] / (c * c)) * w;
+        opponents++;
+      });
+
+      if (opponents === 0) {
+        updated.set(p.competitorId, {
+          mu: p.state.mu,
+          sigma: Math.sqrt(variances[i]),
+        });
+        return;
+      }
+
+      updated.set(p.competitorId, {
+        mu: p.state.mu + muDelta / opponents,
+        sigma: Math.sqrt(
+          variances[i] * Math.max(1 - varianceFactor / opponents, 1e-4),
+        ),
+      });
+    });
+
+    return updated;
+  }
+
+  /**
+   * Logistic approximation of P(i beats j) = Phi((mu_i - mu_j) / c),
+   * dampened by the player's own uncertainty
+   */
+  strength(state: TrueSkillState): number {
+    const c = Math.sqrt(
+      2 * this.params.beta * this.params.beta + 2 * state.sigma * state.sigma,
+    );
+    return ((state.mu - this.params.mu) * Math.PI) / (Math.sqrt(3) * c);
+  }
+}
+
+function normalPdf(x: number): number {
+  return Math.exp(-(x * x) / 2) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 26.2.17)
+ */
+function normalCdf(x: number): number {
+  const k = 1 / (1 + 0.2316419 * Math.abs(x));
+  const poly =
+    k *
+    (0.31938153 +
+      k *
+        (-0.356563782 +
+          k * (1.781477937 + k * (-1.821255978 + k * 1.330274429))));
+  const upper = normalPdf(x) * poly;
+  return x >= 0 ? 1 - upper : upper;
+}
+
+/**
+ * v(t) = N(t) / Phi(t), the mean correction of a win
+ */
+function vExceedsMargin(t: number): number {
+  const cdf = normalCdf(t);
+  // Far in the tail: N(t) / Phi(t) tends to -t
+  return cdf < 1e-12 ? -t : normalPdf(t) / cdf;
+}
@@ -0,0 +1,247 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  createRatingEngine,
+  DEFAULT_ENGINE_PARAMS,
+  getFinishingGroups,
+  plackettLuceLogLikelihood,
+  RatingEngine,
+} from './engines';
+import {
+  BACKTEST_CONFIG,
+  RATING_ENGINE_NAMES,
+  RatingEngineName,
+} from './config/rating-engines.config';
+import { RaceEvent } from '../races/race-event.entity';
+import { isTeamRace } from '../races/utils/team-standings';
+import { getSeasonOfDate } from '../competitors/utils/competitor-history';
+import { ValidationException } from '../common/exceptions';
+
+export interface BacktestEngineSpec {
+  engine: RatingEngineName;
+  params?: Record<string, number>;
+}
+
+export interface EngineBacktestResult {
+  engine: RatingEngineName;
+  params: Record<string, number>;
+  evaluatedRaces: number;
+  /** Mean negative log-likelihood per finishing stage (lower is better) */
+  logLoss: number;
+  /** Same metric for a model predicting every order as equally likely */
+  baselineLogLoss: number;
+  /** Share of races whose winner had the highest predicted strength */
+  winnerAccuracy: number;
+  /** Mean share of the actual top 3 found in the predicted top 3 */
+  podiumHitRate: number | null;
+  podiumRaces: number;
+  durationMs: number;
+}
+
+export interface BacktestReport {
+  raceCount: number;
+  warmupRaces: number;
+  /** Best log-loss first */
+  results: EngineBacktestResult[];
+}
+
+/**
+ * Replays the race history through rating engines and scores their
+ * predictions. Each race is predicted from the ratings before it
+ * (prequential evaluation), then used to update them.
+ */
+@Injectable()
+export class RatingBacktestService {
+  private readonly logger = new Logger(RatingBacktestService.name);
+
+  constructor(
+    @InjectRepository(RaceEvent)
+    private readonly raceEventRepository: Repository<RaceEvent>,
+  ) {}
+
+  /**
+   * @param specs - Engines to compare (default: every engine, default params)
+   * @param warmupRaces - First races used for rating only, not scored
+   */
+  async run(
+    specs: BacktestEngineSpec[] = RATING_ENGINE_NAMES.map((engine) => ({
+      engine,
+    })),
+    warmupRaces = 0,
+  ): Promise<BacktestReport> {
+    this.assertValidSpecs(specs, warmupRaces);
+
+    const races = await this.raceEventRepository.find({
+      relations: ['results'],
+      order: { date: 'ASC', id: 'ASC' },
+    });
+
+    const results = specs.map((spec) =>
+      this.runEngine(spec, races, warmupRaces),
+    );
+    results.sort((a, b) => a.logLoss - b.logLoss);
+
+    this.logger.log(
+      `Backtest on ${races.length} races: ${results
+        .map((r) => `${r.engine}=${r.logLoss.toFixed(4)}`)
+        .join(', ')}`,
+    );
+
+    return { raceCount: races.length, warmupRaces, results };
+  }
+
+  private runEngine(
+    spec: BacktestEngineSpec,
+    races: RaceEvent[],
+    warmupRaces: number,
+  ): EngineBacktestResult {
+    const startedAt = Date.now();
+    const engine = createRatingEngine(spec.engine, spec.params);
+    const states = new Map<string, { state: unknown; season: number }>();
+
+    let evaluatedRaces = 0;
+    let logLossSum = 0;
+    let baselineSum = 0;
+    let stageCount = 0;
+    let winnerHits = 0;
+    let podiumSum = 0;
+    let podiumRaces = 0;
+
+    races.forEach((race, index) => {
+      if (race.results.length < 2) return;
+
+      const season = getSeasonOfDate(race.date);
+      const participants = race.results.map((result) => ({
+        competitorId: result.competitorId,
+        rank12: result.rank12,
+        score: result.score,
+        team: result.team,
+        state: this.currentState(
+          engine,
+          states.get(result.competitorId),
+          season,
+        ),
+      }));
+
+      if (index >= warmupRaces) {
+        const strengths = new Map(
+          participants.map((p) => [p.competitorId, engine.strength(p.state)]),
+        );
+        const groups = getFinishingGroups(race.results);
+
+        const { logLikelihood, stages } = plackettLuceLogLikelihood(
+          groups,
+          strengths,
+        );
+        const uniform = plackettLuceLogLikelihood(
+          groups,
+          new Map(participants.map((p) => [p.competitorId, 0])),
+        );
+        logLossSum -= logLikelihood;
+        baselineSum -= uniform.logLikelihood;
+        stageCount += stages;
+
+        const predicted = [...strengths.entries()]
+          .sort(([, a], [, b]) => b - a)
+          .map(([id]) => id);
+        if (groups[0].includes(predicted[0])) winnerHits++;
+
+        if (
+          !isTeamRace(race.results) &&
+          race.results.length >= BACKTEST_CONFIG.minPlayersForPodium
+        ) {
+          const actualPodium = [...race.results]
+            .sort((a, b) => a.rank12 - b.rank12)
+            .slice(0, 3)
+            .map((r) => r.competitorId);
+          const hits = predicted
+            .slice(0, 3)
+            .filter((id) => actualPodium.includes(id)).length;
+          podiumSum += hits / 3;
+          podiumRaces++;
+        }
+
+        evaluatedRaces++;
+      }
+
+      const updated = engine.rate(participants);
+      for (const [competitorId, state] of updated) {
+        states.set(competitorId, { state, season });
+      }
+    });
+
+    return {
+      engine: spec.engine,
+      params: spec.params ?? {},
+      evaluatedRaces,
+      logLoss: stageCount > 0 ? logLossSum / stageCount : 0,
+      baselineLogLoss: stageCount > 0 ? baselineSum / stageCount : 0,
+      winnerAccuracy: evaluatedRaces > 0 ? winnerHits / evaluatedRaces : 0,
+      podiumHitRate: podiumRaces > 0 ? podiumSum / podiumRaces : null,
+      podiumRaces,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  /**
+   * State of a competitor at a race, after the season resets since
+   * their previous race
+   */
+  private currentState(
+    engine: RatingEngine,
+    entry: { state: unknown; season: number } | undefined,
+    season: number,
+  ): unknown {
+    if (!entry) return engine.createState();
+
+    let state = entry.state;
+    if (engine.applySeasonReset) {
+      for (let s = entry.season; s < season; s++) {
+        state = engine.applySeasonReset(state);
+      }
+    }
+    return state;
+  }
+
+  private assertValidSpecs(
+    specs: BacktestEngineSpec[],
+    warmupRaces: number,
+  ): void {
+    if (!Array.isArray(specs) || specs.length === 0) {
+      throw new ValidationException('engines', 'at least one engine required');
+    }
+    for (const spec of specs) {
+      if (!RATING_ENGINE_NAMES.includes(spec?.engine)) {
+        throw new ValidationException(
+          'engines',
+          `engine must be one of ${RATING_ENGINE_NAMES.join(', ')}`,
+        );
+      }
+      for (const [key, value] of Object.entries(spec.params ?? {})) {
+        if (!(key in DEFAULT_ENGINE_PARAMS[spec.engine])) {
+          throw new ValidationException(
+            'engines',
+            `unknown ${spec.engine} parameter "${key}"`,
+          );
+        }
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          throw new ValidationException(
+            'engines',
+            `${spec.engine}.${key} must be a number`,
+          );
+        }
+      }
+    }
+    if (
+      !Number.isInteger(warmupRaces) ||
+      warmupRaces < 0 ||
+      warmupRaces > BACKTEST_CONFIG.maxWarmupRaces
+    ) {
+      throw new ValidationException(
+        'warmupRaces',
+        `must be between 0 and ${BACKTEST_CONFIG.maxWarmupRaces}`,
+      );
+    }
+  }
+}
@@ -1,22 +1,26 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { Glicko2, Player } from 'glicko2';
 import { RaceResult } from '../races/race-result.entity';
 import { Competitor } from '../competitors/competitor.entity';
+import { Glicko2Engine } from './engines';
+import { GLICKO2_PARAMS } from './config/rating-engines.config';
+
+export interface RatingState {
+  rating: number;
+  rd: number;
+  vol: number;
+}
 
 /**
  * Service responsible for calculating Glicko-2 ratings
  * Extracted from CompetitorsService for better separation of concerns
+ *
+ * The algorithm lives in Glicko2Engine (parameters: GLICKO2_PARAMS);
+ * other engines are only compared through RatingBacktestService.
  */
 @Injectable()
 export class RatingCalculationService {
   private readonly logger = new Logger(RatingCalculationService.name);
-
-  // Glicko-2 system parameters
-  private readonly TAU = 0.5; // System volatility constraint
-  private readonly DEFAULT_RATING = 1500;
-  private readonly DEFAULT_RD = 350;
-  private readonly DEFAULT_VOL = 0.06;
-  private readonly MIN_RD = 30; // Glickman-recommended floor to prevent rating freeze
+  private readonly engine = new Glicko2Engine(GLICKO2_PARAMS);
 
   /**
    * Calculate updated ratings for all competitors in a race
@@ -34,72 +38,54 @@ export class RatingCalculationService {
       `Calculating ratings for ${competitors.length} competitors`,
     );
 
-    // Initialize Glicko-2 system
-    const glicko2 = new Glicko2({
-      tau: this.TAU,
-      rating: this.DEFAULT_RATING,
-      rd: this.DEFAULT_RD,
-      vol: this.DEFAULT_VOL,
-    });
-
-    // Create Glicko-2 player objects for each competitor
-    const players = new Map<string, Player>();
-    competitors.forEach((competitor) => {
-      const player = glicko2.makePlayer(
-        competitor.rating,
-        competitor.rd,
-        competitor.vol,
-      );
-      players.set(competitor.id, player);
-    });
-
-    // Rank race results by position
-    const rankedResults = raceResults
-      .map((result) => ({
-        ...result,
-        player: players.get(result.competitorId)!,
-      }))
-      .sort((a, b) => a.rank12 - b.rank12);
-
-    // Generate all pairwise matches
-    // Each pair represents a head-to-head comparison between two competitors
-    const matches: [Player, Player, number][] = [];
-    for (let i = 0; i < rankedResults.length; i++) {
-      for (let j = i + 1; j < rankedResults.length; j++) {
-        const iResult = rankedResults[i];
-        const jResult = rankedResults[j];
-
-        // Score: 1 if i beat j, 0.5 if tied, 0 if j beat i
-        const score = iResult.rank12 === jResult.rank12 ? 0.5 : 1;
-        matches.push([iResult.player, jResult.player, score]);
-      }
-    }
-
-    this.logger.log(`Generated ${matches.length} pairwise matches`);
-
-    // Update all ratings using Glicko-2 algorithm
-    glicko2.updateRatings(matches);
-
-    // Extract updated ratings
-    const updatedRatings = new Map<
-      string,
-      { rating: number; rd: number; vol: number }
-    >();
-
-    competitors.forEach((competitor) => {
-      const player = players.get(competitor.id)!;
-      updatedRatings.set(competitor.id, {
-        rating: player.getRating(),
-        rd: Math.max(player.getRd(), this.MIN_RD),
-        vol: player.getVol(),
-      });
-    });
+    const competitorsById = new Map(competitors.map((c) => [c.id, c]));
+    const updatedRatings = this.engine.rate(
+      raceResults.map((result) => {
+        const competitor = competitorsById.get(result.competitorId)!;
+        return {
+          competitorId: result.competitorId,
+          rank12: result.rank12,
+          score: result.score,
+          team: result.team,
+          state: {
+            rating: competitor.rating,
+            rd: competitor.rd,
+            vol: competitor.vol,
+          },
+        };
+      }),
+    );
 
     this.logger.log('Rating calculation completed successfully');
 
     return updatedRatings;
   }
 
+  /**
+   * Calculate ratings at the end of a rating period (RATING_PERIOD_CONFIG)
+   * All races of the period are rated in a single Glicko-2 update
+   *
+   * @param periodStartRatings - Rating of each participant at the start of the period
+   * @param races - Results of the races of the period
+   * @returns Map of competitor IDs to ratings at the end of the period
+   */
+  calculateRatingsForPeriod(
+    periodStartRatings: Map<string, RatingState>,
+    races: RaceResult[][],
+  ): Map<string, RatingState> {
+    return this.engine.ratePeriod(
+      races.map((raceResults) =>
+        raceResults.map((result) => ({
+          competitorId: result.competitorId,
+          rank12: result.rank12,
+          score: result.score,
+          team: result.team,
+          state: periodStartRatings.get(result.competitorId)!,
+        })),
+      ),
+    );
+  }
+
   /**
    * Calculate conservative score for a competitor
    * Conservative score = rating - 2 * RD
@@ -113,13 +99,52 @@ export class RatingCalculationService {
   }
 
   /**
-   * Get default rating values for a new competitor
+   * Apply the season soft reset (75/25) to a rating state
+   * Must stay in sync with CompetitorRepository.resetMonthlyStats
+   *
+   * @param state - Rating state at the end of the previous season
+   */
+  applySeasonSoftReset(state: RatingState): RatingState {
+    return this.engine.applySeasonReset(state);
+  }
+
+  /**
+   * Apply the RD increase of a rating period without any race
+   * (RD_DECAY_CONFIG)
+   *
+   * @param state - Rating state at the end of the previous period
+   */
+  applyIdlePeriod(state: RatingState): RatingState {
+    return this.engine.applyIdlePeriod(state);
+  }
+
+  /**
+   * Composite rating across rating pools, each pool weighted by its
+   * number of races (RD and volatility are averaged the same way)
+   *
+   * @param pools - Ratings of one competitor in each pool
+   * @returns null if the competitor has no race in any pool
    */
-  getDefaultRatings(): { rating: number; rd: number; vol: number } {
+  calculateCompositeRating(
+    pools: Array<RatingState & { raceCount: number }>,
+  ): RatingState | null {
+    const totalRaces = pools.reduce((sum, p) => sum + p.raceCount, 0);
+    if (totalRaces === 0) return null;
+
+    const weighted = (value: (p: RatingState) => number) =>
+      pools.reduce((sum, p) => sum + value(p) * p.raceCount, 0) / totalRaces;
+
     return {
-      rating: this.DEFAULT_RATING,
-      rd: this.DEFAULT_RD,
-      vol: this.DEFAULT_VOL,
+      rating: weighted((p) => p.rating),
+      rd: Math.sqrt(weighted((p) => p.rd * p.rd)),
+      vol: weighted((p) => p.vol),
     };
   }
+
+  /**
+   * Get default rating values for a new competitor
+   */
+  getDefaultRatings(): RatingState {
+    return this.engine.createState();
+  }
 }
@@ -0,0 +1,139 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { And, EntityManager, LessThan, MoreThanOrEqual } from 'typeorm';
+import {
+  RatingCalculationService,
+  RatingState,
+} from './rating-calculation.service';
+import {
+  getRatingPeriodEnd,
+  getRatingPeriodStart,
+} from './utils/rating-periods';
+import { GLOBAL_POOL } from './config/rating-pools.config';
+import { Competitor } from '../competitors/competitor.entity';
+import { CompetitorEloSnapshot } from '../competitors/entities/competitor-elo-snapshot.entity';
+import { RaceEvent } from '../races/race-event.entity';
+
+/**
+ * Global ratings in 'period' mode (see RATING_PERIOD_CONFIG)
+ *
+ * - calculateProvisionalRatings(): live ratings after a race, the open
+ *   period being rated with the races so far
+ * - recordPeriodEnd(): ELO snapshots marking the end of a closed period
+ *
+ * The races of a competitor's period are always rated from their rating
+ * at the start of the period: the ratingBefore of their first race in
+ * the period, or their current rating if they have not raced yet.
+ */
+@Injectable()
+export class RatingPeriodService {
+  private readonly logger = new Logger(RatingPeriodService.name);
+
+  constructor(
+    private readonly ratingCalculationService: RatingCalculationService,
+  ) {}
+
+  /**
+   * Provisional ratings of the participants of a race
+   *
+   * @param em - Entity manager of the race transaction (race already saved)
+   * @param raceDate - Date of the race
+   * @param competitors - Participants, with their ratings before the race
+   */
+  async calculateProvisionalRatings(
+    em: EntityManager,
+    raceDate: Date,
+    competitors: Competitor[],
+  ): Promise<Map<string, RatingState>> {
+    const participantIds = new Set(competitors.map((c) => c.id));
+
+    const races = await em.find(RaceEvent, {
+      where: {
+        date: And(
+          MoreThanOrEqual(getRatingPeriodStart(raceDate)),
+          LessThan(getRatingPeriodEnd(raceDate)),
+        ),
+      },
+      relations: ['results'],
+      order: { date: 'ASC', id: 'ASC' },
+    });
+    // Other races don't change the participants' ratings
+    const periodRaces = races.filter((race) =>
+      race.results.some((r) => participantIds.has(r.competitorId)),
+    );
+
+    const periodStartRatings = new Map<string, RatingState>();
+    for (const race of periodRaces) {
+      for (const result of race.results) {
+        if (
+          periodStartRatings.has(result.competitorId) ||
+          result.ratingBefore == null ||
+          result.rdBefore == null ||
+          result.volBefore == null
+        ) {
+          continue;
+        }
+        periodStartRatings.set(result.competitorId, {
+          rating: result.ratingBefore,
+          rd: result.rdBefore,
+          vol: result.volBefore,
+        });
+      }
+    }
+    for (const competitor of competitors) {
+      if (periodStartRatings.has(competitor.id)) continue;
+      periodStartRatings.set(competitor.id, {
+        rating: competitor.rating,
+        rd: competitor.rd,
+        vol: competitor.vol,
+      });
+    }
+
+    const periodRatings =
+      this.ratingCalculationService.calculateRatingsForPeriod(
+        periodStartRatings,
+        periodRaces.map((race) => race.results),
+      );
+
+    this.logger.log(
+      `Provisional ratings from ${periodRaces.length} races of the period for ${competitors.length} competitors`,
+    );
+
+    return new Map(competitors.map((c) => [c.id, periodRatings.get(c.id)!]));
+  }
+
+  /**
+   * Snapshot every competitor's rating at the end of a rating period,
+   * flagged with the period boundary. Idempotent.
+   *
+   * @param em - Transaction entity manager
+   * @param periodEnd - End of the closed period (UTC midnight)
+   */
+  async recordPeriodEnd(em: EntityManager, periodEnd: Date): Promise<number> {
+    const competitors = await em.find(Competitor);
+    if (competitors.length === 0) return 0;
+
+    await em
+      .createQueryBuilder()
+      .insert()
+      .into(CompetitorEloSnapshot)
+      .values(
+        competitors.map((c) => ({
+          competitorId: c.id,
+          pool: GLOBAL_POOL,
+          date: periodEnd.toISOString().split('T')[0],
+          rating: c.rating,
+          rd: c.rd,
+          vol: c.vol,
+          raceCount: c.raceCount,
+          ratingPeriodEnd: periodEnd,
+        })),
+      )
+      .orUpdate(
+        ['rating', 'rd', 'vol', 'raceCount', 'ratingPeriodEnd'],
+        ['competitorId', 'pool', 'date'],
+      )
+      .execute();
+
+    return competitors.length;
+  }
+}
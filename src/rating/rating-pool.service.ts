@@ -0,0 +1,383 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Not, Repository } from 'typeorm';
+import {
+  RatingCalculationService,
+  RatingState,
+} from './rating-calculation.service';
+import {
+  GLOBAL_POOL,
+  OVERALL_POOL,
+  RATING_POOLS_CONFIG,
+} from './config/rating-pools.config';
+import { getRacePools, isValidPool, parsePoolKey } from './utils/rating-pools';
+import { Competitor } from '../competitors/competitor.entity';
+import { CompetitorPoolRating } from '../competitors/entities/competitor-pool-rating.entity';
+import { CompetitorEloSnapshot } from '../competitors/entities/competitor-elo-snapshot.entity';
+import { getSeasonOfDate } from '../competitors/utils/competitor-history';
+import { RaceEvent } from '../races/race-event.entity';
+import { RaceResult } from '../races/race-result.entity';
+import { ValidationException } from '../common/exceptions';
+
+/**
+ * Rating of a competitor in a pool (or the composite "overall" rating)
+ */
+export interface PoolRatingState extends RatingState {
+  raceCount: number;
+  lastRaceDate: Date | null;
+}
+
+interface PoolCheckpoint extends RatingState {
+  asOf: Date;
+  raceCount: number;
+}
+
+/**
+ * Maintains the per-pool Glicko-2 ratings (see RATING_POOLS_CONFIG)
+ *
+ * - applyRace(): incremental update at race creation (race transaction)
+ * - rebuild(): full recompute after a race correction or deletion
+ * - softResetAll(): season soft reset, same formula as the global rating
+ */
+@Injectable()
+export class RatingPoolService {
+  private readonly logger = new Logger(RatingPoolService.name);
+
+  constructor(
+    @InjectRepository(CompetitorPoolRating)
+    private readonly poolRatingRepository: Repository<CompetitorPoolRating>,
+    private readonly ratingCalculationService: RatingCalculationService,
+  ) {}
+
+  /**
+   * Throw if a pool query parameter is neither global, overall nor a pool key
+   */
+  assertValidPool(pool: string): void {
+    if (!isValidPool(pool)) {
+      throw new ValidationException(
+        'pool',
+        `expected "${GLOBAL_POOL}", "${OVERALL_POOL}" or "<dimension>:<value>" (e.g. "engineClass:200cc")`,
+      );
+    }
+  }
+
+  /**
+   * Update the pool ratings of the race participants
+   *
+   * @param em - Entity manager of the race transaction
+   * @param race - Saved race, with results and metadata
+   */
+  async applyRace(em: EntityManager, race: RaceEvent): Promise<void> {
+    if (!RATING_POOLS_CONFIG.enabled) return;
+
+    const competitorIds = race.results.map((r) => r.competitorId);
+
+    for (const pool of getRacePools(race)) {
+      const existing = await em.find(CompetitorPoolRating, {
+        where: { pool, competitorId: In(competitorIds) },
+      });
+
+      const rows = competitorIds.map(
+        (competitorId) =>
+          existing.find((r) => r.competitorId === competitorId) ??
+          this.createRow(em, competitorId, pool),
+      );
+
+      this.rateRace(rows, race.results, race.date);
+      await em.save(CompetitorPoolRating, rows);
+    }
+  }
+
+  /**
+   * Recompute every pool rating from the full race history, and rewrite
+   * the pool ELO snapshots accordingly
+   *
+   * @param em - Transaction entity manager
+   */
+  async rebuild(em: EntityManager): Promise<void> {
+    if (!RATING_POOLS_CONFIG.enabled) return;
+
+    const races = await em.find(RaceEvent, {
+      relations: ['results'],
+      order: { date: 'ASC', id: 'ASC' },
+    });
+
+    const rows = new Map<string, CompetitorPoolRating>();
+    const checkpoints = new Map<string, PoolCheckpoint[]>();
+
+    for (const race of races) {
+      for (const pool of getRacePools(race)) {
+        const poolRows = race.results.map((result) => {
+          const key = `${pool}|${result.competitorId}`;
+          const row =
+            rows.get(key) ?? this.createRow(em, result.competitorId, pool);
+          rows.set(key, row);
+          if (row.lastRaceDate) {
+            Object.assign(
+              row,
+              this.softResetBetween(row, row.lastRaceDate, race.date),
+            );
+          }
+          return row;
+        });
+
+        this.rateRace(poolRows, race.results, race.date);
+
+        for (const row of poolRows) {
+          const key = `${pool}|${row.competitorId}`;
+          if (!checkpoints.has(key)) checkpoints.set(key, []);
+          checkpoints.get(key)!.push({
+            rating: row.rating,
+            rd: row.rd,
+            vol: row.vol,
+            raceCount: row.raceCount,
+            asOf: race.date,
+          });
+        }
+      }
+    }
+
+    // Apply the season resets that happened since each last race
+    const now = new Date();
+    for (const row of rows.values()) {
+      Object.assign(row, this.softResetBetween(row, row.lastRaceDate!, now));
+    }
+
+    await em.createQueryBuilder().delete().from(CompetitorPoolRating).execute();
+    await em.save(CompetitorPoolRating, [...rows.values()]);
+
+    await this.rewriteSnapshots(em, checkpoints);
+
+    this.logger.log(
+      `Rebuilt ${rows.size} pool ratings from ${races.length} races`,
+    );
+  }
+
+  /**
+   * Season soft reset (75/25) of every pool rating
+   * Same formula as CompetitorRepository.resetMonthlyStats
+   */
+  async softResetAll(): Promise<void> {
+    await this.poolRatingRepository
+      .createQueryBuilder()
+      .update(CompetitorPoolRating)
+      .set({
+        rating: () => '0.75 * "rating" + 0.25 * 1500',
+        rd: () =>
+          'LEAST(SQRT("rd" * "rd" + "vol" * "vol" * 173.7178 * 173.7178), 350)',
+      })
+      .execute();
+    this.logger.log('Soft reset (75/25) pool ratings');
+  }
+
+  /**
+   * Every pool rating (used for the daily ELO snapshots)
+   */
+  async findAll(): Promise<CompetitorPoolRating[]> {
+    return this.poolRatingRepository.find();
+  }
+
+  /**
+   * Pools with at least one rated competitor
+   */
+  async listPools(): Promise<
+    { pool: string; competitorCount: number; raceCount: number }[]
+  > {
+    const rows: { pool: string; competitorCount: string; raceCount: string }[] =
+      await this.poolRatingRepository
+        .createQueryBuilder('pr')
+        .select('pr.pool', 'pool')
+        .addSelect('COUNT(*)', 'competitorCount')
+        .addSelect('SUM(pr.raceCount)', 'raceCount')
+        .groupBy('pr.pool')
+        .orderBy('pr.pool', 'ASC')
+        .getRawMany();
+
+    return rows.map((row) => ({
+      pool: row.pool,
+      competitorCount: parseInt(row.competitorCount, 10),
+      raceCount: parseInt(row.raceCount, 10),
+    }));
+  }
+
+  /**
+   * Ratings of every competitor rated in a pool key or in "overall".
+   * The global pool is not stored here: read it from Competitor.
+   *
+   * @param pool - Pool key or OVERALL_POOL
+   */
+  async getPoolRatings(pool: string): Promise<Map<string, PoolRatingState>> {
+    this.assertValidPool(pool);
+
+    if (pool === OVERALL_POOL) return this.getOverallRatings();
+
+    const rows = await this.poolRatingRepository.find({ where: { pool } });
+    return new Map(rows.map((row) => [row.competitorId, this.toState(row)]));
+  }
+
+  /**
+   * Rating of a single competitor in a pool key or in "overall"
+   */
+  async getCompetitorPoolRating(
+    competitorId: string,
+    pool: string,
+  ): Promise<PoolRatingState | null> {
+    const ratings = await this.getPoolRatings(pool);
+    return ratings.get(competitorId) ?? null;
+  }
+
+  private async getOverallRatings(): Promise<Map<string, PoolRatingState>> {
+    const rows = await this.poolRatingRepository.find({
+      where: { pool: Not(GLOBAL_POOL) },
+    });
+
+    const byCompetitor = new Map<string, CompetitorPoolRating[]>();
+    for (const row of rows) {
+      if (
+        parsePoolKey(row.pool)?.dimension !==
+        RATING_POOLS_CONFIG.compositeDimension
+      ) {
+        continue;
+      }
+      if (!byCompetitor.has(row.competitorId)) {
+        byCompetitor.set(row.competitorId, []);
+      }
+      byCompetitor.get(row.competitorId)!.push(row);
+    }
+
+    const overall = new Map<string, PoolRatingState>();
+    for (const [competitorId, pools] of byCompetitor) {
+      const composite =
+        this.ratingCalculationService.calculateCompositeRating(pools);
+      if (!composite) continue;
+
+      const lastRaceDates = pools
+        .map((p) => p.lastRaceDate)
+        .filter((d): d is Date => d !== null);
+      overall.set(competitorId, {
+        ...composite,
+        raceCount: pools.reduce((sum, p) => sum + p.raceCount, 0),
+        lastRaceDate:
+          lastRaceDates.length > 0
+            ? new Date(Math.max(...lastRaceDates.map((d) => d.getTime())))
+            : null,
+      });
+    }
+
+    return overall;
+  }
+
+  /**
+   * Rewrite the pool snapshots: a snapshot dated D holds the state at
+   * the start of D. Snapshots taken before the first race are removed.
+   */
+  private async rewriteSnapshots(
+    em: EntityManager,
+    checkpoints: Map<string, PoolCheckpoint[]>,
+  ): Promise<void> {
+    const snapshots = await em.find(CompetitorEloSnapshot, {
+      where: { pool: Not(GLOBAL_POOL) },
+    });
+
+    const stale: CompetitorEloSnapshot[] = [];
+    const updated: CompetitorEloSnapshot[] = [];
+
+    for (const snapshot of snapshots) {
+      const cutoff = new Date(`${String(snapshot.date)}T00:00:00.000Z`);
+      const last = (
+        checkpoints.get(`${snapshot.pool}|${snapshot.competitorId}`) ?? []
+      )
+        .filter((c) => c.asOf < cutoff)
+        .pop();
+
+      if (!last) {
+        stale.push(snapshot);
+        continue;
+      }
+
+      Object.assign(snapshot, this.softResetBetween(last, last.asOf, cutoff));
+      snapshot.raceCount = last.raceCount;
+      updated.push(snapshot);
+    }
+
+    if (stale.length > 0) await em.remove(CompetitorEloSnapshot, stale);
+    await em.save(CompetitorEloSnapshot, updated);
+  }
+
+  /**
+   * Run Glicko-2 on the pool rows of the race participants (mutates rows)
+   */
+  private rateRace(
+    rows: CompetitorPoolRating[],
+    results: RaceResult[],
+    date: Date,
+  ): void {
+    const participants = rows.map((row) =>
+      Object.assign(new Competitor(), {
+        id: row.competitorId,
+        rating: row.rating,
+        rd: row.rd,
+        vol: row.vol,
+      }),
+    );
+
+    const updatedRatings =
+      this.ratingCalculationService.calculateRatingsForRace(
+        participants,
+        results,
+      );
+
+    for (const row of rows) {
+      Object.assign(row, updatedRatings.get(row.competitorId));
+      row.raceCount += 1;
+      row.lastRaceDate = date;
+    }
+  }
+
+  /**
+   * Apply the season soft resets between two dates
+   */
+  private softResetBetween(
+    state: RatingState,
+    from: Date,
+    to: Date,
+  ): RatingState {
+    let next: RatingState = {
+      rating: state.rating,
+      rd: state.rd,
+      vol: state.vol,
+    };
+    for (
+      let season = getSeasonOfDate(from);
+      season < getSeasonOfDate(to);
+      season++
+    ) {
+      next = this.ratingCalculationService.applySeasonSoftReset(next);
+    }
+    return next;
+  }
+
+  private createRow(
+    em: EntityManager,
+    competitorId: string,
+    pool: string,
+  ): CompetitorPoolRating {
+    return em.create(CompetitorPoolRating, {
+      competitorId,
+      pool,
+      ...this.ratingCalculationService.getDefaultRatings(),
+      raceCount: 0,
+      lastRaceDate: null,
+    });
+  }
+
+  private toState(row: CompetitorPoolRating): PoolRatingState {
+    return {
+      rating: row.rating,
+      rd: row.rd,
+      vol: row.vol,
+      raceCount: row.raceCount,
+      lastRaceDate: row.lastRaceDate,
+    };
+  }
+}
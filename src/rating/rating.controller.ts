@@ -0,0 +1,46 @@
+import {
+  Controller,
+  Post,
+  Body,
+  Query,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiTags, ApiOperation, ApiQuery, ApiResponse } from '@nestjs/swagger';
+import { Public } from '../auth/decorators/public.decorator';
+import { RatingBacktestService } from './rating-backtest.service';
+import { BacktestDto } from './dtos/backtest.dto';
+
+@ApiTags('rating')
+@Controller('rating')
+export class RatingController {
+  constructor(
+    private readonly ratingBacktestService: RatingBacktestService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Admin endpoint: replay every race through the rating engines and
+   * compare their predictive accuracy
+   * Protected by ADMIN_SECRET query parameter
+   */
+  @Public()
+  @Post('backtest')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Backtest rating engines on the race history',
+  })
+  @ApiQuery({ name: 'secret', required: true, type: String })
+  @ApiResponse({ status: 200, description: 'Backtest report, best first' })
+  @ApiResponse({ status: 403, description: 'Invalid admin secret' })
+  async backtest(@Query('secret') secret: string, @Body() dto: BacktestDto) {
+    const adminSecret = this.configService.get<string>('ADMIN_SECRET');
+    if (!adminSecret || secret !== adminSecret) {
+      throw new ForbiddenException('Invalid admin secret');
+    }
+
+    return this.ratingBacktestService.run(dto?.engines, dto?.warmupRaces);
+  }
+}
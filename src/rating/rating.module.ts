@@ -1,14 +1,41 @@
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { RatingCalculationService } from './rating-calculation.service';
+import { RatingPoolService } from './rating-pool.service';
+import { RatingPeriodService } from './rating-period.service';
+import { RdDecayService } from './rd-decay.service';
+import { RatingBacktestService } from './rating-backtest.service';
+import { RatingController } from './rating.controller';
+import { Competitor } from '../competitors/competitor.entity';
+import { CompetitorPoolRating } from '../competitors/entities/competitor-pool-rating.entity';
+import { RaceEvent } from '../races/race-event.entity';
 
 /**
  * Rating module
  *
- * Contains Glicko-2 rating calculation services.
- * Previously contained TrueSkill implementation which has been removed.
+ * Contains Glicko-2 rating calculation services, the per-pool ratings,
+ * the rating periods, the RD decay of inactive competitors and the
+ * rating engines backtest.
+ * Previously contained TrueSkill implementation which has been removed;
+ * TrueSkill now only exists as a backtest engine.
  */
 @Module({
-  providers: [RatingCalculationService],
-  exports: [RatingCalculationService],
+  imports: [
+    TypeOrmModule.forFeature([Competitor, CompetitorPoolRating, RaceEvent]),
+  ],
+  controllers: [RatingController],
+  providers: [
+    RatingCalculationService,
+    RatingPoolService,
+    RatingPeriodService,
+    RdDecayService,
+    RatingBacktestService,
+  ],
+  exports: [
+    RatingCalculationService,
+    RatingPoolService,
+    RatingPeriodService,
+    RdDecayService,
+  ],
 })
 export class RatingModule {}
@@ -0,0 +1,122 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Not, Repository } from 'typeorm';
+import {
+  RatingCalculationService,
+  RatingState,
+} from './rating-calculation.service';
+import { RD_DECAY_CONFIG } from './config/rd-decay.config';
+import { GLOBAL_POOL } from './config/rating-pools.config';
+import {
+  getIdlePeriodEnds,
+  getRatingPeriodStart,
+} from './utils/rating-periods';
+import { Competitor } from '../competitors/competitor.entity';
+import { CompetitorEloSnapshot } from '../competitors/entities/competitor-elo-snapshot.entity';
+
+type DecayableCompetitor = Pick<
+  Competitor,
+  'rating' | 'rd' | 'vol' | 'lastRaceDate' | 'rdDecayedThrough'
+>;
+
+/**
+ * RD decay of inactive competitors (see RD_DECAY_CONFIG)
+ *
+ * - applyPendingDecay(): persist the decay of the idle periods ended
+ *   since the last run, and record it on the day's ELO snapshot
+ * - getCurrentRating(): rating with the pending decay, without saving,
+ *   for readers that must not depend on the daily task having run
+ */
+@Injectable()
+export class RdDecayService {
+  private readonly logger = new Logger(RdDecayService.name);
+
+  constructor(
+    @InjectRepository(Competitor)
+    private readonly competitorRepository: Repository<Competitor>,
+    private readonly ratingCalculationService: RatingCalculationService,
+  ) {}
+
+  /**
+   * Rating of a competitor with the decay of the idle periods ended
+   * up to `now` and not applied yet
+   */
+  getCurrentRating(
+    competitor: DecayableCompetitor,
+    now: Date = new Date(),
+  ): RatingState {
+    let state: RatingState = {
+      rating: competitor.rating,
+      rd: competitor.rd,
+      vol: competitor.vol,
+    };
+    for (let i = 0; i < this.countPendingPeriods(competitor, now); i++) {
+      state = this.ratingCalculationService.applyIdlePeriod(state);
+    }
+    return state;
+  }
+
+  /**
+   * Apply the pending RD decay of every competitor. Idempotent: each
+   * idle period is only applied once (Competitor.rdDecayedThrough).
+   *
+   * @returns Number of competitors whose RD decayed
+   */
+  async applyPendingDecay(now: Date = new Date()): Promise<number> {
+    if (!RD_DECAY_CONFIG.enabled) return 0;
+
+    const periodEnd = getRatingPeriodStart(now);
+
+    return this.competitorRepository.manager.transaction(async (em) => {
+      const competitors = await em.find(Competitor, {
+        where: { lastRaceDate: Not(IsNull()) },
+      });
+
+      let decayed = 0;
+      for (const competitor of competitors) {
+        if (this.countPendingPeriods(competitor, now) === 0) continue;
+
+        const state = this.getCurrentRating(competitor, now);
+        await em.update(Competitor, competitor.id, {
+          rd: state.rd,
+          rdDecayedThrough: periodEnd,
+        });
+        await em
+          .createQueryBuilder()
+          .insert()
+          .into(CompetitorEloSnapshot)
+          .values({
+            competitorId: competitor.id,
+            pool: GLOBAL_POOL,
+            date: periodEnd.toISOString().split('T')[0],
+            rating: state.rating,
+            rd: state.rd,
+            vol: state.vol,
+            raceCount: competitor.raceCount,
+            rdInflation: state.rd - competitor.rd,
+          })
+          .orUpdate(['rd', 'rdInflation'], ['competitorId', 'pool', 'date'])
+          .execute();
+        decayed++;
+      }
+
+      this.logger.log(
+        `RD decay applied to ${decayed} competitors (period end: ${periodEnd.toISOString()})`,
+      );
+      return decayed;
+    });
+  }
+
+  private countPendingPeriods(
+    competitor: DecayableCompetitor,
+    now: Date,
+  ): number {
+    if (!RD_DECAY_CONFIG.enabled || !competitor.lastRaceDate) return 0;
+
+    return getIdlePeriodEnds(
+      new Date(competitor.lastRaceDate),
+      competitor.rdDecayedThrough,
+      getRatingPeriodStart(now),
+    ).length;
+  }
+}
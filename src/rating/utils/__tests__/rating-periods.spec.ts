@@ -0,0 +1,108 @@
+/**
+ * Tests for rating periods
+ *
+ * Focus on:
+ * - Period boundaries (UTC days)
+ * - Batching a period's races in one Glicko-2 update
+ * - Idle periods and their RD decay
+ */
+
+import {
+  getIdlePeriodEnds,
+  getRatingPeriodEnd,
+  getRatingPeriodStart,
+  groupByRatingPeriod,
+} from '../rating-periods';
+import { Glicko2Engine } from '../../engines';
+
+describe('rating periods', () => {
+  describe('getRatingPeriodStart / getRatingPeriodEnd', () => {
+    it('should bound a date by UTC midnights', () => {
+      const date = new Date('2026-03-10T12:34:56.000Z');
+
+      expect(getRatingPeriodStart(date).toISOString()).toBe(
+        '2026-03-10T00:00:00.000Z',
+      );
+      expect(getRatingPeriodEnd(date).toISOString()).toBe(
+        '2026-03-11T00:00:00.000Z',
+      );
+    });
+  });
+
+  describe('groupByRatingPeriod', () => {
+    it('should group sorted races by day', () => {
+      const races = [
+        { id: 1, date: new Date('2026-03-10T12:00:00.000Z') },
+        { id: 2, date: new Date('2026-03-10T23:59:59.000Z') },
+        { id: 3, date: new Date('2026-03-11T00:00:00.000Z') },
+      ];
+
+      expect(
+        groupByRatingPeriod(races).map((period) => period.map((r) => r.id)),
+      ).toEqual([[1, 2], [3]]);
+    });
+  });
+
+  describe('getIdlePeriodEnds', () => {
+    const lastRace = new Date('2026-03-10T12:00:00.000Z');
+    const ends = (after: Date | null, until: string) =>
+      getIdlePeriodEnds(lastRace, after, new Date(until)).map((d) =>
+        d.toISOString(),
+      );
+
+    it('should not count the day of the last race', () => {
+      expect(ends(null, '2026-03-11T00:00:00.000Z')).toEqual([]);
+    });
+
+    it('should return the end of every idle day since the last race', () => {
+      expect(ends(null, '2026-03-13T08:00:00.000Z')).toEqual([
+        '2026-03-12T00:00:00.000Z',
+        '2026-03-13T00:00:00.000Z',
+      ]);
+    });
+
+    it('should skip periods already accounted for', () => {
+      expect(
+        ends(new Date('2026-03-12T00:00:00.000Z'), '2026-03-13T00:00:00.000Z'),
+      ).toEqual(['2026-03-13T00:00:00.000Z']);
+    });
+  });
+
+  describe('Glicko2Engine.applyIdlePeriod', () => {
+    const engine = new Glicko2Engine();
+
+    it('should inflate RD with volatility, up to the default RD', () => {
+      const state = { rating: 1600, rd: 50, vol: 0.06 };
+      const decayed = engine.applyIdlePeriod(state);
+
+      expect(decayed.rating).toBe(1600);
+      expect(decayed.rd).toBeCloseTo(
+        Math.sqrt(50 * 50 + (0.06 * 173.7178) ** 2),
+      );
+      expect(engine.applyIdlePeriod({ ...state, rd: 349.9 }).rd).toBe(350);
+    });
+  });
+
+  describe('Glicko2Engine.ratePeriod', () => {
+    const engine = new Glicko2Engine();
+    const race = (state = engine.createState()) => [
+      { competitorId: 'a', rank12: 1, score: 15, team: null, state },
+      { competitorId: 'b', rank12: 2, score: 12, team: null, state },
+    ];
+
+    it('should match rate() for a single race', () => {
+      expect(engine.ratePeriod([race()])).toEqual(engine.rate(race()));
+    });
+
+    it('should not depend on the order of the races in the period', () => {
+      const upset = [
+        { ...race()[0], rank12: 2 },
+        { ...race()[1], rank12: 1 },
+      ];
+
+      const batched = engine.ratePeriod([race(), race(), upset]);
+      expect(engine.ratePeriod([upset, race(), race()])).toEqual(batched);
+      expect(batched.get('a')!.rating).toBeGreaterThan(1500);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Tests for rating pool keys
+ *
+ * Focus on:
+ * - Pools a race counts for, depending on its metadata
+ * - Validation of the pool query parameter
+ */
+
+import { getRacePools, isValidPool, parsePoolKey } from '../rating-pools';
+import { EngineClass, RaceMode } from '../../../races/race-event.entity';
+
+describe('rating pools', () => {
+  describe('getRacePools', () => {
+    it('should return one pool per enabled dimension with metadata', () => {
+      const pools = getRacePools(
+        {
+          engineClass: EngineClass.CC_200,
+          mode: RaceMode.VS_RACE,
+          track: 'Rainbow Road',
+        },
+        ['engineClass', 'mode'],
+      );
+
+      expect(pools).toEqual(['engineClass:200cc', 'mode:vs_race']);
+    });
+
+    it('should skip dimensions the race has no metadata for', () => {
+      const pools = getRacePools(
+        { engineClass: null, mode: RaceMode.BATTLE, track: null },
+        ['engineClass', 'mode'],
+      );
+
+      expect(pools).toEqual(['mode:battle']);
+    });
+
+    it('should normalize track names', () => {
+      const pools = getRacePools(
+        { engineClass: null, mode: null, track: '  Rainbow Road ' },
+        ['track'],
+      );
+
+      expect(pools).toEqual(['track:rainbow road']);
+    });
+  });
+
+  describe('parsePoolKey / isValidPool', () => {
+    it('should parse a valid pool key', () => {
+      expect(parsePoolKey('engineClass:150cc')).toEqual({
+        dimension: 'engineClass',
+        value: '150cc',
+      });
+    });
+
+    it('should reject unknown dimensions and enum values', () => {
+      expect(parsePoolKey('cup:flower')).toBeNull();
+      expect(parsePoolKey('engineClass:300cc')).toBeNull();
+      expect(parsePoolKey('mode:')).toBeNull();
+      expect(parsePoolKey('battle')).toBeNull();
+    });
+
+    it('should accept global and overall', () => {
+      expect(isValidPool('global')).toBe(true);
+      expect(isValidPool('overall')).toBe(true);
+      expect(isValidPool('mode:grand_prix')).toBe(true);
+      expect(isValidPool('nope')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { RATING_PERIOD_CONFIG } from '../config/rating-period.config';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether races are batched per rating period (see RATING_PERIOD_CONFIG)
+ */
+export function isPeriodMode(): boolean {
+  return RATING_PERIOD_CONFIG.mode === 'period';
+}
+
+/**
+ * Start of the rating period containing a date (UTC midnight)
+ */
+export function getRatingPeriodStart(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+/**
+ * End of the rating period containing a date (next UTC midnight, exclusive)
+ */
+export function getRatingPeriodEnd(date: Date): Date {
+  return new Date(getRatingPeriodStart(date).getTime() + DAY_MS);
+}
+
+/**
+ * Ends of the rating periods a competitor sat out, after `after`
+ * (exclusive, null for no bound) and up to `until` (inclusive). Every
+ * period after the one of their last race is idle.
+ *
+ * @param lastRaceDate - Date of the competitor's last race
+ * @param after - End of the last period already accounted for
+ * @param until - Last period end to consider
+ */
+export function getIdlePeriodEnds(
+  lastRaceDate: Date,
+  after: Date | null,
+  until: Date,
+): Date[] {
+  // The period after the race's one ends two period lengths after its start
+  const firstIdleEnd =
+    getRatingPeriodStart(lastRaceDate).getTime() + 2 * DAY_MS;
+  const start = after
+    ? Math.max(firstIdleEnd, getRatingPeriodStart(after).getTime() + DAY_MS)
+    : firstIdleEnd;
+
+  const ends: Date[] = [];
+  for (let end = start; end <= until.getTime(); end += DAY_MS) {
+    ends.push(new Date(end));
+  }
+  return ends;
+}
+
+/**
+ * Split races sorted by date into their rating periods, in order
+ */
+export function groupByRatingPeriod<T extends { date: Date }>(
+  races: T[],
+): T[][] {
+  const periods: T[][] = [];
+  let currentStart: number | null = null;
+
+  for (const race of races) {
+    const start = getRatingPeriodStart(race.date).getTime();
+    if (start !== currentStart) {
+      periods.push([]);
+      currentStart = start;
+    }
+    periods[periods.length - 1].push(race);
+  }
+
+  return periods;
+}
@@ -0,0 +1,68 @@
+import {
+  RaceEvent,
+  RaceMode,
+  EngineClass,
+} from '../../races/race-event.entity';
+import {
+  GLOBAL_POOL,
+  OVERALL_POOL,
+  RATING_POOLS_CONFIG,
+  RatingPoolDimension,
+} from '../config/rating-pools.config';
+
+const DIMENSION_VALUES: Record<RatingPoolDimension, string[] | null> = {
+  engineClass: Object.values(EngineClass),
+  mode: Object.values(RaceMode),
+  track: null, // free text
+};
+
+/**
+ * Build the key of a pool, e.g. "engineClass:200cc"
+ */
+export function buildPoolKey(
+  dimension: RatingPoolDimension,
+  value: string,
+): string {
+  return `${dimension}:${dimension === 'track' ? value.trim().toLowerCase() : value}`;
+}
+
+/**
+ * Pools a race counts for, from its metadata and the enabled dimensions
+ */
+export function getRacePools(
+  race: Pick<RaceEvent, RatingPoolDimension>,
+  dimensions: RatingPoolDimension[] = RATING_POOLS_CONFIG.dimensions,
+): string[] {
+  return dimensions
+    .filter((dimension) => race[dimension])
+    .map((dimension) => buildPoolKey(dimension, race[dimension]!));
+}
+
+/**
+ * Split a pool key into dimension and value
+ * @returns null if the key is not a valid pool key
+ */
+export function parsePoolKey(
+  pool: string,
+): { dimension: RatingPoolDimension; value: string } | null {
+  const separator = pool.indexOf(':');
+  if (separator <= 0) return null;
+
+  const dimension = pool.slice(0, separator) as RatingPoolDimension;
+  const value = pool.slice(separator + 1);
+  if (!(dimension in DIMENSION_VALUES) || !value) return null;
+
+  const allowed = DIMENSION_VALUES[dimension];
+  if (allowed && !allowed.includes(value)) return null;
+
+  return { dimension, value };
+}
+
+/**
+ * Whether a pool parameter is global, overall or a valid pool key
+ */
+export function isValidPool(pool: string): boolean {
+  return (
+    pool === GLOBAL_POOL || pool === OVERALL_POOL || parsePoolKey(pool) !== null
+  );
+}
@@ -1,5 +1,17 @@
-import { Controller, Get, Param, NotFoundException } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
 import { SeasonsService } from './seasons.service';
 import { Public } from '../auth/decorators/public.decorator';
 
@@ -55,17 +67,25 @@ export class SeasonsController {
     description: 'Season number (1-13)',
     example: '2',
   })
+  @ApiQuery({
+    name: 'leagueId',
+    required: false,
+    description: 'Bettor highlights among the members of a private league',
+  })
   @ApiResponse({
     status: 200,
     description: 'Season highlights (perfect scores, upsets, streaks, etc.)',
   })
+  @ApiResponse({ status: 404, description: 'League not found' })
   async getSeasonHighlights(
     @Param('year') year: string,
     @Param('month') month: string,
+    @Query('leagueId') leagueId?: string,
   ) {
     return await this.seasonsService.getSeasonHighlights(
       parseInt(month),
       parseInt(year),
+      leagueId,
     );
   }
 
@@ -9,6 +9,7 @@ import { BettingWeek } from '../betting/entities/betting-week.entity';
 import { Bet } from '../betting/entities/bet.entity';
 import { BetPick } from '../betting/entities/bet-pick.entity';
 import { BettorRanking } from '../betting/entities/bettor-ranking.entity';
+import { BettingLeagueMember } from '../betting/entities/betting-league-member.entity';
 
 @Module({
   imports: [
@@ -20,6 +21,7 @@ import { BettorRanking } from '../betting/entities/bettor-ranking.entity';
       Bet,
       BetPick,
       BettorRanking,
+      BettingLeagueMember,
     ]),
   ],
   controllers: [SeasonsController],
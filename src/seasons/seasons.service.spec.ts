@@ -10,6 +10,7 @@ import { BettingWeek } from '../betting/entities/betting-week.entity';
 import { Bet } from '../betting/entities/bet.entity';
 import { BetPick } from '../betting/entities/bet-pick.entity';
 import { BettorRanking } from '../betting/entities/bettor-ranking.entity';
+import { BettingLeagueMember } from '../betting/entities/betting-league-member.entity';
 
 describe('SeasonsService', () => {
   let service: SeasonsService;
@@ -92,6 +93,12 @@ describe('SeasonsService', () => {
             find: jest.fn(),
           },
         },
+        {
+          provide: getRepositoryToken(BettingLeagueMember),
+          useValue: {
+            find: jest.fn(),
+          },
+        },
       ],
     }).compile();
 
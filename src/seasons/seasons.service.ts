@@ -1,4 +1,4 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { In, Repository, QueryRunner, Between } from 'typeorm';
 import { SeasonArchive } from './entities/season-archive.entity';
@@ -8,6 +8,7 @@ import { BettingWeek } from '../betting/entities/betting-week.entity';
 import { Bet } from '../betting/entities/bet.entity';
 import { BetPick } from '../betting/entities/bet-pick.entity';
 import { BettorRanking } from '../betting/entities/bettor-ranking.entity';
+import { BettingLeagueMember } from '../betting/entities/betting-league-member.entity';
 import { RaceEvent } from '../races/race-event.entity';
 import { SeasonUtils } from '../betting/utils/season-utils';
 import { WeekUtils } from '../betting/services/week-manager.service';
@@ -51,6 +52,8 @@ export class SeasonsService {
     private readonly betPickRepository: Repository<BetPick>,
     @InjectRepository(BettorRanking)
     private readonly bettorRankingRepository: Repository<BettorRanking>,
+    @InjectRepository(BettingLeagueMember)
+    private readonly leagueMemberRepository: Repository<BettingLeagueMember>,
   ) {}
 
   /**
@@ -348,11 +351,18 @@ export class SeasonsService {
 
   /**
    * Get season highlights for the "Wrapped" recap
+   *
+   * @param leagueId - Private league: bettor highlights among its members
+   *   only (competitor highlights are unchanged)
    */
   async getSeasonHighlights(
     seasonNumber: number,
     year: number,
+    leagueId?: string,
   ): Promise<SeasonHighlights> {
+    const memberIds = leagueId ? await this.getLeagueMemberIds(leagueId) : null;
+    const bettorFilter = memberIds ? 'user.id IN (:...memberIds)' : 'TRUE';
+
     // Perfect scores (60 pts)
     const perfectScores = await this.betRepository
       .createQueryBuilder('bet')
@@ -369,6 +379,7 @@ export class SeasonsService {
       })
       .andWhere('bet.pointsEarned = 60')
       .andWhere('bet.isFinalized = true')
+      .andWhere(bettorFilter, { memberIds })
       .orderBy('week.seasonWeekNumber', 'ASC')
       .getRawMany();
 
@@ -388,6 +399,7 @@ export class SeasonsService {
         year,
       })
       .andWhere('bet.isFinalized = true')
+      .andWhere(bettorFilter, { memberIds })
       .groupBy('bet.id')
       .addGroupBy('user.firstName')
       .addGroupBy('user.lastName')
@@ -416,6 +428,7 @@ export class SeasonsService {
       })
       .andWhere('bet.isFinalized = true')
       .andWhere('bet.pointsEarned IS NOT NULL')
+      .andWhere(bettorFilter, { memberIds })
       .orderBy('bet.pointsEarned', 'DESC')
       .limit(1)
       .getRawOne();
@@ -438,6 +451,7 @@ export class SeasonsService {
         year,
       })
       .andWhere('pick.isCorrect = true')
+      .andWhere(bettorFilter, { memberIds })
       .orderBy('pick.oddAtBet', 'DESC')
       .limit(1)
       .getRawOne();
@@ -454,6 +468,7 @@ export class SeasonsService {
         'ranking."seasonNumber" = :seasonNumber AND ranking.year = :year',
         { seasonNumber, year },
       )
+      .andWhere(bettorFilter, { memberIds })
       .orderBy('ranking.weeklyParticipationStreak', 'DESC')
       .limit(1)
       .getRawOne();
@@ -574,6 +589,21 @@ export class SeasonsService {
     };
   }
 
+  /**
+   * User IDs of the members of a league
+   */
+  private async getLeagueMemberIds(leagueId: string): Promise<string[]> {
+    const members = await this.leagueMemberRepository.find({
+      where: { leagueId },
+      select: ['userId'],
+    });
+    // A league always has a member (deleted with the last one)
+    if (members.length === 0) {
+      throw new NotFoundException(`League with ID ${leagueId} not found`);
+    }
+    return members.map((m) => m.userId);
+  }
+
   /**
    * Generate season name
    */
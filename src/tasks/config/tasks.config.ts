@@ -90,6 +90,52 @@ export const BETTING_CRON_SCHEDULES = {
    * Saves current rating/rd/vol for ELO history chart
    */
   SNAPSHOT_COMPETITOR_ELO: '0 1 0 * * *',
+
+  /**
+   * Close the rating period of the previous day ('period' rating mode)
+   * Every day at 00:00:30 UTC (before SNAPSHOT_COMPETITOR_ELO and the
+   * season soft reset of Monday 00:05)
+   */
+  CLOSE_RATING_PERIOD: '30 0 0 * * *',
+
+  /**
+   * Inflate the RD of competitors idle during the previous day
+   * Every day at 00:00:45 UTC (after CLOSE_RATING_PERIOD, before
+   * SNAPSHOT_COMPETITOR_ELO)
+   */
+  APPLY_RD_DECAY: '45 0 0 * * *',
+
+  /**
+   * Open the daily podium round
+   * Every weekday (Mon-Fri) at 07:00 UTC
+   */
+  OPEN_DAILY_ROUND: '0 0 7 * * 1-5',
+
+  /**
+   * Close the daily round to new bets
+   * Every weekday (Mon-Fri) at 11:30 UTC (the round's closesAt, see
+   * DAILY_BETTING_CONFIG; bets are refused past closesAt anyway)
+   */
+  CLOSE_DAILY_ROUND: '0 30 11 * * 1-5',
+
+  /**
+   * Settle the daily round on the day's races
+   * Every weekday (Mon-Fri) at 23:55 UTC (later races count for nothing)
+   */
+  SETTLE_DAILY_ROUND: '0 55 23 * * 1-5',
+
+  /**
+   * Apply the uncontested podium overrides past their objection window
+   * Every hour at :10 (see PODIUM_OVERRIDE_CONFIG)
+   */
+  APPLY_PODIUM_OVERRIDES: '0 10 * * * *',
+
+  /**
+   * Retry outbox events (race.created, ...)
+   * Every minute
+   * Re-dispatches events whose listeners failed or were never called
+   */
+  RETRY_OUTBOX_EVENTS: '0 * * * * *',
 };
 
 /**
@@ -111,6 +157,13 @@ export const TASK_EXECUTION_CONFIG = {
     bettingStreakWarningEarly: true,
     playStreakWarning: true,
     snapshotCompetitorElo: true,
+    closeRatingPeriod: true,
+    applyRdDecay: true,
+    openDailyRound: true,
+    closeDailyRound: true,
+    settleDailyRound: true,
+    applyPodiumOverrides: true,
+    retryOutboxEvents: true,
   },
 
   /**
@@ -142,6 +195,13 @@ export const TASK_DESCRIPTIONS = {
   bettingStreakWarningEarly: 'Betting streak warning (Monday 18:00)',
   playStreakWarning: 'Play streak warning (Mon-Fri 09:00)',
   snapshotCompetitorElo: 'Snapshot competitor ELO for history chart (Daily 00:01)',
+  closeRatingPeriod: 'Close the previous rating period (Daily 00:00:30)',
+  applyRdDecay: 'Inflate RD of inactive competitors (Daily 00:00:45)',
+  openDailyRound: 'Open the daily podium round (Mon-Fri 07:00)',
+  closeDailyRound: 'Close the daily podium round (Mon-Fri 11:30)',
+  settleDailyRound: 'Settle the daily podium round (Mon-Fri 23:55)',
+  applyPodiumOverrides: 'Apply uncontested podium overrides (Hourly :10)',
+  retryOutboxEvents: 'Retry pending outbox events (Every minute)',
 };
 
 /**
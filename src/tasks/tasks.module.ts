@@ -10,6 +10,9 @@ import { BettingModule } from '../betting/betting.module';
 import { CompetitorsModule } from '../competitors/competitors.module';
 import { SeasonsModule } from '../seasons/seasons.module';
 import { AchievementsModule } from '../achievements/achievements.module';
+import { OutboxModule } from '../outbox/outbox.module';
+import { RatingModule } from '../rating/rating.module';
+import { RacesModule } from '../races/races.module';
 
 @Module({
   imports: [
@@ -18,6 +21,9 @@ import { AchievementsModule } from '../achievements/achievements.module';
     CompetitorsModule,
     SeasonsModule,
     AchievementsModule,
+    OutboxModule,
+    RatingModule,
+    RacesModule,
   ],
   providers: [TasksService],
   exports: [TasksService],
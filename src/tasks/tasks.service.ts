@@ -11,12 +11,25 @@
  * - Sunday 20:00: Determine podium + finalize week + calculate points
  * - Sunday 20:03: Recalculate season rankings
  *
+ * Hourly Tasks:
+ * - :10: Apply the uncontested podium overrides past their objection window
+ *
+ * Daily Tasks:
+ * - 00:00:30: Close the previous rating period ('period' rating mode)
+ * - 00:00:45: Inflate the RD of inactive competitors
+ * - 00:01: Snapshot competitor ELO
+ * - Mon-Fri 07:00 / 11:30 / 23:55: Open, close and settle the daily round
+ *
+ * Frequent Tasks:
+ * - Every minute: Retry pending outbox events
+ *
  * Season transition (triggered by handleCreateWeek on first week of a 4-week season):
  * 1. Archive previous season
  * 2. Archive competitor monthly stats (ELO snapshot)
  * 3. Reset boost availability
  * 4. Reset monthly streaks
  * 5. Reset monthly stats (ELO + race counts)
+ * 6. Soft reset rating pools
  *
  * Design Principles:
  * - Robust error handling with retries
@@ -37,6 +50,8 @@ import { BettingFinalizerService } from '../betting/services/betting-finalizer.s
 import { SeasonUtils } from '../betting/utils/season-utils';
 import { RankingsService } from '../betting/services/rankings.service';
 import { OddsCalculatorService } from '../betting/services/odds-calculator.service';
+import { DailyBettingService } from '../betting/services/daily-betting.service';
+import { PodiumOverrideService } from '../betting/services/podium-override.service';
 import { CompetitorsService } from '../competitors/competitors.service';
 import { CompetitorRepository } from '../competitors/repositories/competitor.repository';
 import { CompetitorEloSnapshotRepository } from '../competitors/repositories/competitor-elo-snapshot.repository';
@@ -51,6 +66,15 @@ import { User } from '../users/user.entity';
 import { SeasonsService } from '../seasons/seasons.service';
 import { StreakTrackerService } from '../achievements/services/streak-tracker.service';
 import { StreakWarningService } from '../achievements/services/streak-warning.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { RatingPoolService } from '../rating/rating-pool.service';
+import { RdDecayService } from '../rating/rd-decay.service';
+import { RATING_POOLS_CONFIG } from '../rating/config/rating-pools.config';
+import {
+  getRatingPeriodStart,
+  isPeriodMode,
+} from '../rating/utils/rating-periods';
+import { RacesService } from '../races/races.service';
 import { ELIGIBILITY_RULES } from '../betting/config/odds-calculator.config';
 import {
   classifyCompetitor,
@@ -89,12 +113,18 @@ export class TasksService {
     private readonly bettingFinalizerService: BettingFinalizerService,
     private readonly rankingsService: RankingsService,
     private readonly oddsCalculatorService: OddsCalculatorService,
+    private readonly dailyBettingService: DailyBettingService,
+    private readonly podiumOverrideService: PodiumOverrideService,
     private readonly competitorsService: CompetitorsService,
     private readonly competitorRepo: CompetitorRepository,
     private readonly competitorEloSnapshotRepo: CompetitorEloSnapshotRepository,
     private readonly seasonsService: SeasonsService,
     private readonly streakTrackerService: StreakTrackerService,
     private readonly streakWarningService: StreakWarningService,
+    private readonly outboxService: OutboxService,
+    private readonly ratingPoolService: RatingPoolService,
+    private readonly racesService: RacesService,
+    private readonly rdDecayService: RdDecayService,
     @InjectRepository(Competitor)
     private readonly competitorRepository: Repository<Competitor>,
     @InjectRepository(CompetitorMonthlyStats)
@@ -251,6 +281,19 @@ export class TasksService {
         error.stack,
       );
     }
+
+    // 6. Soft reset rating pools (same 75/25 as the global rating)
+    if (RATING_POOLS_CONFIG.enabled) {
+      try {
+        await this.retryTask(() => this.ratingPoolService.softResetAll());
+        this.logger.log('✅ Rating pools reset successfully');
+      } catch (error) {
+        this.logger.error(
+          `❌ Failed to reset rating pools: ${error.message}`,
+          error.stack,
+        );
+      }
+    }
   }
 
   /**
@@ -356,10 +399,10 @@ export class TasksService {
         );
       }
 
-      // 2. Determine podium
-      const podium = await this.determinePodium(currentWeek);
+      // 2. Determine podium (and the full standing for market bets)
+      const standings = await this.determinePodium(currentWeek);
 
-      if (!podium) {
+      if (!standings) {
         this.logger.warn(
           'Could not determine podium (insufficient competitors) — cancelling week bets',
         );
@@ -368,16 +411,26 @@ export class TasksService {
         return;
       }
 
+      const podium = standings.slice(0, 3);
       this.logger.log(
         `Podium determined: [${podium[0].firstName} ${podium[0].lastName}, ${podium[1].firstName} ${podium[1].lastName}, ${podium[2].firstName} ${podium[2].lastName}]`,
       );
 
-      // 3. Finalize week with podium
-      await this.weekManagerService.finalizeWeek(currentWeek.id, [
+      // 3. Finalize week with podium (kept as the automatic podium, see
+      // PodiumOverrideService)
+      const podiumIds: [string, string, string] = [
         podium[0].id,
         podium[1].id,
         podium[2].id,
-      ]);
+      ];
+      await this.weekManagerService.finalizeWeek(
+        currentWeek.id,
+        podiumIds,
+        standings.map((c) => c.id),
+      );
+      await this.bettingWeekRepository.update(currentWeek.id, {
+        automaticPodium: podiumIds,
+      });
 
       // 4. Calculate points for all bets
       const result = await this.bettingFinalizerService.finalizeWeek(
@@ -400,7 +453,7 @@ export class TasksService {
       }
 
       this.logger.log(
-        `✅ Week finalized: ${result.processedBets} bets processed, ${result.totalPointsDistributed.toFixed(2)} points distributed`,
+        `✅ Week finalized: ${result.processedBets} bets and ${result.processedMarketBets} market bets processed, ${result.totalPointsDistributed.toFixed(2)} points distributed`,
       );
     } catch (error) {
       this.logger.error(
@@ -633,8 +686,23 @@ export class TasksService {
         count++;
       }
 
+      const poolRatings = RATING_POOLS_CONFIG.enabled
+        ? await this.ratingPoolService.findAll()
+        : [];
+      for (const poolRating of poolRatings) {
+        await this.competitorEloSnapshotRepo.upsertSnapshot({
+          competitorId: poolRating.competitorId,
+          pool: poolRating.pool,
+          date: today,
+          rating: poolRating.rating,
+          rd: poolRating.rd,
+          vol: poolRating.vol,
+          raceCount: poolRating.raceCount,
+        });
+      }
+
       this.logger.log(
-        `✅ ELO snapshots saved for ${count} competitors (date: ${today})`,
+        `✅ ELO snapshots saved for ${count} competitors and ${poolRatings.length} pool ratings (date: ${today})`,
       );
     } catch (error) {
       this.logger.error(
@@ -647,21 +715,282 @@ export class TasksService {
     }
   }
 
+  /* ==================== RATING PERIOD TASK ==================== */
+
+  /**
+   * Close the previous rating period
+   * Runs every day at 00:00:30 UTC, only in 'period' rating mode
+   * Rates the period's races as one Glicko-2 period and snapshots the
+   * ratings with the period boundary
+   */
+  @Cron(BETTING_CRON_SCHEDULES.CLOSE_RATING_PERIOD, {
+    name: 'close-rating-period',
+    timeZone: TASK_EXECUTION_CONFIG.timezone,
+  })
+  async handleCloseRatingPeriod(): Promise<void> {
+    if (!isPeriodMode()) return;
+
+    if (!TASK_EXECUTION_CONFIG.enabledTasks.closeRatingPeriod) {
+      this.logger.warn('Task "close-rating-period" is disabled');
+      return;
+    }
+
+    if (!this.acquireTaskLock('close-rating-period')) return;
+
+    this.logger.log(`🚀 Starting task: ${TASK_DESCRIPTIONS.closeRatingPeriod}`);
+
+    try {
+      const periodEnd = getRatingPeriodStart(new Date());
+      const count = await this.racesService.closeRatingPeriod(periodEnd);
+
+      this.logger.log(
+        `✅ Rating period closed at ${periodEnd.toISOString()} (${count} competitors)`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to close rating period: ${error.message}`,
+        error.stack,
+      );
+      await this.retryTask(() => this.handleCloseRatingPeriod());
+    } finally {
+      this.releaseTaskLock('close-rating-period');
+    }
+  }
+
+  /* ==================== RD DECAY TASK ==================== */
+
+  /**
+   * Inflate the RD of inactive competitors (daily)
+   * Runs every day at 00:00:45 UTC
+   * Glicko-2 pre-rating-period step for each day without a race,
+   * recorded on the day's ELO snapshot
+   */
+  @Cron(BETTING_CRON_SCHEDULES.APPLY_RD_DECAY, {
+    name: 'apply-rd-decay',
+    timeZone: TASK_EXECUTION_CONFIG.timezone,
+  })
+  async handleApplyRdDecay(): Promise<void> {
+    if (!TASK_EXECUTION_CONFIG.enabledTasks.applyRdDecay) {
+      this.logger.warn('Task "apply-rd-decay" is disabled');
+      return;
+    }
+
+    if (!this.acquireTaskLock('apply-rd-decay')) return;
+
+    this.logger.log(`🚀 Starting task: ${TASK_DESCRIPTIONS.applyRdDecay}`);
+
+    try {
+      const count = await this.rdDecayService.applyPendingDecay();
+      this.logger.log(`✅ RD decay applied to ${count} competitors`);
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to apply RD decay: ${error.message}`,
+        error.stack,
+      );
+      await this.retryTask(() => this.handleApplyRdDecay());
+    } finally {
+      this.releaseTaskLock('apply-rd-decay');
+    }
+  }
+
+  /**
+   * Retry pending outbox events
+   * Runs every minute
+   * No retryTask here: each event has its own attempts and backoff
+   */
+  @Cron(BETTING_CRON_SCHEDULES.RETRY_OUTBOX_EVENTS, {
+    name: 'retry-outbox-events',
+    timeZone: TASK_EXECUTION_CONFIG.timezone,
+  })
+  async handleRetryOutboxEvents(): Promise<void> {
+    if (!TASK_EXECUTION_CONFIG.enabledTasks.retryOutboxEvents) {
+      return;
+    }
+
+    if (!this.acquireTaskLock('retry-outbox-events')) return;
+
+    try {
+      const dispatched = await this.outboxService.retryPending();
+      if (dispatched > 0) {
+        this.logger.log(`✅ Re-dispatched ${dispatched} outbox events`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to retry outbox events: ${error.message}`,
+        error.stack,
+      );
+    } finally {
+      this.releaseTaskLock('retry-outbox-events');
+    }
+  }
+
+  /* ==================== DAILY ROUND TASKS ==================== */
+
+  /**
+   * Open today's daily podium round
+   * Runs every weekday (Mon-Fri) at 07:00 UTC
+   */
+  @Cron(BETTING_CRON_SCHEDULES.OPEN_DAILY_ROUND, {
+    name: 'open-daily-round',
+    timeZone: TASK_EXECUTION_CONFIG.timezone,
+  })
+  async handleOpenDailyRound(): Promise<void> {
+    if (!TASK_EXECUTION_CONFIG.enabledTasks.openDailyRound) {
+      this.logger.warn('Task "open-daily-round" is disabled');
+      return;
+    }
+
+    if (!this.acquireTaskLock('open-daily-round')) return;
+
+    this.logger.log(`🚀 Starting task: ${TASK_DESCRIPTIONS.openDailyRound}`);
+
+    try {
+      const round = await this.dailyBettingService.openRound();
+      if (round) {
+        this.logger.log(`✅ Daily round ${round.date} open`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to open daily round: ${error.message}`,
+        error.stack,
+      );
+      await this.retryTask(() => this.handleOpenDailyRound());
+    } finally {
+      this.releaseTaskLock('open-daily-round');
+    }
+  }
+
+  /**
+   * Close the daily round to new bets
+   * Runs every weekday (Mon-Fri) at 11:30 UTC
+   */
+  @Cron(BETTING_CRON_SCHEDULES.CLOSE_DAILY_ROUND, {
+    name: 'close-daily-round',
+    timeZone: TASK_EXECUTION_CONFIG.timezone,
+  })
+  async handleCloseDailyRound(): Promise<void> {
+    if (!TASK_EXECUTION_CONFIG.enabledTasks.closeDailyRound) {
+      this.logger.warn('Task "close-daily-round" is disabled');
+      return;
+    }
+
+    if (!this.acquireTaskLock('close-daily-round')) return;
+
+    this.logger.log(`🚀 Starting task: ${TASK_DESCRIPTIONS.closeDailyRound}`);
+
+    try {
+      const count = await this.dailyBettingService.closeRounds();
+      this.logger.log(`✅ ${count} daily round(s) closed`);
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to close daily round: ${error.message}`,
+        error.stack,
+      );
+      await this.retryTask(() => this.handleCloseDailyRound());
+    } finally {
+      this.releaseTaskLock('close-daily-round');
+    }
+  }
+
+  /**
+   * Settle the daily round + recalculate the season ranks
+   * Runs every weekday (Mon-Fri) at 23:55 UTC
+   */
+  @Cron(BETTING_CRON_SCHEDULES.SETTLE_DAILY_ROUND, {
+    name: 'settle-daily-round',
+    timeZone: TASK_EXECUTION_CONFIG.timezone,
+  })
+  async handleSettleDailyRound(): Promise<void> {
+    if (!TASK_EXECUTION_CONFIG.enabledTasks.settleDailyRound) {
+      this.logger.warn('Task "settle-daily-round" is disabled');
+      return;
+    }
+
+    if (!this.acquireTaskLock('settle-daily-round')) return;
+
+    this.logger.log(`🚀 Starting task: ${TASK_DESCRIPTIONS.settleDailyRound}`);
+
+    try {
+      const round = await this.dailyBettingService.settleRound();
+      if (!round) {
+        this.logger.log('No daily round to settle today');
+        return;
+      }
+
+      await this.bettingFinalizerService.recalculateRanks(
+        round.seasonNumber,
+        round.year,
+      );
+      this.logger.log(`✅ Daily round ${round.date} ${round.status}`);
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to settle daily round: ${error.message}`,
+        error.stack,
+      );
+      await this.retryTask(() => this.handleSettleDailyRound());
+    } finally {
+      this.releaseTaskLock('settle-daily-round');
+    }
+  }
+
+  /* ==================== PODIUM OVERRIDE TASK ==================== */
+
+  /**
+   * Apply the uncontested podium overrides past their objection window
+   * Runs every hour at :10
+   */
+  @Cron(BETTING_CRON_SCHEDULES.APPLY_PODIUM_OVERRIDES, {
+    name: 'apply-podium-overrides',
+    timeZone: TASK_EXECUTION_CONFIG.timezone,
+  })
+  async handleApplyPodiumOverrides(): Promise<void> {
+    if (!TASK_EXECUTION_CONFIG.enabledTasks.applyPodiumOverrides) {
+      return;
+    }
+
+    if (!this.acquireTaskLock('apply-podium-overrides')) return;
+
+    try {
+      const applied = await this.podiumOverrideService.applyDueOverrides();
+      if (applied > 0) {
+        this.logger.log(`✅ Applied ${applied} podium overrides`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to apply podium overrides: ${error.message}`,
+        error.stack,
+      );
+    } finally {
+      this.releaseTaskLock('apply-podium-overrides');
+    }
+  }
+
   /* ==================== HELPER METHODS ==================== */
 
   /**
-   * Determine the top 3 competitors for a week (podium)
+   * Determine the final standing of a week (podium first)
    *
    * Uses the same classification as the leaderboard:
+   * - RD includes the decay of idle days not applied yet (RdDecayService)
    * - confirmed = !provisional && !inactive
    * - Sort by conservative score (rating - 2*rd) descending
    * - Apply tie-breakers if needed
-   * - Return top 3 confirmed competitors
+   * - Return all confirmed competitors, null if fewer than 3
+   *
+   * Team races count through the ratings, where teammates are credited
+   * jointly (RatingCalculationService). A team only exists within one race,
+   * so the weekly podium stays individual.
    */
   private async determinePodium(
     week: BettingWeek,
   ): Promise<Competitor[] | null> {
-    const allCompetitors = await this.competitorRepository.find();
+    const allCompetitors = (await this.competitorRepository.find()).map((c) =>
+      Object.assign(
+        new Competitor(),
+        c,
+        this.rdDecayService.getCurrentRating(c),
+      ),
+    );
 
     // Filter to confirmed competitors only (same criteria as leaderboard)
     const confirmedCompetitors = allCompetitors.filter((c) => {
@@ -713,8 +1042,7 @@ export class TasksService {
       return 0;
     });
 
-    // Return top 3
-    return [scored[0].competitor, scored[1].competitor, scored[2].competitor];
+    return scored.map((s) => s.competitor);
   }
 
   /**
@@ -0,0 +1,56 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BettingWeek } from '../../betting/entities/betting-week.entity';
+import { EventsGateway } from '../events.gateway';
+import { WebSocketEventListener } from '../websocket-event-listener.service';
+
+describe('WebSocketEventListener', () => {
+  let listener: WebSocketEventListener;
+  let gateway: EventsGateway;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebSocketEventListener,
+        {
+          provide: EventsGateway,
+          useValue: {
+            broadcastRaceAnnouncement: jest.fn(),
+            emitStreakLost: jest.fn(),
+          },
+        },
+        {
+          provide: getRepositoryToken(BettingWeek),
+          useValue: { findOne: jest.fn().mockResolvedValue(null) },
+        },
+      ],
+    }).compile();
+
+    listener = module.get<WebSocketEventListener>(WebSocketEventListener);
+    gateway = module.get<EventsGateway>(EventsGateway);
+  });
+
+  describe('outbox events retried', () => {
+    it('should announce a race once', async () => {
+      await listener.handleRaceCreated({ race: { id: 'race-1' } });
+      await listener.handleRaceCreated({ race: { id: 'race-1' } });
+      await listener.handleRaceCreated({ race: { id: 'race-2' } });
+
+      expect(gateway.broadcastRaceAnnouncement).toHaveBeenCalledTimes(2);
+    });
+
+    it('should relay a lost play streak once', () => {
+      const payload = {
+        userId: 'user-1',
+        lostValue: 4,
+        lostAt: new Date('2026-01-05T00:00:00Z'),
+      };
+
+      listener.handlePlayStreakLost(payload);
+      listener.handlePlayStreakLost({ ...payload });
+
+      expect(gateway.emitStreakLost).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -239,6 +239,17 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
     }
   }
 
+  /**
+   * Emit live bet odd re-quoted on a changed lineup to specific user
+   */
+  emitLiveBetRequoted(userId: string, data: any) {
+    const socketId = this.userSockets.get(userId);
+    if (socketId) {
+      this.server.to(socketId).emit('liveBet:requoted', data);
+      this.logger.log(`Sent liveBet:requoted to user ${userId}`);
+    }
+  }
+
   /**
    * Emit live bet resolved to specific user
    */
@@ -6,11 +6,18 @@ import {
   BettingWeek,
   BettingWeekStatus,
 } from '../betting/entities/betting-week.entity';
+import { LiveBet } from '../live-betting/entities/live-bet.entity';
 import { EventsGateway } from './events.gateway';
 
+/**
+ * Keys of the outbox events already relayed, kept to skip a redelivery
+ */
+const RELAYED_OUTBOX_EVENTS_LIMIT = 500;
+
 @Injectable()
 export class WebSocketEventListener {
   private readonly logger = new Logger(WebSocketEventListener.name);
+  private readonly relayedOutboxEvents = new Set<string>();
 
   constructor(
     private readonly eventsGateway: EventsGateway,
@@ -18,6 +25,22 @@ export class WebSocketEventListener {
     private readonly bettingWeekRepository: Repository<BettingWeek>,
   ) {}
 
+  /**
+   * Remember an outbox event as relayed. The outbox re-runs every
+   * listener when one of them failed: returns false if this one was
+   * already relayed, so clients don't get it twice.
+   */
+  private markRelayed(key: string): boolean {
+    if (this.relayedOutboxEvents.has(key)) return false;
+
+    this.relayedOutboxEvents.add(key);
+    if (this.relayedOutboxEvents.size > RELAYED_OUTBOX_EVENTS_LIMIT) {
+      const [oldest] = this.relayedOutboxEvents;
+      this.relayedOutboxEvents.delete(oldest);
+    }
+    return true;
+  }
+
   /**
    * Listen to achievement unlocked events and relay to WebSocket
    */
@@ -100,6 +123,14 @@ export class WebSocketEventListener {
     lostAt: Date;
     missedDays?: string[];
   }) {
+    if (
+      !this.markRelayed(
+        `streak.play_lost:${payload.userId}:${String(payload.lostAt)}`,
+      )
+    ) {
+      return;
+    }
+
     this.logger.log(
       `Relaying play streak lost via WebSocket for user ${payload.userId} (was ${payload.lostValue})`,
     );
@@ -138,7 +169,9 @@ export class WebSocketEventListener {
    * Listen to race created events (broadcast to all)
    */
   @OnEvent('race.created')
-  async handleRaceCreated(payload: { race: any }) {
+  async handleRaceCreated(payload: { race: { id: string } }) {
+    if (!this.markRelayed(`race.created:${payload.race.id}`)) return;
+
     this.logger.log('Broadcasting race created event to all clients');
 
     let bettingOpen = false;
@@ -204,6 +237,21 @@ export class WebSocketEventListener {
       status: payload.liveBet.status,
       detectedCharacters: payload.liveBet.detectedCharacters,
       detectionExpiresAt: payload.liveBet.detectionExpiresAt,
+      oddAtBet: payload.liveBet.oddAtBet,
+    });
+  }
+
+  /**
+   * Listen to live bet re-quote events → ask bettor to accept the odd
+   */
+  @OnEvent('liveBet.requoted')
+  handleLiveBetRequoted(payload: { userId: string; liveBet: LiveBet }) {
+    this.logger.log(`Relaying liveBet:requoted to user ${payload.userId}`);
+    this.eventsGateway.emitLiveBetRequoted(payload.userId, {
+      liveBetId: payload.liveBet.id,
+      oddAtBet: payload.liveBet.oddAtBet,
+      quotedOdd: payload.liveBet.quotedOdd,
+      confirmedCompetitorIds: payload.liveBet.confirmedCompetitorIds,
     });
   }
 
@@ -211,7 +259,7 @@ export class WebSocketEventListener {
    * Listen to live bet resolved events → notify bettor + broadcast
    */
   @OnEvent('liveBet.resolved')
-  handleLiveBetResolved(payload: { userId: string; liveBet: any }) {
+  handleLiveBetResolved(payload: { userId: string; liveBet: LiveBet }) {
     this.logger.log(
       `Relaying liveBet:resolved to user ${payload.userId}`,
     );
@@ -220,6 +268,9 @@ export class WebSocketEventListener {
       status: payload.liveBet.status,
       pointsEarned: payload.liveBet.pointsEarned,
       competitorId: payload.liveBet.competitorId,
+      marketType: payload.liveBet.marketType,
+      marketPosition: payload.liveBet.marketPosition,
+      opponentCompetitorId: payload.liveBet.opponentCompetitorId,
       oddAtBet: payload.liveBet.oddAtBet,
     });
     this.eventsGateway.broadcastLiveBetResult({